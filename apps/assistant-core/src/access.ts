@@ -0,0 +1,426 @@
+import { logInfo, logWarn, nowIso } from "@assistant-core/src/logging";
+import { answerCallback, sendMessage } from "@assistant-core/src/messaging";
+import type { RelayTurnInput } from "@assistant-core/src/relay-turn";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type {
+  AccessOptions,
+  WorkerDeps,
+} from "@assistant-core/src/worker-types";
+import type {
+  AccessGrant,
+  AccessRole,
+  InboundCallback,
+  InboundMessage,
+} from "@delegate/domain";
+
+const ACCESS_CALLBACK_PATTERN = /^access:(approve|deny):(.+)$/;
+const REQUEST_PREVIEW_CHARS = 200;
+const ROLES: readonly AccessRole[] = ["owner", "member", "blocked"];
+
+const ACCESS_USAGE = [
+  "Usage: /access, or /access <chat|user> <id> <owner|member|blocked|revoke>",
+  "Owners have every tool plus /restart; members chat with read-only tools; blocked are ignored.",
+].join("\n");
+
+export type AccessDecision = {
+  decision: "approve" | "deny";
+  chatId: string;
+};
+
+type Target = { chatId: string; threadId: string | null };
+
+const enabled = (access: AccessOptions | undefined): access is AccessOptions =>
+  Boolean(access?.ownerUserIds.length);
+
+const reply = (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: Target,
+  text: string,
+  stage: string,
+): Promise<void> =>
+  sendMessage(
+    ctx,
+    deps.chatPort,
+    { chatId: target.chatId, threadId: target.threadId, text },
+    { action: "access", stage },
+  );
+
+/** Parse `access:approve:<chatId>` / `access:deny:<chatId>` callback data. */
+export const parseAccessCallback = (data: string): AccessDecision | null => {
+  const match = ACCESS_CALLBACK_PATTERN.exec(data);
+  return match
+    ? { decision: match[1] as AccessDecision["decision"], chatId: match[2]! }
+    : null;
+};
+
+/**
+ * The sender's role in a chat. Configured owners and their private chats are
+ * owners; otherwise a block on the user or chat wins, then the higher of the
+ * two grants. Returns `pending` for a chat awaiting a decision and null for
+ * one nobody has decided on. With access control off everyone is an owner.
+ */
+export const resolveRole = async (
+  deps: WorkerDeps,
+  access: AccessOptions | undefined,
+  subject: { chatId: string; userId?: string | null },
+): Promise<AccessRole | "pending" | null> => {
+  if (!enabled(access)) {
+    return "owner";
+  }
+  const { ownerUserIds } = access;
+  if (
+    (subject.userId && ownerUserIds.includes(subject.userId)) ||
+    ownerUserIds.includes(subject.chatId)
+  ) {
+    return "owner";
+  }
+
+  const store = deps.sessionStore;
+  if (!store?.getAccessGrant) {
+    return null;
+  }
+  const grants = await Promise.all([
+    store.getAccessGrant("chat", subject.chatId),
+    subject.userId ? store.getAccessGrant("user", subject.userId) : null,
+  ]);
+  const roles = grants.map((grant) => grant?.role);
+  for (const role of ["blocked", "owner", "member", "pending"] as const) {
+    if (roles.includes(role)) {
+      return role;
+    }
+  }
+  return null;
+};
+
+/** Members' turns run without tools that write files or run commands. */
+export const turnAccess = (
+  role: AccessRole,
+): Pick<RelayTurnInput, "toolAccess"> =>
+  role === "owner" ? {} : { toolAccess: "read_only" };
+
+const describeSender = (message: InboundMessage): string => {
+  if (!message.userId) {
+    return "an unknown sender";
+  }
+  return message.userName
+    ? `${message.userName} (user ${message.userId})`
+    : `user ${message.userId}`;
+};
+
+const preview = (text: string): string =>
+  text.length > REQUEST_PREVIEW_CHARS
+    ? `${text.slice(0, REQUEST_PREVIEW_CHARS - 1)}…`
+    : text;
+
+/**
+ * Park an unknown chat as pending and ask every owner, in their private chat,
+ * to approve or deny it. Owners who never opened a chat with the bot cannot
+ * be messaged; that is logged and the others are still asked.
+ */
+const requestAccess = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  message: InboundMessage,
+  access: AccessOptions,
+): Promise<void> => {
+  if (deps.sessionStore?.upsertAccessGrant) {
+    await deps.sessionStore.upsertAccessGrant({
+      kind: "chat",
+      subjectId: message.chatId,
+      role: "pending",
+      label: message.userName ?? null,
+      updatedAt: nowIso(),
+    });
+  }
+  logInfo("access.requested", {
+    chatId: message.chatId,
+    userId: message.userId ?? null,
+  });
+
+  const request = [
+    `🔐 Access request from ${describeSender(message)} in chat ${message.chatId}:`,
+    `“${preview(message.text)}”`,
+  ].join("\n");
+  for (const ownerId of access.ownerUserIds) {
+    try {
+      await sendMessage(
+        ctx,
+        deps.chatPort,
+        {
+          chatId: ownerId,
+          threadId: null,
+          text: request,
+          buttons: [
+            [
+              { label: "✅ Approve", data: `access:approve:${message.chatId}` },
+              { label: "❌ Deny", data: `access:deny:${message.chatId}` },
+            ],
+          ],
+        },
+        { action: "access", stage: "request", requestChatId: message.chatId },
+      );
+    } catch (error) {
+      logWarn("access.notify_failed", {
+        ownerId,
+        chatId: message.chatId,
+        error: String(error),
+      });
+    }
+  }
+
+  await reply(
+    ctx,
+    deps,
+    { chatId: message.chatId, threadId: message.threadId ?? null },
+    "Sorry, I only work in approved chats. I've asked the owner for access and will let you know here.",
+    "refused",
+  );
+};
+
+/**
+ * A scheduled turn runs only while its creator could still send it here, and
+ * never with more than the role they had when they set it up. Refusals are
+ * only logged: the chat may be one the assistant no longer talks in.
+ */
+const admitScheduled = (
+  message: InboundMessage,
+  role: AccessRole | "pending" | null,
+): AccessRole | null => {
+  if (role !== "owner" && role !== "member") {
+    logInfo("access.schedule_refused", {
+      chatId: message.chatId,
+      userId: message.userId ?? null,
+      role,
+    });
+    return null;
+  }
+  return role === "owner" && message.creatorRole === "owner"
+    ? "owner"
+    : "member";
+};
+
+/**
+ * Gate an inbound message. Returns the sender's role when the message may be
+ * handled, or null after refusing it: unknown chats are refused politely and
+ * the owners asked, pending ones reminded, blocked ones ignored. Scheduled
+ * turns are checked against the schedule's creator instead.
+ */
+export const admitMessage = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  message: InboundMessage,
+  access: AccessOptions | undefined,
+): Promise<AccessRole | null> => {
+  const role = await resolveRole(deps, access, message);
+  if (message.source === "schedule") {
+    return admitScheduled(message, role);
+  }
+  if (role === "owner" || role === "member") {
+    return role;
+  }
+  if (role === "blocked") {
+    logInfo("access.ignored", {
+      chatId: message.chatId,
+      userId: message.userId ?? null,
+    });
+    return null;
+  }
+  if (role === "pending") {
+    await reply(
+      ctx,
+      deps,
+      { chatId: message.chatId, threadId: message.threadId ?? null },
+      "Your access request is still waiting for an owner.",
+      "pending",
+    );
+    return null;
+  }
+  if (enabled(access)) {
+    await requestAccess(ctx, deps, message, access);
+  }
+  return null;
+};
+
+/** An owner's answer to an access request. */
+export const handleAccessDecision = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  callback: InboundCallback,
+  decision: AccessDecision,
+  access: AccessOptions | undefined,
+): Promise<void> => {
+  const store = deps.sessionStore;
+  if ((await resolveRole(deps, access, callback)) !== "owner") {
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      "Only an owner can decide access.",
+    );
+    return;
+  }
+  if (!store?.getAccessGrant || !store.upsertAccessGrant) {
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      "Access control is unavailable without a session store.",
+    );
+    return;
+  }
+
+  const current = await store.getAccessGrant("chat", decision.chatId);
+  if (current?.role !== "pending") {
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      `Already decided: chat ${decision.chatId} is ${current?.role ?? "revoked"}.`,
+    );
+    return;
+  }
+
+  const role = decision.decision === "approve" ? "member" : "blocked";
+  await store.upsertAccessGrant({
+    kind: "chat",
+    subjectId: decision.chatId,
+    role,
+    label: null,
+    updatedAt: nowIso(),
+  });
+  logInfo("access.decided", {
+    chatId: decision.chatId,
+    decidedBy: callback.userId ?? null,
+    role,
+  });
+
+  await answerCallback(
+    deps.chatPort,
+    callback,
+    role === "member" ? "Approved." : "Denied.",
+  );
+  await reply(
+    ctx,
+    deps,
+    { chatId: callback.chatId, threadId: callback.threadId ?? null },
+    role === "member"
+      ? `Chat ${decision.chatId} approved as a member.`
+      : `Chat ${decision.chatId} blocked.`,
+    "decided",
+  );
+  if (role === "member") {
+    await reply(
+      ctx,
+      deps,
+      { chatId: decision.chatId, threadId: null },
+      "An owner approved this chat. Go ahead — what can I help with?",
+      "approved",
+    );
+  }
+};
+
+const formatGrant = (grant: AccessGrant): string =>
+  [`${grant.kind} ${grant.subjectId}`, grant.role, grant.label]
+    .filter(Boolean)
+    .join(" · ");
+
+/** /access, or /access <chat|user> <id> <role|revoke> (owners only) */
+export const handleAccessCommand = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: Target,
+  role: AccessRole,
+  access: AccessOptions | undefined,
+  text: string,
+): Promise<void> => {
+  if (!enabled(access)) {
+    await reply(
+      ctx,
+      deps,
+      target,
+      "Access control is off: every chat has full access. Set ownerUserIds to turn it on.",
+      "disabled",
+    );
+    return;
+  }
+  if (role !== "owner") {
+    await reply(
+      ctx,
+      deps,
+      target,
+      "Only an owner can manage access.",
+      "denied",
+    );
+    return;
+  }
+  const store = deps.sessionStore;
+  if (
+    !store?.listAccessGrants ||
+    !store.upsertAccessGrant ||
+    !store.deleteAccessGrant
+  ) {
+    await reply(
+      ctx,
+      deps,
+      target,
+      "Access control is unavailable without a session store.",
+      "unavailable",
+    );
+    return;
+  }
+
+  const [, kind, subjectId, action] = text.trim().split(/\s+/);
+  if (kind === undefined) {
+    const grants = await store.listAccessGrants();
+    await reply(
+      ctx,
+      deps,
+      target,
+      [
+        "🔐 Access",
+        `Owners (config): ${access.ownerUserIds.join(", ")}`,
+        ...(grants.length > 0 ? grants.map(formatGrant) : ["No grants yet."]),
+      ].join("\n"),
+      "list",
+    );
+    return;
+  }
+
+  const normalizedAction = action?.toLowerCase();
+  if (
+    (kind !== "chat" && kind !== "user") ||
+    !subjectId ||
+    (normalizedAction !== "revoke" &&
+      !ROLES.includes(normalizedAction as AccessRole))
+  ) {
+    await reply(ctx, deps, target, ACCESS_USAGE, "usage");
+    return;
+  }
+
+  if (normalizedAction === "revoke") {
+    const removed = await store.deleteAccessGrant(kind, subjectId);
+    await reply(
+      ctx,
+      deps,
+      target,
+      removed
+        ? `Revoked ${kind} ${subjectId}.`
+        : `No grant for ${kind} ${subjectId}.`,
+      "revoke",
+    );
+    return;
+  }
+  await store.upsertAccessGrant({
+    kind,
+    subjectId,
+    role: normalizedAction as AccessRole,
+    label: null,
+    updatedAt: nowIso(),
+  });
+  logInfo("access.granted", { kind, subjectId, role: normalizedAction! });
+  await reply(
+    ctx,
+    deps,
+    target,
+    `${kind} ${subjectId} is now ${normalizedAction}.`,
+    "grant",
+  );
+};
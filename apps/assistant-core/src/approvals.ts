@@ -0,0 +1,245 @@
+import { resolve } from "node:path";
+import { turnAccess } from "@assistant-core/src/access";
+import {
+  logError,
+  logInfo,
+  logWarn,
+  nowIso,
+} from "@assistant-core/src/logging";
+import { answerCallback, sendMessage } from "@assistant-core/src/messaging";
+import { loadToolProfile, turnProfile } from "@assistant-core/src/profiles";
+import {
+  deliverRelayReply,
+  formatCostFooter,
+  type RelayTurnInput,
+  type RelayTurnResult,
+  runRelayTurn,
+} from "@assistant-core/src/relay-turn";
+import { markWorkItem } from "@assistant-core/src/work-items";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type {
+  WorkerDeps,
+  WorkerOptions,
+} from "@assistant-core/src/worker-types";
+import {
+  buildTopicKey,
+  loadActiveWorkspace,
+} from "@assistant-core/src/workspace";
+import type { AccessRole, InboundCallback } from "@delegate/domain";
+
+const APPROVE_PREFIX = "approve:";
+const DENY_PREFIX = "deny:";
+
+export type ApprovalDecision = {
+  decision: "approve" | "deny";
+  workItemId: string;
+};
+
+/** Parse `approve:<id>` / `deny:<id>` callback data. */
+export const parseApprovalCallback = (
+  data: string,
+): ApprovalDecision | null => {
+  if (data.startsWith(APPROVE_PREFIX)) {
+    const workItemId = data.slice(APPROVE_PREFIX.length);
+    return workItemId ? { decision: "approve", workItemId } : null;
+  }
+  if (data.startsWith(DENY_PREFIX)) {
+    const workItemId = data.slice(DENY_PREFIX.length);
+    return workItemId ? { decision: "deny", workItemId } : null;
+  }
+  return null;
+};
+
+/**
+ * Persist an execution proposal as a pending work item and ask the user to
+ * approve or deny it. Returns false when the session store cannot track work
+ * items, in which case the caller should deliver the reply as plain chat.
+ */
+export const presentProposal = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  input: RelayTurnInput,
+  result: RelayTurnResult,
+): Promise<boolean> => {
+  if (!deps.sessionStore?.createWorkItem) {
+    logWarn("approval.store_unavailable", {
+      chatId: input.chatId,
+      sessionKey: input.sessionKey,
+    });
+    return false;
+  }
+
+  await result.stream?.discard();
+  const { response } = result;
+  const createdAt = nowIso();
+  const workItemId = crypto.randomUUID();
+  await deps.sessionStore.createWorkItem({
+    id: workItemId,
+    topicKey: input.sessionKey,
+    chatId: input.chatId,
+    threadId: input.threadId,
+    status: "pending_approval",
+    requestText: input.text,
+    proposalText: response.replyText,
+    createdAt,
+    updatedAt: createdAt,
+  });
+
+  const costFooter = response.usage
+    ? formatCostFooter(response.usage, response.tier, response.provider)
+    : undefined;
+
+  await sendMessage(
+    ctx,
+    deps.chatPort,
+    {
+      chatId: input.chatId,
+      threadId: input.threadId,
+      text: `${response.replyText}\n\nApprove to run this, or deny to cancel.`,
+      buttons: [
+        [
+          { label: "✅ Approve", data: `${APPROVE_PREFIX}${workItemId}` },
+          { label: "❌ Deny", data: `${DENY_PREFIX}${workItemId}` },
+        ],
+      ],
+    },
+    {
+      action: "relay",
+      stage: "proposal",
+      attempt: result.attempt,
+      sessionKey: input.sessionKey,
+      workItemId,
+    },
+    costFooter,
+  );
+  logInfo("approval.requested", {
+    chatId: input.chatId,
+    sessionKey: input.sessionKey,
+    workItemId,
+  });
+  return true;
+};
+
+/**
+ * Apply the user's approve/deny decision to a pending proposal. Approval runs
+ * the execution turn with `pendingProposalWorkItemId` set, which releases the
+ * write tools the model adapter held back, limited to the tools of whoever
+ * pressed the button.
+ */
+export const handleApprovalDecision = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  callback: InboundCallback,
+  decision: ApprovalDecision,
+  role: AccessRole,
+  options: WorkerOptions = {},
+): Promise<void> => {
+  const store = deps.sessionStore;
+  const threadId = callback.threadId ?? null;
+  const item = store?.getWorkItem
+    ? await store.getWorkItem(decision.workItemId)
+    : null;
+
+  if (!store?.updateWorkItemStatus || !item) {
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      "This request is no longer available.",
+    );
+    return;
+  }
+
+  const nextStatus = decision.decision === "approve" ? "approved" : "denied";
+  const transitioned = await store.updateWorkItemStatus(
+    item.id,
+    nextStatus,
+    nowIso(),
+    "pending_approval",
+  );
+  if (!transitioned) {
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      item.status === "expired"
+        ? "This request has expired. Ask again if you still need it."
+        : "This request was already handled.",
+    );
+    return;
+  }
+
+  logInfo("approval.decided", {
+    chatId: callback.chatId,
+    workItemId: item.id,
+    decision: decision.decision,
+  });
+
+  if (decision.decision === "deny") {
+    await answerCallback(deps.chatPort, callback, "Denied.");
+    await sendMessage(
+      ctx,
+      deps.chatPort,
+      {
+        chatId: callback.chatId,
+        threadId,
+        text: "Denied. I won't run that.",
+      },
+      { action: "approval", stage: "denied", workItemId: item.id },
+    );
+    return;
+  }
+
+  await answerCallback(deps.chatPort, callback, "Approved. Running now.");
+
+  const topicKey = buildTopicKey(callback);
+  const workspacePath = await loadActiveWorkspace(
+    ctx,
+    deps,
+    topicKey,
+    resolve(options.defaultWorkspacePath ?? process.cwd()),
+  );
+  const input: RelayTurnInput = {
+    chatId: callback.chatId,
+    threadId,
+    sessionKey: topicKey,
+    workspacePath,
+    text: `Approved. Proceed with the proposed plan for: ${item.requestText}`,
+    pendingProposalWorkItemId: item.id,
+    workItemId: item.id,
+    ...turnAccess(role),
+    ...turnProfile(await loadToolProfile(ctx, deps, topicKey)),
+  };
+
+  let result: RelayTurnResult | null = null;
+  try {
+    result = await runRelayTurn(ctx, deps, input, options);
+    if (result) {
+      await deliverRelayReply(ctx, deps, input, result);
+    }
+  } catch (error) {
+    logError("approval.execution_failed", {
+      chatId: callback.chatId,
+      workItemId: item.id,
+      error: String(error),
+    });
+    throw error;
+  } finally {
+    if (result) {
+      await markWorkItem(deps, item.id, "completed", "running");
+    } else if (
+      !(await markWorkItem(deps, item.id, "failed", "running")) &&
+      (await markWorkItem(deps, item.id, "failed", "approved"))
+    ) {
+      // The budget refused the turn before it started
+      await sendMessage(
+        ctx,
+        deps.chatPort,
+        {
+          chatId: callback.chatId,
+          threadId,
+          text: "The approved plan did not run. Ask again once the budget allows it.",
+        },
+        { action: "approval", stage: "not_run", workItemId: item.id },
+      );
+    }
+  }
+};
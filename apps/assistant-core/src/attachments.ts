@@ -0,0 +1,148 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { logError, logInfo } from "@assistant-core/src/logging";
+import type { WorkerDeps } from "@assistant-core/src/worker-types";
+import type { InboundAttachment } from "@delegate/domain";
+
+/**
+ * Folder inside the active workspace that receives inbound files, one
+ * subfolder per topic so topics sharing a workspace keep their files apart.
+ */
+export const INBOX_DIR = "inbox";
+
+// Telegram's Bot API refuses downloads above 20 MB.
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+const sanitizeFileName = (name: string): string => {
+  const cleaned = basename(name)
+    .replace(/[^\w.\- ]+/g, "_")
+    .replace(/^\.+/, "")
+    .trim();
+  return cleaned.length > 0 ? cleaned : "file";
+};
+
+/** `chat-1:42` becomes `chat-1_42`, a safe single path segment. */
+const topicDirName = (topicKey: string): string =>
+  topicKey.replace(/[^\w-]+/g, "_");
+
+/** `20260208-093015-report.csv`: uploads sort by arrival and rarely collide. */
+const timestampedName = (name: string, now: Date): string =>
+  `${now
+    .toISOString()
+    .slice(0, 19)
+    .replace(/[-:]/g, "")
+    .replace("T", "-")}-${name}`;
+
+/**
+ * Write `data` under `name` in `dir` without ever replacing an existing
+ * file; a taken name gets a `-1`, `-2`, ... suffix. Returns the name used.
+ */
+const writeNewFile = async (
+  dir: string,
+  name: string,
+  data: Uint8Array,
+): Promise<string> => {
+  const ext = extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  for (let n = 0; ; n += 1) {
+    const candidate = n === 0 ? name : `${stem}-${n}${ext}`;
+    try {
+      await writeFile(join(dir, candidate), data, { flag: "wx" });
+      return candidate;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} B`;
+};
+
+const describeAttachment = (attachment: InboundAttachment): string =>
+  attachment.fileName ?? `a ${attachment.kind}`;
+
+/**
+ * Download inbound documents and photos into `<workspace>/inbox/<topic>/`
+ * under timestamped names, and return
+ * a note for the relayed prompt listing where each file landed (relative to
+ * the workspace, so the file tools can open them) and which ones failed.
+ */
+export const saveInboundAttachments = async (
+  deps: WorkerDeps,
+  chatId: string,
+  topicKey: string,
+  attachments: InboundAttachment[],
+  workspacePath: string,
+): Promise<string> => {
+  const topicDir = `${INBOX_DIR}/${topicDirName(topicKey)}`;
+  const inboxPath = join(workspacePath, topicDir);
+  const saved: string[] = [];
+  const failed: string[] = [];
+
+  for (const attachment of attachments) {
+    if (!deps.chatPort.downloadFile) {
+      failed.push(`${describeAttachment(attachment)} (downloads unsupported)`);
+      continue;
+    }
+    if ((attachment.sizeBytes ?? 0) > MAX_DOWNLOAD_BYTES) {
+      failed.push(`${describeAttachment(attachment)} (larger than 20 MB)`);
+      continue;
+    }
+
+    try {
+      const file = await deps.chatPort.downloadFile(attachment.fileId);
+      await mkdir(inboxPath, { recursive: true });
+      const fileName = await writeNewFile(
+        inboxPath,
+        timestampedName(
+          sanitizeFileName(attachment.fileName ?? file.fileName),
+          new Date(),
+        ),
+        file.data,
+      );
+      const details = [
+        attachment.mimeType,
+        formatSize(file.data.byteLength),
+      ].filter((part): part is string => part !== null);
+      saved.push(`${topicDir}/${fileName} (${details.join(", ")})`);
+      logInfo("attachment.saved", {
+        chatId,
+        kind: attachment.kind,
+        path: join(inboxPath, fileName),
+        bytes: file.data.byteLength,
+      });
+    } catch (error) {
+      logError("attachment.download_failed", {
+        chatId,
+        kind: attachment.kind,
+        fileId: attachment.fileId,
+        error: String(error),
+      });
+      failed.push(`${describeAttachment(attachment)} (download failed)`);
+    }
+  }
+
+  const lines: string[] = [];
+  if (saved.length > 0) {
+    lines.push(
+      "[The user attached files, saved in the workspace at:]",
+      ...saved.map((entry) => `- ${entry}`),
+    );
+  }
+  if (failed.length > 0) {
+    lines.push(
+      "[These attachments could not be saved:]",
+      ...failed.map((entry) => `- ${entry}`),
+    );
+  }
+  return lines.join("\n");
+};
@@ -0,0 +1,227 @@
+import { logInfo, logWarn } from "@assistant-core/src/logging";
+import { sendMessage } from "@assistant-core/src/messaging";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type {
+  BudgetOptions,
+  WorkerDeps,
+} from "@assistant-core/src/worker-types";
+
+const WARN_FRACTION = 0.8;
+
+export type BudgetPeriod = "daily" | "monthly";
+
+export type BudgetLine = {
+  scope: "global" | "chat";
+  period: BudgetPeriod;
+  /** Start of the current window, as an ISO timestamp. */
+  since: string;
+  spentUsd: number;
+  limitUsd: number | null;
+};
+
+export type BudgetGate =
+  | { allowed: false }
+  | { allowed: true; forceTier?: "t1" | "t2" };
+
+export const formatUsd = (amount: number): string => `$${amount.toFixed(2)}`;
+
+/** Budget windows follow the host's local calendar day and month. */
+export const budgetWindowStarts = (
+  now: Date,
+): Record<BudgetPeriod, string> => ({
+  daily: new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate(),
+  ).toISOString(),
+  monthly: new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+});
+
+export const hasBudgetLimits = (budget: BudgetOptions | undefined): boolean =>
+  Boolean(
+    budget &&
+      [
+        budget.global.dailyUsd,
+        budget.global.monthlyUsd,
+        budget.perChat.dailyUsd,
+        budget.perChat.monthlyUsd,
+      ].some((limit) => limit !== null),
+  );
+
+/** Spend against every budget window for the chat, limited or not. */
+export const loadBudgetLines = async (
+  deps: WorkerDeps,
+  budget: BudgetOptions | undefined,
+  chatId: string,
+  now: Date = new Date(),
+): Promise<BudgetLine[] | null> => {
+  const sumSpendSince = deps.sessionStore?.sumSpendSince?.bind(
+    deps.sessionStore,
+  );
+  if (!sumSpendSince) {
+    return null;
+  }
+  const starts = budgetWindowStarts(now);
+  const lines: BudgetLine[] = [];
+  for (const scope of ["global", "chat"] as const) {
+    const limits = scope === "global" ? budget?.global : budget?.perChat;
+    for (const period of ["daily", "monthly"] as const) {
+      const since = starts[period];
+      lines.push({
+        scope,
+        period,
+        since,
+        spentUsd: await sumSpendSince(
+          since,
+          scope === "chat" ? chatId : undefined,
+        ),
+        limitUsd:
+          (period === "daily" ? limits?.dailyUsd : limits?.monthlyUsd) ?? null,
+      });
+    }
+  }
+  return lines;
+};
+
+const describeLine = (line: BudgetLine): string =>
+  `${line.scope === "global" ? "Global" : "This chat"} ${line.period === "daily" ? "daily" : "monthly"} budget`;
+
+/**
+ * Check the chat's spend before a turn. Over a limit, the turn is refused or
+ * forced onto the free T1 tier (per `whenExceeded`); past 80% of a limit the
+ * chat gets a one-time warning for that window. The user is told either way.
+ */
+export const applyBudget = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: {
+    chatId: string;
+    threadId: string | null;
+    forceTier?: "t1" | "t2";
+  },
+  budget: BudgetOptions | undefined,
+): Promise<BudgetGate> => {
+  const passThrough: BudgetGate = {
+    allowed: true,
+    ...(target.forceTier ? { forceTier: target.forceTier } : {}),
+  };
+  if (!budget || !hasBudgetLimits(budget)) {
+    return passThrough;
+  }
+
+  let lines: BudgetLine[] | null;
+  try {
+    lines = await loadBudgetLines(deps, budget, target.chatId);
+  } catch (error) {
+    // Never let accounting problems take the assistant down
+    logWarn("budget.check_failed", {
+      chatId: target.chatId,
+      error: String(error),
+    });
+    return passThrough;
+  }
+  const limited = (lines ?? []).filter(
+    (line): line is BudgetLine & { limitUsd: number } => line.limitUsd !== null,
+  );
+
+  const exceeded = limited.find((line) => line.spentUsd >= line.limitUsd);
+  if (exceeded) {
+    const usage = `${formatUsd(exceeded.spentUsd)} of ${formatUsd(exceeded.limitUsd)}`;
+    logInfo("budget.exceeded", {
+      chatId: target.chatId,
+      scope: exceeded.scope,
+      period: exceeded.period,
+      spentUsd: exceeded.spentUsd,
+      limitUsd: exceeded.limitUsd,
+      action: budget.whenExceeded,
+    });
+    await sendMessage(
+      ctx,
+      deps.chatPort,
+      {
+        chatId: target.chatId,
+        threadId: target.threadId,
+        text:
+          budget.whenExceeded === "t1"
+            ? `💸 ${describeLine(exceeded)} reached (${usage}). Answering with the free local model until it resets.`
+            : `🛑 ${describeLine(exceeded)} reached (${usage}). Requests are paused until it resets. Send /budget for details.`,
+      },
+      {
+        action: "budget",
+        stage: "exceeded",
+        scope: exceeded.scope,
+        period: exceeded.period,
+      },
+    );
+    return budget.whenExceeded === "t1"
+      ? { allowed: true, forceTier: "t1" }
+      : { allowed: false };
+  }
+
+  for (const line of limited) {
+    if (line.spentUsd < line.limitUsd * WARN_FRACTION) {
+      continue;
+    }
+    const key = [
+      line.scope,
+      line.period,
+      line.since,
+      line.scope === "chat" ? target.chatId : "",
+    ].join(":");
+    if (ctx.budgetWarningsSent.has(key)) {
+      continue;
+    }
+    ctx.budgetWarningsSent.add(key);
+    await sendMessage(
+      ctx,
+      deps.chatPort,
+      {
+        chatId: target.chatId,
+        threadId: target.threadId,
+        text: `⚠️ ${describeLine(line)} is ${Math.floor((line.spentUsd / line.limitUsd) * 100)}% used (${formatUsd(line.spentUsd)} of ${formatUsd(line.limitUsd)}).`,
+      },
+      {
+        action: "budget",
+        stage: "warning",
+        scope: line.scope,
+        period: line.period,
+      },
+    );
+  }
+  return passThrough;
+};
+
+/** Reply to /budget with spend against each window. */
+export const handleBudgetCommand = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: { chatId: string; threadId: string | null },
+  budget: BudgetOptions | undefined,
+): Promise<void> => {
+  const lines = await loadBudgetLines(deps, budget, target.chatId);
+  let text: string;
+  if (!lines) {
+    text = "Spend tracking is unavailable without a session store.";
+  } else {
+    const rows = lines.map((line) => {
+      const label = `${line.scope === "global" ? "All chats" : "This chat"} · ${line.period === "daily" ? "today" : "this month"}`;
+      if (line.limitUsd === null) {
+        return `${label}: ${formatUsd(line.spentUsd)} (no limit)`;
+      }
+      const percent = Math.floor((line.spentUsd / line.limitUsd) * 100);
+      return `${label}: ${formatUsd(line.spentUsd)} / ${formatUsd(line.limitUsd)} (${percent}%)`;
+    });
+    const policy = !hasBudgetLimits(budget)
+      ? "No budgets configured."
+      : budget?.whenExceeded === "t1"
+        ? "Over budget: answers use the free T1 tier only."
+        : "Over budget: requests are paused.";
+    text = ["💰 Spend", ...rows, policy].join("\n");
+  }
+  await sendMessage(
+    ctx,
+    deps.chatPort,
+    { chatId: target.chatId, threadId: target.threadId, text },
+    { action: "runtime", stage: "budget" },
+  );
+};
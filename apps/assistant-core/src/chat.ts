@@ -0,0 +1,103 @@
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { format } from "node:util";
+import { loadConfig } from "@assistant-core/src/config";
+import {
+  buildSecretRedactor,
+  redactChatPort,
+} from "@assistant-core/src/redaction";
+import {
+  buildModelPort,
+  buildShellApprovals,
+  workerOptionsFromConfig,
+} from "@assistant-core/src/runtime";
+import { SqliteSessionStore } from "@assistant-core/src/session-store";
+import { loadBuildInfo } from "@assistant-core/src/version";
+import { startTelegramWorker } from "@assistant-core/src/worker";
+import { CliChatAdapter } from "@delegate/adapters-cli";
+import { TieredRouterAdapter } from "@delegate/adapters-model-tiered-router";
+
+/**
+ * Terminal chat against the real worker pipeline: slash commands, sessions,
+ * workspaces, model routing and cost footers all behave as they do in
+ * Telegram. Runs without the HTTP server or supervisor, and keeps its own
+ * database next to the configured one so it never touches a running bot's
+ * cursor, schedules or reminders.
+ */
+const runChat = async (): Promise<void> => {
+  const config = loadConfig();
+  const dataDir = dirname(config.sqlitePath);
+  const logPath = join(dataDir, "cli-chat.log");
+  mkdirSync(dataDir, { recursive: true });
+
+  // Structured logs would interleave with the conversation; keep them in a file
+  const writeLog = (...args: unknown[]): void => {
+    appendFileSync(logPath, `${format(...args)}\n`);
+  };
+  console.log = writeLog;
+  console.info = writeLog;
+  console.warn = writeLog;
+  console.error = writeLog;
+
+  const write = (text: string): void => {
+    process.stdout.write(text);
+  };
+  write(
+    `delegate chat (${config.modelProvider}) · logs: ${logPath} · workspace: ${config.assistantRepoPath}\n`,
+  );
+
+  const buildInfo = loadBuildInfo();
+  const sessionStore = new SqliteSessionStore(join(dataDir, "cli-chat.db"));
+  const shellApprovals = buildShellApprovals(config);
+  const modelPort = buildModelPort(config, sessionStore, shellApprovals);
+  if (modelPort instanceof TieredRouterAdapter) {
+    await modelPort.warmUp();
+  }
+  await sessionStore.init();
+
+  const chat = new CliChatAdapter({ input: console, write });
+  const stopController = new AbortController();
+  process.on("SIGINT", () => stopController.abort());
+
+  const workerPromise = startTelegramWorker(
+    {
+      chatPort: redactChatPort(chat, buildSecretRedactor(config)),
+      modelPort,
+      sessionStore,
+      ...(shellApprovals ? { shellApprovals } : {}),
+    },
+    0,
+    {
+      ...workerOptionsFromConfig(config, modelPort, buildInfo),
+      // Whoever has the terminal already has the machine
+      access: undefined,
+      stopSignal: stopController.signal,
+      onRestartRequested: () => {
+        write("Restart is not available here; exiting instead.\n");
+        stopController.abort();
+      },
+    },
+  );
+
+  await Promise.race([
+    chat.run(),
+    workerPromise,
+    new Promise<void>((resolve) =>
+      stopController.signal.addEventListener("abort", () => resolve()),
+    ),
+  ]);
+  stopController.abort();
+  write("\nbye\n");
+
+  try {
+    if (modelPort instanceof TieredRouterAdapter) {
+      await modelPort.dispose();
+    }
+  } catch {
+    // best-effort: don't block exit if queue drain fails
+  }
+  // stdin keeps the event loop alive while a line read is pending
+  process.exit(0);
+};
+
+await runChat();
@@ -19,6 +19,15 @@ export type TieredRouterAppConfig = {
     maxMemories: number;
     minStrength: number;
   };
+  history: {
+    maxTokens: number;
+  };
+};
+
+export type PiAgentFallbackConfig = {
+  provider: string;
+  model: string;
+  apiKey: string | null;
 };
 
 export type AppConfig = {
@@ -28,6 +37,12 @@ export type AppConfig = {
   sqlitePath: string;
   telegramBotToken: string | null;
   telegramPollIntervalMs: number;
+  /** Public HTTPS URL for Telegram webhooks; null keeps long polling. */
+  telegramWebhookUrl: string | null;
+  telegramWebhookSecret: string | null;
+  /** Slack bot (xoxb-) and app-level (xapp-) tokens; set both to chat over Slack instead of Telegram. */
+  slackBotToken: string | null;
+  slackAppToken: string | null;
   modelProvider: "stub" | "pi_agent" | "tiered_router";
   modelName: string;
   assistantRepoPath: string;
@@ -38,19 +53,46 @@ export type AppConfig = {
   progressFirstMs: number;
   progressEveryMs: number;
   progressMaxCount: number;
+  streamReplies: boolean;
+  streamEditIntervalMs: number;
+  toolStatusLine: boolean;
   piAgentProvider: string;
   piAgentModel: string;
   piAgentApiKey: string | null;
   piAgentMaxSteps: number;
+  piAgentCompactionThreshold: number;
+  piAgentFallbacks: PiAgentFallbackConfig[];
   maxConcurrentTopics: number;
   systemPromptPath: string | null;
   piAgentEnableShellTool: boolean;
+  /** Hold back write_file and execute_shell until the user approves a plan. */
+  piAgentRequireApproval: boolean;
+  /** Ask in chat before execute_shell runs a command off the allowlist. */
+  piAgentShellApproval: boolean;
+  /** Command prefixes that skip approval; null uses the adapter's defaults. */
+  piAgentShellAllowlist: string[] | null;
+  piAgentShellApprovalTimeoutMs: number;
+  /** Run execute_shell under bubblewrap ("bubblewrap") or directly ("none"). */
+  piAgentShellSandbox: "none" | "bubblewrap";
+  /** Let sandboxed commands reach the network. */
+  piAgentShellSandboxNetwork: boolean;
+  piAgentShellSandboxMemoryMb: number;
+  piAgentShellSandboxCpuSeconds: number;
   piAgentEnableWebFetchTool: boolean;
   piAgentEnableWebSearchTool: boolean;
   piAgentWebFetchProvider: string | null;
   piAgentWebFetchModel: string | null;
   startupAnnounceChatId: string | null;
   startupAnnounceThreadId: string | null;
+  ownerUserIds: string[];
+  transcriptionUrl: string | null;
+  transcriptionApi: "whisper_cpp" | "openai";
+  transcriptionModel: string | null;
+  budgetDailyUsd: number | null;
+  budgetMonthlyUsd: number | null;
+  budgetChatDailyUsd: number | null;
+  budgetChatMonthlyUsd: number | null;
+  budgetExceededAction: "block" | "t1";
   tieredRouter: TieredRouterAppConfig | null;
 };
 
@@ -71,6 +113,9 @@ type RawTieredRouterConfig = {
     maxMemories?: number;
     minStrength?: number;
   };
+  history?: {
+    maxTokens?: number;
+  };
 };
 
 type RawConfigFile = {
@@ -78,6 +123,10 @@ type RawConfigFile = {
   sqlitePath?: string;
   telegramBotToken?: string | null;
   telegramPollIntervalMs?: number;
+  telegramWebhookUrl?: string | null;
+  telegramWebhookSecret?: string | null;
+  slackBotToken?: string | null;
+  slackAppToken?: string | null;
   modelProvider?: "stub" | "pi_agent" | "tiered_router";
   modelName?: string;
   assistantRepoPath?: string;
@@ -88,19 +137,45 @@ type RawConfigFile = {
   progressFirstMs?: number;
   progressEveryMs?: number;
   progressMaxCount?: number;
+  streamReplies?: boolean;
+  streamEditIntervalMs?: number;
+  toolStatusLine?: boolean;
   piAgentProvider?: string;
   piAgentModel?: string;
   piAgentApiKey?: string | null;
   piAgentMaxSteps?: number;
+  piAgentCompactionThreshold?: number;
+  piAgentFallbacks?: Array<{
+    provider?: string;
+    model?: string;
+    apiKey?: string | null;
+  }>;
   maxConcurrentTopics?: number;
   systemPromptPath?: string | null;
   piAgentEnableShellTool?: boolean;
+  piAgentRequireApproval?: boolean;
+  piAgentShellApproval?: boolean;
+  piAgentShellAllowlist?: string[] | null;
+  piAgentShellApprovalTimeoutMs?: number;
+  piAgentShellSandbox?: "none" | "bubblewrap";
+  piAgentShellSandboxNetwork?: boolean;
+  piAgentShellSandboxMemoryMb?: number;
+  piAgentShellSandboxCpuSeconds?: number;
   piAgentEnableWebFetchTool?: boolean;
   piAgentEnableWebSearchTool?: boolean;
   piAgentWebFetchProvider?: string | null;
   piAgentWebFetchModel?: string | null;
   startupAnnounceChatId?: string | null;
   startupAnnounceThreadId?: string | null;
+  ownerUserIds?: Array<string | number>;
+  transcriptionUrl?: string | null;
+  transcriptionApi?: "whisper_cpp" | "openai";
+  transcriptionModel?: string | null;
+  budgetDailyUsd?: number | null;
+  budgetMonthlyUsd?: number | null;
+  budgetChatDailyUsd?: number | null;
+  budgetChatMonthlyUsd?: number | null;
+  budgetExceededAction?: "block" | "t1";
   tieredRouter?: RawTieredRouterConfig;
 };
 
@@ -186,6 +261,148 @@ const asModelProvider = (
   );
 };
 
+/**
+ * Fallbacks come from PI_AGENT_FALLBACKS as "provider:model" pairs separated
+ * by commas (keys then come from each provider's env var), or from the
+ * piAgentFallbacks array in the config file.
+ */
+const parsePiAgentFallbacks = (
+  envValue: string | undefined,
+  fileValue: RawConfigFile["piAgentFallbacks"],
+): PiAgentFallbackConfig[] => {
+  const entries =
+    envValue !== undefined
+      ? envValue
+          .split(",")
+          .map((pair) => pair.trim())
+          .filter(Boolean)
+          .map((pair) => {
+            const separator = pair.indexOf(":");
+            return separator === -1
+              ? { provider: pair }
+              : {
+                  provider: pair.slice(0, separator),
+                  model: pair.slice(separator + 1),
+                };
+          })
+      : Array.isArray(fileValue)
+        ? fileValue
+        : [];
+
+  return entries.map((entry: Record<string, unknown>) => {
+    const provider = asOptionalString(entry.provider);
+    const model = asOptionalString(entry.model);
+    if (!provider || !model) {
+      throw new Error(
+        "piAgentFallbacks entries need both a provider and a model",
+      );
+    }
+    return {
+      provider,
+      model,
+      apiKey: asOptionalNullableString(entry.apiKey) ?? null,
+    };
+  });
+};
+
+/**
+ * Owners come from OWNER_USER_IDS as a comma-separated list, or from the
+ * ownerUserIds array in the config file. Telegram ids may be numbers there.
+ */
+const parseOwnerUserIds = (
+  envValue: string | undefined,
+  fileValue: RawConfigFile["ownerUserIds"],
+): string[] => {
+  const entries =
+    envValue !== undefined
+      ? envValue.split(",")
+      : Array.isArray(fileValue)
+        ? fileValue
+        : [];
+
+  const ids = entries
+    .map((entry) =>
+      typeof entry === "number" && Number.isInteger(entry)
+        ? String(entry)
+        : asOptionalString(entry),
+    )
+    .filter((id): id is string => id !== undefined);
+  const invalid = ids.find((id) => !/^[\w-]+$/.test(id));
+  if (invalid !== undefined) {
+    throw new Error(
+      `ownerUserIds entries must be platform user ids (received "${invalid}")`,
+    );
+  }
+  return [...new Set(ids)];
+};
+
+/**
+ * The shell allowlist comes from PI_AGENT_SHELL_ALLOWLIST as a comma-separated
+ * list, or from the piAgentShellAllowlist array in the config file.
+ */
+const parseShellAllowlist = (
+  envValue: string | undefined,
+  fileValue: RawConfigFile["piAgentShellAllowlist"],
+): string[] | null => {
+  const entries =
+    envValue !== undefined
+      ? envValue.split(",")
+      : Array.isArray(fileValue)
+        ? fileValue
+        : null;
+  if (entries === null) {
+    return null;
+  }
+  const prefixes = entries
+    .map((entry) => asOptionalString(entry)?.replace(/\s+/g, " "))
+    .filter((prefix): prefix is string => prefix !== undefined);
+  return [...new Set(prefixes)];
+};
+
+const asTranscriptionApi = (value: unknown): "whisper_cpp" | "openai" => {
+  if (value === "whisper_cpp" || value === "openai") {
+    return value;
+  }
+  throw new Error(
+    `Transcription API must be one of: whisper_cpp, openai (received "${String(value)}")`,
+  );
+};
+
+const asShellSandbox = (value: unknown): "none" | "bubblewrap" => {
+  if (value === "none" || value === "bubblewrap") {
+    return value;
+  }
+  throw new Error(
+    `Shell sandbox must be one of: none, bubblewrap (received "${String(value)}")`,
+  );
+};
+
+const asBudgetExceededAction = (value: unknown): "block" | "t1" => {
+  if (value === "block" || value === "t1") {
+    return value;
+  }
+  throw new Error(
+    `Budget exceeded action must be one of: block, t1 (received "${String(value)}")`,
+  );
+};
+
+/** A spend limit in USD; unset (or null in the file) means no limit. */
+const asOptionalBudget = (
+  envValue: string | undefined,
+  fileValue: unknown,
+  name: string,
+): number | null => {
+  const raw = envValue?.trim() || asOptionalNumber(fileValue);
+  if (raw === undefined) {
+    return null;
+  }
+  const value = Number(raw);
+  if (!(Number.isFinite(value) && value > 0)) {
+    throw new Error(`${name} must be a positive number`);
+  }
+  return value;
+};
+
 const asPositiveInt = (value: number, name: string): number => {
   if (!Number.isInteger(value) || value <= 0) {
     throw new Error(`${name} must be a positive integer`);
@@ -204,6 +421,10 @@ export const loadConfig = (): AppConfig => {
     "SQLITE_PATH",
     "TELEGRAM_BOT_TOKEN",
     "TELEGRAM_POLL_INTERVAL_MS",
+    "TELEGRAM_WEBHOOK_URL",
+    "TELEGRAM_WEBHOOK_SECRET",
+    "SLACK_BOT_TOKEN",
+    "SLACK_APP_TOKEN",
     "MODEL_PROVIDER",
     "MODEL_NAME",
     "ASSISTANT_REPO_PATH",
@@ -214,19 +435,40 @@ export const loadConfig = (): AppConfig => {
     "PROGRESS_FIRST_MS",
     "PROGRESS_EVERY_MS",
     "PROGRESS_MAX_COUNT",
+    "STREAM_REPLIES",
+    "STREAM_EDIT_INTERVAL_MS",
+    "TOOL_STATUS_LINE",
     "PI_AGENT_PROVIDER",
     "PI_AGENT_MODEL",
     "PI_AGENT_API_KEY",
     "PI_AGENT_MAX_STEPS",
+    "PI_AGENT_COMPACTION_THRESHOLD",
+    "PI_AGENT_FALLBACKS",
     "MAX_CONCURRENT_TOPICS",
     "SYSTEM_PROMPT_PATH",
     "PI_AGENT_ENABLE_SHELL_TOOL",
+    "PI_AGENT_SHELL_APPROVAL",
+    "PI_AGENT_SHELL_ALLOWLIST",
+    "PI_AGENT_SHELL_APPROVAL_TIMEOUT_MS",
+    "PI_AGENT_SHELL_SANDBOX",
+    "PI_AGENT_SHELL_SANDBOX_NETWORK",
+    "PI_AGENT_SHELL_SANDBOX_MEMORY_MB",
+    "PI_AGENT_SHELL_SANDBOX_CPU_SECONDS",
     "PI_AGENT_ENABLE_WEB_FETCH_TOOL",
     "PI_AGENT_ENABLE_WEB_SEARCH_TOOL",
     "PI_AGENT_WEB_FETCH_PROVIDER",
     "PI_AGENT_WEB_FETCH_MODEL",
     "STARTUP_ANNOUNCE_CHAT_ID",
     "STARTUP_ANNOUNCE_THREAD_ID",
+    "OWNER_USER_IDS",
+    "TRANSCRIPTION_URL",
+    "TRANSCRIPTION_API",
+    "TRANSCRIPTION_MODEL",
+    "BUDGET_DAILY_USD",
+    "BUDGET_MONTHLY_USD",
+    "BUDGET_CHAT_DAILY_USD",
+    "BUDGET_CHAT_MONTHLY_USD",
+    "BUDGET_EXCEEDED_ACTION",
   ].filter((key) => process.env[key] !== undefined).length;
 
   const port = Number(
@@ -275,11 +517,41 @@ export const loadConfig = (): AppConfig => {
       asOptionalNumber(fileConfig.progressMaxCount) ??
       "3",
   );
+  const streamReplies =
+    process.env.STREAM_REPLIES !== undefined
+      ? process.env.STREAM_REPLIES.trim() !== "false"
+      : (asOptionalBoolean(fileConfig.streamReplies) ?? true);
+  // Telegram allows roughly one edit per second per chat
+  const streamEditIntervalMs = Number(
+    process.env.STREAM_EDIT_INTERVAL_MS ??
+      asOptionalNumber(fileConfig.streamEditIntervalMs) ??
+      "1500",
+  );
+  const toolStatusLine =
+    process.env.TOOL_STATUS_LINE !== undefined
+      ? process.env.TOOL_STATUS_LINE.trim() !== "false"
+      : (asOptionalBoolean(fileConfig.toolStatusLine) ?? false);
 
   const telegramBotToken =
     process.env.TELEGRAM_BOT_TOKEN?.trim() ||
     asOptionalNullableString(fileConfig.telegramBotToken) ||
     null;
+  const telegramWebhookUrl =
+    process.env.TELEGRAM_WEBHOOK_URL?.trim() ||
+    asOptionalNullableString(fileConfig.telegramWebhookUrl) ||
+    null;
+  const telegramWebhookSecret =
+    process.env.TELEGRAM_WEBHOOK_SECRET?.trim() ||
+    asOptionalNullableString(fileConfig.telegramWebhookSecret) ||
+    null;
+  const slackBotToken =
+    process.env.SLACK_BOT_TOKEN?.trim() ||
+    asOptionalNullableString(fileConfig.slackBotToken) ||
+    null;
+  const slackAppToken =
+    process.env.SLACK_APP_TOKEN?.trim() ||
+    asOptionalNullableString(fileConfig.slackAppToken) ||
+    null;
   const sqlitePath = expandHome(
     process.env.SQLITE_PATH ??
       asOptionalString(fileConfig.sqlitePath) ??
@@ -312,6 +584,15 @@ export const loadConfig = (): AppConfig => {
       asOptionalNumber(fileConfig.piAgentMaxSteps) ??
       "15",
   );
+  const piAgentCompactionThreshold = Number(
+    process.env.PI_AGENT_COMPACTION_THRESHOLD ??
+      asOptionalNumber(fileConfig.piAgentCompactionThreshold) ??
+      "0.8",
+  );
+  const piAgentFallbacks = parsePiAgentFallbacks(
+    process.env.PI_AGENT_FALLBACKS,
+    fileConfig.piAgentFallbacks,
+  );
   const maxConcurrentTopics = Number(
     process.env.MAX_CONCURRENT_TOPICS ??
       asOptionalNumber(fileConfig.maxConcurrentTopics) ??
@@ -325,6 +606,42 @@ export const loadConfig = (): AppConfig => {
     process.env.PI_AGENT_ENABLE_SHELL_TOOL !== undefined
       ? process.env.PI_AGENT_ENABLE_SHELL_TOOL.trim() !== "false"
       : (asOptionalBoolean(fileConfig.piAgentEnableShellTool) ?? true);
+  const piAgentRequireApproval =
+    process.env.PI_AGENT_REQUIRE_APPROVAL !== undefined
+      ? process.env.PI_AGENT_REQUIRE_APPROVAL.trim() !== "false"
+      : (asOptionalBoolean(fileConfig.piAgentRequireApproval) ?? true);
+  const piAgentShellApproval =
+    process.env.PI_AGENT_SHELL_APPROVAL !== undefined
+      ? process.env.PI_AGENT_SHELL_APPROVAL.trim() !== "false"
+      : (asOptionalBoolean(fileConfig.piAgentShellApproval) ?? false);
+  const piAgentShellAllowlist = parseShellAllowlist(
+    process.env.PI_AGENT_SHELL_ALLOWLIST,
+    fileConfig.piAgentShellAllowlist,
+  );
+  const piAgentShellApprovalTimeoutMs = Number(
+    process.env.PI_AGENT_SHELL_APPROVAL_TIMEOUT_MS ??
+      asOptionalNumber(fileConfig.piAgentShellApprovalTimeoutMs) ??
+      `${2 * 60 * 1000}`,
+  );
+  const piAgentShellSandbox = asShellSandbox(
+    process.env.PI_AGENT_SHELL_SANDBOX?.trim() ||
+      fileConfig.piAgentShellSandbox ||
+      "none",
+  );
+  const piAgentShellSandboxNetwork =
+    process.env.PI_AGENT_SHELL_SANDBOX_NETWORK !== undefined
+      ? process.env.PI_AGENT_SHELL_SANDBOX_NETWORK.trim() !== "false"
+      : (asOptionalBoolean(fileConfig.piAgentShellSandboxNetwork) ?? false);
+  const piAgentShellSandboxMemoryMb = Number(
+    process.env.PI_AGENT_SHELL_SANDBOX_MEMORY_MB ??
+      asOptionalNumber(fileConfig.piAgentShellSandboxMemoryMb) ??
+      "1024",
+  );
+  const piAgentShellSandboxCpuSeconds = Number(
+    process.env.PI_AGENT_SHELL_SANDBOX_CPU_SECONDS ??
+      asOptionalNumber(fileConfig.piAgentShellSandboxCpuSeconds) ??
+      "60",
+  );
   const piAgentEnableWebFetchTool =
     process.env.PI_AGENT_ENABLE_WEB_FETCH_TOOL !== undefined
       ? process.env.PI_AGENT_ENABLE_WEB_FETCH_TOOL.trim() !== "false"
@@ -349,10 +666,84 @@ export const loadConfig = (): AppConfig => {
     process.env.STARTUP_ANNOUNCE_THREAD_ID?.trim() ||
     asOptionalNullableString(fileConfig.startupAnnounceThreadId) ||
     null;
+  const ownerUserIds = parseOwnerUserIds(
+    process.env.OWNER_USER_IDS,
+    fileConfig.ownerUserIds,
+  );
+
+  const transcriptionUrl =
+    process.env.TRANSCRIPTION_URL?.trim() ||
+    asOptionalNullableString(fileConfig.transcriptionUrl) ||
+    null;
+  const transcriptionApi = asTranscriptionApi(
+    process.env.TRANSCRIPTION_API?.trim() ||
+      fileConfig.transcriptionApi ||
+      "whisper_cpp",
+  );
+  const transcriptionModel =
+    process.env.TRANSCRIPTION_MODEL?.trim() ||
+    asOptionalNullableString(fileConfig.transcriptionModel) ||
+    null;
+
+  const budgetDailyUsd = asOptionalBudget(
+    process.env.BUDGET_DAILY_USD,
+    fileConfig.budgetDailyUsd,
+    "budgetDailyUsd",
+  );
+  const budgetMonthlyUsd = asOptionalBudget(
+    process.env.BUDGET_MONTHLY_USD,
+    fileConfig.budgetMonthlyUsd,
+    "budgetMonthlyUsd",
+  );
+  const budgetChatDailyUsd = asOptionalBudget(
+    process.env.BUDGET_CHAT_DAILY_USD,
+    fileConfig.budgetChatDailyUsd,
+    "budgetChatDailyUsd",
+  );
+  const budgetChatMonthlyUsd = asOptionalBudget(
+    process.env.BUDGET_CHAT_MONTHLY_USD,
+    fileConfig.budgetChatMonthlyUsd,
+    "budgetChatMonthlyUsd",
+  );
+  const budgetExceededAction = asBudgetExceededAction(
+    process.env.BUDGET_EXCEEDED_ACTION?.trim() ||
+      fileConfig.budgetExceededAction ||
+      "block",
+  );
+  if (budgetExceededAction === "t1" && modelProvider !== "tiered_router") {
+    throw new Error(
+      'budgetExceededAction "t1" needs model provider "tiered_router"',
+    );
+  }
 
   if (!existsSync(assistantRepoPath)) {
     throw new Error(`Assistant repo path does not exist: ${assistantRepoPath}`);
   }
+  if ((slackBotToken === null) !== (slackAppToken === null)) {
+    throw new Error(
+      "slackBotToken and slackAppToken must be set together (Socket Mode needs both)",
+    );
+  }
+  // Cursor, schedules and reminders are per store; give each platform its own instance
+  if (slackBotToken !== null && telegramBotToken !== null) {
+    throw new Error(
+      "Configure either Telegram or Slack, not both. Run a second assistant with its own sqlitePath and port for the other.",
+    );
+  }
+  if (telegramWebhookUrl !== null) {
+    if (!/^https:\/\/\S+$/.test(telegramWebhookUrl)) {
+      throw new Error("telegramWebhookUrl must be an https:// URL");
+    }
+    // Telegram's own rule for secret_token
+    if (
+      !telegramWebhookSecret ||
+      !/^[\w-]{1,256}$/.test(telegramWebhookSecret)
+    ) {
+      throw new Error(
+        "telegramWebhookSecret must be 1-256 characters of A-Z, a-z, 0-9, _ or - when telegramWebhookUrl is set",
+      );
+    }
+  }
   asPositiveInt(port, "port");
   asPositiveInt(telegramPollIntervalMs, "telegramPollIntervalMs");
   asPositiveInt(sessionIdleTimeoutMs, "sessionIdleTimeoutMs");
@@ -362,6 +753,13 @@ export const loadConfig = (): AppConfig => {
   asPositiveInt(progressFirstMs, "progressFirstMs");
   asPositiveInt(progressEveryMs, "progressEveryMs");
   asPositiveInt(progressMaxCount, "progressMaxCount");
+  asPositiveInt(streamEditIntervalMs, "streamEditIntervalMs");
+  asPositiveInt(piAgentShellApprovalTimeoutMs, "piAgentShellApprovalTimeoutMs");
+  asPositiveInt(piAgentShellSandboxMemoryMb, "piAgentShellSandboxMemoryMb");
+  asPositiveInt(piAgentShellSandboxCpuSeconds, "piAgentShellSandboxCpuSeconds");
+  if (!(piAgentCompactionThreshold > 0 && piAgentCompactionThreshold <= 1)) {
+    throw new Error("piAgentCompactionThreshold must be between 0 and 1");
+  }
 
   // --- Tiered router config (only parsed when modelProvider is "tiered_router") ---
   const raw = fileConfig.tieredRouter;
@@ -419,6 +817,13 @@ export const loadConfig = (): AppConfig => {
                 "0.3",
             ),
           },
+          history: {
+            maxTokens: Number(
+              process.env.TIERED_ROUTER_HISTORY_MAX_TOKENS ??
+                asOptionalNumber(raw?.history?.maxTokens) ??
+                "2000",
+            ),
+          },
         }
       : null;
 
@@ -470,6 +875,10 @@ export const loadConfig = (): AppConfig => {
     sqlitePath,
     telegramBotToken,
     telegramPollIntervalMs,
+    telegramWebhookUrl,
+    telegramWebhookSecret,
+    slackBotToken,
+    slackAppToken,
     modelProvider,
     modelName,
     assistantRepoPath,
@@ -480,19 +889,41 @@ export const loadConfig = (): AppConfig => {
     progressFirstMs,
     progressEveryMs,
     progressMaxCount,
+    streamReplies,
+    streamEditIntervalMs,
+    toolStatusLine,
     piAgentProvider,
     piAgentModel,
     piAgentApiKey,
     piAgentMaxSteps,
+    piAgentCompactionThreshold,
+    piAgentFallbacks,
     maxConcurrentTopics,
     systemPromptPath,
     piAgentEnableShellTool,
+    piAgentRequireApproval,
+    piAgentShellApproval,
+    piAgentShellAllowlist,
+    piAgentShellApprovalTimeoutMs,
+    piAgentShellSandbox,
+    piAgentShellSandboxNetwork,
+    piAgentShellSandboxMemoryMb,
+    piAgentShellSandboxCpuSeconds,
     piAgentEnableWebFetchTool,
     piAgentEnableWebSearchTool,
     piAgentWebFetchProvider,
     piAgentWebFetchModel,
     startupAnnounceChatId,
     startupAnnounceThreadId,
+    ownerUserIds,
+    transcriptionUrl,
+    transcriptionApi,
+    transcriptionModel,
+    budgetDailyUsd,
+    budgetMonthlyUsd,
+    budgetChatDailyUsd,
+    budgetChatMonthlyUsd,
+    budgetExceededAction,
     tieredRouter,
   };
 };
@@ -0,0 +1,49 @@
+import { sleep } from "@assistant-core/src/timers";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import { ChatDeliveryError } from "@delegate/domain";
+
+/** Telegram allows about 20 messages a minute in a group, edits included. */
+export const DEFAULT_GROUP_EDIT_INTERVAL_MS = 3000;
+
+/**
+ * Spaces out the live messages and edits one chat receives. Every reply
+ * stream and status line in the chat shares it, so together they stay
+ * within the platform's rate limit, and a rate-limit error pauses them all.
+ */
+export class EditPacer {
+  private nextAt = 0;
+
+  constructor(private readonly intervalMs: number) {}
+
+  /** Wait until a message may go out, then hold the next one back. */
+  async wait(): Promise<void> {
+    // Re-check after sleeping: another waiter may have gone first
+    while (Date.now() < this.nextAt) {
+      await sleep(this.nextAt - Date.now());
+    }
+    this.nextAt = Date.now() + this.intervalMs;
+  }
+
+  /** Hold back every edit for `ms`, e.g. a 429's retry-after. */
+  backOff(ms: number): void {
+    this.nextAt = Math.max(this.nextAt, Date.now() + ms);
+  }
+}
+
+/** How long the platform asked to wait after rejecting a call, or 0. */
+export const retryAfterMs = (error: unknown): number =>
+  error instanceof ChatDeliveryError ? (error.retryAfterMs ?? 0) : 0;
+
+/** The chat's pacer; only group chats (negative Telegram ids) are spaced out. */
+export const editPacerFor = (
+  ctx: WorkerContext,
+  chatId: string,
+  groupIntervalMs: number = DEFAULT_GROUP_EDIT_INTERVAL_MS,
+): EditPacer => {
+  let pacer = ctx.editPacers.get(chatId);
+  if (!pacer) {
+    pacer = new EditPacer(chatId.startsWith("-") ? groupIntervalMs : 0);
+    ctx.editPacers.set(chatId, pacer);
+  }
+  return pacer;
+};
@@ -7,6 +7,11 @@ type Deps = {
   sessionStore: { ping(): Promise<void> };
   modelPort: ModelPort;
   buildInfo: BuildInfo;
+  /** Receives Telegram webhook POSTs on `path` when webhook mode is on. */
+  telegramWebhook?: {
+    path: string;
+    handleRequest(request: Request): Promise<Response>;
+  };
 };
 
 const json = (payload: unknown, status = 200): Response =>
@@ -17,12 +22,21 @@ export const startHttpServer = ({
   sessionStore,
   modelPort,
   buildInfo,
+  telegramWebhook,
 }: Deps): Bun.Server<unknown> => {
   return Bun.serve({
     port: config.port,
     fetch: async (request: Request) => {
       const url = new URL(request.url);
 
+      if (
+        telegramWebhook &&
+        request.method === "POST" &&
+        url.pathname === telegramWebhook.path
+      ) {
+        return telegramWebhook.handleRequest(request);
+      }
+
       if (request.method === "GET" && url.pathname === "/health") {
         return json({ ok: true, status: "alive" });
       }
@@ -1,5 +1,14 @@
 import { loadConfig } from "@assistant-core/src/config";
 import { startHttpServer } from "@assistant-core/src/http";
+import {
+  buildSecretRedactor,
+  redactChatPort,
+} from "@assistant-core/src/redaction";
+import {
+  buildModelPort,
+  buildShellApprovals,
+  workerOptionsFromConfig,
+} from "@assistant-core/src/runtime";
 import { SqliteSessionStore } from "@assistant-core/src/session-store";
 import { sleep } from "@assistant-core/src/timers";
 import {
@@ -7,18 +16,21 @@ import {
   loadBuildInfo,
 } from "@assistant-core/src/version";
 import { startTelegramWorker } from "@assistant-core/src/worker";
-import { PiAgentModelAdapter } from "@delegate/adapters-model-pi-agent";
-import { DeterministicModelStub } from "@delegate/adapters-model-stub";
 import { TieredRouterAdapter } from "@delegate/adapters-model-tiered-router";
-import { TelegramLongPollingAdapter } from "@delegate/adapters-telegram";
-import type { TurnEvent } from "@delegate/domain";
-import type { TurnEventSink } from "@delegate/ports";
+import { SlackSocketModeAdapter } from "@delegate/adapters-slack";
+import {
+  TelegramLongPollingAdapter,
+  TelegramWebhookAdapter,
+} from "@delegate/adapters-telegram";
+import { WhisperHttpTranscriber } from "@delegate/adapters-transcription-whisper";
 
 const RESTART_EXIT_CODE = 75;
 const WORKER_ROLE = "worker";
 const PORT_RECLAIM_TERM_TIMEOUT_MS = 4_000;
 const PORT_RECLAIM_KILL_TIMEOUT_MS = 1_500;
 const PORT_RECLAIM_POLL_INTERVAL_MS = 100;
+const STARTUP_RETRY_BASE_DELAY_MS = 1_000;
+const STARTUP_RETRY_MAX_DELAY_MS = 60_000;
 
 const isAddressInUseError = (error: unknown): boolean => {
   if (!error || typeof error !== "object") {
@@ -198,6 +210,46 @@ export const startWithPortTakeover = async <T>({
   }
 };
 
+/**
+ * Run a startup call against a chat platform until it succeeds or the worker
+ * stops, backing off between attempts. A platform hiccup at boot is logged
+ * rather than crashing the worker into a restart loop.
+ */
+export const retryUntilDone = async ({
+  event,
+  run,
+  signal,
+  wait = sleep,
+}: {
+  event: string;
+  run: () => Promise<void>;
+  signal: AbortSignal;
+  wait?: (ms: number) => Promise<void>;
+}): Promise<boolean> => {
+  for (let attempt = 1; !signal.aborted; attempt += 1) {
+    try {
+      await run();
+      return true;
+    } catch (error) {
+      const delayMs = Math.min(
+        STARTUP_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+        STARTUP_RETRY_MAX_DELAY_MS,
+      );
+      console.warn(
+        JSON.stringify({
+          level: "warn",
+          event,
+          attempt,
+          delayMs,
+          error: String(error),
+        }),
+      );
+      await wait(delayMs);
+    }
+  }
+  return false;
+};
+
 export const classifyWorkerExit = (
   code: number,
 ): "requested_restart" | "clean_stop" | "unexpected_exit" => {
@@ -217,56 +269,8 @@ const runWorkerProcess = async (): Promise<number> => {
   const buildInfo = loadBuildInfo();
   const sessionStore = new SqliteSessionStore(config.sqlitePath);
 
-  const turnEventSink: TurnEventSink = {
-    emit: async (event: TurnEvent): Promise<void> => {
-      try {
-        await sessionStore.insertTurnEvent(event);
-      } catch {
-        // fire-and-forget: swallow persistence errors
-      }
-    },
-  };
-
-  const buildPiAgentAdapter = () =>
-    new PiAgentModelAdapter({
-      provider: config.piAgentProvider,
-      model: config.piAgentModel,
-      apiKey: config.piAgentApiKey ?? undefined,
-      maxSteps: config.piAgentMaxSteps,
-      workspacePath: config.assistantRepoPath,
-      systemPromptPath: config.systemPromptPath ?? undefined,
-      gitIdentity: process.env.GIT_AUTHOR_NAME,
-      enableShellTool: config.piAgentEnableShellTool,
-      enableWebFetchTool: config.piAgentEnableWebFetchTool,
-      enableWebSearchTool: config.piAgentEnableWebSearchTool,
-      webFetchProvider: config.piAgentWebFetchProvider ?? undefined,
-      webFetchModel: config.piAgentWebFetchModel ?? undefined,
-      turnEventSink,
-    });
-
-  const buildModelPort = () => {
-    if (config.modelProvider === "tiered_router") {
-      if (!config.tieredRouter) {
-        throw new Error(
-          'modelProvider is "tiered_router" but tieredRouter config block is missing.',
-        );
-      }
-      const t2Backend = buildPiAgentAdapter();
-      return new TieredRouterAdapter({
-        classifier: config.tieredRouter.classifier,
-        t1: config.tieredRouter.t1,
-        engram: config.tieredRouter.engram,
-        t2Backend,
-        turnEventSink,
-      });
-    }
-    if (config.modelProvider === "pi_agent") {
-      return buildPiAgentAdapter();
-    }
-    return new DeterministicModelStub();
-  };
-
-  const modelPort = buildModelPort();
+  const shellApprovals = buildShellApprovals(config);
+  const modelPort = buildModelPort(config, sessionStore, shellApprovals);
 
   // Pre-load Ollama models so the first request doesn't pay cold-start latency.
   if (modelPort instanceof TieredRouterAdapter) {
@@ -275,6 +279,33 @@ const runWorkerProcess = async (): Promise<number> => {
 
   await sessionStore.init();
 
+  const telegramWebhook =
+    config.telegramBotToken && config.telegramWebhookUrl
+      ? new TelegramWebhookAdapter(
+          config.telegramBotToken,
+          {
+            url: config.telegramWebhookUrl,
+            secretToken: config.telegramWebhookSecret ?? "",
+          },
+          sessionStore,
+        )
+      : null;
+  const slack =
+    config.slackBotToken && config.slackAppToken
+      ? new SlackSocketModeAdapter(
+          {
+            botToken: config.slackBotToken,
+            appToken: config.slackAppToken,
+          },
+          sessionStore,
+        )
+      : null;
+  const telegramPolling =
+    !slack && !telegramWebhook && config.telegramBotToken
+      ? new TelegramLongPollingAdapter(config.telegramBotToken)
+      : null;
+  const chatPort = slack ?? telegramWebhook ?? telegramPolling;
+
   const server = await startWithPortTakeover({
     port: config.port,
     start: () =>
@@ -283,10 +314,37 @@ const runWorkerProcess = async (): Promise<number> => {
         sessionStore,
         modelPort,
         buildInfo,
+        ...(telegramWebhook && config.telegramWebhookUrl
+          ? {
+              telegramWebhook: {
+                path: new URL(config.telegramWebhookUrl).pathname,
+                handleRequest: (request) =>
+                  telegramWebhook.handleRequest(request),
+              },
+            }
+          : {}),
       }),
     reclaim: reclaimPortFromPriorAssistant,
   });
+  // Never throws: a failed first connect is retried like a dropped socket
+  await slack?.connect();
   const stopController = new AbortController();
+  // Register only once the route is live so Telegram's first push lands
+  if (telegramWebhook) {
+    void retryUntilDone({
+      event: "telegram.webhook.register_failed",
+      run: () => telegramWebhook.register(),
+      signal: stopController.signal,
+    });
+  }
+  // Until this succeeds, getUpdates fails and the poll loop retries it
+  if (telegramPolling) {
+    void retryUntilDone({
+      event: "telegram.webhook.delete_failed",
+      run: () => telegramPolling.deleteWebhook(),
+      signal: stopController.signal,
+    });
+  }
   let restartRequested = false;
   let stopping = false;
   let stopResolved = false;
@@ -322,25 +380,28 @@ const runWorkerProcess = async (): Promise<number> => {
   process.on("SIGINT", () => requestStop("sigint", false));
   process.on("SIGTERM", () => requestStop("sigterm", false));
 
-  const telegramWorkerPromise = config.telegramBotToken
+  const chatWorkerPromise = chatPort
     ? startTelegramWorker(
         {
-          chatPort: new TelegramLongPollingAdapter(config.telegramBotToken),
+          chatPort: redactChatPort(chatPort, buildSecretRedactor(config)),
           modelPort,
           sessionStore,
+          ...(shellApprovals ? { shellApprovals } : {}),
+          ...(config.transcriptionUrl
+            ? {
+                transcriber: new WhisperHttpTranscriber({
+                  url: config.transcriptionUrl,
+                  api: config.transcriptionApi,
+                  model: config.transcriptionModel,
+                }),
+              }
+            : {}),
         },
-        config.telegramPollIntervalMs,
+        // Pushed updates block the receive until one arrives, so no sleep between them
+        telegramWebhook || slack ? 0 : config.telegramPollIntervalMs,
         {
-          sessionIdleTimeoutMs: config.sessionIdleTimeoutMs,
-          sessionMaxConcurrent: config.sessionMaxConcurrent,
-          sessionRetryAttempts: config.sessionRetryAttempts,
-          relayTimeoutMs: config.relayTimeoutMs,
-          progressFirstMs: config.progressFirstMs,
-          progressEveryMs: config.progressEveryMs,
-          progressMaxCount: config.progressMaxCount,
-          defaultWorkspacePath: config.assistantRepoPath,
+          ...workerOptionsFromConfig(config, modelPort, buildInfo),
           stopSignal: stopController.signal,
-          buildInfo,
           startupAnnounceChatId: config.startupAnnounceChatId,
           startupAnnounceThreadId: config.startupAnnounceThreadId,
           onRestartRequested: async () => {
@@ -355,8 +416,17 @@ const runWorkerProcess = async (): Promise<number> => {
     envOverridesApplied: config.envOverridesApplied,
     port: config.port,
     sqlitePath: config.sqlitePath,
-    telegramWorkerEnabled: config.telegramBotToken !== null,
+    chatWorkerEnabled: chatPort !== null,
+    chatDelivery: slack
+      ? "slack_socket_mode"
+      : telegramWebhook
+        ? "telegram_webhook"
+        : "telegram_long_polling",
     modelProvider: config.modelProvider,
+    accessControl: config.ownerUserIds.length > 0,
+    requireApproval: config.piAgentRequireApproval,
+    shellApproval: config.piAgentShellApproval,
+    shellSandbox: config.piAgentShellSandbox,
     assistantRepoPath: config.assistantRepoPath,
     version: buildInfo.releaseVersion,
     displayVersion: buildInfo.displayVersion,
@@ -365,13 +435,26 @@ const runWorkerProcess = async (): Promise<number> => {
     buildTimeUtc: buildInfo.buildTimeUtc,
   });
   console.log(`build fingerprint: ${formatVersionFingerprint(buildInfo)}`);
+  if (chatPort && config.ownerUserIds.length === 0) {
+    console.warn(
+      JSON.stringify({
+        level: "warn",
+        event: "access.disabled",
+        message:
+          "ownerUserIds is empty: any chat that finds the bot gets full access",
+      }),
+    );
+  }
 
-  if (telegramWorkerPromise) {
-    await Promise.race([telegramWorkerPromise, stopPromise]);
+  if (chatWorkerPromise) {
+    await Promise.race([chatWorkerPromise, stopPromise]);
   } else {
-    console.log("telegram worker disabled: TELEGRAM_BOT_TOKEN is not set");
+    console.log(
+      "chat worker disabled: set TELEGRAM_BOT_TOKEN, or SLACK_BOT_TOKEN and SLACK_APP_TOKEN",
+    );
     await stopPromise;
   }
+  slack?.disconnect();
 
   try {
     if (modelPort instanceof TieredRouterAdapter) {
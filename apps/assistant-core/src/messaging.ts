@@ -1,30 +1,44 @@
+import { basename } from "node:path";
 import { addChunkMetadata, splitMessage } from "@assistant-core/src/chunking";
-import { logInfo } from "@assistant-core/src/logging";
+import { logError, logInfo, logWarn } from "@assistant-core/src/logging";
+import { redactReply } from "@assistant-core/src/redaction";
 import type { WorkerContext } from "@assistant-core/src/worker-context";
 import type { LogFields } from "@assistant-core/src/worker-types";
-import { TelegramApiError } from "@delegate/adapters-telegram";
+import {
+  ChatDeliveryError,
+  type InboundCallback,
+  type InlineButton,
+  type OutboundFile,
+} from "@delegate/domain";
 import type { ChatPort } from "@delegate/ports";
 
-const TELEGRAM_MAX_LENGTH = 4096;
+/** Telegram's limit; adapters with a different one set ChatPort.maxMessageLength. */
+export const DEFAULT_MAX_MESSAGE_LENGTH = 4096;
 
 /**
  * Send a message to a chat, automatically chunking long text into multiple
- * Telegram messages. Each chunk fits within 4096 characters and preserves
+ * messages. Each chunk fits within the adapter's message limit and preserves
  * markdown structure (paragraphs, code fences).
  *
  * If costFooter is provided, it is appended to the last chunk only.
+ * Inline buttons, if any, are attached to the last chunk as well.
  * Multi-chunk messages get part indicators: " (1/3)", " (2/3)", " (3/3)".
  */
 export const sendMessage = async (
   ctx: WorkerContext,
   chatPort: ChatPort,
-  outbound: { chatId: string; threadId?: string | null; text: string },
+  outbound: {
+    chatId: string;
+    threadId?: string | null;
+    text: string;
+    buttons?: InlineButton[][];
+  },
   fields: LogFields,
   costFooter?: string,
 ): Promise<void> => {
   const rawChunks = splitMessage(
-    outbound.text,
-    TELEGRAM_MAX_LENGTH,
+    redactReply(chatPort, outbound.chatId, outbound.text),
+    chatPort.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH,
     costFooter?.length ?? 0,
   );
   const chunks = addChunkMetadata(rawChunks, costFooter);
@@ -44,18 +58,22 @@ export const sendMessage = async (
 
   for (let i = 0; i < chunks.length; i += 1) {
     const text = chunks[i]!;
+    const buttons =
+      i === chunks.length - 1 && outbound.buttons
+        ? { buttons: outbound.buttons }
+        : {};
     const payload =
       threadId === null
-        ? { chatId: outbound.chatId, text }
-        : { chatId: outbound.chatId, threadId, text };
+        ? { chatId: outbound.chatId, text, ...buttons }
+        : { chatId: outbound.chatId, threadId, text, ...buttons };
 
     try {
       await chatPort.send(payload);
     } catch (error) {
       const shouldRetryWithoutThread =
         threadId !== null &&
-        error instanceof TelegramApiError &&
-        error.statusCode === 400;
+        error instanceof ChatDeliveryError &&
+        error.threadRejected;
       if (!shouldRetryWithoutThread) {
         if (i > 0) {
           logInfo("chat.message.partial_send", {
@@ -67,11 +85,11 @@ export const sendMessage = async (
         throw error;
       }
 
-      await chatPort.send({ chatId: outbound.chatId, text });
+      await chatPort.send({ chatId: outbound.chatId, text, ...buttons });
       logInfo("chat.message.sent_retry_without_thread", {
         chatId: outbound.chatId,
         droppedThreadId: threadId,
-        reason: "telegram_400",
+        reason: String(error),
       });
       // Clear threadId so remaining chunks don't repeat the failed attempt.
       threadId = null;
@@ -84,3 +102,78 @@ export const sendMessage = async (
     ...fields,
   });
 };
+
+/**
+ * Acknowledge an inline button press, optionally with a short toast. Failures
+ * are logged and swallowed: a missed acknowledgement only leaves the button
+ * spinner visible a little longer.
+ */
+export const answerCallback = async (
+  chatPort: ChatPort,
+  callback: InboundCallback,
+  text?: string,
+): Promise<void> => {
+  if (!chatPort.answerCallback) {
+    return;
+  }
+  try {
+    await chatPort.answerCallback(callback.callbackId, text);
+  } catch (error) {
+    logWarn("chat.callback.answer_failed", {
+      chatId: callback.chatId,
+      error: String(error),
+    });
+  }
+};
+
+/**
+ * Upload files the model queued during a turn, one document per file. A file
+ * that cannot be delivered is replaced by a short notice so the user knows
+ * it exists on the server.
+ */
+export const sendFiles = async (
+  ctx: WorkerContext,
+  chatPort: ChatPort,
+  outbound: {
+    chatId: string;
+    threadId?: string | null;
+    files: OutboundFile[];
+  },
+  fields: LogFields,
+): Promise<void> => {
+  for (const file of outbound.files) {
+    const name = basename(file.path);
+    try {
+      if (!chatPort.sendDocument) {
+        throw new Error("chat adapter does not support file uploads");
+      }
+      await chatPort.sendDocument({
+        chatId: outbound.chatId,
+        threadId: outbound.threadId,
+        path: file.path,
+        ...(file.caption ? { caption: file.caption } : {}),
+      });
+      logInfo("chat.document.sent", {
+        chatId: outbound.chatId,
+        fileName: name,
+        ...fields,
+      });
+    } catch (error) {
+      logError("chat.document.failed", {
+        chatId: outbound.chatId,
+        path: file.path,
+        error: String(error),
+      });
+      await sendMessage(
+        ctx,
+        chatPort,
+        {
+          chatId: outbound.chatId,
+          threadId: outbound.threadId,
+          text: `Couldn't send ${name}. It is saved at ${file.path}.`,
+        },
+        { ...fields, stage: "document_failed" },
+      );
+    }
+  }
+};
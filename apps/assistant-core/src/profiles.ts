@@ -0,0 +1,122 @@
+import { logInfo, nowIso } from "@assistant-core/src/logging";
+import { sendMessage } from "@assistant-core/src/messaging";
+import type { RelayTurnInput } from "@assistant-core/src/relay-turn";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type { WorkerDeps } from "@assistant-core/src/worker-types";
+import {
+  type AccessRole,
+  TOOL_PROFILES,
+  type ToolProfile,
+} from "@delegate/domain";
+
+const PROFILE_DESCRIPTIONS: Record<ToolProfile, string> = {
+  full: "every enabled tool",
+  research: "web search and fetch only",
+  "readonly-code": "read, list and search workspace files",
+};
+
+const PROFILE_USAGE = `Usage: /profile, or /profile <${TOOL_PROFILES.join("|")}>`;
+
+type Target = { chatId: string; threadId: string | null; topicKey: string };
+
+const reply = (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: Target,
+  text: string,
+  stage: string,
+): Promise<void> =>
+  sendMessage(
+    ctx,
+    deps.chatPort,
+    { chatId: target.chatId, threadId: target.threadId, text },
+    { action: "profile", stage },
+  );
+
+const isToolProfile = (value: string): value is ToolProfile =>
+  TOOL_PROFILES.includes(value as ToolProfile);
+
+/** The topic's tool profile: as last set, else as stored, else full. */
+export const loadToolProfile = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  topicKey: string,
+): Promise<ToolProfile> => {
+  const inMemory = ctx.toolProfile.get(topicKey);
+  if (inMemory) {
+    return inMemory;
+  }
+  const fromStore = deps.sessionStore?.getTopicToolProfile
+    ? await deps.sessionStore.getTopicToolProfile(topicKey)
+    : null;
+  const resolved = fromStore && isToolProfile(fromStore) ? fromStore : "full";
+  ctx.toolProfile.set(topicKey, resolved);
+  return resolved;
+};
+
+/** Narrower profiles ride along with the turn; full is the model's default. */
+export const turnProfile = (
+  profile: ToolProfile,
+): Pick<RelayTurnInput, "toolProfile"> =>
+  profile === "full" ? {} : { toolProfile: profile };
+
+/** /profile, or /profile <name> (owners only) */
+export const handleProfileCommand = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: Target,
+  role: AccessRole,
+  text: string,
+): Promise<void> => {
+  const [, name] = text.trim().split(/\s+/);
+  if (name === undefined) {
+    const current = await loadToolProfile(ctx, deps, target.topicKey);
+    await reply(
+      ctx,
+      deps,
+      target,
+      [
+        `🧰 Tool profile: ${current}`,
+        ...TOOL_PROFILES.map(
+          (profile) => `• ${profile} — ${PROFILE_DESCRIPTIONS[profile]}`,
+        ),
+        PROFILE_USAGE,
+      ].join("\n"),
+      "show",
+    );
+    return;
+  }
+
+  if (role !== "owner") {
+    await reply(
+      ctx,
+      deps,
+      target,
+      "Only an owner can change the tool profile.",
+      "denied",
+    );
+    return;
+  }
+  const profile = name.toLowerCase();
+  if (!isToolProfile(profile)) {
+    await reply(ctx, deps, target, PROFILE_USAGE, "usage");
+    return;
+  }
+
+  ctx.toolProfile.set(target.topicKey, profile);
+  if (deps.sessionStore?.setTopicToolProfile) {
+    await deps.sessionStore.setTopicToolProfile(
+      target.topicKey,
+      profile,
+      nowIso(),
+    );
+  }
+  logInfo("profile.set", { topicKey: target.topicKey, profile });
+  await reply(
+    ctx,
+    deps,
+    target,
+    `Tool profile set to ${profile}: ${PROFILE_DESCRIPTIONS[profile]}.`,
+    "set",
+  );
+};
@@ -0,0 +1,321 @@
+import type { AppConfig } from "@assistant-core/src/config";
+import { logWarn } from "@assistant-core/src/logging";
+import type { ConversationTurn, TurnEvent } from "@delegate/domain";
+import type {
+  ChatPort,
+  ConversationHistoryPort,
+  ModelSessionStatePort,
+  TurnEventSink,
+} from "@delegate/ports";
+
+export const REDACTED = "[REDACTED]";
+
+/** Shorter values would mask ordinary words, so they are not treated as secrets. */
+const MIN_SECRET_LENGTH = 8;
+
+/** Env vars whose values are always secrets, whatever their name pattern. */
+const SECRET_ENV_KEYS = [
+  "TELEGRAM_BOT_TOKEN",
+  "DELEGATE_GITHUB_TOKEN",
+  "GITHUB_TOKEN",
+  "GH_TOKEN",
+];
+const SECRET_ENV_NAME_PATTERN = /(?:_API_KEY|_TOKEN|_SECRET)$/;
+
+/**
+ * Token shapes worth masking even when the value is not one we know:
+ * provider API keys, GitHub, Slack and Telegram tokens, AWS access keys,
+ * bearer credentials and PEM private keys.
+ */
+const SECRET_PATTERNS: readonly RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\bgsk_[A-Za-z0-9]{20,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}/g,
+  /\bgithub_pat_[A-Za-z0-9_]{30,}/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bxapp-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\b\d{6,12}:AA[A-Za-z0-9_-]{30,}/g,
+  /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{20,}=*/g,
+];
+
+/** Masks known secret values and common token patterns in text. */
+export class SecretRedactor {
+  private readonly secrets: string[];
+
+  constructor(secrets: Iterable<string>) {
+    // Longest first, so a secret containing another is masked whole
+    this.secrets = [...new Set(secrets)]
+      .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+      .sort((a, b) => b.length - a.length);
+  }
+
+  /** The text with secrets masked, and how many were found. */
+  redact(text: string): { text: string; count: number } {
+    let count = 0;
+    let result = text;
+    for (const secret of this.secrets) {
+      const parts = result.split(secret);
+      if (parts.length > 1) {
+        count += parts.length - 1;
+        result = parts.join(REDACTED);
+      }
+    }
+    for (const pattern of SECRET_PATTERNS) {
+      result = result.replace(pattern, () => {
+        count += 1;
+        return REDACTED;
+      });
+    }
+    return { text: result, count };
+  }
+
+  /**
+   * Redact text that is still being streamed. The tail that could be the
+   * start of a secret is held back: the last word until whitespace follows
+   * it, or a PEM block until its END line arrives.
+   */
+  redactPartial(text: string): string {
+    const pemStart = text.lastIndexOf("-----BEGIN ");
+    let end = text.length;
+    if (pemStart !== -1 && !text.includes("-----END ", pemStart)) {
+      end = pemStart;
+    } else {
+      const lastWord = /\S+$/.exec(text);
+      if (lastWord) {
+        end = lastWord.index;
+      }
+    }
+    return this.redact(text.slice(0, end)).text;
+  }
+
+  /** Redact every string inside a JSON-like value. */
+  redactValue<T>(value: T): { value: T; count: number } {
+    let count = 0;
+    const visit = (node: unknown): unknown => {
+      if (typeof node === "string") {
+        const redacted = this.redact(node);
+        count += redacted.count;
+        return redacted.text;
+      }
+      if (Array.isArray(node)) {
+        return node.map(visit);
+      }
+      if (node !== null && typeof node === "object") {
+        return Object.fromEntries(
+          Object.entries(node).map(([key, entry]) => [key, visit(entry)]),
+        );
+      }
+      return node;
+    };
+    const redacted = visit(value) as T;
+    return { value: redacted, count };
+  }
+}
+
+/** Secrets from the config plus token-like env vars such as GROQ_API_KEY. */
+export const collectSecrets = (
+  config: AppConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): string[] => {
+  const secrets = [
+    config.telegramBotToken,
+    config.telegramWebhookSecret,
+    config.slackBotToken,
+    config.slackAppToken,
+    config.piAgentApiKey,
+    ...config.piAgentFallbacks.map((fallback) => fallback.apiKey),
+  ];
+  for (const [key, value] of Object.entries(env)) {
+    if (SECRET_ENV_KEYS.includes(key) || SECRET_ENV_NAME_PATTERN.test(key)) {
+      secrets.push(value ?? null);
+    }
+  }
+  return secrets
+    .map((secret) => secret?.trim() ?? "")
+    .filter((secret) => secret.length > 0);
+};
+
+export const buildSecretRedactor = (config: AppConfig): SecretRedactor =>
+  new SecretRedactor(collectSecrets(config));
+
+/**
+ * Redact turn events before they reach the sink. The turn's closing event
+ * carries `secretRedacted`, the number of values masked across the turn.
+ */
+export const redactTurnEvents = (
+  sink: TurnEventSink,
+  redactor: SecretRedactor,
+): TurnEventSink => {
+  const countsByTurn = new Map<string, number>();
+  return {
+    emit: async (event: TurnEvent): Promise<void> => {
+      const { value: data, count } = redactor.redactValue(event.data);
+      const total = (countsByTurn.get(event.turnId) ?? 0) + count;
+      const finished =
+        event.eventType === "turn_completed" ||
+        event.eventType === "turn_failed";
+      if (finished) {
+        countsByTurn.delete(event.turnId);
+        if (total > 0) {
+          data.secretRedacted = total;
+          logWarn("secret_redacted", {
+            turnId: event.turnId,
+            sessionKey: event.sessionKey,
+            count: total,
+          });
+        }
+      } else if (total > 0) {
+        countsByTurn.set(event.turnId, total);
+      }
+      await sink.emit({ ...event, data });
+    },
+  };
+};
+
+/** The redactor behind each port redactChatPort returned. */
+const chatPortRedactors = new WeakMap<ChatPort, SecretRedactor>();
+
+/**
+ * Mask secrets in a whole reply before it is split into messages, so one
+ * that straddles two chunks is still caught. Text for a port redactChatPort
+ * did not wrap is returned as is.
+ */
+export const redactReply = (
+  chatPort: ChatPort,
+  chatId: string,
+  text: string,
+): string => {
+  const redactor = chatPortRedactors.get(chatPort);
+  if (!redactor) {
+    return text;
+  }
+  const redacted = redactor.redact(text);
+  if (redacted.count > 0) {
+    logWarn("secret_redacted", { chatId, count: redacted.count });
+  }
+  return redacted.text;
+};
+
+/** redactReply for a reply still streaming in; see SecretRedactor.redactPartial. */
+export const redactPartialReply = (chatPort: ChatPort, text: string): string =>
+  chatPortRedactors.get(chatPort)?.redactPartial(text) ?? text;
+
+/**
+ * A ChatPort that masks secrets in every message, edit and caption it sends.
+ * sendMessage and ReplyStream also redact each whole reply through it before
+ * splitting, which each message here cannot see. Every other member is the
+ * wrapped port's own, called on it, so members added to ChatPort later pass
+ * through without being listed here.
+ */
+export const redactChatPort = (
+  chatPort: ChatPort,
+  redactor: SecretRedactor,
+): ChatPort => {
+  const redact = (chatId: string, text: string): string => {
+    const redacted = redactor.redact(text);
+    if (redacted.count > 0) {
+      logWarn("secret_redacted", { chatId, count: redacted.count });
+    }
+    return redacted.text;
+  };
+  const { sendEditable, editMessage, sendDocument } = chatPort;
+  const overrides: Partial<ChatPort> = {
+    send: (message) =>
+      chatPort.send({ ...message, text: redact(message.chatId, message.text) }),
+    ...(sendEditable
+      ? {
+          sendEditable: (message) =>
+            sendEditable.call(chatPort, {
+              ...message,
+              text: redact(message.chatId, message.text),
+            }),
+        }
+      : {}),
+    ...(editMessage
+      ? {
+          editMessage: (edit) =>
+            editMessage.call(chatPort, {
+              ...edit,
+              text: redact(edit.chatId, edit.text),
+            }),
+        }
+      : {}),
+    ...(sendDocument
+      ? {
+          sendDocument: (document) =>
+            sendDocument.call(chatPort, {
+              ...document,
+              ...(document.caption === undefined
+                ? {}
+                : { caption: redact(document.chatId, document.caption) }),
+            }),
+        }
+      : {}),
+  };
+  const redacting = new Proxy(chatPort, {
+    get(target, property) {
+      if (Object.hasOwn(overrides, property)) {
+        return overrides[property as keyof ChatPort];
+      }
+      // Bound so the port's methods keep their state on the port itself
+      const value: unknown = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  chatPortRedactors.set(redacting, redactor);
+  return redacting;
+};
+
+/**
+ * Redact an agent's persisted messages, which keep tool output and replies
+ * verbatim. The state is JSON, so strings are masked inside it rather than
+ * across its structure.
+ */
+export const redactSessionState = (
+  store: ModelSessionStatePort,
+  redactor: SecretRedactor,
+): ModelSessionStatePort => ({
+  loadModelSessionState: (sessionKey) =>
+    store.loadModelSessionState(sessionKey),
+  saveModelSessionState: (sessionKey, state, updatedAt) => {
+    let redacted: { text: string; count: number };
+    try {
+      const { value, count } = redactor.redactValue(JSON.parse(state));
+      redacted = { text: JSON.stringify(value), count };
+    } catch {
+      redacted = redactor.redact(state);
+    }
+    if (redacted.count > 0) {
+      logWarn("secret_redacted", { sessionKey, count: redacted.count });
+    }
+    return store.saveModelSessionState(sessionKey, redacted.text, updatedAt);
+  },
+  deleteModelSessionState: (sessionKey) =>
+    store.deleteModelSessionState(sessionKey),
+});
+
+/** Redact the shared transcript before turns are stored. */
+export const redactConversationHistory = (
+  store: ConversationHistoryPort,
+  redactor: SecretRedactor,
+): ConversationHistoryPort => ({
+  appendConversationTurns: (sessionKey, turns) => {
+    let count = 0;
+    const redacted = turns.map((turn): ConversationTurn => {
+      const result = redactor.redact(turn.text);
+      count += result.count;
+      return { ...turn, text: result.text };
+    });
+    if (count > 0) {
+      logWarn("secret_redacted", { sessionKey, count });
+    }
+    return store.appendConversationTurns(sessionKey, redacted);
+  },
+  listConversationTurns: (sessionKey, limit) =>
+    store.listConversationTurns(sessionKey, limit),
+  clearConversationTurns: (sessionKey) =>
+    store.clearConversationTurns(sessionKey),
+});
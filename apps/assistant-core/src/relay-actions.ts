@@ -0,0 +1,46 @@
+import type { InlineButton } from "@delegate/domain";
+
+const RETRY_PREFIX = "retry:";
+const SWITCH_T2_PREFIX = "t2:";
+const RESET_DATA = "reset";
+
+export type RelayAction =
+  | { kind: "retry"; workItemId: string }
+  | { kind: "switch_t2"; workItemId: string }
+  | { kind: "reset" };
+
+/**
+ * Buttons offered under a relay failure message: retry the same request,
+ * retry it on T2 (tiered routing only) or clear the topic's session.
+ */
+export const buildRelayFailureActions = (
+  workItemId: string,
+  offerTierEscalation: boolean,
+): InlineButton[][] => {
+  const retryRow: InlineButton[] = [
+    { label: "🔁 Retry", data: `${RETRY_PREFIX}${workItemId}` },
+  ];
+  if (offerTierEscalation) {
+    retryRow.push({
+      label: "☁️ Switch to T2",
+      data: `${SWITCH_T2_PREFIX}${workItemId}`,
+    });
+  }
+  return [retryRow, [{ label: "🧹 Reset session", data: RESET_DATA }]];
+};
+
+/** Parse callback data produced by buildRelayFailureActions. */
+export const parseRelayAction = (data: string): RelayAction | null => {
+  if (data === RESET_DATA) {
+    return { kind: "reset" };
+  }
+  if (data.startsWith(RETRY_PREFIX)) {
+    const workItemId = data.slice(RETRY_PREFIX.length);
+    return workItemId ? { kind: "retry", workItemId } : null;
+  }
+  if (data.startsWith(SWITCH_T2_PREFIX)) {
+    const workItemId = data.slice(SWITCH_T2_PREFIX.length);
+    return workItemId ? { kind: "switch_t2", workItemId } : null;
+  }
+  return null;
+};
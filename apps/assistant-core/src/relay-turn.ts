@@ -0,0 +1,440 @@
+import { applyBudget } from "@assistant-core/src/budget";
+import { editPacerFor } from "@assistant-core/src/edit-pacer";
+import {
+  logError,
+  logInfo,
+  logWarn,
+  nowIso,
+} from "@assistant-core/src/logging";
+import { sendFiles, sendMessage } from "@assistant-core/src/messaging";
+import {
+  buildRelayFailureText,
+  classifyRelayError,
+  runWithProgress,
+  withTimeout,
+} from "@assistant-core/src/relay";
+import { buildRelayFailureActions } from "@assistant-core/src/relay-actions";
+import { loadSessionId, persistSessionId } from "@assistant-core/src/session";
+import { TurnStatusLine } from "@assistant-core/src/status-line";
+import { ReplyStream } from "@assistant-core/src/streaming";
+import { sleep } from "@assistant-core/src/timers";
+import { markWorkItem } from "@assistant-core/src/work-items";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type {
+  RelayErrorClass,
+  WorkerDeps,
+  WorkerOptions,
+} from "@assistant-core/src/worker-types";
+import type {
+  ModelStreamEvent,
+  ModelTurnResponse,
+  ToolProfile,
+} from "@delegate/domain";
+
+export type RelayTurnInput = {
+  chatId: string;
+  threadId: string | null;
+  sessionKey: string;
+  workspacePath: string;
+  text: string;
+  pendingProposalWorkItemId: string | null;
+  /** Work item tracking this turn; moved to `running` once a slot is free. */
+  workItemId: string | null;
+  forceTier?: "t1" | "t2";
+  /** Members get `read_only`; see access.ts. */
+  toolAccess?: "full" | "read_only";
+  /** The topic's `/profile`, when narrower than full; see profiles.ts. */
+  toolProfile?: ToolProfile;
+};
+
+export type RelayTurnResult = {
+  response: ModelTurnResponse;
+  attempt: number;
+  resumedSession: boolean;
+  /** Live message the turn streamed into, to be replaced by the reply. */
+  stream?: ReplyStream;
+};
+
+export const formatTokenCount = (count: number): string => {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`;
+  }
+  return String(count);
+};
+
+export const formatCostFooter = (
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+  },
+  tier?: string,
+  provider?: string,
+): string => {
+  const totalTokens = usage.inputTokens + usage.outputTokens;
+  const tierSuffix =
+    (tier ? ` · ${tier.toUpperCase()}` : "") +
+    (provider ? ` · ${provider}` : "");
+  if (usage.cost <= 0) {
+    return `\n\n---\n💰 ${formatTokenCount(totalTokens)} tokens${tierSuffix}`;
+  }
+  const costStr =
+    usage.cost < 0.01
+      ? `$${usage.cost.toFixed(4)}`
+      : `$${usage.cost.toFixed(2)}`;
+  return `\n\n---\n💰 ${costStr} | ${formatTokenCount(totalTokens)} tokens${tierSuffix}`;
+};
+
+/**
+ * Run one model turn with timeout, progress pings and the retry policy for
+ * stale sessions, poisoned tool calls and transient provider errors.
+ *
+ * Returns the successful response, or null after the failure has already
+ * been reported to the user.
+ */
+export const runRelayTurn = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  input: RelayTurnInput,
+  options: WorkerOptions = {},
+): Promise<RelayTurnResult | null> => {
+  const sessionRetryAttempts = options.sessionRetryAttempts ?? 1;
+  const relayTimeoutMs = options.relayTimeoutMs ?? 300_000;
+  const progressFirstMs = options.progressFirstMs ?? 10_000;
+  const progressEveryMs = options.progressEveryMs ?? 30_000;
+  const progressMaxCount = options.progressMaxCount ?? 3;
+  const { sessionKey } = input;
+
+  const budgetGate = await applyBudget(ctx, deps, input, options.budget);
+  if (!budgetGate.allowed) {
+    return null;
+  }
+  const { forceTier } = budgetGate;
+
+  const semaphore = options.concurrencySemaphore;
+  if (semaphore) {
+    await semaphore.acquire();
+  }
+  let statusLine: TurnStatusLine | undefined;
+  let statusOutcome: "done" | "failed" = "failed";
+  try {
+    await markWorkItem(deps, input.workItemId, "running");
+
+    if (options.toolStatusLine && TurnStatusLine.isSupported(deps.chatPort)) {
+      const candidate = new TurnStatusLine(
+        deps.chatPort,
+        { chatId: input.chatId, threadId: input.threadId },
+        options.toolStatusIntervalMs,
+        editPacerFor(ctx, input.chatId, options.groupEditIntervalMs),
+      );
+      if (await candidate.start()) {
+        statusLine = candidate;
+      }
+    }
+
+    let stream: ReplyStream | undefined;
+    if (options.streamReplies && ReplyStream.isSupported(deps.chatPort)) {
+      const candidate = new ReplyStream(
+        deps.chatPort,
+        { chatId: input.chatId, threadId: input.threadId },
+        options.streamEditIntervalMs,
+        editPacerFor(ctx, input.chatId, options.groupEditIntervalMs),
+      );
+      if (await candidate.start()) {
+        stream = candidate;
+      }
+    }
+
+    const baseInput = {
+      chatId: input.chatId,
+      threadId: input.threadId,
+      text: input.text,
+      context: [] as string[],
+      pendingProposalWorkItemId: input.pendingProposalWorkItemId,
+      workspacePath: input.workspacePath,
+      ...(forceTier ? { forceTier } : {}),
+      ...(input.toolAccess ? { toolAccess: input.toolAccess } : {}),
+      ...(input.toolProfile ? { toolProfile: input.toolProfile } : {}),
+      ...(stream || statusLine
+        ? {
+            onStream: (event: ModelStreamEvent) => {
+              stream?.push(event);
+              statusLine?.push(event);
+            },
+          }
+        : {}),
+    };
+
+    let sessionId = await loadSessionId(ctx, deps, sessionKey);
+    let lastError: unknown = null;
+    let lastClassification: RelayErrorClass = "transport";
+
+    for (let attempt = 0; attempt <= sessionRetryAttempts; attempt += 1) {
+      const attemptedSessionId = sessionId;
+      stream?.reset();
+      try {
+        const response = await runWithProgress({
+          task: withTimeout(
+            deps.modelPort.respond({
+              ...baseInput,
+              sessionId,
+            }),
+            relayTimeoutMs,
+            "relay turn",
+            // 5d: Abort the adapter on timeout to prevent zombie sessions
+            () => {
+              const port = deps.modelPort as unknown as Record<string, unknown>;
+              if (typeof port.abort === "function") {
+                (port.abort as (key: string) => void)(sessionKey);
+              }
+            },
+          ),
+          onProgress: async (count) => {
+            await sendMessage(
+              ctx,
+              deps.chatPort,
+              {
+                chatId: input.chatId,
+                threadId: input.threadId,
+                text:
+                  count === 1
+                    ? "Still working on this request..."
+                    : "Still working... I'll send the result as soon as it's ready.",
+              },
+              {
+                action: "relay",
+                stage: "progress",
+                progressCount: count,
+                sessionKey,
+              },
+            );
+          },
+          firstMs: progressFirstMs,
+          everyMs: progressEveryMs,
+          // The streamed message or status line already shows progress
+          maxCount: stream || statusLine ? 0 : progressMaxCount,
+        });
+
+        if (response.sessionId) {
+          await persistSessionId(ctx, deps, sessionKey, response.sessionId);
+        }
+
+        // 5a: Defense-in-depth — warn on suspicious empty response
+        if (
+          response.replyText === "(no response)" &&
+          response.usage &&
+          response.usage.inputTokens === 0 &&
+          response.usage.outputTokens === 0
+        ) {
+          logWarn("relay.suspicious_empty_response", {
+            chatId: input.chatId,
+            sessionKey,
+          });
+        }
+
+        statusOutcome = "done";
+        return {
+          response,
+          attempt,
+          resumedSession: sessionId !== null,
+          ...(stream ? { stream } : {}),
+        };
+      } catch (error) {
+        lastError = error;
+        const errorText = String(error);
+        const classification = classifyRelayError(error);
+        lastClassification = classification;
+        logError(
+          classification === "timeout" ? "relay.timeout" : "relay.error",
+          {
+            chatId: input.chatId,
+            sessionKey,
+            attempt,
+            resumedSession: attemptedSessionId !== null,
+            classification,
+            error: errorText,
+          },
+        );
+
+        const shouldResetSession =
+          attemptedSessionId !== null && classification === "session_invalid";
+        if (shouldResetSession) {
+          sessionId = null;
+          ctx.sessionByKey.delete(sessionKey);
+          await deps.modelPort.resetSession?.(sessionKey);
+          if (deps.sessionStore) {
+            await deps.sessionStore.markStale(sessionKey, nowIso());
+          }
+          logInfo("relay.session_stale_marked", {
+            chatId: input.chatId,
+            sessionKey,
+            staleSessionId: attemptedSessionId,
+          });
+        }
+
+        const shouldRetryFresh =
+          shouldResetSession && attempt < sessionRetryAttempts;
+        if (shouldRetryFresh) {
+          logInfo("relay.retry_fresh_session", {
+            chatId: input.chatId,
+            sessionKey,
+            nextAttempt: attempt + 1,
+          });
+          continue;
+        }
+
+        // 5b: Retry on tool-call validation errors (session is poisoned)
+        if (
+          classification === "tool_call_error" &&
+          attempt < sessionRetryAttempts
+        ) {
+          sessionId = null;
+          ctx.sessionByKey.delete(sessionKey);
+          await deps.modelPort.resetSession?.(sessionKey);
+          if (deps.sessionStore) {
+            await deps.sessionStore.markStale(sessionKey, nowIso());
+          }
+          logInfo("relay.retry_tool_call_error", {
+            chatId: input.chatId,
+            sessionKey,
+            nextAttempt: attempt + 1,
+          });
+          continue;
+        }
+
+        // Context overflow: shrink the history and retry, falling back to a
+        // fresh session when the adapter cannot compact
+        if (
+          classification === "context_overflow" &&
+          attempt < sessionRetryAttempts
+        ) {
+          const compacted =
+            (await deps.modelPort.compactSession?.(sessionKey)) ?? false;
+          if (!compacted) {
+            sessionId = null;
+            ctx.sessionByKey.delete(sessionKey);
+            await deps.modelPort.resetSession?.(sessionKey);
+            if (deps.sessionStore) {
+              await deps.sessionStore.markStale(sessionKey, nowIso());
+            }
+          }
+          logInfo("relay.retry_context_overflow", {
+            chatId: input.chatId,
+            sessionKey,
+            compacted,
+            nextAttempt: attempt + 1,
+          });
+          continue;
+        }
+
+        // 5c: Retry once for transient model errors (rate_limit, capacity)
+        const shouldRetryTransient =
+          classification === "model_transient" &&
+          attempt < sessionRetryAttempts;
+        if (shouldRetryTransient) {
+          logInfo("relay.retry_model_transient", {
+            chatId: input.chatId,
+            sessionKey,
+            nextAttempt: attempt + 1,
+          });
+          await sleep(1500);
+          continue;
+        }
+
+        break;
+      }
+    }
+
+    await stream?.discard();
+    await sendMessage(
+      ctx,
+      deps.chatPort,
+      {
+        chatId: input.chatId,
+        threadId: input.threadId,
+        text: buildRelayFailureText(
+          lastClassification,
+          relayTimeoutMs,
+          lastError,
+        ),
+        ...(input.workItemId
+          ? {
+              buttons: buildRelayFailureActions(
+                input.workItemId,
+                (options.offerTierEscalation ?? false) &&
+                  forceTier === undefined,
+              ),
+            }
+          : {}),
+      },
+      {
+        action: "relay",
+        stage: "failed",
+        classification: lastClassification,
+        error: String(lastError),
+      },
+    );
+    return null;
+  } finally {
+    await statusLine?.stop(statusOutcome);
+    if (semaphore) {
+      semaphore.release();
+    }
+  }
+};
+
+/**
+ * Deliver a successful turn's reply, with a cost footer when usage is known,
+ * followed by any files the model queued with send_file. A streamed turn has
+ * its live message replaced by the reply instead of sending a new one.
+ */
+export const deliverRelayReply = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  input: RelayTurnInput,
+  result: RelayTurnResult,
+): Promise<void> => {
+  const { response } = result;
+  const costFooter = response.usage
+    ? formatCostFooter(response.usage, response.tier, response.provider)
+    : undefined;
+
+  const streamed = result.stream
+    ? await result.stream.finish(response.replyText, costFooter)
+    : false;
+  if (!streamed) {
+    await sendMessage(
+      ctx,
+      deps.chatPort,
+      {
+        chatId: input.chatId,
+        threadId: input.threadId,
+        text: response.replyText,
+      },
+      {
+        action: "relay",
+        attempt: result.attempt,
+        resumedSession: result.resumedSession,
+        sessionKey: input.sessionKey,
+        workspacePath: input.workspacePath,
+      },
+      costFooter,
+    );
+  }
+
+  if (response.files && response.files.length > 0) {
+    await sendFiles(
+      ctx,
+      deps.chatPort,
+      {
+        chatId: input.chatId,
+        threadId: input.threadId,
+        files: response.files,
+      },
+      { action: "relay", sessionKey: input.sessionKey },
+    );
+  }
+};
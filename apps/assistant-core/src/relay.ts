@@ -8,6 +8,9 @@ export const classifyRelayError = (error: unknown): RelayErrorClass => {
     if (c === "rate_limit" || c === "capacity") {
       return "model_transient";
     }
+    if (c === "context_overflow") {
+      return "context_overflow";
+    }
 
     // Tool-call validation errors from the provider (e.g. Groq's failed_generation).
     // The upstream message is poisoned into agent history — needs a session reset.
@@ -69,6 +72,9 @@ export const buildRelayFailureText = (
       error instanceof ModelError ? error.upstream : String(error);
     return `⚠️ ${error instanceof ModelError ? error.classification : "model"} error from the model provider: ${upstream}`;
   }
+  if (classification === "context_overflow") {
+    return "This conversation no longer fits in the model's context window, even after trimming older history. Use /reset to start fresh.";
+  }
   if (classification === "model_transient") {
     return "The model provider is temporarily unavailable. Please try again later.";
   }
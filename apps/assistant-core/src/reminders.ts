@@ -0,0 +1,137 @@
+import { logError, logInfo } from "@assistant-core/src/logging";
+import { sendMessage } from "@assistant-core/src/messaging";
+import {
+  formatRunTime,
+  parseReminderTime,
+} from "@assistant-core/src/schedule-spec";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type { WorkerDeps } from "@assistant-core/src/worker-types";
+import { ChatDeliveryError, type Reminder } from "@delegate/domain";
+import type { ReminderPort } from "@delegate/ports";
+
+/** Reminders delivered later than this after their due time say so. */
+const DELAYED_AFTER_MS = 2 * 60 * 1000;
+
+/** Failed sends before a reminder is given up; one pass per reminder poll. */
+export const MAX_REMINDER_ATTEMPTS = 20;
+
+/**
+ * Back the create_reminder tool with the session store. Times are read in the
+ * host's local time, so the model can pass the user's phrasing through.
+ */
+export const createReminderPort = (store: {
+  createReminder(reminder: Reminder): Promise<void>;
+}): ReminderPort => ({
+  async scheduleReminder(request) {
+    const now = new Date();
+    const due = parseReminderTime(request.when, now);
+    if (!due) {
+      throw new Error(
+        `Could not read "${request.when}" as a time. Try "in 20 minutes", "at 17:30", "tomorrow at 9am" or an ISO timestamp.`,
+      );
+    }
+    if (due.getTime() <= now.getTime()) {
+      throw new Error(
+        `${formatRunTime(due)} has already passed; it is now ${formatRunTime(now)}.`,
+      );
+    }
+    const reminder: Reminder = {
+      id: crypto.randomUUID().slice(0, 8),
+      chatId: request.chatId,
+      threadId: request.threadId,
+      text: request.text,
+      dueAt: due.toISOString(),
+      createdAt: now.toISOString(),
+      deliveredAt: null,
+      attempts: 0,
+      lastError: null,
+      failedAt: null,
+    };
+    await store.createReminder(reminder);
+    logInfo("reminder.created", {
+      chatId: reminder.chatId,
+      reminderId: reminder.id,
+      dueAt: reminder.dueAt,
+    });
+    return {
+      id: reminder.id,
+      dueAt: reminder.dueAt,
+      dueLabel: formatRunTime(due),
+    };
+  },
+});
+
+const reminderText = (reminder: Reminder, now: Date): string => {
+  const lateMs = now.getTime() - new Date(reminder.dueAt).getTime();
+  const text = `⏰ Reminder: ${reminder.text}`;
+  return lateMs > DELAYED_AFTER_MS
+    ? `${text}\n(delayed — was due ${formatRunTime(new Date(reminder.dueAt))})`
+    : text;
+};
+
+/**
+ * Post every reminder that is due. Reminders missed while the assistant was
+ * down go out on the first pass after startup, marked as delayed. A failed
+ * send is retried on the next pass, until the platform rejects it for good
+ * or it has failed MAX_REMINDER_ATTEMPTS times.
+ */
+export const deliverDueReminders = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  now: Date = new Date(),
+): Promise<void> => {
+  const store = deps.sessionStore;
+  if (!store?.listDueReminders || !store.markReminderDelivered) {
+    return;
+  }
+  let due: Reminder[];
+  try {
+    due = await store.listDueReminders(now.toISOString());
+  } catch (error) {
+    logError("reminder.cycle_failed", { error: String(error) });
+    return;
+  }
+  for (const reminder of due) {
+    try {
+      await sendMessage(
+        ctx,
+        deps.chatPort,
+        {
+          chatId: reminder.chatId,
+          threadId: reminder.threadId,
+          text: reminderText(reminder, now),
+        },
+        { action: "reminder", stage: "deliver", reminderId: reminder.id },
+      );
+      await store.markReminderDelivered(reminder.id, now.toISOString());
+      logInfo("reminder.delivered", {
+        chatId: reminder.chatId,
+        reminderId: reminder.id,
+        dueAt: reminder.dueAt,
+      });
+    } catch (error) {
+      const attempts = reminder.attempts + 1;
+      const givenUp =
+        attempts >= MAX_REMINDER_ATTEMPTS ||
+        (error instanceof ChatDeliveryError && error.permanent);
+      logError(givenUp ? "reminder.abandoned" : "reminder.delivery_failed", {
+        chatId: reminder.chatId,
+        reminderId: reminder.id,
+        attempts,
+        error: String(error),
+      });
+      try {
+        await store.recordReminderFailure?.(
+          reminder.id,
+          String(error),
+          givenUp ? now.toISOString() : null,
+        );
+      } catch (recordError) {
+        logError("reminder.failure_record_failed", {
+          reminderId: reminder.id,
+          error: String(recordError),
+        });
+      }
+    }
+  }
+};
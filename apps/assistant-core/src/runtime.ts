@@ -0,0 +1,145 @@
+import type { AppConfig } from "@assistant-core/src/config";
+import {
+  buildSecretRedactor,
+  redactConversationHistory,
+  redactSessionState,
+  redactTurnEvents,
+} from "@assistant-core/src/redaction";
+import { createReminderPort } from "@assistant-core/src/reminders";
+import type { SqliteSessionStore } from "@assistant-core/src/session-store";
+import { ShellApprovalBroker } from "@assistant-core/src/shell-approvals";
+import type { BuildInfo } from "@assistant-core/src/version";
+import type { WorkerOptions } from "@assistant-core/src/worker-types";
+import { PiAgentModelAdapter } from "@delegate/adapters-model-pi-agent";
+import { DeterministicModelStub } from "@delegate/adapters-model-stub";
+import { TieredRouterAdapter } from "@delegate/adapters-model-tiered-router";
+import type { TurnEvent } from "@delegate/domain";
+import type { ModelPort, TurnEventSink } from "@delegate/ports";
+
+/** The broker that holds execute_shell approvals, when approval mode is on. */
+export const buildShellApprovals = (
+  config: AppConfig,
+): ShellApprovalBroker | undefined =>
+  config.piAgentShellApproval
+    ? new ShellApprovalBroker(config.piAgentShellApprovalTimeoutMs)
+    : undefined;
+
+/**
+ * Build the configured model backend. Shared by the bot process and the
+ * local chat REPL so both drive the same pipeline.
+ */
+export const buildModelPort = (
+  config: AppConfig,
+  sessionStore: SqliteSessionStore,
+  shellApprovals?: ShellApprovalBroker,
+): ModelPort => {
+  const redactor = buildSecretRedactor(config);
+  const turnEventSink: TurnEventSink = redactTurnEvents(
+    {
+      emit: async (event: TurnEvent): Promise<void> => {
+        try {
+          await sessionStore.insertTurnEvent(event);
+        } catch {
+          // fire-and-forget: swallow persistence errors
+        }
+      },
+    },
+    redactor,
+  );
+
+  const buildPiAgentAdapter = () =>
+    new PiAgentModelAdapter({
+      provider: config.piAgentProvider,
+      model: config.piAgentModel,
+      apiKey: config.piAgentApiKey ?? undefined,
+      maxSteps: config.piAgentMaxSteps,
+      compactionThreshold: config.piAgentCompactionThreshold,
+      fallbacks: config.piAgentFallbacks.map((fallback) => ({
+        provider: fallback.provider,
+        model: fallback.model,
+        apiKey: fallback.apiKey ?? undefined,
+      })),
+      workspacePath: config.assistantRepoPath,
+      systemPromptPath: config.systemPromptPath ?? undefined,
+      gitIdentity: process.env.GIT_AUTHOR_NAME,
+      enableShellTool: config.piAgentEnableShellTool,
+      requireApproval: config.piAgentRequireApproval,
+      enableWebFetchTool: config.piAgentEnableWebFetchTool,
+      enableWebSearchTool: config.piAgentEnableWebSearchTool,
+      webFetchProvider: config.piAgentWebFetchProvider ?? undefined,
+      webFetchModel: config.piAgentWebFetchModel ?? undefined,
+      turnEventSink,
+      sessionStateStore: redactSessionState(sessionStore, redactor),
+      reminderPort: createReminderPort(sessionStore),
+      shellApprovalPort: shellApprovals,
+      shellAllowlist: config.piAgentShellAllowlist ?? undefined,
+      shellSandbox:
+        config.piAgentShellSandbox === "bubblewrap"
+          ? {
+              backend: "bubblewrap",
+              allowNetwork: config.piAgentShellSandboxNetwork,
+              memoryMb: config.piAgentShellSandboxMemoryMb,
+              cpuSeconds: config.piAgentShellSandboxCpuSeconds,
+            }
+          : undefined,
+    });
+
+  if (config.modelProvider === "tiered_router") {
+    if (!config.tieredRouter) {
+      throw new Error(
+        'modelProvider is "tiered_router" but tieredRouter config block is missing.',
+      );
+    }
+    const t2Backend = buildPiAgentAdapter();
+    return new TieredRouterAdapter({
+      classifier: config.tieredRouter.classifier,
+      t1: config.tieredRouter.t1,
+      engram: config.tieredRouter.engram,
+      t2Backend,
+      turnEventSink,
+      history: {
+        store: redactConversationHistory(sessionStore, redactor),
+        maxTokens: config.tieredRouter.history.maxTokens,
+      },
+    });
+  }
+  if (config.modelProvider === "pi_agent") {
+    return buildPiAgentAdapter();
+  }
+  return new DeterministicModelStub();
+};
+
+/** Worker options that come straight from config, whatever the chat platform. */
+export const workerOptionsFromConfig = (
+  config: AppConfig,
+  modelPort: ModelPort,
+  buildInfo: BuildInfo,
+): WorkerOptions => ({
+  sessionIdleTimeoutMs: config.sessionIdleTimeoutMs,
+  sessionMaxConcurrent: config.sessionMaxConcurrent,
+  sessionRetryAttempts: config.sessionRetryAttempts,
+  relayTimeoutMs: config.relayTimeoutMs,
+  progressFirstMs: config.progressFirstMs,
+  progressEveryMs: config.progressEveryMs,
+  progressMaxCount: config.progressMaxCount,
+  streamReplies: config.streamReplies,
+  streamEditIntervalMs: config.streamEditIntervalMs,
+  toolStatusLine: config.toolStatusLine,
+  defaultWorkspacePath: config.assistantRepoPath,
+  buildInfo,
+  offerTierEscalation: modelPort instanceof TieredRouterAdapter,
+  budget: {
+    global: {
+      dailyUsd: config.budgetDailyUsd,
+      monthlyUsd: config.budgetMonthlyUsd,
+    },
+    perChat: {
+      dailyUsd: config.budgetChatDailyUsd,
+      monthlyUsd: config.budgetChatMonthlyUsd,
+    },
+    whenExceeded: config.budgetExceededAction,
+  },
+  ...(config.ownerUserIds.length > 0
+    ? { access: { ownerUserIds: config.ownerUserIds } }
+    : {}),
+});
@@ -0,0 +1,265 @@
+/**
+ * Recurrences for scheduled tasks, in the host's local time:
+ * "every day at 7:30", "every weekday 8:00", "every mon, thu at 6pm",
+ * "every 2 hours", "every 30 minutes". One-off reminder times live here too.
+ */
+export type Recurrence =
+  | { kind: "weekly"; days: number[]; hour: number; minute: number }
+  | { kind: "interval"; minutes: number };
+
+export const MIN_INTERVAL_MINUTES = 5;
+
+const DAY_NAMES = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const INTERVAL_PATTERN =
+  /^every\s+(?:(\d+)\s*)?(m|mins?|minutes?|h|hrs?|hours?)(?=\s|$)\s*([\s\S]*)$/i;
+const WEEKLY_PATTERN =
+  /^(?:every\s+(.+?)|daily)\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?=\s|$)\s*([\s\S]*)$/i;
+
+/** Days named by one word: "weekday", "weekends", "mon", "Tuesdays", ... */
+const daysForWord = (word: string): number[] | null => {
+  const lower = word.toLowerCase().replace(/s$/, "");
+  if (lower === "day") {
+    return EVERY_DAY;
+  }
+  if (lower === "weekday") {
+    return WEEKDAYS;
+  }
+  if (lower === "weekend") {
+    return WEEKEND;
+  }
+  const index = DAY_NAMES.findIndex(
+    (name) => lower.length >= 3 && name.startsWith(lower),
+  );
+  return index === -1 ? null : [index];
+};
+
+const parseDays = (text: string): number[] | null => {
+  const days = new Set<number>();
+  for (const word of text.split(/\s*(?:,|&|\band\b)\s*|\s+/)) {
+    if (!word) {
+      continue;
+    }
+    const matched = daysForWord(word);
+    if (!matched) {
+      return null;
+    }
+    for (const day of matched) {
+      days.add(day);
+    }
+  }
+  return days.size > 0 ? [...days].sort((a, b) => a - b) : null;
+};
+
+const to24Hour = (
+  hour: number,
+  meridiem: string | undefined,
+): number | null => {
+  if (!meridiem) {
+    return hour <= 23 ? hour : null;
+  }
+  if (hour < 1 || hour > 12) {
+    return null;
+  }
+  const base = hour % 12;
+  return meridiem.toLowerCase() === "pm" ? base + 12 : base;
+};
+
+/**
+ * Split "<recurrence> <task>" into the recurrence and whatever follows it.
+ * Returns null when the text does not start with a recurrence we understand.
+ */
+export const parseRecurrence = (
+  text: string,
+): { recurrence: Recurrence; rest: string } | null => {
+  const trimmed = text.trim();
+
+  const interval = INTERVAL_PATTERN.exec(trimmed);
+  if (interval) {
+    const count = interval[1] === undefined ? 1 : Number(interval[1]);
+    const unit = interval[2]!.toLowerCase();
+    const minutes = unit.startsWith("h") ? count * 60 : count;
+    if (minutes < MIN_INTERVAL_MINUTES) {
+      return null;
+    }
+    return {
+      recurrence: { kind: "interval", minutes },
+      rest: interval[3]!.trim(),
+    };
+  }
+
+  const weekly = WEEKLY_PATTERN.exec(trimmed);
+  if (!weekly) {
+    return null;
+  }
+  const days = weekly[1] === undefined ? EVERY_DAY : parseDays(weekly[1]);
+  const hour = to24Hour(Number(weekly[2]), weekly[4]);
+  const minute = weekly[3] === undefined ? 0 : Number(weekly[3]);
+  if (!days || hour === null || minute > 59) {
+    return null;
+  }
+  return {
+    recurrence: { kind: "weekly", days, hour, minute },
+    rest: weekly[5]!.trim(),
+  };
+};
+
+const ISO_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/i;
+const RELATIVE_TIME_PATTERN =
+  /^in\s+(\d+|an?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?)$/i;
+const DAY_TIME_PATTERN =
+  /^(?:(?:on|next)\s+)?(?:(?!at\b)(\w+)\s+)?(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 24 * 60,
+  w: 7 * 24 * 60,
+};
+
+/**
+ * Read a one-off time in the host's local time: "in 20 minutes", "in an
+ * hour", "at 17:30", "tomorrow at 9am", "friday 6pm", or an ISO timestamp
+ * (local unless it carries an offset). A bare time means its next
+ * occurrence. Returns null when the text is not a time we understand.
+ */
+export const parseReminderTime = (text: string, now: Date): Date | null => {
+  const trimmed = text.trim();
+
+  if (ISO_TIME_PATTERN.test(trimmed)) {
+    const date = new Date(trimmed.replace(" ", "T"));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const relative = RELATIVE_TIME_PATTERN.exec(trimmed);
+  if (relative) {
+    const count = /^an?$/i.test(relative[1]!) ? 1 : Number(relative[1]);
+    const minutes = count * UNIT_MINUTES[relative[2]![0]!.toLowerCase()]!;
+    return new Date(now.getTime() + minutes * 60_000);
+  }
+
+  const dayTime = DAY_TIME_PATTERN.exec(trimmed);
+  if (!dayTime) {
+    return null;
+  }
+  const dayWord = dayTime[1]?.toLowerCase();
+  // "tonight at 9" means 21:00
+  const meridiem =
+    dayTime[4] ??
+    (dayWord === "tonight" && Number(dayTime[2]) < 12 ? "pm" : undefined);
+  const hour = to24Hour(Number(dayTime[2]), meridiem);
+  const minute = dayTime[3] === undefined ? 0 : Number(dayTime[3]);
+  if (hour === null || minute > 59) {
+    return null;
+  }
+  const at = (offset: number): Date =>
+    new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() + offset,
+      hour,
+      minute,
+    );
+  if (dayWord === undefined) {
+    const today = at(0);
+    return today.getTime() > now.getTime() ? today : at(1);
+  }
+  if (dayWord === "today" || dayWord === "tonight") {
+    return at(0);
+  }
+  if (dayWord === "tomorrow") {
+    return at(1);
+  }
+  const days = daysForWord(dayWord);
+  if (!days || days.length !== 1) {
+    return null;
+  }
+  return nextRunAfter({ kind: "weekly", days, hour, minute }, now);
+};
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const sameDays = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((day, i) => day === b[i]);
+
+/** Canonical text for a recurrence; parseRecurrence reads it back. */
+export const describeRecurrence = (recurrence: Recurrence): string => {
+  if (recurrence.kind === "interval") {
+    const { minutes } = recurrence;
+    if (minutes % 60 === 0) {
+      return minutes === 60 ? "every hour" : `every ${minutes / 60} hours`;
+    }
+    return `every ${minutes} minutes`;
+  }
+  const { days, hour, minute } = recurrence;
+  const dayText = sameDays(days, EVERY_DAY)
+    ? "day"
+    : sameDays(days, WEEKDAYS)
+      ? "weekday"
+      : sameDays(days, WEEKEND)
+        ? "weekend"
+        : days
+            .map((day) => {
+              const name = DAY_NAMES[day]!;
+              return name[0]!.toUpperCase() + name.slice(1);
+            })
+            .join(", ");
+  return `every ${dayText} at ${pad(hour)}:${pad(minute)}`;
+};
+
+/** The first time strictly after `after` at which the recurrence fires. */
+export const nextRunAfter = (recurrence: Recurrence, after: Date): Date => {
+  if (recurrence.kind === "interval") {
+    return new Date(after.getTime() + recurrence.minutes * 60_000);
+  }
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const candidate = new Date(
+      after.getFullYear(),
+      after.getMonth(),
+      after.getDate() + offset,
+      recurrence.hour,
+      recurrence.minute,
+    );
+    if (
+      candidate.getTime() > after.getTime() &&
+      recurrence.days.includes(candidate.getDay())
+    ) {
+      return candidate;
+    }
+  }
+  // Unreachable with a non-empty day list; fall back to a week out
+  return new Date(after.getTime() + 7 * 24 * 60 * 60 * 1000);
+};
+
+const MONTH_ABBREVIATIONS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/** Short local time for replies, e.g. "Mon 20 Oct 08:00". */
+export const formatRunTime = (date: Date): string => {
+  const day = DAY_NAMES[date.getDay()]!;
+  return `${day[0]!.toUpperCase()}${day.slice(1, 3)} ${date.getDate()} ${MONTH_ABBREVIATIONS[date.getMonth()]} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
@@ -0,0 +1,241 @@
+import { logInfo, logWarn, nowIso } from "@assistant-core/src/logging";
+import { sendMessage } from "@assistant-core/src/messaging";
+import {
+  describeRecurrence,
+  formatRunTime,
+  MIN_INTERVAL_MINUTES,
+  nextRunAfter,
+  parseRecurrence,
+} from "@assistant-core/src/schedule-spec";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type { WorkerDeps } from "@assistant-core/src/worker-types";
+import type { AccessRole, InboundMessage, Schedule } from "@delegate/domain";
+
+const SCHEDULE_USAGE = [
+  "Usage: /schedule <when> <task>",
+  "e.g. /schedule every weekday 8:00 summarize my repo's open PRs",
+  `When: every day|weekday|weekend|<day names> [at] <time>, or every <N> minutes|hours (at least ${MIN_INTERVAL_MINUTES} minutes)`,
+].join("\n");
+
+const TASK_PREVIEW_CHARS = 80;
+
+type Target = { chatId: string; threadId: string | null };
+
+/** Who is setting up a schedule, and the role their message was admitted with. */
+type Creator = { userId: string | null; role: AccessRole };
+
+const reply = (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: Target,
+  text: string,
+  stage: string,
+): Promise<void> =>
+  sendMessage(
+    ctx,
+    deps.chatPort,
+    { chatId: target.chatId, threadId: target.threadId, text },
+    { action: "schedule", stage },
+  );
+
+const preview = (text: string): string =>
+  text.length > TASK_PREVIEW_CHARS
+    ? `${text.slice(0, TASK_PREVIEW_CHARS - 1)}…`
+    : text;
+
+/**
+ * Create a schedule in the topic. Returns it, or an error message for the
+ * user when the text has no recognizable recurrence or task.
+ */
+export const createSchedule = async (
+  deps: WorkerDeps,
+  input: Target & { topicKey: string; text: string },
+  creator: Creator,
+  now: Date = new Date(),
+): Promise<Schedule | { error: string }> => {
+  if (!deps.sessionStore?.createSchedule) {
+    return { error: "Scheduling is unavailable without a session store." };
+  }
+  const parsed = parseRecurrence(input.text);
+  if (!parsed) {
+    return { error: `I couldn't read when to run that.\n${SCHEDULE_USAGE}` };
+  }
+  if (!parsed.rest) {
+    return { error: `What should I do then?\n${SCHEDULE_USAGE}` };
+  }
+  const schedule: Schedule = {
+    id: crypto.randomUUID().slice(0, 8),
+    topicKey: input.topicKey,
+    chatId: input.chatId,
+    threadId: input.threadId,
+    recurrence: describeRecurrence(parsed.recurrence),
+    taskText: parsed.rest,
+    nextRunAt: nextRunAfter(parsed.recurrence, now).toISOString(),
+    lastRunAt: null,
+    createdAt: now.toISOString(),
+    createdBy: creator.userId,
+    creatorRole: creator.role,
+  };
+  await deps.sessionStore.createSchedule(schedule);
+  logInfo("schedule.created", {
+    chatId: schedule.chatId,
+    scheduleId: schedule.id,
+    recurrence: schedule.recurrence,
+    nextRunAt: schedule.nextRunAt,
+  });
+  return schedule;
+};
+
+/** /schedule <when> <task> */
+export const handleScheduleCommand = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: Target & { topicKey: string },
+  creator: Creator,
+  text: string,
+): Promise<void> => {
+  const args = text.trim().replace(/^\/schedule\b/i, "");
+  if (!args.trim()) {
+    await reply(ctx, deps, target, SCHEDULE_USAGE, "schedule_usage");
+    return;
+  }
+  const result = await createSchedule(deps, { ...target, text: args }, creator);
+  if ("error" in result) {
+    await reply(ctx, deps, target, result.error, "schedule_invalid");
+    return;
+  }
+  await reply(
+    ctx,
+    deps,
+    target,
+    `⏰ Scheduled ${result.id}: ${result.recurrence} — ${preview(result.taskText)}\nNext run: ${formatRunTime(new Date(result.nextRunAt))}. Cancel with /schedules cancel ${result.id}`,
+    "schedule_created",
+  );
+};
+
+/** /schedules lists this chat's schedules; /schedules cancel <id> removes one. */
+export const handleSchedulesCommand = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: Target,
+  text: string,
+): Promise<void> => {
+  const store = deps.sessionStore;
+  if (!store?.listSchedules || !store.deleteSchedule) {
+    await reply(
+      ctx,
+      deps,
+      target,
+      "Scheduling is unavailable without a session store.",
+      "schedules_unavailable",
+    );
+    return;
+  }
+
+  const [, action, id] = text.trim().split(/\s+/);
+  if (action !== undefined) {
+    if (action.toLowerCase() !== "cancel" || !id) {
+      await reply(
+        ctx,
+        deps,
+        target,
+        "Usage: /schedules, or /schedules cancel <id>",
+        "schedules_usage",
+      );
+      return;
+    }
+    const removed = await store.deleteSchedule(id, target.chatId);
+    if (removed) {
+      logInfo("schedule.cancelled", { chatId: target.chatId, scheduleId: id });
+    }
+    await reply(
+      ctx,
+      deps,
+      target,
+      removed ? `Cancelled schedule ${id}.` : `No schedule ${id} in this chat.`,
+      removed ? "schedule_cancelled" : "schedule_not_found",
+    );
+    return;
+  }
+
+  const schedules = await store.listSchedules(target.chatId);
+  if (schedules.length === 0) {
+    await reply(
+      ctx,
+      deps,
+      target,
+      "No schedules yet. Add one with /schedule <when> <task>.",
+      "schedules_empty",
+    );
+    return;
+  }
+  const lines = schedules.map(
+    (schedule) =>
+      `${schedule.id} · ${schedule.recurrence} · next ${formatRunTime(new Date(schedule.nextRunAt))}\n  ${preview(schedule.taskText)}`,
+  );
+  await reply(
+    ctx,
+    deps,
+    target,
+    ["⏰ Schedules", ...lines, "Cancel with /schedules cancel <id>"].join("\n"),
+    "schedules_list",
+  );
+};
+
+/**
+ * Claim every schedule that is due, moving each to its next run first so a
+ * restart mid-turn never fires it twice. Runs missed while the assistant was
+ * down collapse into one.
+ */
+export const claimDueSchedules = async (
+  deps: WorkerDeps,
+  now: Date = new Date(),
+): Promise<Schedule[]> => {
+  const store = deps.sessionStore;
+  if (!store?.listDueSchedules || !store.advanceSchedule) {
+    return [];
+  }
+  const claimed: Schedule[] = [];
+  for (const schedule of await store.listDueSchedules(now.toISOString())) {
+    const parsed = parseRecurrence(schedule.recurrence);
+    if (!parsed) {
+      logWarn("schedule.recurrence_invalid", {
+        scheduleId: schedule.id,
+        recurrence: schedule.recurrence,
+      });
+      continue;
+    }
+    const nextRunAt = nextRunAfter(parsed.recurrence, now).toISOString();
+    if (
+      await store.advanceSchedule(
+        schedule.id,
+        schedule.nextRunAt,
+        nowIso(),
+        nextRunAt,
+      )
+    ) {
+      logInfo("schedule.fired", {
+        chatId: schedule.chatId,
+        scheduleId: schedule.id,
+        dueAt: schedule.nextRunAt,
+        nextRunAt,
+      });
+      claimed.push(schedule);
+    }
+  }
+  return claimed;
+};
+
+/**
+ * The synthetic inbound message a schedule run feeds into its topic queue,
+ * sent on behalf of the schedule's creator so access is checked again.
+ */
+export const scheduledMessage = (schedule: Schedule): InboundMessage => ({
+  chatId: schedule.chatId,
+  threadId: schedule.threadId,
+  text: schedule.taskText,
+  receivedAt: nowIso(),
+  userId: schedule.createdBy,
+  source: "schedule",
+  creatorRole: schedule.creatorRole,
+});
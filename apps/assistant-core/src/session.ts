@@ -58,6 +58,19 @@ export const evictIdleSessions = async (
   }
 };
 
+/** Drop a topic's model session so the next turn starts fresh. */
+export const resetTopicSession = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  sessionKey: string,
+): Promise<void> => {
+  ctx.sessionByKey.delete(sessionKey);
+  await deps.modelPort.resetSession?.(sessionKey);
+  if (deps.sessionStore) {
+    await deps.sessionStore.markStale(sessionKey, new Date().toISOString());
+  }
+};
+
 export const loadSessionId = async (
   ctx: WorkerContext,
   deps: WorkerDeps,
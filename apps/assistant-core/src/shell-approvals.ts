@@ -0,0 +1,172 @@
+import { logInfo, logWarn } from "@assistant-core/src/logging";
+import { answerCallback } from "@assistant-core/src/messaging";
+import type { WorkerDeps } from "@assistant-core/src/worker-types";
+import type {
+  AccessRole,
+  InboundCallback,
+  InlineButton,
+} from "@delegate/domain";
+import type {
+  ShellApprovalDecision,
+  ShellApprovalPort,
+  ShellApprovalRequest,
+} from "@delegate/ports";
+
+const SHELL_CALLBACK_PATTERN = /^shell:(approve|deny):([\w-]+)$/;
+
+export type ShellApprovalAnswer = {
+  decision: "approve" | "deny";
+  approvalId: string;
+};
+
+/**
+ * Posts an approval prompt; supplied by the worker that owns the chat. The
+ * command is never shortened, so long prompts must be split across messages.
+ */
+export type ShellApprovalPrompt = (outbound: {
+  chatId: string;
+  threadId: string | null;
+  text: string;
+  buttons: InlineButton[][];
+}) => Promise<void>;
+
+type PendingApproval = {
+  resolve: (decision: ShellApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/** Parse `shell:approve:<id>` / `shell:deny:<id>` callback data. */
+export const parseShellApprovalCallback = (
+  data: string,
+): ShellApprovalAnswer | null => {
+  const match = SHELL_CALLBACK_PATTERN.exec(data);
+  return match
+    ? {
+        decision: match[1] as ShellApprovalAnswer["decision"],
+        approvalId: match[2]!,
+      }
+    : null;
+};
+
+const formatWindow = (ms: number): string => {
+  const minutes = Math.round(ms / 60_000);
+  return minutes >= 1
+    ? `${minutes} min`
+    : `${Math.max(1, Math.round(ms / 1000))} s`;
+};
+
+/**
+ * Holds execute_shell calls that wait on the user. The tool call blocks until
+ * someone presses Approve or Deny, or the window closes.
+ */
+export class ShellApprovalBroker implements ShellApprovalPort {
+  private readonly pending = new Map<string, PendingApproval>();
+  private prompt: ShellApprovalPrompt | null = null;
+
+  constructor(private readonly timeoutMs: number) {}
+
+  /** Route prompts through the worker's chat delivery. */
+  attach(prompt: ShellApprovalPrompt): void {
+    this.prompt = prompt;
+  }
+
+  async requestShellApproval(
+    request: ShellApprovalRequest,
+  ): Promise<ShellApprovalDecision> {
+    if (!this.prompt) {
+      throw new Error("no chat is connected to ask for approval");
+    }
+    const id = crypto.randomUUID().slice(0, 8);
+
+    const decision = new Promise<ShellApprovalDecision>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        logInfo("shell_approval.timed_out", {
+          chatId: request.chatId,
+          approvalId: id,
+        });
+        resolve("timed_out");
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, timer });
+    });
+
+    try {
+      await this.prompt({
+        chatId: request.chatId,
+        threadId: request.threadId,
+        text: [
+          "🛡️ Run this command?",
+          request.command,
+          `No answer within ${formatWindow(this.timeoutMs)} counts as a no.`,
+        ].join("\n\n"),
+        buttons: [
+          [
+            { label: "✅ Approve", data: `shell:approve:${id}` },
+            { label: "❌ Deny", data: `shell:deny:${id}` },
+          ],
+        ],
+      });
+    } catch (error) {
+      this.settle(id, "denied");
+      throw error;
+    }
+    logInfo("shell_approval.requested", {
+      chatId: request.chatId,
+      approvalId: id,
+    });
+    return decision;
+  }
+
+  /** Resolve a waiting command. Returns false once it was answered or expired. */
+  settle(id: string, decision: "approved" | "denied"): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+    entry.resolve(decision);
+    return true;
+  }
+}
+
+/** A button press on a shell approval prompt. Only owners may answer. */
+export const handleShellApprovalDecision = async (
+  deps: WorkerDeps,
+  callback: InboundCallback,
+  answer: ShellApprovalAnswer,
+  role: AccessRole,
+): Promise<void> => {
+  if (role !== "owner") {
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      "Only an owner can approve commands.",
+    );
+    return;
+  }
+  const decision = answer.decision === "approve" ? "approved" : "denied";
+  if (!deps.shellApprovals?.settle(answer.approvalId, decision)) {
+    logWarn("shell_approval.stale", {
+      chatId: callback.chatId,
+      approvalId: answer.approvalId,
+    });
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      "This request was already answered or has expired.",
+    );
+    return;
+  }
+  logInfo("shell_approval.decided", {
+    chatId: callback.chatId,
+    approvalId: answer.approvalId,
+    decision,
+    decidedBy: callback.userId ?? null,
+  });
+  await answerCallback(
+    deps.chatPort,
+    callback,
+    decision === "approved" ? "Approved. Running it." : "Denied.",
+  );
+};
@@ -11,6 +11,24 @@ export const isRestartIntent = (text: string): boolean => {
 export const isResetIntent = (text: string): boolean =>
   /^\/reset$/i.test(text.trim());
 
+export const isBudgetCommand = (text: string): boolean =>
+  /^\/budget$/i.test(text.trim());
+
+export const isUsageCommand = (text: string): boolean =>
+  /^\/usage(\s|$)/i.test(text.trim());
+
+export const isScheduleCommand = (text: string): boolean =>
+  /^\/schedule(\s|$)/i.test(text.trim());
+
+export const isSchedulesCommand = (text: string): boolean =>
+  /^\/schedules(\s|$)/i.test(text.trim());
+
+export const isAccessCommand = (text: string): boolean =>
+  /^\/access(\s|$)/i.test(text.trim());
+
+export const isProfileCommand = (text: string): boolean =>
+  /^\/profile(\s|$)/i.test(text.trim());
+
 export const expandSlashCommand = (text: string): string => {
   const trimmed = text.trim();
   if (trimmed.toLowerCase() === RESTART_COMMAND) {
@@ -0,0 +1,144 @@
+import { type EditPacer, retryAfterMs } from "@assistant-core/src/edit-pacer";
+import { logWarn } from "@assistant-core/src/logging";
+import type { ModelStreamEvent } from "@delegate/domain";
+import type { ChatPort } from "@delegate/ports";
+
+const DEFAULT_REFRESH_MS = 3000;
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+/**
+ * A single status message per turn, e.g.
+ * `⚙️ Step 3 · execute_shell: bun test · 1m 12s`, refreshed on a fixed
+ * interval from the turn's stream events. Refreshing on a timer rather than
+ * per event keeps edits well inside Telegram's rate limits and lets the
+ * elapsed time tick even while a single tool call runs for minutes. With a
+ * pacer, edits also share the chat's rate with a streamed reply, and a tick
+ * is skipped while the previous edit still waits for its turn.
+ */
+export class TurnStatusLine {
+  private readonly startedAt = Date.now();
+  private step = 0;
+  private lastTool: string | null = null;
+  private messageId: string | null = null;
+  private sentText = "";
+  private closed = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  private refreshing = false;
+
+  constructor(
+    private readonly chatPort: ChatPort,
+    private readonly target: { chatId: string; threadId: string | null },
+    private readonly refreshMs: number = DEFAULT_REFRESH_MS,
+    private readonly pacer?: EditPacer,
+  ) {}
+
+  static isSupported(chatPort: ChatPort): boolean {
+    return Boolean(chatPort.sendEditable && chatPort.editMessage);
+  }
+
+  /** Send the status message. Returns false if it could not be sent. */
+  async start(): Promise<boolean> {
+    const text = this.render();
+    try {
+      await this.pacer?.wait();
+      this.messageId = await this.chatPort.sendEditable!({
+        chatId: this.target.chatId,
+        ...(this.target.threadId === null
+          ? {}
+          : { threadId: this.target.threadId }),
+        text,
+      });
+    } catch (error) {
+      logWarn("relay.status.start_failed", {
+        chatId: this.target.chatId,
+        error: String(error),
+      });
+      return false;
+    }
+    this.sentText = text;
+    this.timer = setInterval(() => {
+      if (this.refreshing) {
+        return;
+      }
+      this.refreshing = true;
+      this.pending = this.pending
+        .then(() => this.refresh(this.render()))
+        .finally(() => {
+          this.refreshing = false;
+        });
+    }, this.refreshMs);
+    return true;
+  }
+
+  push(event: ModelStreamEvent): void {
+    if (event.type === "step_started") {
+      this.step = event.step;
+    } else if (event.type === "tool_call") {
+      this.lastTool = event.summary
+        ? `${event.toolName}: ${event.summary}`
+        : event.toolName;
+    }
+  }
+
+  /** Stop refreshing and leave a one-line summary of the finished turn. */
+  async stop(outcome: "done" | "failed"): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.pending;
+    const elapsed = formatElapsed(Date.now() - this.startedAt);
+    const steps = this.step === 1 ? "1 step" : `${this.step} steps`;
+    await this.refresh(
+      outcome === "done"
+        ? `✅ Done · ${steps} · ${elapsed}`
+        : `⚠️ Stopped · ${steps} · ${elapsed}`,
+      true,
+    );
+  }
+
+  private render(): string {
+    const parts = [this.step > 0 ? `⚙️ Step ${this.step}` : "⚙️ Working"];
+    if (this.lastTool) {
+      parts.push(this.lastTool);
+    }
+    parts.push(formatElapsed(Date.now() - this.startedAt));
+    return parts.join(" · ");
+  }
+
+  private async refresh(text: string, final = false): Promise<void> {
+    if (
+      this.messageId === null ||
+      text === this.sentText ||
+      (this.closed && !final)
+    ) {
+      return;
+    }
+    try {
+      await this.pacer?.wait();
+      await this.chatPort.editMessage!({
+        chatId: this.target.chatId,
+        messageId: this.messageId,
+        text,
+      });
+      this.sentText = text;
+    } catch (error) {
+      this.pacer?.backOff(retryAfterMs(error));
+      logWarn("relay.status.update_failed", {
+        chatId: this.target.chatId,
+        error: String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import { addChunkMetadata, splitMessage } from "@assistant-core/src/chunking";
+import { type EditPacer, retryAfterMs } from "@assistant-core/src/edit-pacer";
+import { logInfo, logWarn } from "@assistant-core/src/logging";
+import { DEFAULT_MAX_MESSAGE_LENGTH } from "@assistant-core/src/messaging";
+import { redactPartialReply, redactReply } from "@assistant-core/src/redaction";
+import type { ModelStreamEvent } from "@delegate/domain";
+import type { ChatPort } from "@delegate/ports";
+
+const PLACEHOLDER_TEXT = "⏳ Working on it...";
+const DEFAULT_EDIT_INTERVAL_MS = 1500;
+// Back off harder after a failed edit, or as long as a 429 asks if longer.
+const FAILURE_BACKOFF_FACTOR = 5;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * Live view of a running model turn: a placeholder message that is edited in
+ * place as text deltas and tool calls arrive, rolling over into additional
+ * messages past the chat's message length limit.
+ *
+ * Edits are throttled to one per `editIntervalMs`, and go through the chat's
+ * pacer when given one, so they share its rate with other live messages and
+ * wait out a 429's retry-after. When the chat adapter
+ * cannot edit, or updates keep failing, the stream goes quiet and finish()
+ * returns false so the caller can fall back to a regular send.
+ */
+export class ReplyStream {
+  private readonly messageIds: string[] = [];
+  private readonly sentTexts: string[] = [];
+  private body = "";
+  private closed = false;
+  private disabled = false;
+  private consecutiveFailures = 0;
+  private nextUpdateAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly chatPort: ChatPort,
+    private readonly target: { chatId: string; threadId: string | null },
+    private readonly editIntervalMs: number = DEFAULT_EDIT_INTERVAL_MS,
+    private readonly pacer?: EditPacer,
+  ) {}
+
+  private get maxLength(): number {
+    return this.chatPort.maxMessageLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+  }
+
+  static isSupported(chatPort: ChatPort): boolean {
+    return Boolean(chatPort.sendEditable && chatPort.editMessage);
+  }
+
+  /** Send the placeholder message. Returns false if streaming is unavailable. */
+  async start(): Promise<boolean> {
+    try {
+      await this.render([PLACEHOLDER_TEXT]);
+      this.nextUpdateAt = Date.now() + this.editIntervalMs;
+      return true;
+    } catch (error) {
+      this.disabled = true;
+      logWarn("relay.stream.start_failed", {
+        chatId: this.target.chatId,
+        error: String(error),
+      });
+      return false;
+    }
+  }
+
+  push(event: ModelStreamEvent): void {
+    if (this.closed || this.disabled) {
+      return;
+    }
+    if (event.type === "text_delta") {
+      this.body += event.delta;
+    } else if (event.type === "tool_call") {
+      const line = event.summary
+        ? `🔧 ${event.toolName}: ${event.summary}`
+        : `🔧 ${event.toolName}`;
+      this.body = `${this.body.trimEnd()}${this.body ? "\n" : ""}${line}\n`;
+    } else {
+      return;
+    }
+    this.schedule();
+  }
+
+  /** Drop streamed output before a retry so the next attempt starts clean. */
+  reset(): void {
+    if (this.closed || this.disabled || !this.body) {
+      return;
+    }
+    this.body = "";
+    this.schedule();
+  }
+
+  /**
+   * Replace the streamed output with the final reply. Returns false when the
+   * reply could not be delivered this way; any streamed messages have been
+   * removed (where supported) and the caller should send it normally.
+   */
+  async finish(text: string, costFooter?: string): Promise<boolean> {
+    await this.close();
+    if (this.disabled || this.messageIds.length === 0) {
+      await this.deleteFrom(0);
+      return false;
+    }
+    const chunks = addChunkMetadata(
+      splitMessage(
+        redactReply(this.chatPort, this.target.chatId, text),
+        this.maxLength,
+        costFooter?.length ?? 0,
+      ),
+      costFooter,
+    );
+    try {
+      await this.render(chunks);
+    } catch (error) {
+      logWarn("relay.stream.finish_failed", {
+        chatId: this.target.chatId,
+        error: String(error),
+      });
+      await this.deleteFrom(0);
+      return false;
+    }
+    await this.deleteFrom(chunks.length);
+    logInfo("relay.stream.finished", {
+      chatId: this.target.chatId,
+      messages: chunks.length,
+    });
+    return true;
+  }
+
+  /** Stop streaming and remove what was shown, e.g. before a failure notice. */
+  async discard(): Promise<void> {
+    await this.close();
+    await this.deleteFrom(0);
+  }
+
+  private async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.pending;
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    const delay = Math.max(0, this.nextUpdateAt - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pending = this.pending.then(() => this.update());
+    }, delay);
+  }
+
+  private async update(): Promise<void> {
+    if (this.closed || this.disabled) {
+      return;
+    }
+    this.nextUpdateAt = Date.now() + this.editIntervalMs;
+    try {
+      await this.render(
+        splitMessage(
+          redactPartialReply(this.chatPort, this.body) || PLACEHOLDER_TEXT,
+          this.maxLength,
+        ),
+      );
+      this.consecutiveFailures = 0;
+    } catch (error) {
+      this.consecutiveFailures += 1;
+      const retryAfter = retryAfterMs(error);
+      this.pacer?.backOff(retryAfter);
+      this.nextUpdateAt =
+        Date.now() +
+        Math.max(this.editIntervalMs * FAILURE_BACKOFF_FACTOR, retryAfter);
+      logWarn("relay.stream.update_failed", {
+        chatId: this.target.chatId,
+        consecutiveFailures: this.consecutiveFailures,
+        error: String(error),
+      });
+      if (this.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        this.disabled = true;
+      }
+    }
+  }
+
+  /** Bring the chat in line with `chunks`, editing only what changed. */
+  private async render(chunks: string[]): Promise<void> {
+    const { chatId, threadId } = this.target;
+    for (let i = 0; i < chunks.length; i += 1) {
+      const text = chunks[i]!;
+      const messageId = this.messageIds[i];
+      if (messageId === undefined) {
+        await this.pacer?.wait();
+        const id = await this.chatPort.sendEditable!({
+          chatId,
+          ...(threadId === null ? {} : { threadId }),
+          text,
+        });
+        this.messageIds.push(id);
+        this.sentTexts.push(text);
+      } else if (this.sentTexts[i] !== text) {
+        await this.pacer?.wait();
+        await this.chatPort.editMessage!({ chatId, messageId, text });
+        this.sentTexts[i] = text;
+      }
+    }
+  }
+
+  private async deleteFrom(index: number): Promise<void> {
+    const removed = this.messageIds.splice(index);
+    this.sentTexts.splice(index);
+    if (!this.chatPort.deleteMessage) {
+      return;
+    }
+    for (const messageId of removed) {
+      try {
+        await this.chatPort.deleteMessage(this.target.chatId, messageId);
+      } catch (error) {
+        logWarn("relay.stream.delete_failed", {
+          chatId: this.target.chatId,
+          messageId,
+          error: String(error),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { budgetWindowStarts, formatUsd } from "@assistant-core/src/budget";
+import { sendMessage } from "@assistant-core/src/messaging";
+import { formatTokenCount } from "@assistant-core/src/relay-turn";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type { WorkerDeps } from "@assistant-core/src/worker-types";
+import type { UsageBucket, UsageTotals } from "@delegate/domain";
+
+export type UsagePeriod = "today" | "week" | "month";
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  today: "today",
+  week: "last 7 days",
+  month: "this month",
+};
+
+const TOP_TOPICS = 3;
+const TOP_MODELS = 3;
+
+/** The period named after /usage; today when omitted, null when unknown. */
+export const parseUsagePeriod = (text: string): UsagePeriod | null => {
+  const arg = text.trim().split(/\s+/)[1]?.toLowerCase() ?? "today";
+  return arg === "today" || arg === "week" || arg === "month" ? arg : null;
+};
+
+/** Start of the period in the host's local calendar, as an ISO timestamp. */
+export const usagePeriodStart = (
+  period: UsagePeriod,
+  now: Date = new Date(),
+): string => {
+  if (period === "week") {
+    return new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() - 6,
+    ).toISOString();
+  }
+  const starts = budgetWindowStarts(now);
+  return period === "today" ? starts.daily : starts.monthly;
+};
+
+const describeTotals = (totals: UsageTotals): string =>
+  `${formatUsd(totals.cost)} · ${formatTokenCount(totals.inputTokens + totals.outputTokens)} tokens · ${totals.turns} ${totals.turns === 1 ? "turn" : "turns"}`;
+
+/** Topic keys are `chatId:threadId`; only the thread matters within a chat. */
+const describeTopic = (topicKey: string, chatId: string): string => {
+  const threadId = topicKey.slice(chatId.length + 1);
+  return threadId === "root" ? "main chat" : `thread ${threadId}`;
+};
+
+const formatUsageReport = (
+  period: UsagePeriod,
+  chatId: string,
+  totals: UsageTotals,
+  breakdown: {
+    tiers: UsageBucket[];
+    models: UsageBucket[];
+    days: UsageBucket[];
+    topics: UsageBucket[];
+  },
+): string => {
+  const lines = [
+    `📊 Usage · ${PERIOD_LABELS[period]}`,
+    `Total: ${describeTotals(totals)}`,
+  ];
+  if (totals.turns === 0) {
+    return lines.join("\n");
+  }
+  if (breakdown.tiers.length > 0) {
+    lines.push(
+      "",
+      "By tier:",
+      ...breakdown.tiers.map(
+        (bucket) => `${bucket.key.toUpperCase()}: ${describeTotals(bucket)}`,
+      ),
+    );
+  }
+  if (breakdown.models.length > 0) {
+    lines.push(
+      "",
+      "By model:",
+      ...breakdown.models.map(
+        (bucket) => `${bucket.key}: ${describeTotals(bucket)}`,
+      ),
+    );
+  }
+  if (breakdown.days.length > 1) {
+    lines.push(
+      "",
+      "By day:",
+      ...breakdown.days.map(
+        (bucket) => `${bucket.key}: ${describeTotals(bucket)}`,
+      ),
+    );
+  }
+  if (breakdown.topics.length > 1) {
+    lines.push(
+      "",
+      "Most expensive topics:",
+      ...breakdown.topics.map(
+        (bucket) =>
+          `${describeTopic(bucket.key, chatId)}: ${describeTotals(bucket)}`,
+      ),
+    );
+  }
+  return lines.join("\n");
+};
+
+/** Reply to /usage [today|week|month] with this chat's usage breakdown. */
+export const handleUsageCommand = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  target: { chatId: string; threadId: string | null },
+  text: string,
+): Promise<void> => {
+  const reply = (replyText: string, stage: string) =>
+    sendMessage(
+      ctx,
+      deps.chatPort,
+      { chatId: target.chatId, threadId: target.threadId, text: replyText },
+      { action: "runtime", stage },
+    );
+
+  const period = parseUsagePeriod(text);
+  if (!period) {
+    await reply("Usage: /usage [today|week|month]", "usage_invalid");
+    return;
+  }
+  const store = deps.sessionStore;
+  if (!store?.summarizeUsage || !store.listUsageBreakdown) {
+    await reply(
+      "Usage reports are unavailable without a session store.",
+      "usage_unavailable",
+    );
+    return;
+  }
+
+  const since = usagePeriodStart(period);
+  const { chatId } = target;
+  const [totals, tiers, models, days, topics] = await Promise.all([
+    store.summarizeUsage(since, chatId),
+    store.listUsageBreakdown("tier", since, { chatId }),
+    store.listUsageBreakdown("model", since, { chatId, limit: TOP_MODELS }),
+    store.listUsageBreakdown("day", since, { chatId }),
+    store.listUsageBreakdown("topic", since, { chatId, limit: TOP_TOPICS }),
+  ]);
+  await reply(
+    formatUsageReport(period, chatId, totals, { tiers, models, days, topics }),
+    "usage",
+  );
+};
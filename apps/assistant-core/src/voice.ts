@@ -0,0 +1,78 @@
+import { logError, logInfo } from "@assistant-core/src/logging";
+import { sendMessage } from "@assistant-core/src/messaging";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type { WorkerDeps } from "@assistant-core/src/worker-types";
+import type { InboundMessage, InboundVoice } from "@delegate/domain";
+
+/**
+ * Replace a voice note with its transcript so the rest of the pipeline sees a
+ * plain text message. The transcript is echoed back first so the user can
+ * spot mis-hearings before the model acts on them.
+ *
+ * Returns null when transcription is unavailable or failed; the user has
+ * already been told why.
+ */
+export const transcribeVoiceMessage = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  message: InboundMessage,
+  voice: InboundVoice,
+): Promise<InboundMessage | null> => {
+  const threadId = message.threadId ?? null;
+  const reply = async (text: string, stage: string): Promise<void> => {
+    await sendMessage(
+      ctx,
+      deps.chatPort,
+      { chatId: message.chatId, threadId, text },
+      { action: "voice", stage },
+    );
+  };
+
+  if (!deps.transcriber || !deps.chatPort.downloadFile) {
+    await reply(
+      "Voice notes aren't enabled on this assistant. Please type your request instead.",
+      "unavailable",
+    );
+    return null;
+  }
+
+  let transcript: string;
+  try {
+    const file = await deps.chatPort.downloadFile(voice.fileId);
+    const result = await deps.transcriber.transcribe({
+      audio: file.data,
+      fileName: file.fileName,
+      mimeType: voice.mimeType ?? "audio/ogg",
+    });
+    transcript = result.text.trim();
+  } catch (error) {
+    logError("voice.transcription_failed", {
+      chatId: message.chatId,
+      durationSec: voice.durationSec,
+      error: String(error),
+    });
+    await reply(
+      "I couldn't transcribe that voice note. Please try again or type it.",
+      "failed",
+    );
+    return null;
+  }
+
+  if (!transcript) {
+    await reply("I couldn't make out any words in that voice note.", "empty");
+    return null;
+  }
+
+  logInfo("voice.transcribed", {
+    chatId: message.chatId,
+    durationSec: voice.durationSec,
+    chars: transcript.length,
+  });
+  await reply(`🎙️ "${transcript}"`, "transcript");
+
+  const { voice: _voice, ...rest } = message;
+  return {
+    ...rest,
+    text: message.text ? `${message.text}\n\n${transcript}` : transcript,
+  };
+};
@@ -0,0 +1,237 @@
+import {
+  logError,
+  logInfo,
+  logWarn,
+  nowIso,
+} from "@assistant-core/src/logging";
+import { sendMessage } from "@assistant-core/src/messaging";
+import type { WorkerContext } from "@assistant-core/src/worker-context";
+import type {
+  WorkerDeps,
+  WorkerOptions,
+} from "@assistant-core/src/worker-types";
+import type { WorkItem, WorkItemStatus } from "@delegate/domain";
+
+const RERUN_PREFIX = "rerun:";
+const DEFAULT_APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+const REQUEST_PREVIEW_CHARS = 200;
+
+/** Parse `rerun:<id>` callback data. */
+export const parseRerunCallback = (data: string): string | null => {
+  if (!data.startsWith(RERUN_PREFIX)) {
+    return null;
+  }
+  const workItemId = data.slice(RERUN_PREFIX.length);
+  return workItemId || null;
+};
+
+/**
+ * Record an incoming relay request as a `received` work item. Returns the new
+ * id, or null when the session store cannot track work items.
+ */
+export const trackWorkItem = async (
+  deps: WorkerDeps,
+  input: {
+    topicKey: string;
+    chatId: string;
+    threadId: string | null;
+    requestText: string;
+  },
+): Promise<string | null> => {
+  if (!deps.sessionStore?.createWorkItem) {
+    return null;
+  }
+  const id = crypto.randomUUID();
+  const createdAt = nowIso();
+  try {
+    await deps.sessionStore.createWorkItem({
+      id,
+      topicKey: input.topicKey,
+      chatId: input.chatId,
+      threadId: input.threadId,
+      status: "received",
+      requestText: input.requestText,
+      proposalText: null,
+      createdAt,
+      updatedAt: createdAt,
+    });
+  } catch (error) {
+    logWarn("work_item.create_failed", {
+      chatId: input.chatId,
+      topicKey: input.topicKey,
+      error: String(error),
+    });
+    return null;
+  }
+  return id;
+};
+
+/**
+ * Move a tracked work item to `status`. Tracking is best-effort: a missing id
+ * or store failure is logged and never interrupts the turn itself.
+ */
+export const markWorkItem = async (
+  deps: WorkerDeps,
+  workItemId: string | null,
+  status: WorkItemStatus,
+  fromStatus?: WorkItemStatus,
+): Promise<boolean> => {
+  if (!workItemId || !deps.sessionStore?.updateWorkItemStatus) {
+    return false;
+  }
+  try {
+    return await deps.sessionStore.updateWorkItemStatus(
+      workItemId,
+      status,
+      nowIso(),
+      fromStatus,
+    );
+  } catch (error) {
+    logWarn("work_item.update_failed", {
+      workItemId,
+      status,
+      error: String(error),
+    });
+    return false;
+  }
+};
+
+/**
+ * Claim an interrupted or failed work item for a re-run by moving it back to
+ * `received`. Returns null when it was already re-run or no longer exists.
+ */
+export const claimWorkItemForRerun = async (
+  deps: WorkerDeps,
+  workItemId: string,
+  fromStatus: "interrupted" | "failed",
+): Promise<WorkItem | null> => {
+  const item = deps.sessionStore?.getWorkItem
+    ? await deps.sessionStore.getWorkItem(workItemId)
+    : null;
+  if (!item) {
+    return null;
+  }
+  const claimed = await markWorkItem(deps, item.id, "received", fromStatus);
+  return claimed ? item : null;
+};
+
+const previewRequest = (text: string): string =>
+  text.length > REQUEST_PREVIEW_CHARS
+    ? `${text.slice(0, REQUEST_PREVIEW_CHARS)}...`
+    : text;
+
+const notifyRecovered = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  item: WorkItem,
+  stage: "work_item_interrupted" | "work_item_approval_lost",
+): Promise<void> => {
+  const request = `"${previewRequest(item.requestText)}"`;
+  try {
+    await sendMessage(
+      ctx,
+      deps.chatPort,
+      stage === "work_item_interrupted"
+        ? {
+            chatId: item.chatId,
+            threadId: item.threadId,
+            text: `I was restarted before I could finish this request:\n\n${request}\n\nWant me to run it again?`,
+            buttons: [
+              [{ label: "🔁 Re-run", data: `${RERUN_PREFIX}${item.id}` }],
+            ],
+          }
+        : {
+            chatId: item.chatId,
+            threadId: item.threadId,
+            // No re-run button: running it again would skip the approval
+            text: `I was restarted after you approved this request, before it started:\n\n${request}\n\nIt did not run. Send it again if you still want it.`,
+          },
+      { action: "runtime", stage, workItemId: item.id },
+    );
+  } catch (error) {
+    logError("work_item.recovery_notify_failed", {
+      chatId: item.chatId,
+      workItemId: item.id,
+      error: String(error),
+    });
+  }
+};
+
+/**
+ * Reconcile work items left behind by a previous worker process. Requests
+ * that were received or running are marked interrupted and their topic is
+ * offered a re-run; approved requests that never started are marked failed
+ * and their topic is told; approvals older than the TTL are expired.
+ */
+export const recoverInFlightWorkItems = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  options: WorkerOptions = {},
+): Promise<{
+  expiredApprovals: number;
+  interruptedWorkItems: number;
+  failedApprovedItems: number;
+}> => {
+  const store = deps.sessionStore;
+  if (!store?.listWorkItemsByStatus || !store.updateWorkItemStatus) {
+    return {
+      expiredApprovals: 0,
+      interruptedWorkItems: 0,
+      failedApprovedItems: 0,
+    };
+  }
+
+  let interruptedWorkItems = 0;
+  for (const status of ["received", "running"] as const) {
+    for (const item of await store.listWorkItemsByStatus(status)) {
+      if (!(await markWorkItem(deps, item.id, "interrupted", status))) {
+        continue;
+      }
+      interruptedWorkItems += 1;
+      logInfo("work_item.interrupted", {
+        chatId: item.chatId,
+        workItemId: item.id,
+        previousStatus: status,
+      });
+      await notifyRecovered(ctx, deps, item, "work_item_interrupted");
+    }
+  }
+
+  let failedApprovedItems = 0;
+  for (const item of await store.listWorkItemsByStatus("approved")) {
+    if (!(await markWorkItem(deps, item.id, "failed", "approved"))) {
+      continue;
+    }
+    failedApprovedItems += 1;
+    logWarn("work_item.approved_not_started", {
+      chatId: item.chatId,
+      workItemId: item.id,
+    });
+    await notifyRecovered(ctx, deps, item, "work_item_approval_lost");
+  }
+
+  const approvalTtlMs = options.approvalTtlMs ?? DEFAULT_APPROVAL_TTL_MS;
+  const cutoff = Date.now() - approvalTtlMs;
+  let expiredApprovals = 0;
+  for (const item of await store.listWorkItemsByStatus("pending_approval")) {
+    if (Date.parse(item.updatedAt) > cutoff) {
+      continue;
+    }
+    if (await markWorkItem(deps, item.id, "expired", "pending_approval")) {
+      expiredApprovals += 1;
+    }
+  }
+
+  if (
+    interruptedWorkItems > 0 ||
+    expiredApprovals > 0 ||
+    failedApprovedItems > 0
+  ) {
+    logInfo("work_item.recovered", {
+      interruptedWorkItems,
+      expiredApprovals,
+      failedApprovedItems,
+    });
+  }
+  return { expiredApprovals, interruptedWorkItems, failedApprovedItems };
+};
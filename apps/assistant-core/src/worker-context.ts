@@ -1,3 +1,6 @@
+import type { EditPacer } from "@assistant-core/src/edit-pacer";
+import type { ToolProfile } from "@delegate/domain";
+
 /**
  * Holds all per-process mutable state for the worker.
  *
@@ -18,9 +21,18 @@ export class WorkerContext {
   /** Current active workspace per topic. */
   readonly activeWorkspace = new Map<string, string>();
 
+  /** Tool profile per topic, once loaded or set. */
+  readonly toolProfile = new Map<string, ToolProfile>();
+
   /** All workspaces ever used per topic (for future history features). */
   readonly workspaceHistory = new Map<string, Set<string>>();
 
   /** Last threadId seen per chatId (for reply thread inference). */
   readonly lastThreadId = new Map<string, string | null>();
+
+  /** Budget windows already warned about at 80%, so each warns once. */
+  readonly budgetWarningsSent = new Set<string>();
+
+  /** Shared spacing for live edits per chatId. */
+  readonly editPacers = new Map<string, EditPacer>();
 }
@@ -1,6 +1,18 @@
 import type { Semaphore } from "@assistant-core/src/concurrency";
+import type { ShellApprovalBroker } from "@assistant-core/src/shell-approvals";
 import type { BuildInfo } from "@assistant-core/src/version";
-import type { ChatPort, ModelPort } from "@delegate/ports";
+import type {
+  AccessGrant,
+  Reminder,
+  Schedule,
+  ToolProfile,
+  UsageBucket,
+  UsageGrouping,
+  UsageTotals,
+  WorkItem,
+  WorkItemStatus,
+} from "@delegate/domain";
+import type { ChatPort, ModelPort, TranscriptionPort } from "@delegate/ports";
 
 export type SessionStoreLike = {
   getSession(sessionKey: string): Promise<{
@@ -29,6 +41,12 @@ export type SessionStoreLike = {
     workspacePath: string,
     updatedAt: string,
   ): Promise<void>;
+  getTopicToolProfile?(topicKey: string): Promise<ToolProfile | null>;
+  setTopicToolProfile?(
+    topicKey: string,
+    profile: ToolProfile,
+    updatedAt: string,
+  ): Promise<void>;
   getPendingStartupAck?(): Promise<{
     chatId: string;
     threadId: string | null;
@@ -44,12 +62,81 @@ export type SessionStoreLike = {
     lastError: string | null;
   }): Promise<void>;
   clearPendingStartupAck?(): Promise<void>;
+  createWorkItem?(item: WorkItem): Promise<void>;
+  getWorkItem?(id: string): Promise<WorkItem | null>;
+  updateWorkItemStatus?(
+    id: string,
+    status: WorkItemStatus,
+    updatedAt: string,
+    fromStatus?: WorkItemStatus,
+  ): Promise<boolean>;
+  listWorkItemsByStatus?(status: WorkItemStatus): Promise<WorkItem[]>;
+  sumSpendSince?(since: string, chatId?: string): Promise<number>;
+  summarizeUsage?(since: string, chatId?: string): Promise<UsageTotals>;
+  listUsageBreakdown?(
+    groupBy: UsageGrouping,
+    since: string,
+    options?: { chatId?: string; limit?: number },
+  ): Promise<UsageBucket[]>;
+  createSchedule?(schedule: Schedule): Promise<void>;
+  listSchedules?(chatId: string): Promise<Schedule[]>;
+  listDueSchedules?(now: string): Promise<Schedule[]>;
+  advanceSchedule?(
+    id: string,
+    fromNextRunAt: string,
+    lastRunAt: string,
+    nextRunAt: string,
+  ): Promise<boolean>;
+  deleteSchedule?(id: string, chatId: string): Promise<boolean>;
+  createReminder?(reminder: Reminder): Promise<void>;
+  listDueReminders?(now: string): Promise<Reminder[]>;
+  markReminderDelivered?(id: string, deliveredAt: string): Promise<void>;
+  recordReminderFailure?(
+    id: string,
+    error: string,
+    failedAt: string | null,
+  ): Promise<void>;
+  getAccessGrant?(
+    kind: AccessGrant["kind"],
+    subjectId: string,
+  ): Promise<AccessGrant | null>;
+  upsertAccessGrant?(grant: AccessGrant): Promise<void>;
+  deleteAccessGrant?(
+    kind: AccessGrant["kind"],
+    subjectId: string,
+  ): Promise<boolean>;
+  listAccessGrants?(): Promise<AccessGrant[]>;
+};
+
+/** Spend limits in USD; null means no limit for that period. */
+export type BudgetLimits = {
+  dailyUsd: number | null;
+  monthlyUsd: number | null;
+};
+
+export type BudgetOptions = {
+  global: BudgetLimits;
+  /** Applies to each chat separately. */
+  perChat: BudgetLimits;
+  /** Over budget: refuse turns, or answer on the free T1 tier only. */
+  whenExceeded: "block" | "t1";
+};
+
+export type AccessOptions = {
+  /**
+   * Platform user ids with full access. They approve new chats, and a
+   * private chat whose id is an owner's user id belongs to that owner.
+   */
+  ownerUserIds: string[];
 };
 
 export type WorkerDeps = {
   chatPort: ChatPort;
   modelPort: ModelPort;
   sessionStore?: SessionStoreLike;
+  transcriber?: TranscriptionPort;
+  /** Waiting execute_shell approvals, when approval mode is on. */
+  shellApprovals?: ShellApprovalBroker;
 };
 
 export type WorkerOptions = {
@@ -71,6 +158,22 @@ export type WorkerOptions = {
   }) => Promise<void> | void;
   startupAnnounceChatId?: string | null;
   startupAnnounceThreadId?: string | null;
+  approvalTtlMs?: number;
+  offerTierEscalation?: boolean;
+  /** Stream replies by editing a live message while the turn runs. */
+  streamReplies?: boolean;
+  streamEditIntervalMs?: number;
+  /** Daily and monthly spend limits, checked before each turn. */
+  budget?: BudgetOptions;
+  /** Keep a per-turn status message with the step, last tool and elapsed time. */
+  toolStatusLine?: boolean;
+  toolStatusIntervalMs?: number;
+  /** Least time between live messages and edits in a group chat (default: 3s). */
+  groupEditIntervalMs?: number;
+  /** How often to check for due reminders (default: 15s). */
+  reminderPollMs?: number;
+  /** Allowlist with roles. Without it every chat has full access. */
+  access?: AccessOptions;
 };
 
 export type LogFields = Record<string, string | number | boolean | null>;
@@ -82,4 +185,5 @@ export type RelayErrorClass =
   | "empty_output"
   | "transport"
   | "model_error"
-  | "model_transient";
+  | "model_transient"
+  | "context_overflow";
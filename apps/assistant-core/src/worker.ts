@@ -1,5 +1,20 @@
 import { existsSync } from "node:fs";
 import { resolve } from "node:path";
+import {
+  admitMessage,
+  handleAccessCommand,
+  handleAccessDecision,
+  parseAccessCallback,
+  resolveRole,
+  turnAccess,
+} from "@assistant-core/src/access";
+import {
+  handleApprovalDecision,
+  parseApprovalCallback,
+  presentProposal,
+} from "@assistant-core/src/approvals";
+import { saveInboundAttachments } from "@assistant-core/src/attachments";
+import { handleBudgetCommand } from "@assistant-core/src/budget";
 import { Semaphore, TopicQueueMap } from "@assistant-core/src/concurrency";
 import {
   logError,
@@ -7,34 +22,68 @@ import {
   logWarn,
   nowIso,
 } from "@assistant-core/src/logging";
-import { sendMessage } from "@assistant-core/src/messaging";
+import { answerCallback, sendMessage } from "@assistant-core/src/messaging";
+import {
+  handleProfileCommand,
+  loadToolProfile,
+  turnProfile,
+} from "@assistant-core/src/profiles";
+import { parseRelayAction } from "@assistant-core/src/relay-actions";
 import {
-  buildRelayFailureText,
-  classifyRelayError,
-  runWithProgress,
-  withTimeout,
-} from "@assistant-core/src/relay";
+  deliverRelayReply,
+  type RelayTurnInput,
+  runRelayTurn,
+} from "@assistant-core/src/relay-turn";
+import { deliverDueReminders } from "@assistant-core/src/reminders";
+import {
+  claimDueSchedules,
+  handleScheduleCommand,
+  handleSchedulesCommand,
+  scheduledMessage,
+} from "@assistant-core/src/scheduler";
 import {
   evictIdleSessions,
-  loadSessionId,
-  persistSessionId,
+  resetTopicSession,
 } from "@assistant-core/src/session";
+import {
+  handleShellApprovalDecision,
+  parseShellApprovalCallback,
+} from "@assistant-core/src/shell-approvals";
 import {
   expandSlashCommand,
+  isAccessCommand,
+  isBudgetCommand,
+  isProfileCommand,
   isResetIntent,
   isRestartIntent,
+  isScheduleCommand,
+  isSchedulesCommand,
   isSlashCommand,
+  isUsageCommand,
 } from "@assistant-core/src/slash-commands";
 import { flushPendingStartupAck } from "@assistant-core/src/startup-ack";
 import { sleep } from "@assistant-core/src/timers";
+import { handleUsageCommand } from "@assistant-core/src/usage";
 import { formatVersionFingerprint } from "@assistant-core/src/version";
+import { transcribeVoiceMessage } from "@assistant-core/src/voice";
+import {
+  claimWorkItemForRerun,
+  markWorkItem,
+  parseRerunCallback,
+  recoverInFlightWorkItems,
+  trackWorkItem,
+} from "@assistant-core/src/work-items";
 import { WorkerContext } from "@assistant-core/src/worker-context";
 import {
   buildTopicKey,
   loadActiveWorkspace,
   setActiveWorkspace,
 } from "@assistant-core/src/workspace";
-import type { InboundMessage } from "@delegate/domain";
+import type {
+  AccessRole,
+  InboundCallback,
+  InboundMessage,
+} from "@delegate/domain";
 
 export { WorkerContext } from "@assistant-core/src/worker-context";
 export type {
@@ -46,58 +95,70 @@ export type {
 } from "@assistant-core/src/worker-types";
 
 import type {
-  RelayErrorClass,
   WorkerDeps,
   WorkerOptions,
 } from "@assistant-core/src/worker-types";
 
-export { flushPendingStartupAck };
+export { flushPendingStartupAck, recoverInFlightWorkItems };
 
-const formatTokenCount = (count: number): string => {
-  if (count >= 1_000_000) {
-    return `${(count / 1_000_000).toFixed(1)}M`;
-  }
-  if (count >= 1_000) {
-    return `${(count / 1_000).toFixed(1)}k`;
-  }
-  return String(count);
-};
-
-const formatCostFooter = (
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-    cost: number;
-  },
-  tier?: string,
-): string => {
-  const totalTokens = usage.inputTokens + usage.outputTokens;
-  const tierSuffix = tier ? ` · ${tier.toUpperCase()}` : "";
-  if (usage.cost <= 0) {
-    return `\n\n---\n💰 ${formatTokenCount(totalTokens)} tokens${tierSuffix}`;
+/**
+ * Run a relay turn and deliver its reply (or approval prompt), settling the
+ * tracked work item as completed or failed. A crash mid-turn leaves the item
+ * `running` for recoverInFlightWorkItems to pick up on the next boot.
+ */
+const relayTrackedTurn = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  input: RelayTurnInput,
+  options: WorkerOptions,
+): Promise<void> => {
+  let outcome: "completed" | "failed" = "failed";
+  try {
+    const result = await runRelayTurn(ctx, deps, input, options);
+    if (!result) {
+      return;
+    }
+    if (
+      result.response.mode !== "execution_proposal" ||
+      !(await presentProposal(ctx, deps, input, result))
+    ) {
+      await deliverRelayReply(ctx, deps, input, result);
+    }
+    outcome = "completed";
+  } finally {
+    await markWorkItem(deps, input.workItemId, outcome);
   }
-  const costStr =
-    usage.cost < 0.01
-      ? `$${usage.cost.toFixed(4)}`
-      : `$${usage.cost.toFixed(2)}`;
-  return `\n\n---\n💰 ${costStr} | ${formatTokenCount(totalTokens)} tokens${tierSuffix}`;
 };
 
 export const handleChatMessage = async (
   ctx: WorkerContext,
   deps: WorkerDeps,
-  message: InboundMessage,
+  inbound: InboundMessage,
   options: WorkerOptions = {},
 ): Promise<void> => {
+  let message = inbound;
   // 5b: Self-contained handler — never let an error escape without notifying the user
   try {
+    const role = await admitMessage(ctx, deps, message, options.access);
+    if (!role) {
+      return;
+    }
+
+    if (message.voice) {
+      const transcribed = await transcribeVoiceMessage(
+        ctx,
+        deps,
+        message,
+        message.voice,
+      );
+      if (!transcribed) {
+        return;
+      }
+      message = transcribed;
+    }
+
     const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? 45 * 60 * 1000;
     const sessionMaxConcurrent = options.sessionMaxConcurrent ?? 5;
-    const sessionRetryAttempts = options.sessionRetryAttempts ?? 1;
-    const relayTimeoutMs = options.relayTimeoutMs ?? 300_000;
-    const progressFirstMs = options.progressFirstMs ?? 10_000;
-    const progressEveryMs = options.progressEveryMs ?? 30_000;
-    const progressMaxCount = options.progressMaxCount ?? 3;
     const defaultWorkspacePath = resolve(
       options.defaultWorkspacePath ?? process.cwd(),
     );
@@ -141,6 +202,19 @@ export const handleChatMessage = async (
     const relayText = expandSlashCommand(message.text);
 
     if (isRestartIntent(message.text)) {
+      if (role !== "owner") {
+        await sendMessage(
+          ctx,
+          deps.chatPort,
+          {
+            chatId: message.chatId,
+            threadId: message.threadId ?? null,
+            text: "Only an owner can restart the assistant.",
+          },
+          { action: "runtime", stage: "restart_denied" },
+        );
+        return;
+      }
       await sendMessage(
         ctx,
         deps.chatPort,
@@ -197,6 +271,20 @@ export const handleChatMessage = async (
 
     if (message.text.trim().startsWith("/workspace")) {
       const parts = message.text.trim().split(/\s+/);
+      // Pointing a topic at another directory widens what members can read
+      if (parts.length > 1 && role !== "owner") {
+        await sendMessage(
+          ctx,
+          deps.chatPort,
+          {
+            chatId: message.chatId,
+            threadId: message.threadId ?? null,
+            text: "Only an owner can change the workspace.",
+          },
+          { action: "runtime", stage: "workspace_denied" },
+        );
+        return;
+      }
       if (parts.length > 1) {
         const targetPath = resolve(parts[1] ?? ".");
         if (!existsSync(targetPath)) {
@@ -248,11 +336,7 @@ export const handleChatMessage = async (
 
     if (isResetIntent(message.text)) {
       const sessionKey = topicKey;
-      ctx.sessionByKey.delete(sessionKey);
-      await deps.modelPort.resetSession?.(sessionKey);
-      if (deps.sessionStore) {
-        await deps.sessionStore.markStale(sessionKey, nowIso());
-      }
+      await resetTopicSession(ctx, deps, sessionKey);
       logInfo("slash.reset", {
         chatId: message.chatId,
         sessionKey,
@@ -270,6 +354,78 @@ export const handleChatMessage = async (
       return;
     }
 
+    if (isBudgetCommand(message.text)) {
+      await handleBudgetCommand(
+        ctx,
+        deps,
+        { chatId: message.chatId, threadId: message.threadId ?? null },
+        options.budget,
+      );
+      return;
+    }
+
+    if (isUsageCommand(message.text)) {
+      await handleUsageCommand(
+        ctx,
+        deps,
+        { chatId: message.chatId, threadId: message.threadId ?? null },
+        message.text,
+      );
+      return;
+    }
+
+    if (isScheduleCommand(message.text)) {
+      await handleScheduleCommand(
+        ctx,
+        deps,
+        {
+          chatId: message.chatId,
+          threadId: message.threadId ?? null,
+          topicKey,
+        },
+        { userId: message.userId ?? null, role },
+        message.text,
+      );
+      return;
+    }
+
+    if (isSchedulesCommand(message.text)) {
+      await handleSchedulesCommand(
+        ctx,
+        deps,
+        { chatId: message.chatId, threadId: message.threadId ?? null },
+        message.text,
+      );
+      return;
+    }
+
+    if (isAccessCommand(message.text)) {
+      await handleAccessCommand(
+        ctx,
+        deps,
+        { chatId: message.chatId, threadId: message.threadId ?? null },
+        role,
+        options.access,
+        message.text,
+      );
+      return;
+    }
+
+    if (isProfileCommand(message.text)) {
+      await handleProfileCommand(
+        ctx,
+        deps,
+        {
+          chatId: message.chatId,
+          threadId: message.threadId ?? null,
+          topicKey,
+        },
+        role,
+        message.text,
+      );
+      return;
+    }
+
     if (isSlashCommand(message.text)) {
       await sendMessage(
         ctx,
@@ -277,7 +433,7 @@ export const handleChatMessage = async (
         {
           chatId: message.chatId,
           threadId: message.threadId ?? null,
-          text: "Unknown slash command. Supported: /start, /restart, /reset, /version, /workspace",
+          text: "Unknown slash command. Supported: /start, /restart, /reset, /version, /workspace, /budget, /usage, /schedule, /schedules, /access, /profile",
         },
         { action: "runtime", stage: "unknown_slash" },
       );
@@ -292,215 +448,40 @@ export const handleChatMessage = async (
         nowIso(),
       );
     }
-    const semaphore = options.concurrencySemaphore;
-    if (semaphore) {
-      await semaphore.acquire();
-    }
-    try {
-      const baseInput = {
+    const attachmentNote = message.attachments?.length
+      ? await saveInboundAttachments(
+          deps,
+          message.chatId,
+          topicKey,
+          message.attachments,
+          activeWorkspacePath,
+        )
+      : "";
+    const turnText = [attachmentNote, relayText]
+      .filter((part) => part.length > 0)
+      .join("\n\n");
+    const workItemId = await trackWorkItem(deps, {
+      topicKey,
+      chatId: message.chatId,
+      threadId: message.threadId ?? null,
+      requestText: turnText,
+    });
+    await relayTrackedTurn(
+      ctx,
+      deps,
+      {
         chatId: message.chatId,
         threadId: message.threadId ?? null,
-        text: relayText,
-        context: [] as string[],
-        pendingProposalWorkItemId: null,
+        sessionKey,
         workspacePath: activeWorkspacePath,
-      };
-
-      let sessionId = await loadSessionId(ctx, deps, sessionKey);
-      let lastError: unknown = null;
-      let lastClassification: RelayErrorClass = "transport";
-
-      for (let attempt = 0; attempt <= sessionRetryAttempts; attempt += 1) {
-        const attemptedSessionId = sessionId;
-        try {
-          const response = await runWithProgress({
-            task: withTimeout(
-              deps.modelPort.respond({
-                ...baseInput,
-                sessionId,
-              }),
-              relayTimeoutMs,
-              "relay turn",
-              // 5d: Abort the adapter on timeout to prevent zombie sessions
-              () => {
-                const port = deps.modelPort as unknown as Record<
-                  string,
-                  unknown
-                >;
-                if (typeof port.abort === "function") {
-                  (port.abort as (key: string) => void)(sessionKey);
-                }
-              },
-            ),
-            onProgress: async (count) => {
-              await sendMessage(
-                ctx,
-                deps.chatPort,
-                {
-                  chatId: message.chatId,
-                  threadId: message.threadId ?? null,
-                  text:
-                    count === 1
-                      ? "Still working on this request..."
-                      : "Still working... I'll send the result as soon as it's ready.",
-                },
-                {
-                  action: "relay",
-                  stage: "progress",
-                  progressCount: count,
-                  sessionKey,
-                },
-              );
-            },
-            firstMs: progressFirstMs,
-            everyMs: progressEveryMs,
-            maxCount: progressMaxCount,
-          });
-
-          if (response.sessionId) {
-            await persistSessionId(ctx, deps, sessionKey, response.sessionId);
-          }
-
-          // 5a: Defense-in-depth — warn on suspicious empty response
-          if (
-            response.replyText === "(no response)" &&
-            response.usage &&
-            response.usage.inputTokens === 0 &&
-            response.usage.outputTokens === 0
-          ) {
-            logWarn("relay.suspicious_empty_response", {
-              chatId: message.chatId,
-              sessionKey,
-            });
-          }
-
-          const costFooter = response.usage
-            ? formatCostFooter(response.usage, response.tier)
-            : undefined;
-
-          await sendMessage(
-            ctx,
-            deps.chatPort,
-            {
-              chatId: message.chatId,
-              threadId: message.threadId ?? null,
-              text: response.replyText,
-            },
-            {
-              action: "relay",
-              attempt,
-              resumedSession: sessionId !== null,
-              sessionKey,
-              workspacePath: activeWorkspacePath,
-            },
-            costFooter,
-          );
-          return;
-        } catch (error) {
-          lastError = error;
-          const errorText = String(error);
-          const classification = classifyRelayError(error);
-          lastClassification = classification;
-          logError(
-            classification === "timeout" ? "relay.timeout" : "relay.error",
-            {
-              chatId: message.chatId,
-              sessionKey,
-              attempt,
-              resumedSession: attemptedSessionId !== null,
-              classification,
-              error: errorText,
-            },
-          );
-
-          const shouldResetSession =
-            attemptedSessionId !== null && classification === "session_invalid";
-          if (shouldResetSession) {
-            sessionId = null;
-            ctx.sessionByKey.delete(sessionKey);
-            await deps.modelPort.resetSession?.(sessionKey);
-            if (deps.sessionStore) {
-              await deps.sessionStore.markStale(sessionKey, nowIso());
-            }
-            logInfo("relay.session_stale_marked", {
-              chatId: message.chatId,
-              sessionKey,
-              staleSessionId: attemptedSessionId,
-            });
-          }
-
-          const shouldRetryFresh =
-            shouldResetSession && attempt < sessionRetryAttempts;
-          if (shouldRetryFresh) {
-            logInfo("relay.retry_fresh_session", {
-              chatId: message.chatId,
-              sessionKey,
-              nextAttempt: attempt + 1,
-            });
-            continue;
-          }
-
-          // 5b: Retry on tool-call validation errors (session is poisoned)
-          if (
-            classification === "tool_call_error" &&
-            attempt < sessionRetryAttempts
-          ) {
-            sessionId = null;
-            ctx.sessionByKey.delete(sessionKey);
-            await deps.modelPort.resetSession?.(sessionKey);
-            if (deps.sessionStore) {
-              await deps.sessionStore.markStale(sessionKey, nowIso());
-            }
-            logInfo("relay.retry_tool_call_error", {
-              chatId: message.chatId,
-              sessionKey,
-              nextAttempt: attempt + 1,
-            });
-            continue;
-          }
-
-          // 5c: Retry once for transient model errors (rate_limit, capacity)
-          const shouldRetryTransient =
-            classification === "model_transient" &&
-            attempt < sessionRetryAttempts;
-          if (shouldRetryTransient) {
-            logInfo("relay.retry_model_transient", {
-              chatId: message.chatId,
-              sessionKey,
-              nextAttempt: attempt + 1,
-            });
-            await sleep(1500);
-            continue;
-          }
-
-          break;
-        }
-      }
-
-      await sendMessage(
-        ctx,
-        deps.chatPort,
-        {
-          chatId: message.chatId,
-          threadId: message.threadId ?? null,
-          text: buildRelayFailureText(
-            lastClassification,
-            relayTimeoutMs,
-            lastError,
-          ),
-        },
-        {
-          action: "relay",
-          stage: "failed",
-          classification: lastClassification,
-          error: String(lastError),
-        },
-      );
-    } finally {
-      if (semaphore) {
-        semaphore.release();
-      }
-    }
+        text: turnText,
+        pendingProposalWorkItemId: null,
+        workItemId,
+        ...turnAccess(role),
+        ...turnProfile(await loadToolProfile(ctx, deps, topicKey)),
+      },
+      options,
+    );
   } catch (outerError) {
     // 5b: Defense-in-depth — if anything escapes the inner handling, still notify user
     logError("worker.uncaught_error", {
@@ -532,13 +513,187 @@ export const handleChatMessage = async (
   }
 };
 
-export const recoverInFlightWorkItems = async (): Promise<{
-  expiredApprovals: number;
-  cancelledWorkItems: number;
-}> => ({
-  expiredApprovals: 0,
-  cancelledWorkItems: 0,
-});
+/**
+ * Re-run a tracked request from a button press: either one a previous worker
+ * process was interrupted on, or one whose relay turn failed.
+ */
+const handleRerun = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  callback: InboundCallback,
+  workItemId: string,
+  fromStatus: "interrupted" | "failed",
+  role: AccessRole,
+  options: WorkerOptions,
+  forceTier?: "t1" | "t2",
+): Promise<void> => {
+  const item = await claimWorkItemForRerun(deps, workItemId, fromStatus);
+  if (!item) {
+    await answerCallback(
+      deps.chatPort,
+      callback,
+      "This request was already handled.",
+    );
+    return;
+  }
+  await answerCallback(
+    deps.chatPort,
+    callback,
+    forceTier ? "Retrying on T2." : "Running it again.",
+  );
+  logInfo("work_item.rerun", {
+    chatId: item.chatId,
+    workItemId: item.id,
+    fromStatus,
+    forceTier: forceTier ?? null,
+  });
+
+  const workspacePath = await loadActiveWorkspace(
+    ctx,
+    deps,
+    item.topicKey,
+    resolve(options.defaultWorkspacePath ?? process.cwd()),
+  );
+  await relayTrackedTurn(
+    ctx,
+    deps,
+    {
+      chatId: item.chatId,
+      threadId: item.threadId,
+      sessionKey: item.topicKey,
+      workspacePath,
+      text: item.requestText,
+      pendingProposalWorkItemId: null,
+      workItemId: item.id,
+      ...(forceTier ? { forceTier } : {}),
+      ...turnAccess(role),
+      ...turnProfile(await loadToolProfile(ctx, deps, item.topicKey)),
+    },
+    options,
+  );
+};
+
+/** Handle an inline button press. Unknown or stale callbacks are acknowledged and dropped. */
+export const handleCallback = async (
+  ctx: WorkerContext,
+  deps: WorkerDeps,
+  callback: InboundCallback,
+  options: WorkerOptions = {},
+): Promise<void> => {
+  try {
+    logInfo("chat.callback.received", {
+      chatId: callback.chatId,
+      data: callback.data,
+    });
+
+    const accessDecision = parseAccessCallback(callback.data);
+    if (accessDecision) {
+      await handleAccessDecision(
+        ctx,
+        deps,
+        callback,
+        accessDecision,
+        options.access,
+      );
+      return;
+    }
+
+    const role = await resolveRole(deps, options.access, callback);
+    if (role !== "owner" && role !== "member") {
+      logInfo("access.callback_refused", {
+        chatId: callback.chatId,
+        userId: callback.userId ?? null,
+      });
+      await answerCallback(
+        deps.chatPort,
+        callback,
+        "You don't have access here.",
+      );
+      return;
+    }
+
+    const shellAnswer = parseShellApprovalCallback(callback.data);
+    if (shellAnswer) {
+      await handleShellApprovalDecision(deps, callback, shellAnswer, role);
+      return;
+    }
+
+    const approval = parseApprovalCallback(callback.data);
+    if (approval) {
+      await handleApprovalDecision(
+        ctx,
+        deps,
+        callback,
+        approval,
+        role,
+        options,
+      );
+      return;
+    }
+
+    const rerunWorkItemId = parseRerunCallback(callback.data);
+    if (rerunWorkItemId) {
+      await handleRerun(
+        ctx,
+        deps,
+        callback,
+        rerunWorkItemId,
+        "interrupted",
+        role,
+        options,
+      );
+      return;
+    }
+
+    const relayAction = parseRelayAction(callback.data);
+    if (relayAction?.kind === "reset") {
+      const sessionKey = buildTopicKey(callback);
+      await resetTopicSession(ctx, deps, sessionKey);
+      logInfo("slash.reset", {
+        chatId: callback.chatId,
+        sessionKey,
+        source: "button",
+      });
+      await answerCallback(deps.chatPort, callback, "Session cleared.");
+      await sendMessage(
+        ctx,
+        deps.chatPort,
+        {
+          chatId: callback.chatId,
+          threadId: callback.threadId ?? null,
+          text: "Session cleared. Starting fresh.",
+        },
+        { action: "runtime", stage: "session_reset" },
+      );
+      return;
+    }
+    if (relayAction) {
+      await handleRerun(
+        ctx,
+        deps,
+        callback,
+        relayAction.workItemId,
+        "failed",
+        role,
+        options,
+        relayAction.kind === "switch_t2" ? "t2" : undefined,
+      );
+      return;
+    }
+
+    logWarn("chat.callback.unknown", {
+      chatId: callback.chatId,
+      data: callback.data,
+    });
+    await answerCallback(deps.chatPort, callback);
+  } catch (error) {
+    logError("worker.callback_error", {
+      chatId: callback.chatId,
+      data: callback.data,
+      error: String(error),
+    });
+  }
+};
 
 export const startTelegramWorker = (
   deps: WorkerDeps,
@@ -547,12 +702,49 @@ export const startTelegramWorker = (
 ): Promise<void> => {
   const ctx = new WorkerContext();
   const isStopping = (): boolean => options.stopSignal?.aborted ?? false;
+  deps.shellApprovals?.attach((outbound) =>
+    sendMessage(ctx, deps.chatPort, outbound, {
+      action: "shell_approval",
+      stage: "request",
+    }),
+  );
   let cursor: number | null = null;
   const queueMap = new TopicQueueMap();
   const maxConcurrent = options.maxConcurrentTopics ?? 3;
   const semaphore =
     options.concurrencySemaphore ?? new Semaphore(maxConcurrent);
   const optionsWithSemaphore = { ...options, concurrencySemaphore: semaphore };
+  const topicQueue = (topicKey: string) =>
+    queueMap.getOrCreate(topicKey, (error) => {
+      logError("worker.topic_queue.error", {
+        topicKey,
+        error: String(error),
+      });
+    });
+
+  /** Feed due schedules into their topics as if the user had just asked. */
+  const enqueueDueSchedules = async (): Promise<void> => {
+    try {
+      for (const schedule of await claimDueSchedules(deps)) {
+        const message = scheduledMessage(schedule);
+        topicQueue(buildTopicKey(message)).enqueue(async () => {
+          await handleChatMessage(ctx, deps, message, optionsWithSemaphore);
+        });
+      }
+    } catch (error) {
+      logError("schedule.cycle_failed", {
+        error: String(error),
+      });
+    }
+  };
+
+  // Reminders run on their own timer so a slow chat poll never delays them
+  let reminderPass: Promise<void> | null = null;
+  const deliverReminders = (): void => {
+    reminderPass ??= deliverDueReminders(ctx, deps).finally(() => {
+      reminderPass = null;
+    });
+  };
 
   const loop = async (): Promise<void> => {
     try {
@@ -563,6 +755,14 @@ export const startTelegramWorker = (
       });
     }
 
+    try {
+      await recoverInFlightWorkItems(ctx, deps, options);
+    } catch (error) {
+      logError("work_item.recovery_failed", {
+        error: String(error),
+      });
+    }
+
     if (options.startupAnnounceChatId) {
       const version = options.buildInfo?.releaseVersion ?? "unknown";
       try {
@@ -600,7 +800,14 @@ export const startTelegramWorker = (
       }
     }
 
+    deliverReminders();
+    const reminderTimer = setInterval(
+      deliverReminders,
+      options.reminderPollMs ?? 15_000,
+    );
+
     while (!isStopping()) {
+      await enqueueDueSchedules();
       try {
         const updates = await deps.chatPort.receiveUpdates(cursor);
         if (updates.length > 0) {
@@ -618,22 +825,38 @@ export const startTelegramWorker = (
           if (deps.sessionStore) {
             await deps.sessionStore.setCursor(cursor);
           }
-          const topicKey = buildTopicKey(update.message);
-          queueMap
-            .getOrCreate(topicKey, (error) => {
-              logError("worker.topic_queue.error", {
-                topicKey,
-                error: String(error),
-              });
-            })
-            .enqueue(async () => {
+          // The turn waiting on a shell approval holds its topic's queue, so
+          // the answer must not line up behind it
+          if (
+            "callback" in update &&
+            parseShellApprovalCallback(update.callback.data)
+          ) {
+            await handleCallback(
+              ctx,
+              deps,
+              update.callback,
+              optionsWithSemaphore,
+            );
+            continue;
+          }
+          const source = "message" in update ? update.message : update.callback;
+          topicQueue(buildTopicKey(source)).enqueue(async () => {
+            if ("message" in update) {
               await handleChatMessage(
                 ctx,
                 deps,
                 update.message,
                 optionsWithSemaphore,
               );
-            });
+            } else {
+              await handleCallback(
+                ctx,
+                deps,
+                update.callback,
+                optionsWithSemaphore,
+              );
+            }
+          });
         }
       } catch (error) {
         logError("worker.cycle.failed", {
@@ -648,6 +871,8 @@ export const startTelegramWorker = (
       await sleep(pollIntervalMs);
     }
 
+    clearInterval(reminderTimer);
+    await reminderPass;
     logInfo("worker.stopping", { pendingQueues: queueMap.size });
     await queueMap.drainAll();
     logInfo("worker.stopped", {});
@@ -1,10 +1,11 @@
 import { nowIso } from "@assistant-core/src/logging";
 import type { WorkerContext } from "@assistant-core/src/worker-context";
 import type { WorkerDeps } from "@assistant-core/src/worker-types";
-import type { InboundMessage } from "@delegate/domain";
 
-export const buildTopicKey = (message: InboundMessage): string =>
-  `${message.chatId}:${message.threadId ?? "root"}`;
+export const buildTopicKey = (message: {
+  chatId: string;
+  threadId?: string | null;
+}): string => `${message.chatId}:${message.threadId ?? "root"}`;
 
 const rememberWorkspace = (
   ctx: WorkerContext,
@@ -0,0 +1,183 @@
+import { describe, expect, test } from "bun:test";
+import type { ModelTurnResponse } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const OWNER = "1001";
+
+const recordingModel =
+  (calls: RespondInput[]) =>
+  async (input: RespondInput): Promise<ModelTurnResponse> => {
+    calls.push(input);
+    return {
+      mode: "chat_reply",
+      confidence: 1,
+      replyText: `echo: ${input.text}`,
+      sessionId: input.sessionId ?? "ses-access",
+    };
+  };
+
+const buildHarness = async (calls: RespondInput[] = []) => {
+  const harness = new BehaviorTestHarness({
+    modelRespondFn: recordingModel(calls),
+    access: { ownerUserIds: [OWNER] },
+  });
+  await harness.start();
+  return harness;
+};
+
+describe("access control behaviors", () => {
+  test("an unknown chat is refused and the owner asked to approve it", async () => {
+    const calls: RespondInput[] = [];
+    const harness = await buildHarness(calls);
+
+    await harness.sendMessageFrom("2002", "-500", "run ls /", "@mallory");
+    await harness.sendMessageFrom("2002", "-500", "hello?", "@mallory");
+
+    expect(calls).toHaveLength(0);
+    const refusals = harness.getReplies("-500").map((reply) => reply.text);
+    expect(refusals[0]).toContain("I only work in approved chats");
+    expect(refusals[1]).toBe(
+      "Your access request is still waiting for an owner.",
+    );
+
+    const requests = harness.getReplies(OWNER);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]?.text).toContain(
+      "Access request from @mallory (user 2002) in chat -500",
+    );
+    expect(requests[0]?.text).toContain("run ls /");
+    expect(requests[0]?.buttons?.flat().map((button) => button.data)).toEqual([
+      "access:approve:-500",
+      "access:deny:-500",
+    ]);
+  });
+
+  test("an owner's approval lets the chat in with read-only tools", async () => {
+    const calls: RespondInput[] = [];
+    const harness = await buildHarness(calls);
+    await harness.sendMessageFrom("2002", "-501", "hi");
+
+    // Only owners decide
+    await harness.pressButton("-501", "access:approve:-501", null, "2002");
+    expect(harness.chatPort.answeredCallbacks.at(-1)?.text).toBe(
+      "Only an owner can decide access.",
+    );
+
+    await harness.pressButton(OWNER, "access:approve:-501", null, OWNER);
+    expect(harness.getLastReply(OWNER)?.text).toBe(
+      "Chat -501 approved as a member.",
+    );
+    expect(harness.getLastReply("-501")?.text).toContain(
+      "An owner approved this chat.",
+    );
+
+    await harness.sendMessageFrom("2002", "-501", "what's in the README?");
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.toolAccess).toBe("read_only");
+
+    await harness.sendMessageFrom("2002", "-501", "/restart");
+    expect(harness.getLastReply("-501")?.text).toBe(
+      "Only an owner can restart the assistant.",
+    );
+  });
+
+  test("owners keep full tools and denied chats are ignored", async () => {
+    const calls: RespondInput[] = [];
+    const harness = await buildHarness(calls);
+
+    await harness.sendMessageFrom(OWNER, "-502", "deploy it");
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.toolAccess).toBeUndefined();
+
+    await harness.sendMessageFrom("3003", "-503", "let me in");
+    await harness.pressButton(OWNER, "access:deny:-503", null, OWNER);
+    expect(harness.getLastReply(OWNER)?.text).toBe("Chat -503 blocked.");
+
+    const before = harness.getReplies("-503").length;
+    await harness.sendMessageFrom("3003", "-503", "please?");
+    expect(harness.getReplies("-503")).toHaveLength(before);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("/access lets owners list, grant and revoke roles", async () => {
+    const harness = await buildHarness();
+
+    await harness.sendMessageFrom("4004", "4004", "/access");
+    expect(harness.getLastReply("4004")?.text).toContain("I only work");
+
+    await harness.sendMessageFrom(OWNER, OWNER, "/access user 4004 member");
+    expect(harness.getLastReply(OWNER)?.text).toBe("user 4004 is now member.");
+    await harness.sendMessageFrom("4004", "4004", "/access");
+    expect(harness.getLastReply("4004")?.text).toBe(
+      "Only an owner can manage access.",
+    );
+
+    await harness.sendMessageFrom(OWNER, OWNER, "/access");
+    const list = harness.getLastReply(OWNER)?.text ?? "";
+    expect(list).toContain(`Owners (config): ${OWNER}`);
+    expect(list).toContain("chat 4004 · pending");
+    expect(list).toContain("user 4004 · member");
+
+    await harness.sendMessageFrom(OWNER, OWNER, "/access user 4004 revoke");
+    expect(harness.getLastReply(OWNER)?.text).toBe("Revoked user 4004.");
+    await harness.sendMessageFrom(OWNER, OWNER, "/access user 4004 admin");
+    expect(harness.getLastReply(OWNER)?.text).toContain("Usage: /access");
+  });
+
+  test("a schedule stops running once its chat is revoked", async () => {
+    const calls: RespondInput[] = [];
+    const harness = await buildHarness(calls);
+    await harness.sendMessageFrom(OWNER, OWNER, "/access chat -505 member");
+    await harness.sendMessageFrom(
+      "2002",
+      "-505",
+      "/schedule every day 8:00 check the CI",
+    );
+    const [schedule] = await harness.sessionStore.listSchedules("-505");
+    expect(schedule?.createdBy).toBe("2002");
+    expect(schedule?.creatorRole).toBe("member");
+
+    await harness.runSchedule(schedule!);
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.toolAccess).toBe("read_only");
+
+    await harness.sendMessageFrom(OWNER, OWNER, "/access chat -505 revoke");
+    const replies = harness.getReplies("-505").length;
+    const ownerReplies = harness.getReplies(OWNER).length;
+    await harness.runSchedule(schedule!);
+
+    expect(calls).toHaveLength(1);
+    expect(harness.getReplies("-505")).toHaveLength(replies);
+    expect(harness.getReplies(OWNER)).toHaveLength(ownerReplies);
+  });
+
+  test("a schedule never runs with more than its creator's role then", async () => {
+    const calls: RespondInput[] = [];
+    const harness = await buildHarness(calls);
+    await harness.sendMessageFrom(OWNER, OWNER, "/access chat -506 member");
+    await harness.sendMessageFrom(
+      "2002",
+      "-506",
+      "/schedule every 2 hours tidy the repo",
+    );
+    const [schedule] = await harness.sessionStore.listSchedules("-506");
+
+    await harness.sendMessageFrom(OWNER, OWNER, "/access user 2002 owner");
+    await harness.runSchedule(schedule!);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.toolAccess).toBe("read_only");
+  });
+
+  test("buttons pressed by users without access are refused", async () => {
+    const harness = await buildHarness();
+
+    await harness.pressButton("-504", "reset", null, "5005");
+
+    expect(harness.chatPort.answeredCallbacks.at(-1)?.text).toBe(
+      "You don't have access here.",
+    );
+    expect(harness.getReplies("-504")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PiAgentModelAdapter } from "@delegate/adapters-model-pi-agent";
+import type { ModelTurnResponse } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const proposingModel =
+  (calls: RespondInput[]) =>
+  async (input: RespondInput): Promise<ModelTurnResponse> => {
+    calls.push(input);
+    if (input.pendingProposalWorkItemId) {
+      return {
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: "Pushed the branch.",
+        sessionId: input.sessionId ?? "ses-approval",
+      };
+    }
+    return {
+      mode: "execution_proposal",
+      confidence: 1,
+      replyText: "I will push branch feature/x to origin.",
+      sessionId: input.sessionId ?? "ses-approval",
+    };
+  };
+
+const buttonData = (
+  harness: BehaviorTestHarness,
+  chatId: string,
+  label: string,
+): string => {
+  const proposal = harness
+    .getReplies(chatId)
+    .find((reply) => reply.buttons !== undefined);
+  const button = proposal?.buttons
+    ?.flat()
+    .find((entry) => entry.label.includes(label));
+  if (!button) {
+    throw new Error(`No "${label}" button found`);
+  }
+  return button.data;
+};
+
+describe("approval behaviors", () => {
+  test("execution proposal is rendered with approve and deny buttons", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: proposingModel(calls),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-approve-1", "push my branch");
+
+    const replies = harness.getReplies("chat-approve-1");
+    expect(replies.length).toBe(1);
+    expect(replies[0]?.text).toContain("push branch feature/x");
+    const labels = replies[0]?.buttons?.flat().map((b) => b.label) ?? [];
+    expect(labels.some((l) => l.includes("Approve"))).toBe(true);
+    expect(labels.some((l) => l.includes("Deny"))).toBe(true);
+    expect(calls.length).toBe(1);
+    expect(calls[0]?.pendingProposalWorkItemId).toBeNull();
+  });
+
+  test("approving runs the execution turn with the work item id", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: proposingModel(calls),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-approve-2", "push my branch");
+    const approve = buttonData(harness, "chat-approve-2", "Approve");
+    await harness.pressButton("chat-approve-2", approve);
+
+    expect(calls.length).toBe(2);
+    const workItemId = calls[1]?.pendingProposalWorkItemId;
+    expect(workItemId).toBeTruthy();
+    expect(harness.getLastReply("chat-approve-2")?.text).toBe(
+      "Pushed the branch.",
+    );
+
+    const item = await harness.sessionStore.getWorkItem(workItemId ?? "");
+    expect(item?.status).toBe("completed");
+    expect(item?.requestText).toBe("push my branch");
+  });
+
+  test("denying never runs the execution turn", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: proposingModel(calls),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-approve-3", "push my branch");
+    const deny = buttonData(harness, "chat-approve-3", "Deny");
+    await harness.pressButton("chat-approve-3", deny);
+
+    expect(calls.length).toBe(1);
+    expect(harness.getLastReply("chat-approve-3")?.text).toContain("Denied");
+    const item = await harness.sessionStore.getWorkItem(
+      deny.slice("deny:".length),
+    );
+    expect(item?.status).toBe("denied");
+  });
+
+  test("a second press on the same proposal is ignored", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: proposingModel(calls),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-approve-4", "push my branch");
+    const approve = buttonData(harness, "chat-approve-4", "Approve");
+    await harness.pressButton("chat-approve-4", approve);
+    await harness.pressButton("chat-approve-4", approve);
+
+    expect(calls.length).toBe(2);
+    const answers = harness.chatPort.answeredCallbacks.map((a) => a.text);
+    expect(answers).toContain("This request was already handled.");
+  });
+
+  test("an approved plan the budget refuses is failed and reported", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: proposingModel(calls),
+      budget: {
+        global: { dailyUsd: 1, monthlyUsd: null },
+        perChat: { dailyUsd: null, monthlyUsd: null },
+        whenExceeded: "block",
+      },
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-approve-6", "push my branch");
+    await harness.sessionStore.insertTurnEvent({
+      turnId: crypto.randomUUID(),
+      sessionKey: "chat-approve-6:root",
+      eventType: "step_complete",
+      timestamp: new Date().toISOString(),
+      data: { stepCount: 1, inputTokens: 100, outputTokens: 50, cost: 2 },
+    });
+    const approve = buttonData(harness, "chat-approve-6", "Approve");
+    await harness.pressButton("chat-approve-6", approve);
+
+    expect(calls.length).toBe(1);
+    expect(harness.getLastReply("chat-approve-6")?.text).toContain(
+      "The approved plan did not run.",
+    );
+    const item = await harness.sessionStore.getWorkItem(
+      approve.slice("approve:".length),
+    );
+    expect(item?.status).toBe("failed");
+  });
+
+  test("a plan from propose_plan is approved and then carried out", async () => {
+    const workspace = mkdtempSync(join(tmpdir(), "approve-ws-"));
+    const adapter = new PiAgentModelAdapter({
+      provider: "openrouter",
+      model: "openrouter/auto",
+      maxSteps: 5,
+      workspacePath: workspace,
+      requireApproval: true,
+    });
+    // Stand in for the LLM: propose while write tools are held back, write
+    // the file once they are offered.
+    const { agent } = await (adapter as any).getOrCreateAgent(
+      "chat-approve-5:root",
+    );
+    const offered: string[][] = [];
+    agent.prompt = async function (this: any, text: string) {
+      const tools = new Map<string, any>(
+        this.state.tools.map((tool: any) => [tool.name, tool]),
+      );
+      offered.push([...tools.keys()]);
+      const result = tools.has("propose_plan")
+        ? await tools
+            .get("propose_plan")
+            .execute("call-1", { plan: "Write notes.md with the summary." })
+        : await tools
+            .get("write_file")
+            .execute("call-2", { path: "notes.md", content: "summary" });
+      this.state.messages = [
+        ...this.state.messages,
+        { role: "user", content: text, timestamp: 0 },
+        {
+          role: "assistant",
+          content: [{ type: "text", text: result.content[0].text }],
+        },
+      ];
+    };
+    const harness = new BehaviorTestHarness({
+      modelPort: adapter,
+      defaultWorkspacePath: workspace,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-approve-5", "note down the summary");
+
+    expect(offered[0]).not.toContain("write_file");
+    expect(existsSync(join(workspace, "notes.md"))).toBe(false);
+    expect(harness.getLastReply("chat-approve-5")?.text).toContain(
+      "Write notes.md with the summary.",
+    );
+
+    await harness.pressButton(
+      "chat-approve-5",
+      buttonData(harness, "chat-approve-5", "Approve"),
+    );
+
+    expect(offered[1]).toContain("write_file");
+    expect(readFileSync(join(workspace, "notes.md"), "utf8")).toBe("summary");
+    expect(harness.getLastReply("chat-approve-5")?.text).toContain("notes.md");
+  });
+});
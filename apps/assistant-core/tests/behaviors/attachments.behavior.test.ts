@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const capturingModel =
+  (calls: RespondInput[]) => async (input: RespondInput) => {
+    calls.push(input);
+    return {
+      mode: "chat_reply" as const,
+      confidence: 1,
+      replyText: "Got it.",
+      sessionId: "ses-attach",
+    };
+  };
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+/** Workspace-relative paths the prompt lists for saved files. */
+const savedPaths = (prompt: string): string[] =>
+  [...prompt.matchAll(/^- (inbox\/.+?) \(/gm)].map((match) => match[1]!);
+
+describe("attachment behaviors", () => {
+  test("document is saved to the topic's inbox and listed in the prompt", async () => {
+    const calls: RespondInput[] = [];
+    const workspace = mkdtempSync(join(tmpdir(), "attach-ws-"));
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: capturingModel(calls),
+      defaultWorkspacePath: workspace,
+    });
+    await harness.start();
+    harness.chatPort.files.set("doc-1", {
+      data: encode("a,b\n1,2\n"),
+      fileName: "file_12.csv",
+    });
+
+    await harness.sendAttachments(
+      "chat-attach-1",
+      [
+        {
+          kind: "document",
+          fileId: "doc-1",
+          fileName: "sales report.csv",
+          mimeType: "text/csv",
+          sizeBytes: 8,
+        },
+      ],
+      "summarize this",
+    );
+
+    const prompt = calls[0]?.text ?? "";
+    const [path] = savedPaths(prompt);
+    expect(path).toMatch(
+      /^inbox\/chat-attach-1_root\/\d{8}-\d{6}-sales report\.csv$/,
+    );
+    expect(readFileSync(join(workspace, path!), "utf8")).toBe("a,b\n1,2\n");
+    expect(prompt).toContain(`- ${path} (text/csv, 8 B)`);
+    expect(prompt.endsWith("summarize this")).toBe(true);
+  });
+
+  test("same-named uploads never overwrite each other, across or within topics", async () => {
+    const calls: RespondInput[] = [];
+    const workspace = mkdtempSync(join(tmpdir(), "attach-ws-"));
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: capturingModel(calls),
+      defaultWorkspacePath: workspace,
+    });
+    await harness.start();
+    const photo = (fileId: string) => ({
+      kind: "photo" as const,
+      fileId,
+      fileName: null,
+      mimeType: "image/jpeg",
+      sizeBytes: 5,
+    });
+    harness.chatPort.files.set("photo-a", {
+      data: encode("first"),
+      fileName: "file_3.jpg",
+    });
+    harness.chatPort.files.set("photo-b", {
+      data: encode("other"),
+      fileName: "file_3.jpg",
+    });
+    harness.chatPort.files.set("photo-c", {
+      data: encode("again"),
+      fileName: "file_3.jpg",
+    });
+
+    await harness.sendAttachments("chat-attach-2", [photo("photo-a")]);
+    await harness.sendAttachments("chat-attach-4", [photo("photo-b")]);
+    await harness.sendAttachments("chat-attach-2", [
+      photo("photo-c"),
+      photo("photo-a"),
+    ]);
+
+    const paths = calls.flatMap((call) => savedPaths(call.text));
+    expect(paths.length).toBe(4);
+    expect(new Set(paths).size).toBe(4);
+    expect(paths[1]).toStartWith("inbox/chat-attach-4_root/");
+    expect(
+      paths.map((path) => readFileSync(join(workspace, path), "utf8")),
+    ).toEqual(["first", "other", "again", "first"]);
+  });
+
+  test("oversized and path-like names are handled safely", async () => {
+    const calls: RespondInput[] = [];
+    const workspace = mkdtempSync(join(tmpdir(), "attach-ws-"));
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: capturingModel(calls),
+      defaultWorkspacePath: workspace,
+    });
+    await harness.start();
+    harness.chatPort.files.set("doc-escape", {
+      data: encode("x"),
+      fileName: "file_9",
+    });
+
+    await harness.sendAttachments("chat-attach-3", [
+      {
+        kind: "document",
+        fileId: "doc-escape",
+        fileName: "../../etc/passwd",
+        mimeType: null,
+        sizeBytes: 1,
+      },
+      {
+        kind: "document",
+        fileId: "doc-huge",
+        fileName: "video.mov",
+        mimeType: "video/quicktime",
+        sizeBytes: 50 * 1024 * 1024,
+      },
+    ]);
+
+    const prompt = calls[0]?.text ?? "";
+    const [path] = savedPaths(prompt);
+    expect(path).toMatch(/^inbox\/chat-attach-3_root\/\d{8}-\d{6}-passwd$/);
+    expect(readFileSync(join(workspace, path!), "utf8")).toBe("x");
+    expect(prompt).toContain(`- ${path} (1 B)`);
+    expect(prompt).toContain("- video.mov (larger than 20 MB)");
+  });
+});
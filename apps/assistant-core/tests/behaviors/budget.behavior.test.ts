@@ -0,0 +1,128 @@
+import { describe, expect, test } from "bun:test";
+import type { BudgetOptions } from "@assistant-core/src/worker-types";
+import type { ModelTurnResponse } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const budgetOf = (overrides: Partial<BudgetOptions> = {}): BudgetOptions => ({
+  global: { dailyUsd: null, monthlyUsd: null },
+  perChat: { dailyUsd: null, monthlyUsd: null },
+  whenExceeded: "block",
+  ...overrides,
+});
+
+const setup = async (budget: BudgetOptions) => {
+  const calls: RespondInput[] = [];
+  const harness = new BehaviorTestHarness({
+    budget,
+    modelRespondFn: async (
+      input: RespondInput,
+    ): Promise<ModelTurnResponse> => {
+      calls.push(input);
+      return {
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: "answer",
+        sessionId: input.sessionId ?? "ses-budget",
+      };
+    },
+  });
+  await harness.start();
+  const spend = async (sessionKey: string, cost: number) => {
+    await harness.sessionStore.insertTurnEvent({
+      turnId: crypto.randomUUID(),
+      sessionKey,
+      eventType: "step_complete",
+      timestamp: new Date().toISOString(),
+      data: { stepCount: 1, inputTokens: 100, outputTokens: 50, cost },
+    });
+  };
+  return { harness, calls, spend };
+};
+
+describe("budget behaviors", () => {
+  test("blocks turns once the chat's daily budget is spent", async () => {
+    const { harness, calls, spend } = await setup(
+      budgetOf({ perChat: { dailyUsd: 1, monthlyUsd: null } }),
+    );
+    await spend("chat-budget-1:root", 0.6);
+    await spend("chat-budget-1:7", 0.5);
+
+    await harness.sendMessage("chat-budget-1", "hello");
+
+    expect(calls).toHaveLength(0);
+    const replies = harness.getReplies("chat-budget-1");
+    expect(replies).toHaveLength(1);
+    expect(replies[0]?.text).toContain("This chat daily budget reached");
+    expect(replies[0]?.text).toContain("$1.10 of $1.00");
+
+    // Another chat has its own per-chat budget
+    await harness.sendMessage("chat-budget-2", "hello");
+    expect(calls).toHaveLength(1);
+  });
+
+  test("warns once at 80% of a limit and still answers", async () => {
+    const { harness, calls, spend } = await setup(
+      budgetOf({ global: { dailyUsd: 1, monthlyUsd: null } }),
+    );
+    await spend("chat-other:root", 0.85);
+
+    await harness.sendMessage("chat-budget-3", "first");
+    await harness.sendMessage("chat-budget-3", "second");
+
+    expect(calls).toHaveLength(2);
+    const texts = harness.getReplies("chat-budget-3").map((r) => r.text);
+    expect(texts.filter((t) => t.includes("85% used"))).toHaveLength(1);
+    expect(texts[0]).toContain("Global daily budget is 85% used");
+    expect(texts.filter((t) => t.includes("answer"))).toHaveLength(2);
+  });
+
+  test("forces T1 when configured to downgrade instead of block", async () => {
+    const { harness, calls, spend } = await setup(
+      budgetOf({
+        global: { dailyUsd: null, monthlyUsd: 2 },
+        whenExceeded: "t1",
+      }),
+    );
+    await spend("chat-budget-4:root", 2.5);
+
+    await harness.sendMessage("chat-budget-4", "hello");
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.forceTier).toBe("t1");
+    const replies = harness.getReplies("chat-budget-4");
+    expect(replies[0]?.text).toContain("Global monthly budget reached");
+    expect(harness.getLastReply("chat-budget-4")?.text).toContain("answer");
+  });
+
+  test("/budget shows spend against each limit", async () => {
+    const { harness, calls, spend } = await setup(
+      budgetOf({
+        global: { dailyUsd: 10, monthlyUsd: null },
+        perChat: { dailyUsd: 2, monthlyUsd: null },
+      }),
+    );
+    await spend("chat-budget-5:root", 0.5);
+    await spend("chat-other:root", 1);
+
+    await harness.sendMessage("chat-budget-5", "/budget");
+
+    expect(calls).toHaveLength(0);
+    const text = harness.getLastReply("chat-budget-5")?.text ?? "";
+    expect(text).toContain("All chats · today: $1.50 / $10.00 (15%)");
+    expect(text).toContain("All chats · this month: $1.50 (no limit)");
+    expect(text).toContain("This chat · today: $0.50 / $2.00 (25%)");
+    expect(text).toContain("Over budget: requests are paused.");
+  });
+
+  test("/budget without limits still reports spend", async () => {
+    const { harness, spend } = await setup(budgetOf());
+    await spend("chat-budget-6:root", 0.25);
+
+    await harness.sendMessage("chat-budget-6", "/budget");
+
+    const text = harness.getLastReply("chat-budget-6")?.text ?? "";
+    expect(text).toContain("This chat · today: $0.25 (no limit)");
+    expect(text).toContain("No budgets configured.");
+  });
+});
@@ -104,4 +104,28 @@ describe("cost behaviors", () => {
     expect(replies[0]?.text).toContain("300 tokens");
     expect(replies[0]?.text).not.toContain("$");
   });
+
+  test("cost footer names the provider that answered", async () => {
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async (
+        input: RespondInput,
+      ): Promise<ModelTurnResponse> => ({
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: "Fallback answer.",
+        sessionId: input.sessionId ?? "ses-cost-provider",
+        tier: "t2",
+        provider: "groq",
+        model: "qwen/qwen3-32b",
+        usage: { inputTokens: 100, outputTokens: 50, cost: 0.02 },
+      }),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-cost-provider", "tell me something");
+
+    expect(harness.getLastReply("chat-cost-provider")?.text).toContain(
+      "150 tokens · T2 · groq",
+    );
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import type { ModelTurnResponse } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const OWNER = "1001";
+
+const recordingModel =
+  (calls: RespondInput[]) =>
+  async (input: RespondInput): Promise<ModelTurnResponse> => {
+    calls.push(input);
+    return {
+      mode: "chat_reply",
+      confidence: 1,
+      replyText: `echo: ${input.text}`,
+      sessionId: input.sessionId ?? "ses-profile",
+    };
+  };
+
+describe("tool profile behaviors", () => {
+  test("/profile narrows one topic's tools and survives a restart", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: recordingModel(calls),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-profile-1", "/profile");
+    expect(harness.getLastReply("chat-profile-1")?.text).toContain(
+      "🧰 Tool profile: full",
+    );
+
+    await harness.sendMessage("chat-profile-1", "/profile research", "7");
+    expect(harness.getLastReply("chat-profile-1")?.text).toBe(
+      "Tool profile set to research: web search and fetch only.",
+    );
+
+    await harness.sendMessage("chat-profile-1", "find the release notes", "7");
+    await harness.sendMessage("chat-profile-1", "and in the main chat?");
+    expect(calls.map((call) => call.toolProfile)).toEqual([
+      "research",
+      undefined,
+    ]);
+    expect(
+      await harness.sessionStore.getTopicToolProfile("chat-profile-1:7"),
+    ).toBe("research");
+
+    // A fresh worker context reads the profile back from SQLite
+    harness.ctx.toolProfile.clear();
+    await harness.sendMessage("chat-profile-1", "again", "7");
+    expect(calls.at(-1)?.toolProfile).toBe("research");
+
+    await harness.sendMessage("chat-profile-1", "/profile full", "7");
+    await harness.sendMessage("chat-profile-1", "everything back?", "7");
+    expect(calls.at(-1)?.toolProfile).toBeUndefined();
+  });
+
+  test("unknown profiles get the usage and only owners change it", async () => {
+    const harness = new BehaviorTestHarness({
+      access: { ownerUserIds: [OWNER] },
+    });
+    await harness.start();
+
+    await harness.sendMessageFrom(OWNER, OWNER, "/profile admin");
+    expect(harness.getLastReply(OWNER)?.text).toBe(
+      "Usage: /profile, or /profile <full|research|readonly-code>",
+    );
+
+    await harness.sendMessageFrom(OWNER, OWNER, "/access user 2002 member");
+    await harness.sendMessageFrom("2002", "2002", "/profile research");
+    expect(harness.getLastReply("2002")?.text).toBe(
+      "Only an owner can change the tool profile.",
+    );
+    await harness.sendMessageFrom("2002", "2002", "/profile");
+    expect(harness.getLastReply("2002")?.text).toContain(
+      "🧰 Tool profile: full",
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, test } from "bun:test";
+import type { WorkItem } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const orphanedItem = (
+  overrides: Partial<WorkItem> & { id: string; chatId: string },
+): WorkItem => ({
+  topicKey: `${overrides.chatId}:root`,
+  threadId: null,
+  status: "running",
+  requestText: "refactor the billing module",
+  proposalText: null,
+  createdAt: "2026-02-08T00:00:00.000Z",
+  updatedAt: "2026-02-08T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("work item recovery behaviors", () => {
+  test("a relayed turn is tracked through to completed", async () => {
+    const harness = new BehaviorTestHarness();
+    await harness.start();
+
+    await harness.sendMessage("chat-track-1", "hello");
+
+    const completed =
+      await harness.sessionStore.listWorkItemsByStatus("completed");
+    expect(completed.map((item) => item.requestText)).toEqual(["hello"]);
+    expect(await harness.recover()).toEqual({
+      expiredApprovals: 0,
+      interruptedWorkItems: 0,
+      failedApprovedItems: 0,
+    });
+  });
+
+  test("a failed turn is tracked as failed", async () => {
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async () => {
+        throw new Error("model exploded");
+      },
+      sessionRetryAttempts: 0,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-track-2", "hello");
+
+    const failed = await harness.sessionStore.listWorkItemsByStatus("failed");
+    expect(failed.length).toBe(1);
+  });
+
+  test("orphaned running items are interrupted and offered a re-run", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async (input) => {
+        calls.push(input);
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "Refactor done.",
+          sessionId: "ses-rerun",
+        };
+      },
+    });
+    await harness.start();
+    await harness.sessionStore.createWorkItem(
+      orphanedItem({ id: "wi-orphan", chatId: "chat-recover-1" }),
+    );
+
+    const summary = await harness.recover();
+    expect(summary.interruptedWorkItems).toBe(1);
+    expect((await harness.sessionStore.getWorkItem("wi-orphan"))?.status).toBe(
+      "interrupted",
+    );
+
+    const notice = harness.getLastReply("chat-recover-1");
+    expect(notice?.text).toContain("refactor the billing module");
+    expect(notice?.buttons?.flat().map((b) => b.data)).toEqual([
+      "rerun:wi-orphan",
+    ]);
+
+    await harness.pressButton("chat-recover-1", "rerun:wi-orphan");
+
+    expect(calls.map((call) => call.text)).toEqual([
+      "refactor the billing module",
+    ]);
+    expect(harness.getLastReply("chat-recover-1")?.text).toBe("Refactor done.");
+    expect((await harness.sessionStore.getWorkItem("wi-orphan"))?.status).toBe(
+      "completed",
+    );
+  });
+
+  test("a second re-run press is ignored", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async (input) => {
+        calls.push(input);
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "ok",
+          sessionId: "ses-rerun",
+        };
+      },
+    });
+    await harness.start();
+    await harness.sessionStore.createWorkItem(
+      orphanedItem({ id: "wi-twice", chatId: "chat-recover-2" }),
+    );
+    await harness.recover();
+
+    await harness.pressButton("chat-recover-2", "rerun:wi-twice");
+    await harness.pressButton("chat-recover-2", "rerun:wi-twice");
+
+    expect(calls.length).toBe(1);
+    const answers = harness.chatPort.answeredCallbacks.map((a) => a.text);
+    expect(answers).toContain("This request was already handled.");
+  });
+
+  test("stale pending approvals are expired on recovery", async () => {
+    const harness = new BehaviorTestHarness();
+    await harness.start();
+    await harness.sessionStore.createWorkItem(
+      orphanedItem({
+        id: "wi-stale-approval",
+        chatId: "chat-recover-3",
+        status: "pending_approval",
+      }),
+    );
+
+    const summary = await harness.recover(60_000);
+    expect(summary).toEqual({
+      expiredApprovals: 1,
+      interruptedWorkItems: 0,
+      failedApprovedItems: 0,
+    });
+    expect(harness.getReplies("chat-recover-3").length).toBe(0);
+
+    await harness.pressButton("chat-recover-3", "approve:wi-stale-approval");
+    const answers = harness.chatPort.answeredCallbacks.map((a) => a.text);
+    expect(answers[0]).toContain("expired");
+  });
+
+  test("approved items that never started are failed and reported", async () => {
+    const harness = new BehaviorTestHarness();
+    await harness.start();
+    await harness.sessionStore.createWorkItem(
+      orphanedItem({
+        id: "wi-approved",
+        chatId: "chat-recover-4",
+        status: "approved",
+      }),
+    );
+
+    const summary = await harness.recover();
+    expect(summary.failedApprovedItems).toBe(1);
+    expect(
+      (await harness.sessionStore.getWorkItem("wi-approved"))?.status,
+    ).toBe("failed");
+    const notice = harness.getLastReply("chat-recover-4");
+    expect(notice?.text).toContain("refactor the billing module");
+    expect(notice?.text).toContain("It did not run.");
+    expect(notice?.buttons).toBeUndefined();
+
+    expect((await harness.recover()).failedApprovedItems).toBe(0);
+  });
+});
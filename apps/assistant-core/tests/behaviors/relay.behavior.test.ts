@@ -163,4 +163,203 @@ describe("relay behaviors", () => {
     const lastReply = replies[replies.length - 1];
     expect(lastReply?.text).toContain("rejected by the provider");
   });
+
+  test("context overflow compacts the session and retries", async () => {
+    const compacted: string[] = [];
+    let callCount = 0;
+    const model: ModelPort = {
+      async respond(input: RespondInput): Promise<ModelTurnResponse> {
+        callCount += 1;
+        if (callCount === 1) {
+          throw new ModelError(
+            "context_overflow",
+            "This model's maximum context length is 128000 tokens",
+          );
+        }
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "fits now",
+          sessionId: input.sessionId ?? "ses-overflow",
+        };
+      },
+      async compactSession(sessionKey: string): Promise<boolean> {
+        compacted.push(sessionKey);
+        return true;
+      },
+    };
+
+    harness = new BehaviorTestHarness({
+      modelPort: model,
+      sessionRetryAttempts: 1,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-relay-8", "keep going");
+
+    expect(compacted).toEqual(["chat-relay-8:root"]);
+    expect(callCount).toBe(2);
+    expect(harness.getLastReply("chat-relay-8")?.text).toBe("fits now");
+  });
+
+  test("context overflow falls back to a fresh session without compaction", async () => {
+    const resets: string[] = [];
+    const calls: RespondInput[] = [];
+    let callCount = 0;
+    const model: ModelPort = {
+      async respond(input: RespondInput): Promise<ModelTurnResponse> {
+        calls.push(input);
+        callCount += 1;
+        if (callCount === 2) {
+          throw new ModelError("context_overflow", "prompt is too long");
+        }
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: `reply ${callCount}`,
+          sessionId: input.sessionId ?? "ses-overflow-2",
+        };
+      },
+      async resetSession(sessionKey: string): Promise<void> {
+        resets.push(sessionKey);
+      },
+    };
+
+    harness = new BehaviorTestHarness({
+      modelPort: model,
+      sessionRetryAttempts: 1,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-relay-9", "first");
+    await harness.sendMessage("chat-relay-9", "second");
+
+    expect(resets).toEqual(["chat-relay-9:root"]);
+    expect(calls[1]?.sessionId).toBe("ses-overflow-2");
+    expect(calls[2]?.sessionId).toBeNull();
+    expect(harness.getLastReply("chat-relay-9")?.text).toBe("reply 3");
+  });
+
+  test("context overflow with no retries left suggests /reset", async () => {
+    const model: ModelPort = {
+      async respond(): Promise<ModelTurnResponse> {
+        throw new ModelError("context_overflow", "context length exceeded");
+      },
+    };
+
+    harness = new BehaviorTestHarness({
+      modelPort: model,
+      sessionRetryAttempts: 0,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-relay-10", "too much");
+
+    expect(harness.getLastReply("chat-relay-10")?.text).toContain("/reset");
+  });
+});
+
+describe("relay failure actions", () => {
+  const flakyModel = (calls: RespondInput[], failures: number) => {
+    let remaining = failures;
+    return async (input: RespondInput): Promise<ModelTurnResponse> => {
+      calls.push(input);
+      if (remaining > 0) {
+        remaining -= 1;
+        throw new Error("transport error");
+      }
+      return {
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: `recovered: ${input.text}`,
+        sessionId: "ses-flaky",
+      };
+    };
+  };
+
+  const buttonData = (reply: { buttons?: { data: string }[][] } | undefined) =>
+    reply?.buttons?.flat().map((button) => button.data) ?? [];
+
+  test("failure message offers retry and reset buttons", async () => {
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: flakyModel([], 1),
+      sessionRetryAttempts: 0,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-action-1", "summarize the logs");
+
+    const data = buttonData(harness.getLastReply("chat-action-1"));
+    expect(data.some((d) => d.startsWith("retry:"))).toBe(true);
+    expect(data).toContain("reset");
+    expect(data.some((d) => d.startsWith("t2:"))).toBe(false);
+  });
+
+  test("retry button re-runs the failed request", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: flakyModel(calls, 1),
+      sessionRetryAttempts: 0,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-action-2", "summarize the logs");
+    const retry = buttonData(harness.getLastReply("chat-action-2")).find((d) =>
+      d.startsWith("retry:"),
+    );
+    await harness.pressButton("chat-action-2", retry ?? "");
+
+    expect(calls.map((call) => call.text)).toEqual([
+      "summarize the logs",
+      "summarize the logs",
+    ]);
+    expect(harness.getLastReply("chat-action-2")?.text).toBe(
+      "recovered: summarize the logs",
+    );
+
+    // The retried item is completed, so a second press does nothing
+    await harness.pressButton("chat-action-2", retry ?? "");
+    expect(calls.length).toBe(2);
+  });
+
+  test("switch to T2 button forces the cloud tier", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: flakyModel(calls, 1),
+      sessionRetryAttempts: 0,
+      offerTierEscalation: true,
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-action-3", "summarize the logs");
+    const switchT2 = buttonData(harness.getLastReply("chat-action-3")).find(
+      (d) => d.startsWith("t2:"),
+    );
+    expect(switchT2).toBeDefined();
+    await harness.pressButton("chat-action-3", switchT2 ?? "");
+
+    expect(calls[0]?.forceTier).toBeUndefined();
+    expect(calls[1]?.forceTier).toBe("t2");
+  });
+
+  test("reset button clears the topic session", async () => {
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async () => ({
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: "ok",
+        sessionId: "ses-reset-button",
+      }),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-action-4", "hello");
+    await harness.pressButton("chat-action-4", "reset");
+
+    const session = await harness.sessionStore.getSession("chat-action-4:root");
+    expect(session?.status).toBe("stale");
+    expect(harness.getLastReply("chat-action-4")?.text).toBe(
+      "Session cleared. Starting fresh.",
+    );
+  });
 });
@@ -0,0 +1,162 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createReminderPort,
+  deliverDueReminders,
+  MAX_REMINDER_ATTEMPTS,
+} from "@assistant-core/src/reminders";
+import { startTelegramWorker } from "@assistant-core/src/worker";
+import { WorkerContext } from "@assistant-core/src/worker-context";
+import { SqliteSessionStore } from "@delegate/adapters-session-store-sqlite";
+import { ChatDeliveryError } from "@delegate/domain";
+import {
+  ContextAwareModel,
+  defaultBuildInfo,
+  MockChatPort,
+  waitUntil,
+} from "./test-harness";
+
+const buildStore = async () => {
+  const tmpDir = mkdtempSync(join(tmpdir(), "delegate-reminder-"));
+  const sessionStore = new SqliteSessionStore(join(tmpDir, "test.db"));
+  await sessionStore.init();
+  return { tmpDir, sessionStore };
+};
+
+describe("reminder behaviors", () => {
+  test("the reminder port stores reminders and rejects unreadable or past times", async () => {
+    const { sessionStore } = await buildStore();
+    const port = createReminderPort(sessionStore);
+
+    const created = await port.scheduleReminder({
+      chatId: "chat-rem-1",
+      threadId: "3",
+      text: "stretch",
+      when: "in 20 minutes",
+    });
+    const minutesAway =
+      (new Date(created.dueAt).getTime() - Date.now()) / 60_000;
+    expect(minutesAway).toBeGreaterThan(19);
+    expect(minutesAway).toBeLessThanOrEqual(20);
+
+    await expect(
+      port.scheduleReminder({
+        chatId: "chat-rem-1",
+        threadId: null,
+        text: "x",
+        when: "someday",
+      }),
+    ).rejects.toThrow('Could not read "someday" as a time.');
+    await expect(
+      port.scheduleReminder({
+        chatId: "chat-rem-1",
+        threadId: null,
+        text: "x",
+        when: "2020-01-01T09:00",
+      }),
+    ).rejects.toThrow("has already passed");
+  });
+
+  test("the worker delivers due reminders without a model turn, noting late ones", async () => {
+    const chatPort = new MockChatPort();
+    let modelCalls = 0;
+    const model = new ContextAwareModel(async () => {
+      modelCalls += 1;
+      throw new Error("no model turn expected");
+    });
+    const { tmpDir, sessionStore } = await buildStore();
+    const reminder = (id: string, dueAt: Date, threadId: string | null) => ({
+      id,
+      chatId: "chat-rem-2",
+      threadId,
+      text: `reminder ${id}`,
+      dueAt: dueAt.toISOString(),
+      createdAt: new Date(Date.now() - 60 * 60_000).toISOString(),
+      deliveredAt: null,
+      attempts: 0,
+      lastError: null,
+      failedAt: null,
+    });
+    // Missed during downtime
+    await sessionStore.createReminder(
+      reminder("missed", new Date(Date.now() - 30 * 60_000), "8"),
+    );
+    await sessionStore.createReminder(
+      reminder("soon", new Date(Date.now() + 150), null),
+    );
+    await sessionStore.createReminder(
+      reminder("later", new Date(Date.now() + 60 * 60_000), null),
+    );
+
+    const controller = new AbortController();
+    const workerPromise = startTelegramWorker(
+      { chatPort, modelPort: model, sessionStore },
+      50,
+      {
+        stopSignal: controller.signal,
+        defaultWorkspacePath: tmpDir,
+        buildInfo: defaultBuildInfo,
+        reminderPollMs: 50,
+      },
+    );
+
+    await waitUntil(() => chatPort.getReplies("chat-rem-2").length >= 2, 3000);
+    controller.abort();
+    await workerPromise;
+
+    const replies = chatPort.getReplies("chat-rem-2");
+    expect(replies).toHaveLength(2);
+    expect(replies[0]?.text).toStartWith("⏰ Reminder: reminder missed\n(delayed");
+    expect(replies[0]?.threadId).toBe("8");
+    expect(replies[1]?.text).toBe("⏰ Reminder: reminder soon");
+    expect(modelCalls).toBe(0);
+    expect(
+      await sessionStore.listDueReminders(new Date().toISOString()),
+    ).toEqual([]);
+  });
+
+  test("a reminder the chat keeps rejecting is given up", async () => {
+    const { sessionStore } = await buildStore();
+    const chatPort = new MockChatPort();
+    let sends = 0;
+    let failure: Error = new Error("socket hang up");
+    chatPort.send = async () => {
+      sends += 1;
+      throw failure;
+    };
+    const deps = { chatPort, modelPort: new ContextAwareModel(), sessionStore };
+    const reminder = (id: string) => ({
+      id,
+      chatId: "chat-rem-3",
+      threadId: null,
+      text: `reminder ${id}`,
+      dueAt: new Date(Date.now() - 1000).toISOString(),
+      createdAt: new Date(Date.now() - 60_000).toISOString(),
+      deliveredAt: null,
+      attempts: 0,
+      lastError: null,
+      failedAt: null,
+    });
+    await sessionStore.createReminder(reminder("flaky"));
+
+    for (let pass = 0; pass < MAX_REMINDER_ATTEMPTS + 2; pass += 1) {
+      await deliverDueReminders(new WorkerContext(), deps);
+    }
+    expect(sends).toBe(MAX_REMINDER_ATTEMPTS);
+
+    // The platform says the chat is gone: no second try
+    sends = 0;
+    failure = new ChatDeliveryError("chat not found", "sendMessage", true, {
+      permanent: true,
+    });
+    await sessionStore.createReminder(reminder("gone"));
+    await deliverDueReminders(new WorkerContext(), deps);
+    await deliverDueReminders(new WorkerContext(), deps);
+    expect(sends).toBe(1);
+    expect(
+      await sessionStore.listDueReminders(new Date().toISOString()),
+    ).toEqual([]);
+  });
+});
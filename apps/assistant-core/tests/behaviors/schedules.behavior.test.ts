@@ -0,0 +1,152 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { startTelegramWorker } from "@assistant-core/src/worker";
+import { SqliteSessionStore } from "@delegate/adapters-session-store-sqlite";
+import type { ModelTurnResponse } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import {
+  BehaviorTestHarness,
+  ContextAwareModel,
+  defaultBuildInfo,
+  MockChatPort,
+  waitUntil,
+} from "./test-harness";
+
+describe("schedule behaviors", () => {
+  test("/schedule stores a recurring task and confirms the next run", async () => {
+    const harness = new BehaviorTestHarness();
+    await harness.start();
+
+    await harness.sendMessage(
+      "chat-sched-1",
+      "/schedule every weekday 8:00 summarize my repo's open PRs",
+      "7",
+    );
+
+    const [schedule] = await harness.sessionStore.listSchedules("chat-sched-1");
+    expect(schedule?.recurrence).toBe("every weekday at 08:00");
+    expect(schedule?.taskText).toBe("summarize my repo's open PRs");
+    expect(schedule?.topicKey).toBe("chat-sched-1:7");
+    expect(schedule?.threadId).toBe("7");
+    const nextRun = new Date(schedule!.nextRunAt);
+    expect(nextRun.getHours()).toBe(8);
+    expect([1, 2, 3, 4, 5]).toContain(nextRun.getDay());
+
+    const reply = harness.getLastReply("chat-sched-1")?.text ?? "";
+    expect(reply).toContain(`Scheduled ${schedule?.id}: every weekday at 08:00`);
+    expect(reply).toContain("Next run:");
+  });
+
+  test("/schedule explains the format when it cannot parse the time", async () => {
+    const harness = new BehaviorTestHarness();
+    await harness.start();
+
+    await harness.sendMessage("chat-sched-2", "/schedule sometime do a thing");
+    await harness.sendMessage("chat-sched-2", "/schedule every day at 9");
+
+    const replies = harness.getReplies("chat-sched-2").map((r) => r.text);
+    expect(replies[0]).toContain("I couldn't read when to run that.");
+    expect(replies[1]).toContain("What should I do then?");
+    expect(await harness.sessionStore.listSchedules("chat-sched-2")).toEqual(
+      [],
+    );
+  });
+
+  test("/schedules lists and cancels schedules in the chat", async () => {
+    const harness = new BehaviorTestHarness();
+    await harness.start();
+
+    await harness.sendMessage("chat-sched-3", "/schedules");
+    expect(harness.getLastReply("chat-sched-3")?.text).toContain(
+      "No schedules yet",
+    );
+
+    await harness.sendMessage(
+      "chat-sched-3",
+      "/schedule every 2 hours check the CI dashboard",
+    );
+    const [schedule] = await harness.sessionStore.listSchedules("chat-sched-3");
+
+    await harness.sendMessage("chat-sched-3", "/schedules");
+    const list = harness.getLastReply("chat-sched-3")?.text ?? "";
+    expect(list).toContain(`${schedule?.id} · every 2 hours · next`);
+    expect(list).toContain("check the CI dashboard");
+
+    // Other chats cannot cancel it
+    await harness.sendMessage("chat-intruder", `/schedules cancel ${schedule?.id}`);
+    expect(harness.getLastReply("chat-intruder")?.text).toBe(
+      `No schedule ${schedule?.id} in this chat.`,
+    );
+
+    await harness.sendMessage("chat-sched-3", `/schedules cancel ${schedule?.id}`);
+    expect(harness.getLastReply("chat-sched-3")?.text).toBe(
+      `Cancelled schedule ${schedule?.id}.`,
+    );
+    expect(await harness.sessionStore.listSchedules("chat-sched-3")).toEqual(
+      [],
+    );
+  });
+
+  test("the worker runs due schedules as turns in their topic", async () => {
+    const chatPort = new MockChatPort();
+    const calls: RespondInput[] = [];
+    const model = new ContextAwareModel(
+      async (input: RespondInput): Promise<ModelTurnResponse> => {
+        calls.push(input);
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "Morning briefing: 3 open PRs.",
+          sessionId: input.sessionId ?? "ses-briefing",
+        };
+      },
+    );
+    const tmpDir = mkdtempSync(join(tmpdir(), "delegate-schedule-"));
+    const sessionStore = new SqliteSessionStore(join(tmpDir, "test.db"));
+    await sessionStore.init();
+    const dueAt = new Date(Date.now() - 60_000).toISOString();
+    await sessionStore.createSchedule({
+      id: "brief1",
+      topicKey: "chat-sched-4:12",
+      chatId: "chat-sched-4",
+      threadId: "12",
+      recurrence: "every day at 08:00",
+      taskText: "summarize my repo's open PRs",
+      nextRunAt: dueAt,
+      lastRunAt: null,
+      createdAt: dueAt,
+      createdBy: null,
+      creatorRole: "owner",
+    });
+
+    const controller = new AbortController();
+    const workerPromise = startTelegramWorker(
+      { chatPort, modelPort: model, sessionStore },
+      50,
+      {
+        stopSignal: controller.signal,
+        defaultWorkspacePath: tmpDir,
+        buildInfo: defaultBuildInfo,
+      },
+    );
+
+    await waitUntil(() => chatPort.getReplies("chat-sched-4").length > 0, 3000);
+    controller.abort();
+    await workerPromise;
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]?.text).toBe("summarize my repo's open PRs");
+    expect(calls[0]?.threadId).toBe("12");
+    const reply = chatPort.getReplies("chat-sched-4")[0];
+    expect(reply?.text).toContain("Morning briefing");
+    expect(reply?.threadId).toBe("12");
+
+    const [stored] = await sessionStore.listSchedules("chat-sched-4");
+    expect(stored?.lastRunAt).not.toBeNull();
+    const nextRun = new Date(stored!.nextRunAt);
+    expect(nextRun.getTime()).toBeGreaterThan(Date.now());
+    expect(nextRun.getHours()).toBe(8);
+  });
+});
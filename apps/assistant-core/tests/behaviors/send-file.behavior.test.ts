@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import { BehaviorTestHarness } from "./test-harness";
+
+describe("send_file behaviors", () => {
+  test("queued files are uploaded after the text reply", async () => {
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async () => ({
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: "Here is the report.",
+        sessionId: "ses-files",
+        files: [
+          { path: "/ws/report.csv", caption: "Weekly sales" },
+          { path: "/ws/notes.md" },
+        ],
+      }),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-files-1", "make me a report");
+
+    const replies = harness.chatPort.getReplies("chat-files-1");
+    expect(replies.at(-1)?.text).toContain("Here is the report.");
+    expect(harness.chatPort.documents).toHaveLength(2);
+    const [report, notes] = harness.chatPort.documents;
+    expect(report).toMatchObject({
+      chatId: "chat-files-1",
+      path: "/ws/report.csv",
+      caption: "Weekly sales",
+    });
+    expect(report?.repliesBefore).toBe(replies.length);
+    expect(notes?.path).toBe("/ws/notes.md");
+    expect(notes?.caption).toBeUndefined();
+  });
+
+  test("failed upload tells the user where the file lives", async () => {
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async () => ({
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: "Done.",
+        sessionId: "ses-files-fail",
+        files: [{ path: "/ws/out/big.zip" }],
+      }),
+    });
+    await harness.start();
+    harness.chatPort.failDocumentUploads = true;
+
+    await harness.sendMessage("chat-files-2", "zip it");
+
+    const texts = harness.chatPort
+      .getReplies("chat-files-2")
+      .map((reply) => reply.text);
+    expect(texts).toContain(
+      "Couldn't send big.zip. It is saved at /ws/out/big.zip.",
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ShellApprovalBroker,
+  type ShellApprovalPrompt,
+} from "@assistant-core/src/shell-approvals";
+import type { ModelTurnResponse } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const OWNER = "1001";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A model whose only step is an execute_shell call that needs approval. */
+const shellModel =
+  (broker: ShellApprovalBroker) =>
+  async (input: RespondInput): Promise<ModelTurnResponse> => {
+    const decision = await broker.requestShellApproval({
+      chatId: input.chatId,
+      threadId: input.threadId ?? null,
+      command: "rm -rf build",
+    });
+    return {
+      mode: "chat_reply",
+      confidence: 1,
+      replyText: `shell: ${decision}`,
+      sessionId: input.sessionId ?? "ses-shell",
+    };
+  };
+
+const buildHarness = async (timeoutMs: number, ownerUserIds?: string[]) => {
+  const broker = new ShellApprovalBroker(timeoutMs);
+  const harness = new BehaviorTestHarness({
+    modelRespondFn: shellModel(broker),
+    shellApprovals: broker,
+    ...(ownerUserIds ? { access: { ownerUserIds } } : {}),
+  });
+  await harness.start();
+  return harness;
+};
+
+const waitForPrompt = async (harness: BehaviorTestHarness, chatId: string) => {
+  for (let i = 0; i < 50; i += 1) {
+    const prompt = harness
+      .getReplies(chatId)
+      .find((reply) => reply.text.startsWith("🛡️"));
+    if (prompt) {
+      return prompt;
+    }
+    await sleep(10);
+  }
+  throw new Error("no approval prompt");
+};
+
+describe("shell approval behaviors", () => {
+  test("the turn waits for the user's approval and then continues", async () => {
+    const harness = await buildHarness(5_000);
+
+    const turn = harness.sendMessage("chat-shell-1", "clean the build", "4");
+    const prompt = await waitForPrompt(harness, "chat-shell-1");
+    expect(prompt.threadId).toBe("4");
+    expect(prompt.text).toContain("rm -rf build");
+    const [approve, deny] = prompt.buttons?.[0] ?? [];
+    expect(deny?.data).toStartWith("shell:deny:");
+
+    await harness.pressButton("chat-shell-1", approve!.data, "4");
+    await turn;
+
+    expect(harness.chatPort.answeredCallbacks.at(-1)?.text).toBe(
+      "Approved. Running it.",
+    );
+    expect(harness.getLastReply("chat-shell-1")?.text).toContain(
+      "shell: approved",
+    );
+
+    await harness.pressButton("chat-shell-1", deny!.data, "4");
+    expect(harness.chatPort.answeredCallbacks.at(-1)?.text).toBe(
+      "This request was already answered or has expired.",
+    );
+  });
+
+  test("no answer in time counts as a no", async () => {
+    const harness = await buildHarness(30);
+
+    await harness.sendMessage("chat-shell-2", "clean the build");
+
+    expect(harness.getLastReply("chat-shell-2")?.text).toContain(
+      "shell: timed_out",
+    );
+  });
+
+  test("only owners answer approval prompts", async () => {
+    const harness = await buildHarness(5_000, [OWNER]);
+    await harness.sendMessageFrom(OWNER, OWNER, "/access user 2002 member");
+
+    const turn = harness.sendMessageFrom(OWNER, "-700", "clean the build");
+    const prompt = await waitForPrompt(harness, "-700");
+    const deny = prompt.buttons?.[0]?.[1]?.data ?? "";
+
+    await harness.pressButton("-700", deny, null, "2002");
+    expect(harness.chatPort.answeredCallbacks.at(-1)?.text).toBe(
+      "Only an owner can approve commands.",
+    );
+
+    await harness.pressButton("-700", deny, null, OWNER);
+    await turn;
+    expect(harness.getLastReply("-700")?.text).toContain("shell: denied");
+  });
+});
+
+describe("ShellApprovalBroker", () => {
+  test("prompts with the whole command, however long", async () => {
+    const broker = new ShellApprovalBroker(5_000);
+    const prompts: Parameters<ShellApprovalPrompt>[0][] = [];
+    broker.attach(async (outbound) => {
+      prompts.push(outbound);
+    });
+    const command = `echo ${"a".repeat(3_000)} && rm -rf ~`;
+
+    const decision = broker.requestShellApproval({
+      chatId: "chat-shell-3",
+      threadId: null,
+      command,
+    });
+    await sleep(0);
+    expect(prompts[0]?.text).toContain(command);
+
+    const deny = prompts[0]?.buttons[0]?.[1]?.data ?? "";
+    expect(broker.settle(deny.replace("shell:deny:", ""), "denied")).toBe(true);
+    expect(await decision).toBe("denied");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+import { formatElapsed } from "@assistant-core/src/status-line";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const pause = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("tool status line behaviors", () => {
+  test("status message tracks steps and tools, then summarizes the turn", async () => {
+    const harness = new BehaviorTestHarness({
+      toolStatusLine: true,
+      toolStatusIntervalMs: 5,
+      progressFirstMs: 5,
+      progressEveryMs: 5,
+      modelRespondFn: async (input: RespondInput) => {
+        input.onStream?.({ type: "step_started", step: 1 });
+        input.onStream?.({
+          type: "tool_call",
+          toolName: "execute_shell",
+          summary: "bun test",
+        });
+        await pause(40);
+        input.onStream?.({ type: "step_started", step: 2 });
+        await pause(40);
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "Tests are green.",
+          sessionId: "ses-status-1",
+        };
+      },
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-status-1", "run the tests");
+
+    const texts = harness.getReplies("chat-status-1").map((r) => r.text);
+    expect(texts).toEqual(["✅ Done · 2 steps · 0s", "Tests are green."]);
+    const edited = harness.chatPort.edits.map((edit) => edit.text);
+    expect(edited).toContain("⚙️ Step 1 · execute_shell: bun test · 0s");
+    expect(edited).toContain("⚙️ Step 2 · execute_shell: bun test · 0s");
+  });
+
+  test("status message reports a stopped turn on failure", async () => {
+    const harness = new BehaviorTestHarness({
+      toolStatusLine: true,
+      toolStatusIntervalMs: 5,
+      sessionRetryAttempts: 0,
+      modelRespondFn: async (input: RespondInput) => {
+        input.onStream?.({ type: "step_started", step: 1 });
+        throw new Error("socket closed");
+      },
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-status-2", "do it");
+
+    const replies = harness.getReplies("chat-status-2");
+    expect(replies[0]?.text).toBe("⚠️ Stopped · 1 step · 0s");
+    expect(replies[1]?.text).toContain("transport/delivery issue");
+  });
+
+  test("formatElapsed shows minutes once past a minute", () => {
+    expect(formatElapsed(4_900)).toBe("4s");
+    expect(formatElapsed(72_000)).toBe("1m 12s");
+  });
+});
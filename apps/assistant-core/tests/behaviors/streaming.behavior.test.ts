@@ -0,0 +1,217 @@
+import { describe, expect, test } from "bun:test";
+import { ChatDeliveryError } from "@delegate/domain";
+import type { RespondInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const pause = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("streaming behaviors", () => {
+  test("deltas and tool calls are edited into one message, then replaced by the reply", async () => {
+    const harness = new BehaviorTestHarness({
+      streamReplies: true,
+      streamEditIntervalMs: 5,
+      modelRespondFn: async (input: RespondInput) => {
+        input.onStream?.({ type: "text_delta", delta: "Let me " });
+        input.onStream?.({ type: "text_delta", delta: "check." });
+        await pause(30);
+        input.onStream?.({
+          type: "tool_call",
+          toolName: "execute_shell",
+          summary: "bun test",
+        });
+        await pause(30);
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "All tests pass.",
+          sessionId: "ses-stream-1",
+          usage: { inputTokens: 100, outputTokens: 20, cost: 0 },
+        };
+      },
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-stream-1", "run the tests");
+
+    const replies = harness.getReplies("chat-stream-1");
+    expect(replies).toHaveLength(1);
+    expect(replies[0]?.text).toStartWith("All tests pass.");
+    expect(replies[0]?.text).toContain("💰 120 tokens");
+    const edited = harness.chatPort.edits.map((edit) => edit.text);
+    expect(edited).toContain("Let me check.");
+    expect(edited).toContain("Let me check.\n🔧 execute_shell: bun test\n");
+  });
+
+  test("long streamed output rolls over into extra messages", async () => {
+    let liveMessages = 0;
+    const harness = new BehaviorTestHarness({
+      streamReplies: true,
+      streamEditIntervalMs: 5,
+      modelRespondFn: async (input: RespondInput) => {
+        input.onStream?.({
+          type: "text_delta",
+          delta: `${"a".repeat(3000)}\n\n${"b".repeat(3000)}`,
+        });
+        await pause(40);
+        liveMessages = harness.getReplies("chat-stream-2").length;
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "short summary",
+          sessionId: "ses-stream-2",
+        };
+      },
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-stream-2", "write a lot");
+
+    expect(liveMessages).toBe(2);
+    const replies = harness.getReplies("chat-stream-2");
+    expect(replies.map((reply) => reply.text)).toEqual(["short summary"]);
+  });
+
+  test("a long final reply is split across the streamed messages", async () => {
+    const harness = new BehaviorTestHarness({
+      streamReplies: true,
+      streamEditIntervalMs: 5,
+      modelRespondFn: async () => ({
+        mode: "chat_reply",
+        confidence: 1,
+        replyText: `${"x".repeat(3000)}\n\n${"y".repeat(3000)}`,
+        sessionId: "ses-stream-3",
+      }),
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-stream-3", "long answer please");
+
+    const replies = harness.getReplies("chat-stream-3");
+    expect(replies).toHaveLength(2);
+    expect(replies[0]?.text).toEndWith("(1/2)");
+    expect(replies[1]?.text).toEndWith("(2/2)");
+  });
+
+  test("streamed output is removed when the turn fails", async () => {
+    const harness = new BehaviorTestHarness({
+      streamReplies: true,
+      streamEditIntervalMs: 5,
+      sessionRetryAttempts: 0,
+      modelRespondFn: async (input: RespondInput) => {
+        input.onStream?.({ type: "text_delta", delta: "Working on" });
+        await pause(20);
+        throw new Error("socket closed");
+      },
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-stream-4", "do the thing");
+
+    const replies = harness.getReplies("chat-stream-4");
+    expect(replies).toHaveLength(1);
+    expect(replies[0]?.text).toContain("transport/delivery issue");
+    expect(replies[0]?.messageId).toBeUndefined();
+  });
+
+  test("replies are sent normally when streaming is off", async () => {
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: async (input: RespondInput) => {
+        expect(input.onStream).toBeUndefined();
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "plain",
+          sessionId: "ses-stream-5",
+        };
+      },
+    });
+    await harness.start();
+
+    await harness.sendMessage("chat-stream-5", "hi");
+
+    const replies = harness.getReplies("chat-stream-5");
+    expect(replies).toHaveLength(1);
+    expect(replies[0]?.messageId).toBeUndefined();
+    expect(harness.chatPort.edits).toHaveLength(0);
+  });
+
+  test("a group's streamed reply and status line share one edit pace", async () => {
+    const liveAt: number[] = [];
+    const harness = new BehaviorTestHarness({
+      streamReplies: true,
+      streamEditIntervalMs: 5,
+      toolStatusLine: true,
+      toolStatusIntervalMs: 5,
+      groupEditIntervalMs: 40,
+      modelRespondFn: async (input: RespondInput) => {
+        for (let step = 1; step <= 4; step += 1) {
+          input.onStream?.({ type: "step_started", step });
+          input.onStream?.({ type: "text_delta", delta: `part ${step} ` });
+          await pause(30);
+        }
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "done",
+          sessionId: "ses-stream-6",
+        };
+      },
+    });
+    await harness.start();
+    const { sendEditable, editMessage } = harness.chatPort;
+    harness.chatPort.sendEditable = (message) => {
+      liveAt.push(Date.now());
+      return sendEditable.call(harness.chatPort, message);
+    };
+    harness.chatPort.editMessage = (edit) => {
+      liveAt.push(Date.now());
+      return editMessage.call(harness.chatPort, edit);
+    };
+
+    await harness.sendMessage("-900", "work on it");
+
+    expect(liveAt.length).toBeGreaterThan(3);
+    const gaps = liveAt.slice(1).map((at, i) => at - liveAt[i]!);
+    expect(Math.min(...gaps)).toBeGreaterThanOrEqual(35);
+  });
+
+  test("edits wait out a rate limit's retry-after", async () => {
+    const editedAt: number[] = [];
+    let limitedAt = 0;
+    const harness = new BehaviorTestHarness({
+      streamReplies: true,
+      streamEditIntervalMs: 5,
+      modelRespondFn: async (input: RespondInput) => {
+        for (let step = 1; step <= 6; step += 1) {
+          input.onStream?.({ type: "text_delta", delta: `part ${step} ` });
+          await pause(30);
+        }
+        return {
+          mode: "chat_reply",
+          confidence: 1,
+          replyText: "done",
+          sessionId: "ses-stream-7",
+        };
+      },
+    });
+    await harness.start();
+    const { editMessage } = harness.chatPort;
+    harness.chatPort.editMessage = async (edit) => {
+      if (limitedAt === 0) {
+        limitedAt = Date.now();
+        throw new ChatDeliveryError("rate limited", "editMessageText", false, {
+          retryAfterMs: 150,
+        });
+      }
+      editedAt.push(Date.now());
+      return editMessage.call(harness.chatPort, edit);
+    };
+
+    await harness.sendMessage("chat-stream-7", "work on it");
+
+    expect(limitedAt).toBeGreaterThan(0);
+    expect(editedAt[0]! - limitedAt).toBeGreaterThanOrEqual(145);
+    expect(harness.getLastReply("chat-stream-7")?.text).toBe("done");
+  });
+});
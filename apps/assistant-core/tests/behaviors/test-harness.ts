@@ -1,23 +1,38 @@
 import { mkdtempSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { scheduledMessage } from "@assistant-core/src/scheduler";
+import type { ShellApprovalBroker } from "@assistant-core/src/shell-approvals";
 import type { BuildInfo } from "@assistant-core/src/version";
 import {
+  handleCallback,
   handleChatMessage,
+  recoverInFlightWorkItems,
   startTelegramWorker,
   WorkerContext,
 } from "@assistant-core/src/worker";
+import type {
+  AccessOptions,
+  BudgetOptions,
+} from "@assistant-core/src/worker-types";
 import { SqliteSessionStore } from "@delegate/adapters-session-store-sqlite";
 import type {
+  InboundAttachment,
   InboundMessage,
+  InlineButton,
+  MessageEdit,
   ModelTurnResponse,
+  OutboundDocument,
   OutboundMessage,
+  Schedule,
 } from "@delegate/domain";
 import type {
   ChatPort,
   ChatUpdate,
+  DownloadedFile,
   ModelPort,
   RespondInput,
+  TranscriptionPort,
 } from "@delegate/ports";
 
 // --- Types ---
@@ -26,9 +41,17 @@ export type CapturedReply = {
   chatId: string;
   threadId?: string | null;
   text: string;
+  buttons?: InlineButton[][];
+  /** Set for messages sent with sendEditable. */
+  messageId?: string;
   capturedAt: number;
 };
 
+export type CapturedDocument = OutboundDocument & {
+  /** Number of text replies already sent when the document was uploaded. */
+  repliesBefore: number;
+};
+
 export type ModelRespondFn = (
   input: RespondInput,
 ) => Promise<ModelTurnResponse>;
@@ -37,6 +60,7 @@ export type ModelRespondFn = (
 
 export class MockChatPort implements ChatPort {
   readonly replies: CapturedReply[] = [];
+  readonly answeredCallbacks: Array<{ callbackId: string; text?: string }> = [];
   private pendingUpdates: ChatUpdate[] = [];
   private nextUpdateId = 1;
 
@@ -50,8 +74,71 @@ export class MockChatPort implements ChatPort {
       chatId: message.chatId,
       threadId: message.threadId,
       text: message.text,
+      buttons: message.buttons,
+      capturedAt: Date.now(),
+    });
+  }
+
+  readonly edits: MessageEdit[] = [];
+  private nextMessageId = 1;
+
+  async sendEditable(message: OutboundMessage): Promise<string> {
+    const messageId = String(this.nextMessageId);
+    this.nextMessageId += 1;
+    this.replies.push({
+      chatId: message.chatId,
+      threadId: message.threadId,
+      text: message.text,
+      buttons: message.buttons,
+      messageId,
       capturedAt: Date.now(),
     });
+    return messageId;
+  }
+
+  async editMessage(edit: MessageEdit): Promise<void> {
+    const reply = this.replies.find(
+      (r) => r.chatId === edit.chatId && r.messageId === edit.messageId,
+    );
+    if (!reply) {
+      throw new Error(`message ${edit.messageId} not found`);
+    }
+    reply.text = edit.text;
+    this.edits.push(edit);
+  }
+
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    const index = this.replies.findIndex(
+      (r) => r.chatId === chatId && r.messageId === messageId,
+    );
+    if (index >= 0) {
+      this.replies.splice(index, 1);
+    }
+  }
+
+  async answerCallback(callbackId: string, text?: string): Promise<void> {
+    this.answeredCallbacks.push({ callbackId, text });
+  }
+
+  readonly files = new Map<string, DownloadedFile>();
+
+  async downloadFile(fileId: string): Promise<DownloadedFile> {
+    return (
+      this.files.get(fileId) ?? {
+        data: new TextEncoder().encode(`audio:${fileId}`),
+        fileName: `${fileId}.oga`,
+      }
+    );
+  }
+
+  readonly documents: CapturedDocument[] = [];
+  failDocumentUploads = false;
+
+  async sendDocument(document: OutboundDocument): Promise<void> {
+    if (this.failDocumentUploads) {
+      throw new Error("upload rejected");
+    }
+    this.documents.push({ ...document, repliesBefore: this.replies.length });
   }
 
   injectUpdate(message: InboundMessage): void {
@@ -194,6 +281,16 @@ export type HarnessOptions = {
   progressMaxCount?: number;
   sessionRetryAttempts?: number;
   buildInfo?: BuildInfo;
+  offerTierEscalation?: boolean;
+  transcriber?: TranscriptionPort;
+  streamReplies?: boolean;
+  streamEditIntervalMs?: number;
+  toolStatusLine?: boolean;
+  toolStatusIntervalMs?: number;
+  groupEditIntervalMs?: number;
+  budget?: BudgetOptions;
+  access?: AccessOptions;
+  shellApprovals?: ShellApprovalBroker;
 };
 
 export const defaultBuildInfo: BuildInfo = {
@@ -229,6 +326,7 @@ export class BehaviorTestHarness {
     this.defaultWorkspacePath = options.defaultWorkspacePath ?? this.tmpDir;
     this.sessionStore = new SqliteSessionStore(join(this.tmpDir, "test.db"));
     this.ctx = new WorkerContext();
+    options.shellApprovals?.attach((outbound) => this.chatPort.send(outbound));
   }
 
   async start(): Promise<void> {
@@ -240,19 +338,69 @@ export class BehaviorTestHarness {
     text: string,
     threadId?: string | null,
   ): Promise<void> {
-    const message: InboundMessage = {
+    await this.deliver({
       chatId,
       threadId: threadId ?? null,
       text,
       receivedAt: new Date().toISOString(),
-    };
+    });
+  }
+
+  /** Send a message as a specific platform user. */
+  async sendMessageFrom(
+    userId: string,
+    chatId: string,
+    text: string,
+    userName?: string,
+  ): Promise<void> {
+    await this.deliver({
+      chatId,
+      threadId: null,
+      text,
+      receivedAt: new Date().toISOString(),
+      userId,
+      userName: userName ?? null,
+    });
+  }
 
+  async sendVoice(chatId: string, fileId: string, caption = ""): Promise<void> {
+    await this.deliver({
+      chatId,
+      threadId: null,
+      text: caption,
+      receivedAt: new Date().toISOString(),
+      voice: { fileId, durationSec: 3, mimeType: "audio/ogg" },
+    });
+  }
+
+  async sendAttachments(
+    chatId: string,
+    attachments: InboundAttachment[],
+    caption = "",
+  ): Promise<void> {
+    await this.deliver({
+      chatId,
+      threadId: null,
+      text: caption,
+      receivedAt: new Date().toISOString(),
+      attachments,
+    });
+  }
+
+  /** Fire a schedule now, as the worker does when it comes due. */
+  async runSchedule(schedule: Schedule): Promise<void> {
+    await this.deliver(scheduledMessage(schedule));
+  }
+
+  private async deliver(message: InboundMessage): Promise<void> {
     await handleChatMessage(
       this.ctx,
       {
         chatPort: this.chatPort,
         modelPort: this.modelPort,
         sessionStore: this.sessionStore,
+        transcriber: this.options.transcriber,
+        shellApprovals: this.options.shellApprovals,
       },
       message,
       {
@@ -263,7 +411,72 @@ export class BehaviorTestHarness {
         progressMaxCount: this.options.progressMaxCount,
         sessionRetryAttempts: this.options.sessionRetryAttempts,
         buildInfo: this.options.buildInfo ?? defaultBuildInfo,
+        offerTierEscalation: this.options.offerTierEscalation,
+        streamReplies: this.options.streamReplies,
+        streamEditIntervalMs: this.options.streamEditIntervalMs,
+        toolStatusLine: this.options.toolStatusLine,
+        toolStatusIntervalMs: this.options.toolStatusIntervalMs,
+        groupEditIntervalMs: this.options.groupEditIntervalMs,
+        budget: this.options.budget,
+        access: this.options.access,
+      },
+    );
+  }
+
+  async pressButton(
+    chatId: string,
+    data: string,
+    threadId?: string | null,
+    userId?: string,
+  ): Promise<void> {
+    await handleCallback(
+      this.ctx,
+      {
+        chatPort: this.chatPort,
+        modelPort: this.modelPort,
+        sessionStore: this.sessionStore,
+        transcriber: this.options.transcriber,
+        shellApprovals: this.options.shellApprovals,
+      },
+      {
+        callbackId: `cb-${crypto.randomUUID()}`,
+        chatId,
+        threadId: threadId ?? null,
+        data,
+        receivedAt: new Date().toISOString(),
+        ...(userId ? { userId } : {}),
+      },
+      {
+        defaultWorkspacePath: this.defaultWorkspacePath,
+        relayTimeoutMs: this.options.relayTimeoutMs,
+        sessionRetryAttempts: this.options.sessionRetryAttempts,
+        buildInfo: this.options.buildInfo ?? defaultBuildInfo,
+        offerTierEscalation: this.options.offerTierEscalation,
+        streamReplies: this.options.streamReplies,
+        streamEditIntervalMs: this.options.streamEditIntervalMs,
+        toolStatusLine: this.options.toolStatusLine,
+        toolStatusIntervalMs: this.options.toolStatusIntervalMs,
+        budget: this.options.budget,
+        access: this.options.access,
+      },
+    );
+  }
+
+  async recover(approvalTtlMs?: number): Promise<{
+    expiredApprovals: number;
+    interruptedWorkItems: number;
+    failedApprovedItems: number;
+  }> {
+    return recoverInFlightWorkItems(
+      this.ctx,
+      {
+        chatPort: this.chatPort,
+        modelPort: this.modelPort,
+        sessionStore: this.sessionStore,
+        transcriber: this.options.transcriber,
+        shellApprovals: this.options.shellApprovals,
       },
+      { approvalTtlMs },
     );
   }
 
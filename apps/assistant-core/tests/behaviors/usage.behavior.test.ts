@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { usagePeriodStart } from "@assistant-core/src/usage";
+import { BehaviorTestHarness } from "./test-harness";
+
+const setup = async () => {
+  const harness = new BehaviorTestHarness();
+  await harness.start();
+  const finishTurn = async (
+    sessionKey: string,
+    data: Record<string, unknown>,
+    at: Date = new Date(),
+  ) => {
+    await harness.sessionStore.insertTurnEvent({
+      turnId: crypto.randomUUID(),
+      sessionKey,
+      eventType: "turn_completed",
+      timestamp: at.toISOString(),
+      data,
+    });
+  };
+  return { harness, finishTurn };
+};
+
+const cloudTurn = (cost: number) => ({
+  model: "openrouter/auto",
+  totalInputTokens: 1500,
+  totalOutputTokens: 500,
+  totalCost: cost,
+  stepCount: 2,
+});
+
+const localTurn = {
+  tier: "t1",
+  model: "qwen2.5:14b",
+  totalInputTokens: 400,
+  totalOutputTokens: 100,
+  totalCost: 0,
+  stepCount: 1,
+};
+
+describe("usage behaviors", () => {
+  test("/usage reports today's spend, tokens and tier split", async () => {
+    const { harness, finishTurn } = await setup();
+    await finishTurn("chat-usage-1:root", cloudTurn(0.3));
+    await finishTurn("chat-usage-1:42", cloudTurn(0.9));
+    await finishTurn("chat-usage-1:root", localTurn);
+    await finishTurn("chat-elsewhere:root", cloudTurn(5));
+
+    await harness.sendMessage("chat-usage-1", "/usage");
+
+    const text = harness.getLastReply("chat-usage-1")?.text ?? "";
+    expect(text).toContain("📊 Usage · today");
+    expect(text).toContain("Total: $1.20 · 4.5k tokens · 3 turns");
+    expect(text).toContain("T2: $1.20 · 4.0k tokens · 2 turns");
+    expect(text).toContain("T1: $0.00 · 500 tokens · 1 turn");
+    expect(text).toContain("openrouter/auto: $1.20");
+    expect(text).toContain("Most expensive topics:");
+    expect(text).toContain("thread 42: $0.90");
+    expect(text).toContain("main chat: $0.30");
+  });
+
+  test("/usage week adds a per-day breakdown", async () => {
+    const { harness, finishTurn } = await setup();
+    const now = new Date();
+    const twoDaysAgo = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() - 2,
+      12,
+    );
+    await finishTurn("chat-usage-2:root", cloudTurn(0.5), twoDaysAgo);
+    await finishTurn("chat-usage-2:root", cloudTurn(0.25), now);
+
+    await harness.sendMessage("chat-usage-2", "/usage week");
+
+    const text = harness.getLastReply("chat-usage-2")?.text ?? "";
+    expect(text).toContain("📊 Usage · last 7 days");
+    expect(text).toContain("Total: $0.75");
+    expect(text).toContain("By day:");
+    expect(text.match(/^\d{4}-\d{2}-\d{2}: /gm)).toHaveLength(2);
+  });
+
+  test("/usage with no turns reports zero", async () => {
+    const { harness } = await setup();
+
+    await harness.sendMessage("chat-usage-3", "/usage month");
+
+    const text = harness.getLastReply("chat-usage-3")?.text ?? "";
+    expect(text).toContain("📊 Usage · this month");
+    expect(text).toContain("Total: $0.00 · 0 tokens · 0 turns");
+  });
+
+  test("/usage rejects an unknown period", async () => {
+    const { harness } = await setup();
+
+    await harness.sendMessage("chat-usage-4", "/usage year");
+
+    expect(harness.getLastReply("chat-usage-4")?.text).toBe(
+      "Usage: /usage [today|week|month]",
+    );
+  });
+
+  test("periods start at local midnight", () => {
+    const now = new Date(2026, 9, 19, 15, 30);
+    expect(usagePeriodStart("today", now)).toBe(
+      new Date(2026, 9, 19).toISOString(),
+    );
+    expect(usagePeriodStart("week", now)).toBe(
+      new Date(2026, 9, 13).toISOString(),
+    );
+    expect(usagePeriodStart("month", now)).toBe(
+      new Date(2026, 9, 1).toISOString(),
+    );
+  });
+});
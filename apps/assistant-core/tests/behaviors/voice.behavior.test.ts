@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import type { RespondInput, TranscriptionInput } from "@delegate/ports";
+import { BehaviorTestHarness } from "./test-harness";
+
+const echoModel = (calls: RespondInput[]) => async (input: RespondInput) => {
+  calls.push(input);
+  return {
+    mode: "chat_reply" as const,
+    confidence: 1,
+    replyText: `on it: ${input.text}`,
+    sessionId: "ses-voice",
+  };
+};
+
+describe("voice note behaviors", () => {
+  test("voice note is transcribed, echoed and relayed as text", async () => {
+    const calls: RespondInput[] = [];
+    const transcribed: TranscriptionInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: echoModel(calls),
+      transcriber: {
+        async transcribe(input) {
+          transcribed.push(input);
+          return { text: " book a table for two " };
+        },
+      },
+    });
+    await harness.start();
+
+    await harness.sendVoice("chat-voice-1", "voice-file-1");
+
+    expect(transcribed[0]?.fileName).toBe("voice-file-1.oga");
+    expect(transcribed[0]?.mimeType).toBe("audio/ogg");
+    const replies = harness.getReplies("chat-voice-1").map((r) => r.text);
+    expect(replies[0]).toBe('🎙️ "book a table for two"');
+    expect(calls.map((call) => call.text)).toEqual(["book a table for two"]);
+    expect(replies.at(-1)).toContain("on it: book a table for two");
+  });
+
+  test("caption is kept ahead of the transcript", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: echoModel(calls),
+      transcriber: {
+        async transcribe() {
+          return { text: "the quarterly numbers" };
+        },
+      },
+    });
+    await harness.start();
+
+    await harness.sendVoice("chat-voice-2", "voice-file-2", "summarize");
+
+    expect(calls[0]?.text).toBe("summarize\n\nthe quarterly numbers");
+  });
+
+  test("voice note without a transcriber gets a clear notice", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: echoModel(calls),
+    });
+    await harness.start();
+
+    await harness.sendVoice("chat-voice-3", "voice-file-3");
+
+    expect(calls.length).toBe(0);
+    expect(harness.getLastReply("chat-voice-3")?.text).toContain(
+      "Voice notes aren't enabled",
+    );
+  });
+
+  test("transcription failure is reported and nothing is relayed", async () => {
+    const calls: RespondInput[] = [];
+    const harness = new BehaviorTestHarness({
+      modelRespondFn: echoModel(calls),
+      transcriber: {
+        async transcribe() {
+          throw new Error("whisper down");
+        },
+      },
+    });
+    await harness.start();
+
+    await harness.sendVoice("chat-voice-4", "voice-file-4");
+
+    expect(calls.length).toBe(0);
+    expect(harness.getLastReply("chat-voice-4")?.text).toContain(
+      "couldn't transcribe",
+    );
+  });
+});
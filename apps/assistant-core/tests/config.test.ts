@@ -35,6 +35,31 @@ const envKeys = [
   "OPENAI_API_KEY",
   "ANTHROPIC_API_KEY",
   "ASSISTANT_REPO_PATH",
+  "TRANSCRIPTION_URL",
+  "TRANSCRIPTION_API",
+  "STREAM_REPLIES",
+  "TOOL_STATUS_LINE",
+  "PI_AGENT_COMPACTION_THRESHOLD",
+  "PI_AGENT_FALLBACKS",
+  "BUDGET_DAILY_USD",
+  "BUDGET_MONTHLY_USD",
+  "BUDGET_CHAT_DAILY_USD",
+  "BUDGET_CHAT_MONTHLY_USD",
+  "BUDGET_EXCEEDED_ACTION",
+  "TELEGRAM_WEBHOOK_URL",
+  "TELEGRAM_WEBHOOK_SECRET",
+  "TELEGRAM_BOT_TOKEN",
+  "SLACK_BOT_TOKEN",
+  "SLACK_APP_TOKEN",
+  "OWNER_USER_IDS",
+  "PI_AGENT_REQUIRE_APPROVAL",
+  "PI_AGENT_SHELL_APPROVAL",
+  "PI_AGENT_SHELL_ALLOWLIST",
+  "PI_AGENT_SHELL_APPROVAL_TIMEOUT_MS",
+  "PI_AGENT_SHELL_SANDBOX",
+  "PI_AGENT_SHELL_SANDBOX_NETWORK",
+  "PI_AGENT_SHELL_SANDBOX_MEMORY_MB",
+  "PI_AGENT_SHELL_SANDBOX_CPU_SECONDS",
 ] as const;
 
 type EnvSnapshot = Record<string, string | undefined>;
@@ -234,3 +259,385 @@ describe("pi_agent default values", () => {
     expect(config.piAgentModel).toBe("gemini-2.5-flash");
   });
 });
+
+describe("transcription config", () => {
+  test("is disabled by default", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    const config = loadConfig();
+    expect(config.transcriptionUrl).toBeNull();
+    expect(config.transcriptionApi).toBe("whisper_cpp");
+  });
+
+  test("env vars override config file values", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig({ transcriptionUrl: "http://127.0.0.1:8080" }));
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.TRANSCRIPTION_API = "openai";
+
+    const config = loadConfig();
+    expect(config.transcriptionUrl).toBe("http://127.0.0.1:8080");
+    expect(config.transcriptionApi).toBe("openai");
+  });
+
+  test("rejects an unknown transcription API", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig({ transcriptionApi: "deepgram" }));
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(() => loadConfig()).toThrow("Transcription API must be one of");
+  });
+});
+
+describe("streaming config", () => {
+  test("streams replies by default", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    const config = loadConfig();
+    expect(config.streamReplies).toBe(true);
+    expect(config.streamEditIntervalMs).toBe(1500);
+    expect(config.toolStatusLine).toBe(false);
+  });
+
+  test("STREAM_REPLIES=false disables streaming", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig({ streamReplies: true }));
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.STREAM_REPLIES = "false";
+
+    expect(loadConfig().streamReplies).toBe(false);
+  });
+
+  test("TOOL_STATUS_LINE enables the status line", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.TOOL_STATUS_LINE = "true";
+
+    expect(loadConfig().toolStatusLine).toBe(true);
+  });
+});
+
+describe("compaction config", () => {
+  test("compacts at 80% of the context window by default", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(loadConfig().piAgentCompactionThreshold).toBe(0.8);
+  });
+
+  test("rejects a threshold outside (0, 1]", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.PI_AGENT_COMPACTION_THRESHOLD = "1.5";
+
+    expect(() => loadConfig()).toThrow(
+      "piAgentCompactionThreshold must be between 0 and 1",
+    );
+  });
+});
+
+describe("provider fallback config", () => {
+  test("has no fallbacks by default", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(loadConfig().piAgentFallbacks).toEqual([]);
+  });
+
+  test("reads fallbacks from the config file", () => {
+    envSnap = saveEnv();
+    writeConfig(
+      minimalConfig({
+        piAgentFallbacks: [
+          { provider: "groq", model: "qwen/qwen3-32b", apiKey: "gsk-test" },
+          { provider: "cerebras", model: "llama-3.3-70b" },
+        ],
+      }),
+    );
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(loadConfig().piAgentFallbacks).toEqual([
+      { provider: "groq", model: "qwen/qwen3-32b", apiKey: "gsk-test" },
+      { provider: "cerebras", model: "llama-3.3-70b", apiKey: null },
+    ]);
+  });
+
+  test("PI_AGENT_FALLBACKS takes provider:model pairs", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.PI_AGENT_FALLBACKS =
+      "groq:qwen/qwen3-32b, cerebras:llama-3.3-70b";
+
+    expect(loadConfig().piAgentFallbacks).toEqual([
+      { provider: "groq", model: "qwen/qwen3-32b", apiKey: null },
+      { provider: "cerebras", model: "llama-3.3-70b", apiKey: null },
+    ]);
+  });
+
+  test("rejects a fallback without a model", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.PI_AGENT_FALLBACKS = "groq";
+
+    expect(() => loadConfig()).toThrow(
+      "piAgentFallbacks entries need both a provider and a model",
+    );
+  });
+});
+
+describe("budget config", () => {
+  test("has no limits and blocks by default", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    const config = loadConfig();
+    expect(config.budgetDailyUsd).toBeNull();
+    expect(config.budgetMonthlyUsd).toBeNull();
+    expect(config.budgetChatDailyUsd).toBeNull();
+    expect(config.budgetChatMonthlyUsd).toBeNull();
+    expect(config.budgetExceededAction).toBe("block");
+  });
+
+  test("env vars override config file limits", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig({ budgetDailyUsd: 5, budgetChatMonthlyUsd: 20 }));
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.BUDGET_DAILY_USD = "2.5";
+
+    const config = loadConfig();
+    expect(config.budgetDailyUsd).toBe(2.5);
+    expect(config.budgetChatMonthlyUsd).toBe(20);
+  });
+
+  test("rejects a non-positive limit", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.BUDGET_MONTHLY_USD = "0";
+
+    expect(() => loadConfig()).toThrow(
+      "budgetMonthlyUsd must be a positive number",
+    );
+  });
+
+  test("downgrading to T1 needs the tiered router", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.BUDGET_EXCEEDED_ACTION = "t1";
+
+    expect(() => loadConfig()).toThrow(
+      'budgetExceededAction "t1" needs model provider "tiered_router"',
+    );
+  });
+});
+
+describe("telegram webhook config", () => {
+  test("long polls by default", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    const config = loadConfig();
+    expect(config.telegramWebhookUrl).toBeNull();
+    expect(config.telegramWebhookSecret).toBeNull();
+  });
+
+  test("reads the URL from the file and the secret from env", () => {
+    envSnap = saveEnv();
+    writeConfig(
+      minimalConfig({ telegramWebhookUrl: "https://bot.example.ts.net/tg" }),
+    );
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.TELEGRAM_WEBHOOK_SECRET = "s3cret_token-1";
+
+    const config = loadConfig();
+    expect(config.telegramWebhookUrl).toBe("https://bot.example.ts.net/tg");
+    expect(config.telegramWebhookSecret).toBe("s3cret_token-1");
+  });
+
+  test("requires https and a valid secret", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.TELEGRAM_WEBHOOK_URL = "http://bot.example.ts.net/tg";
+    process.env.TELEGRAM_WEBHOOK_SECRET = "s3cret";
+
+    expect(() => loadConfig()).toThrow(
+      "telegramWebhookUrl must be an https:// URL",
+    );
+
+    process.env.TELEGRAM_WEBHOOK_URL = "https://bot.example.ts.net/tg";
+    delete process.env.TELEGRAM_WEBHOOK_SECRET;
+    expect(() => loadConfig()).toThrow("telegramWebhookSecret must be");
+  });
+});
+
+describe("slack config", () => {
+  test("reads both tokens from env", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.SLACK_BOT_TOKEN = "xoxb-1";
+    process.env.SLACK_APP_TOKEN = "xapp-1";
+
+    const config = loadConfig();
+    expect(config.slackBotToken).toBe("xoxb-1");
+    expect(config.slackAppToken).toBe("xapp-1");
+  });
+
+  test("needs both tokens", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.SLACK_BOT_TOKEN = "xoxb-1";
+
+    expect(() => loadConfig()).toThrow(
+      "slackBotToken and slackAppToken must be set together",
+    );
+  });
+
+  test("cannot share an instance with Telegram", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.SLACK_BOT_TOKEN = "xoxb-1";
+    process.env.SLACK_APP_TOKEN = "xapp-1";
+    process.env.TELEGRAM_BOT_TOKEN = "123:abc";
+
+    expect(() => loadConfig()).toThrow(
+      "Configure either Telegram or Slack, not both.",
+    );
+  });
+});
+
+describe("owner config", () => {
+  test("defaults to no owners", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(loadConfig().ownerUserIds).toEqual([]);
+  });
+
+  test("reads numeric ids from the config file", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig({ ownerUserIds: [123456, "U0ABC"] }));
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(loadConfig().ownerUserIds).toEqual(["123456", "U0ABC"]);
+  });
+
+  test("env overrides with a comma-separated list", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig({ ownerUserIds: [1] }));
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.OWNER_USER_IDS = " 42, 43 ,42";
+
+    expect(loadConfig().ownerUserIds).toEqual(["42", "43"]);
+  });
+
+  test("rejects entries that are not ids", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.OWNER_USER_IDS = "@ada";
+
+    expect(() => loadConfig()).toThrow(
+      'ownerUserIds entries must be platform user ids (received "@ada")',
+    );
+  });
+});
+
+describe("execution proposal config", () => {
+  test("holds back write tools by default, env turning it off", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(loadConfig().piAgentRequireApproval).toBe(true);
+
+    process.env.PI_AGENT_REQUIRE_APPROVAL = "false";
+    expect(loadConfig().piAgentRequireApproval).toBe(false);
+  });
+});
+
+describe("shell approval config", () => {
+  test("is off by default and keeps the adapter's allowlist", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    const config = loadConfig();
+    expect(config.piAgentShellApproval).toBe(false);
+    expect(config.piAgentShellAllowlist).toBeNull();
+    expect(config.piAgentShellApprovalTimeoutMs).toBe(120_000);
+  });
+
+  test("reads the allowlist from the file, env overriding it", () => {
+    envSnap = saveEnv();
+    writeConfig(
+      minimalConfig({
+        piAgentShellApproval: true,
+        piAgentShellAllowlist: ["git  status", "ls"],
+      }),
+    );
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    expect(loadConfig().piAgentShellAllowlist).toEqual(["git status", "ls"]);
+
+    process.env.PI_AGENT_SHELL_ALLOWLIST = "bun test, make check ,";
+    process.env.PI_AGENT_SHELL_APPROVAL_TIMEOUT_MS = "30000";
+    const config = loadConfig();
+    expect(config.piAgentShellApproval).toBe(true);
+    expect(config.piAgentShellAllowlist).toEqual(["bun test", "make check"]);
+    expect(config.piAgentShellApprovalTimeoutMs).toBe(30_000);
+  });
+});
+
+describe("shell sandbox config", () => {
+  test("is off by default with the default limits", () => {
+    envSnap = saveEnv();
+    writeConfig(minimalConfig());
+    process.env.PI_AGENT_API_KEY = "sk-test";
+
+    const config = loadConfig();
+    expect(config.piAgentShellSandbox).toBe("none");
+    expect(config.piAgentShellSandboxNetwork).toBe(false);
+    expect(config.piAgentShellSandboxMemoryMb).toBe(1024);
+    expect(config.piAgentShellSandboxCpuSeconds).toBe(60);
+  });
+
+  test("env overrides the file and unknown backends are rejected", () => {
+    envSnap = saveEnv();
+    writeConfig(
+      minimalConfig({
+        piAgentShellSandbox: "bubblewrap",
+        piAgentShellSandboxMemoryMb: 512,
+      }),
+    );
+    process.env.PI_AGENT_API_KEY = "sk-test";
+    process.env.PI_AGENT_SHELL_SANDBOX_NETWORK = "true";
+    process.env.PI_AGENT_SHELL_SANDBOX_CPU_SECONDS = "10";
+
+    const config = loadConfig();
+    expect(config.piAgentShellSandbox).toBe("bubblewrap");
+    expect(config.piAgentShellSandboxNetwork).toBe(true);
+    expect(config.piAgentShellSandboxMemoryMb).toBe(512);
+    expect(config.piAgentShellSandboxCpuSeconds).toBe(10);
+
+    process.env.PI_AGENT_SHELL_SANDBOX = "docker";
+    expect(() => loadConfig()).toThrow("Shell sandbox must be one of");
+  });
+});
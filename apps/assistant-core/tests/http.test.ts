@@ -11,6 +11,10 @@ const baseConfig = (): AppConfig => ({
   sqlitePath: "/tmp/assistant.db",
   telegramBotToken: null,
   telegramPollIntervalMs: 2_000,
+  telegramWebhookUrl: null,
+  telegramWebhookSecret: null,
+  slackBotToken: null,
+  slackAppToken: null,
   modelProvider: "pi_agent",
   modelName: "openai/gpt-5.3-codex",
   assistantRepoPath: "/tmp",
@@ -25,15 +29,31 @@ const baseConfig = (): AppConfig => ({
   piAgentModel: "openrouter/auto",
   piAgentApiKey: null,
   piAgentMaxSteps: 15,
+  piAgentCompactionThreshold: 0.8,
+  piAgentFallbacks: [],
   maxConcurrentTopics: 3,
   systemPromptPath: null,
   piAgentEnableShellTool: true,
+  piAgentRequireApproval: true,
+  piAgentShellApproval: false,
+  piAgentShellAllowlist: null,
+  piAgentShellApprovalTimeoutMs: 120_000,
+  piAgentShellSandbox: "none",
+  piAgentShellSandboxNetwork: false,
+  piAgentShellSandboxMemoryMb: 1024,
+  piAgentShellSandboxCpuSeconds: 60,
   piAgentEnableWebFetchTool: true,
   piAgentEnableWebSearchTool: true,
   piAgentWebFetchProvider: null,
   piAgentWebFetchModel: null,
   startupAnnounceChatId: null,
   startupAnnounceThreadId: null,
+  ownerUserIds: [],
+  budgetDailyUsd: null,
+  budgetMonthlyUsd: null,
+  budgetChatDailyUsd: null,
+  budgetChatMonthlyUsd: null,
+  budgetExceededAction: "block",
 });
 
 const buildInfoFixture: BuildInfo = {
@@ -110,4 +130,38 @@ describe("startHttpServer", () => {
       server.stop(true);
     }
   });
+
+  test("hands POSTs on the webhook path to the Telegram adapter", async () => {
+    const config = baseConfig();
+    config.port = 0;
+    const received: string[] = [];
+    const server = startHttpServer({
+      config,
+      sessionStore: { ping: async () => {} },
+      modelPort: { respond: async () => ({ replyText: "unused" }) },
+      buildInfo: buildInfoFixture,
+      telegramWebhook: {
+        path: "/telegram/hook",
+        handleRequest: async (request) => {
+          received.push(await request.text());
+          return Response.json({ ok: true });
+        },
+      },
+    });
+
+    try {
+      const base = `http://127.0.0.1:${server.port}`;
+      const response = await fetch(`${base}/telegram/hook`, {
+        method: "POST",
+        body: '{"update_id":1}',
+      });
+      expect(response.status).toBe(200);
+      expect(received).toEqual(['{"update_id":1}']);
+
+      const other = await fetch(`${base}/telegram/other`, { method: "POST" });
+      expect(other.status).toBe(404);
+    } finally {
+      server.stop(true);
+    }
+  });
 });
@@ -3,6 +3,7 @@ import { describe, expect, test } from "bun:test";
 import {
   classifyWorkerExit,
   reclaimPortFromPriorAssistant,
+  retryUntilDone,
   startWithPortTakeover,
 } from "@assistant-core/src/main";
 
@@ -135,3 +136,48 @@ describe("classifyWorkerExit", () => {
     expect(classifyWorkerExit(1)).toBe("unexpected_exit");
   });
 });
+
+describe("retryUntilDone", () => {
+  test("retries a failing call with growing delays until it succeeds", async () => {
+    const waits: number[] = [];
+    let calls = 0;
+
+    const done = await retryUntilDone({
+      event: "test.step_failed",
+      run: async () => {
+        calls += 1;
+        if (calls < 4) {
+          throw new Error("network down");
+        }
+      },
+      signal: new AbortController().signal,
+      wait: async (ms) => {
+        waits.push(ms);
+      },
+    });
+
+    expect(done).toBe(true);
+    expect(calls).toBe(4);
+    expect(waits).toEqual([1_000, 2_000, 4_000]);
+  });
+
+  test("gives up once the worker stops", async () => {
+    const stop = new AbortController();
+    let calls = 0;
+
+    const done = await retryUntilDone({
+      event: "test.step_failed",
+      run: async () => {
+        calls += 1;
+        throw new Error("network down");
+      },
+      signal: stop.signal,
+      wait: async () => {
+        stop.abort();
+      },
+    });
+
+    expect(done).toBe(false);
+    expect(calls).toBe(1);
+  });
+});
@@ -48,6 +48,11 @@ describe("classifyRelayError", () => {
     expect(classifyRelayError(err)).toBe("model_transient");
   });
 
+  test("classifies ModelError with context_overflow as context_overflow", () => {
+    const err = new ModelError("context_overflow", "maximum context length");
+    expect(classifyRelayError(err)).toBe("context_overflow");
+  });
+
   test("classifies 'already processing' as session_invalid", () => {
     expect(classifyRelayError(new Error("already processing"))).toBe(
       "session_invalid",
@@ -0,0 +1,164 @@
+import { describe, expect, test } from "bun:test";
+import {
+  describeRecurrence,
+  formatRunTime,
+  nextRunAfter,
+  parseRecurrence,
+  parseReminderTime,
+} from "@assistant-core/src/schedule-spec";
+
+describe("parseRecurrence", () => {
+  test("reads weekday schedules and keeps the task", () => {
+    expect(
+      parseRecurrence("every weekday 8:00 summarize my repo's open PRs"),
+    ).toEqual({
+      recurrence: { kind: "weekly", days: [1, 2, 3, 4, 5], hour: 8, minute: 0 },
+      rest: "summarize my repo's open PRs",
+    });
+  });
+
+  test("accepts day lists, 'at' and am/pm", () => {
+    expect(parseRecurrence("every mon, Thursday at 6pm water plants")).toEqual(
+      {
+        recurrence: { kind: "weekly", days: [1, 4], hour: 18, minute: 0 },
+        rest: "water plants",
+      },
+    );
+    expect(parseRecurrence("daily at 12am backup")?.recurrence).toEqual({
+      kind: "weekly",
+      days: [0, 1, 2, 3, 4, 5, 6],
+      hour: 0,
+      minute: 0,
+    });
+  });
+
+  test("reads intervals", () => {
+    expect(parseRecurrence("every 2 hours check CI")).toEqual({
+      recurrence: { kind: "interval", minutes: 120 },
+      rest: "check CI",
+    });
+    expect(parseRecurrence("every hour ping")?.recurrence).toEqual({
+      kind: "interval",
+      minutes: 60,
+    });
+  });
+
+  test("rejects unknown days, bad times and tiny intervals", () => {
+    expect(parseRecurrence("every someday 8:00 task")).toBeNull();
+    expect(parseRecurrence("every day at 25:00 task")).toBeNull();
+    expect(parseRecurrence("every day at 8:75 task")).toBeNull();
+    expect(parseRecurrence("every 1 minute spam")).toBeNull();
+    expect(parseRecurrence("tomorrow at 8 task")).toBeNull();
+  });
+
+  test("canonical descriptions parse back to the same recurrence", () => {
+    for (const text of [
+      "every weekday 8:00",
+      "every weekend at 9:30am",
+      "every day at 7",
+      "every tue and fri at 17:45",
+      "every 90 minutes",
+      "every 3 hours",
+    ]) {
+      const recurrence = parseRecurrence(text)!.recurrence;
+      const described = describeRecurrence(recurrence);
+      expect(parseRecurrence(described)?.recurrence).toEqual(recurrence);
+    }
+    expect(
+      describeRecurrence({ kind: "weekly", days: [2, 5], hour: 17, minute: 5 }),
+    ).toBe("every Tuesday, Friday at 17:05");
+  });
+});
+
+describe("nextRunAfter", () => {
+  // Saturday 17 Oct 2026, 09:00 local
+  const saturday = new Date(2026, 9, 17, 9, 0);
+
+  test("skips to the next matching day", () => {
+    const next = nextRunAfter(
+      { kind: "weekly", days: [1, 2, 3, 4, 5], hour: 8, minute: 0 },
+      saturday,
+    );
+    expect(next).toEqual(new Date(2026, 9, 19, 8, 0));
+  });
+
+  test("fires later the same day when the time has not passed", () => {
+    const next = nextRunAfter(
+      { kind: "weekly", days: [6], hour: 9, minute: 30 },
+      saturday,
+    );
+    expect(next).toEqual(new Date(2026, 9, 17, 9, 30));
+  });
+
+  test("waits a full week when today's slot has passed", () => {
+    const next = nextRunAfter(
+      { kind: "weekly", days: [6], hour: 9, minute: 0 },
+      saturday,
+    );
+    expect(next).toEqual(new Date(2026, 9, 24, 9, 0));
+  });
+
+  test("adds the interval", () => {
+    expect(nextRunAfter({ kind: "interval", minutes: 30 }, saturday)).toEqual(
+      new Date(2026, 9, 17, 9, 30),
+    );
+  });
+
+  test("formats run times compactly", () => {
+    expect(formatRunTime(new Date(2026, 9, 20, 8, 0))).toBe(
+      "Tue 20 Oct 08:00",
+    );
+  });
+});
+
+describe("parseReminderTime", () => {
+  // Monday 19 Oct 2026, 10:15 local
+  const now = new Date(2026, 9, 19, 10, 15);
+
+  test("reads relative offsets", () => {
+    expect(parseReminderTime("in 20 minutes", now)).toEqual(
+      new Date(2026, 9, 19, 10, 35),
+    );
+    expect(parseReminderTime("in an hour", now)).toEqual(
+      new Date(2026, 9, 19, 11, 15),
+    );
+    expect(parseReminderTime("in 2 days", now)).toEqual(
+      new Date(2026, 9, 21, 10, 15),
+    );
+  });
+
+  test("reads clock times on named days", () => {
+    expect(parseReminderTime("at 17:30", now)).toEqual(
+      new Date(2026, 9, 19, 17, 30),
+    );
+    expect(parseReminderTime("9am", now)).toEqual(new Date(2026, 9, 20, 9, 0));
+    expect(parseReminderTime("tomorrow at 9am", now)).toEqual(
+      new Date(2026, 9, 20, 9, 0),
+    );
+    expect(parseReminderTime("tonight at 9", now)).toEqual(
+      new Date(2026, 9, 19, 21, 0),
+    );
+    expect(parseReminderTime("friday 6pm", now)).toEqual(
+      new Date(2026, 9, 23, 18, 0),
+    );
+    expect(parseReminderTime("next mon at 8", now)).toEqual(
+      new Date(2026, 9, 26, 8, 0),
+    );
+  });
+
+  test("reads ISO timestamps as local unless they carry an offset", () => {
+    expect(parseReminderTime("2026-10-20T09:00", now)).toEqual(
+      new Date(2026, 9, 20, 9, 0),
+    );
+    expect(parseReminderTime("2026-10-20T09:00:00Z", now)?.toISOString()).toBe(
+      "2026-10-20T09:00:00.000Z",
+    );
+  });
+
+  test("rejects text that is not a time", () => {
+    expect(parseReminderTime("someday", now)).toBeNull();
+    expect(parseReminderTime("every day at 9", now)).toBeNull();
+    expect(parseReminderTime("tomorrow at 25:00", now)).toBeNull();
+    expect(parseReminderTime("2026-10-20", now)).toBeNull();
+  });
+});
@@ -0,0 +1,224 @@
+import type {
+  InboundCallback,
+  InboundMessage,
+  InlineButton,
+  OutboundDocument,
+  OutboundMessage,
+} from "@delegate/domain";
+import type { ChatPort, ChatUpdate } from "@delegate/ports";
+
+export type CliChatConfig = {
+  /** Lines typed at the terminal, without trailing newlines. */
+  input: AsyncIterable<string>;
+  /** Writes raw text to the terminal. */
+  write: (text: string) => void;
+  /** Chat id every message is sent under. Default: "cli" */
+  chatId?: string;
+  /** How long receiveUpdates waits for input before returning none. Default: 20000 */
+  waitMs?: number;
+};
+
+const DEFAULT_CHAT_ID = "cli";
+const DEFAULT_WAIT_MS = 20_000;
+
+const HELP_TEXT = [
+  "Type a message to talk to the assistant. Slash commands work as in chat.",
+  "  :thread <id>   continue in thread <id> (its own session and workspace)",
+  "  :thread        back to the main chat",
+  "  :press <n>     press button [n] on the last message that had buttons",
+  "  :help          show this help",
+  "  :quit          exit",
+].join("\n");
+
+const META_COMMAND_PATTERN = /^:([a-z]+)(?:\s+(.*))?$/;
+
+type PressableButton = InlineButton & {
+  threadId: string | null;
+  messageId: string;
+};
+
+/**
+ * A terminal chat: stdin lines become inbound messages and replies are
+ * printed to stdout. Lines starting with `:` are meta-commands that simulate
+ * what a chat client would do — switching threads and pressing buttons.
+ */
+export class CliChatAdapter implements ChatPort {
+  private readonly chatId: string;
+  private pending: Array<InboundMessage | InboundCallback> = [];
+  private nextUpdateId = 1;
+  private nextMessageId = 1;
+  private wakeReceiver: (() => void) | null = null;
+  private threadId: string | null = null;
+  private buttons: PressableButton[] = [];
+
+  constructor(private readonly config: CliChatConfig) {
+    this.chatId = config.chatId ?? DEFAULT_CHAT_ID;
+  }
+
+  get currentThreadId(): string | null {
+    return this.threadId;
+  }
+
+  /** Read input until it ends or the user types `:quit`. */
+  async run(): Promise<void> {
+    this.config.write(`${HELP_TEXT}\n`);
+    this.prompt();
+    for await (const line of this.config.input) {
+      if (this.handleLine(line) === "quit") {
+        return;
+      }
+    }
+  }
+
+  /** Handle one line of input. Returns "quit" when the user asked to exit. */
+  handleLine(line: string): "quit" | null {
+    const text = line.trim();
+    if (!text) {
+      this.prompt();
+      return null;
+    }
+
+    const meta = META_COMMAND_PATTERN.exec(text);
+    if (!meta) {
+      this.enqueue({
+        chatId: this.chatId,
+        threadId: this.threadId,
+        text,
+        receivedAt: new Date().toISOString(),
+        sourceMessageId: this.takeMessageId(),
+      });
+      return null;
+    }
+
+    const [, command, arg = ""] = meta;
+    switch (command) {
+      case "quit":
+      case "exit":
+        return "quit";
+      case "help":
+        this.config.write(`${HELP_TEXT}\n`);
+        break;
+      case "thread": {
+        const id = arg.trim();
+        this.threadId = id && id !== "main" ? id : null;
+        this.config.write(
+          this.threadId
+            ? `Now in thread ${this.threadId}.\n`
+            : "Back in the main chat.\n",
+        );
+        break;
+      }
+      case "press": {
+        const button = this.buttons[Number.parseInt(arg, 10) - 1];
+        if (!button) {
+          this.config.write(
+            this.buttons.length > 0
+              ? `Pick a button from 1 to ${String(this.buttons.length)}.\n`
+              : "No buttons to press.\n",
+          );
+          break;
+        }
+        this.enqueue({
+          callbackId: this.takeMessageId(),
+          chatId: this.chatId,
+          threadId: button.threadId,
+          data: button.data,
+          receivedAt: new Date().toISOString(),
+          sourceMessageId: button.messageId,
+        });
+        return null;
+      }
+      default:
+        this.config.write(`Unknown command :${command}. Try :help.\n`);
+    }
+    this.prompt();
+    return null;
+  }
+
+  /**
+   * Update ids continue from the worker's cursor, so a restarted REPL picks
+   * up where the stored cursor left off.
+   */
+  async receiveUpdates(cursor: number | null): Promise<ChatUpdate[]> {
+    if (this.pending.length === 0) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(
+          resolve,
+          this.config.waitMs ?? DEFAULT_WAIT_MS,
+        );
+        this.wakeReceiver = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wakeReceiver = null;
+    }
+
+    if (cursor !== null && cursor > this.nextUpdateId) {
+      this.nextUpdateId = cursor;
+    }
+    const ready = this.pending;
+    this.pending = [];
+    return ready.map((inbound): ChatUpdate => {
+      const updateId = this.nextUpdateId;
+      this.nextUpdateId += 1;
+      return "callbackId" in inbound
+        ? { updateId, callback: inbound }
+        : { updateId, message: inbound };
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<void> {
+    const messageId = this.takeMessageId();
+    const lines = [`${this.label(message.threadId)}${message.text}`];
+    if (message.buttons && message.buttons.length > 0) {
+      this.buttons = [];
+      for (const row of message.buttons) {
+        const labels = row.map((button) => {
+          this.buttons.push({
+            ...button,
+            threadId: message.threadId ?? null,
+            messageId,
+          });
+          return `[${String(this.buttons.length)}] ${button.label}`;
+        });
+        lines.push(`  ${labels.join("   ")}`);
+      }
+    }
+    this.config.write(`\n${lines.join("\n")}\n`);
+    this.prompt();
+  }
+
+  async answerCallback(_callbackId: string, text?: string): Promise<void> {
+    if (text) {
+      this.config.write(`· ${text}\n`);
+    }
+  }
+
+  async sendDocument(document: OutboundDocument): Promise<void> {
+    const caption = document.caption ? ` — ${document.caption}` : "";
+    this.config.write(
+      `\n${this.label(document.threadId)}📎 ${document.path}${caption}\n`,
+    );
+    this.prompt();
+  }
+
+  private enqueue(inbound: InboundMessage | InboundCallback): void {
+    this.pending.push(inbound);
+    this.wakeReceiver?.();
+  }
+
+  private takeMessageId(): string {
+    const id = `cli-${String(this.nextMessageId)}`;
+    this.nextMessageId += 1;
+    return id;
+  }
+
+  private label(threadId: string | null | undefined): string {
+    return threadId ? `assistant [thread ${threadId}]: ` : "assistant: ";
+  }
+
+  private prompt(): void {
+    this.config.write(this.threadId ? `[thread ${this.threadId}]> ` : "> ");
+  }
+}
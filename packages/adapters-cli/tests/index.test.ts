@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { CliChatAdapter } from "../src/index";
+
+const buildAdapter = (input: string[] = []) => {
+  const output: string[] = [];
+  const adapter = new CliChatAdapter({
+    input: (async function* () {
+      yield* input;
+    })(),
+    write: (text) => output.push(text),
+    waitMs: 20,
+  });
+  return { adapter, output: () => output.join("") };
+};
+
+describe("CliChatAdapter", () => {
+  test("turns lines into messages, continuing ids from the cursor", async () => {
+    const { adapter } = buildAdapter();
+
+    adapter.handleLine("  hello there ");
+    adapter.handleLine("");
+    adapter.handleLine("/status");
+
+    const updates = await adapter.receiveUpdates(7);
+    expect(updates.map((update) => update.updateId)).toEqual([7, 8]);
+    expect(updates[0]).toMatchObject({
+      message: { chatId: "cli", threadId: null, text: "hello there" },
+    });
+    expect(updates[1]).toMatchObject({ message: { text: "/status" } });
+    expect(await adapter.receiveUpdates(9)).toEqual([]);
+  });
+
+  test(":thread switches the thread messages are sent in", async () => {
+    const { adapter, output } = buildAdapter();
+
+    adapter.handleLine(":thread 42");
+    adapter.handleLine("in the thread");
+    adapter.handleLine(":thread");
+    adapter.handleLine("back in main");
+
+    const updates = await adapter.receiveUpdates(null);
+    expect(updates.map((update) => update.message?.threadId)).toEqual([
+      "42",
+      null,
+    ]);
+    expect(output()).toContain("Now in thread 42.");
+    expect(output()).toContain("Back in the main chat.");
+  });
+
+  test("prints replies with numbered buttons that :press answers", async () => {
+    const { adapter, output } = buildAdapter();
+
+    await adapter.send({
+      chatId: "cli",
+      threadId: "9",
+      text: "Run `rm -rf build`?",
+      buttons: [
+        [
+          { label: "Approve", data: "approve:w1" },
+          { label: "Deny", data: "deny:w1" },
+        ],
+      ],
+    });
+    expect(output()).toContain("assistant [thread 9]: Run `rm -rf build`?");
+    expect(output()).toContain("[1] Approve   [2] Deny");
+
+    adapter.handleLine(":press 3");
+    expect(output()).toContain("Pick a button from 1 to 2.");
+    adapter.handleLine(":press 2");
+
+    const [update] = await adapter.receiveUpdates(null);
+    expect(update?.callback).toMatchObject({
+      chatId: "cli",
+      threadId: "9",
+      data: "deny:w1",
+      sourceMessageId: "cli-1",
+    });
+  });
+
+  test("run stops at :quit and reports unknown commands", async () => {
+    const { adapter, output } = buildAdapter([":nope", ":quit", "never sent"]);
+
+    await adapter.run();
+
+    expect(output()).toContain("Unknown command :nope. Try :help.");
+    expect(await adapter.receiveUpdates(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+
+/** Default fraction of the context window at which a session is compacted. */
+export const DEFAULT_COMPACTION_THRESHOLD = 0.8;
+
+// Compaction aims well below the trigger so it doesn't re-fire every turn.
+const COMPACTION_TARGET_RATIO = 0.5;
+// The newest turns are what the model is actively working with; never touch them.
+const KEEP_RECENT_TURNS = 2;
+const SUMMARY_PREFIX =
+  "[Summary of earlier conversation, compacted to save context]";
+/** Longest summary kept, whoever wrote it. */
+export const MAX_SUMMARY_CHARS = 6000;
+const MAX_SUMMARY_LINE_CHARS = 240;
+// The model reading the dropped turns sees far more of each message
+const MAX_SOURCE_LINE_CHARS = 2000;
+
+export type CompactionResult = {
+  messages: AgentMessage[];
+  tokensBefore: number;
+  tokensAfter: number;
+  elidedToolResults: number;
+  droppedMessages: number;
+  droppedTurns: number;
+  /**
+   * The earlier summary and the dropped turns, less clipped than the
+   * summary itself, for a model to summarize. Null when no turn was dropped.
+   */
+  summarySource: string | null;
+};
+
+type ContentPart = { type: string; text?: string; name?: string };
+
+const roleOf = (message: AgentMessage): string | undefined =>
+  (message as { role?: string }).role;
+
+const partsOf = (message: AgentMessage): ContentPart[] => {
+  const content = (message as { content?: unknown }).content;
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  return Array.isArray(content) ? (content as ContentPart[]) : [];
+};
+
+const textOf = (message: AgentMessage): string =>
+  partsOf(message)
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** Rough token estimate (~4 chars per token) for messages without usage data. */
+export const estimateMessageTokens = (messages: AgentMessage[]): number =>
+  Math.ceil(JSON.stringify(messages).length / 4);
+
+export const isCompactionSummary = (message: AgentMessage): boolean =>
+  roleOf(message) === "user" && textOf(message).startsWith(SUMMARY_PREFIX);
+
+/** Split a history into turns, each starting at a user message. */
+const splitTurns = (messages: AgentMessage[]): AgentMessage[][] => {
+  const turns: AgentMessage[][] = [];
+  for (const message of messages) {
+    if (roleOf(message) === "user" || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1]!.push(message);
+    }
+  }
+  return turns;
+};
+
+const elideToolResult = (message: AgentMessage): AgentMessage | null => {
+  if (roleOf(message) !== "toolResult") {
+    return null;
+  }
+  const chars = textOf(message).length;
+  const marker = `[tool output elided (${chars} chars)]`;
+  const parts = partsOf(message);
+  if (parts.length === 1 && parts[0]?.text === marker) {
+    return null;
+  }
+  return {
+    ...message,
+    content: [{ type: "text", text: marker }],
+  } as AgentMessage;
+};
+
+const clip = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+/** One line per user/assistant exchange, plus the tools the turn used. */
+const summarizeTurn = (
+  turn: AgentMessage[],
+  maxLineChars: number = MAX_SUMMARY_LINE_CHARS,
+): string[] => {
+  const lines: string[] = [];
+  const tools = new Set<string>();
+  for (const message of turn) {
+    const role = roleOf(message);
+    if (role === "user") {
+      lines.push(`User: ${clip(textOf(message), maxLineChars)}`);
+    } else if (role === "assistant") {
+      for (const part of partsOf(message)) {
+        if (part.type === "toolCall" && part.name) {
+          tools.add(part.name);
+        }
+      }
+      const text = textOf(message);
+      if (text) {
+        lines.push(`Assistant: ${clip(text, maxLineChars)}`);
+      }
+    }
+  }
+  if (tools.size > 0) {
+    lines.push(`(tools used: ${[...tools].join(", ")})`);
+  }
+  return lines;
+};
+
+const summaryMessage = (body: string): AgentMessage => {
+  // Keep the newest end of the summary when it outgrows its own budget.
+  const kept =
+    body.length > MAX_SUMMARY_CHARS
+      ? `…${body.slice(body.length - MAX_SUMMARY_CHARS)}`
+      : body;
+  return {
+    role: "user",
+    content: `${SUMMARY_PREFIX}\n${kept}`,
+    timestamp: Date.now(),
+  } as AgentMessage;
+};
+
+const earlierSummary = (previous: AgentMessage | null): string =>
+  previous ? textOf(previous).slice(SUMMARY_PREFIX.length).trim() : "";
+
+const summaryBody = (
+  previous: AgentMessage | null,
+  dropped: AgentMessage[][],
+  maxLineChars?: number,
+): string =>
+  [
+    earlierSummary(previous),
+    ...dropped.flatMap((turn) => summarizeTurn(turn, maxLineChars)),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * Shrink a session's history to roughly `targetTokens`. Tool results in
+ * older turns are elided first; if that is not enough, the oldest turns are
+ * folded into a single synthetic summary message at the head of the history.
+ * That summary is a clipped transcript of the dropped turns; pass the
+ * result's `summarySource` to a model and `withSummary` to replace it with a
+ * real one. The `keepRecentTurns` most recent turns are always kept verbatim.
+ */
+export const compactMessages = (
+  messages: AgentMessage[],
+  targetTokens: number,
+  keepRecentTurns: number = KEEP_RECENT_TURNS,
+): CompactionResult => {
+  const tokensBefore = estimateMessageTokens(messages);
+  let turns = splitTurns(messages);
+  let previousSummary: AgentMessage | null = null;
+  if (turns[0]?.length === 1 && isCompactionSummary(turns[0][0]!)) {
+    previousSummary = turns[0][0]!;
+    turns = turns.slice(1);
+  }
+  const olderCount = Math.max(0, turns.length - keepRecentTurns);
+
+  let elidedToolResults = 0;
+  turns = turns.map((turn, index) =>
+    index >= olderCount
+      ? turn
+      : turn.map((message) => {
+          const elided = elideToolResult(message);
+          if (!elided) {
+            return message;
+          }
+          elidedToolResults += 1;
+          return elided;
+        }),
+  );
+
+  const assemble = (dropped: AgentMessage[][], kept: AgentMessage[][]) => [
+    ...(dropped.length > 0 || previousSummary
+      ? [summaryMessage(summaryBody(previousSummary, dropped))]
+      : []),
+    ...kept.flat(),
+  ];
+
+  const dropped: AgentMessage[][] = [];
+  let kept = turns;
+  let compacted = assemble(dropped, kept);
+  while (
+    estimateMessageTokens(compacted) > targetTokens &&
+    dropped.length < olderCount
+  ) {
+    dropped.push(kept[0]!);
+    kept = kept.slice(1);
+    compacted = assemble(dropped, kept);
+  }
+
+  return {
+    messages: compacted,
+    tokensBefore,
+    tokensAfter: estimateMessageTokens(compacted),
+    elidedToolResults,
+    droppedMessages: dropped.reduce((sum, turn) => sum + turn.length, 0),
+    droppedTurns: dropped.length,
+    summarySource:
+      dropped.length > 0
+        ? summaryBody(previousSummary, dropped, MAX_SOURCE_LINE_CHARS)
+        : null,
+  };
+};
+
+/** Swap the clipped-transcript summary at the head of `result` for `summary`. */
+export const withSummary = (
+  result: CompactionResult,
+  summary: string,
+): CompactionResult => {
+  const messages = [
+    summaryMessage(summary.trim()),
+    ...result.messages.slice(1),
+  ];
+  return {
+    ...result,
+    messages,
+    tokensAfter: estimateMessageTokens(messages),
+  };
+};
+
+/** Token count at which compaction aims, given the window and trigger fraction. */
+export const compactionTarget = (
+  contextWindow: number,
+  threshold: number,
+): number => Math.floor(contextWindow * threshold * COMPACTION_TARGET_RATIO);
@@ -0,0 +1,95 @@
+/**
+ * Runs execute_shell commands under bubblewrap: the workspace is the only
+ * writable mount, the network is cut off unless allowed, and ulimits cap CPU
+ * time and memory. The tool's own timeout still bounds wall-clock time.
+ */
+export type ShellSandboxConfig = {
+  backend: "bubblewrap";
+  /** Let commands reach the network (default: false). */
+  allowNetwork?: boolean;
+  /** Address-space limit per command, in MB (default: 1024). */
+  memoryMb?: number;
+  /** CPU-time limit per command, in seconds (default: 60). */
+  cpuSeconds?: number;
+};
+
+export const DEFAULT_SANDBOX_MEMORY_MB = 1024;
+export const DEFAULT_SANDBOX_CPU_SECONDS = 60;
+
+/** bash exits with 128 + SIGXCPU when a command hits `ulimit -t`. */
+const SIGXCPU_EXIT_CODE = 152;
+
+const READ_ONLY_PATTERN = /Read-only file system/i;
+const NETWORK_PATTERN =
+  /Network is unreachable|Could not resolve host|Temporary failure in name resolution|getaddrinfo|Name or service not known/i;
+const MEMORY_PATTERN =
+  /Cannot allocate memory|out of memory|std::bad_alloc|memory allocation.*failed/i;
+
+/**
+ * The argv that runs `command` inside the sandbox with `cwd` as its working
+ * directory. `cwd` must be the workspace or a directory inside it.
+ */
+export const buildSandboxedCommand = (
+  command: string,
+  workspacePath: string,
+  cwd: string,
+  sandbox: ShellSandboxConfig,
+): string[] => {
+  const memoryKb = (sandbox.memoryMb ?? DEFAULT_SANDBOX_MEMORY_MB) * 1024;
+  const cpuSeconds = sandbox.cpuSeconds ?? DEFAULT_SANDBOX_CPU_SECONDS;
+  return [
+    "bwrap",
+    "--ro-bind",
+    "/",
+    "/",
+    "--dev",
+    "/dev",
+    "--proc",
+    "/proc",
+    "--tmpfs",
+    "/tmp",
+    "--bind",
+    workspacePath,
+    workspacePath,
+    "--unshare-all",
+    ...(sandbox.allowNetwork ? ["--share-net"] : []),
+    "--die-with-parent",
+    "--new-session",
+    "--chdir",
+    cwd,
+    "--",
+    "bash",
+    "-c",
+    // The command travels as $1 so it never has to be quoted into this script
+    `ulimit -t ${cpuSeconds} -v ${memoryKb} && exec bash -c "$1"`,
+    "sandbox",
+    command,
+  ];
+};
+
+/**
+ * Why a failed command looks like it ran into the sandbox, or null when the
+ * failure reads as an ordinary one.
+ */
+export const describeSandboxViolation = (
+  exitCode: number,
+  stderr: string,
+  sandbox: ShellSandboxConfig,
+): string | null => {
+  if (exitCode === 0) {
+    return null;
+  }
+  if (exitCode === SIGXCPU_EXIT_CODE) {
+    return `it used more than ${sandbox.cpuSeconds ?? DEFAULT_SANDBOX_CPU_SECONDS}s of CPU time`;
+  }
+  if (READ_ONLY_PATTERN.test(stderr)) {
+    return "only the workspace is writable";
+  }
+  if (!sandbox.allowNetwork && NETWORK_PATTERN.test(stderr)) {
+    return "network access is blocked";
+  }
+  if (MEMORY_PATTERN.test(stderr)) {
+    return `it needed more than ${sandbox.memoryMb ?? DEFAULT_SANDBOX_MEMORY_MB} MB of memory`;
+  }
+  return null;
+};
@@ -0,0 +1,99 @@
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+
+/** Default cap on a session's serialized message history. */
+export const DEFAULT_MAX_STATE_BYTES = 512 * 1024;
+
+const STATE_VERSION = 1;
+// Tool output is the bulk of most histories and rarely needed verbatim later.
+const MAX_SAVED_TOOL_RESULT_CHARS = 4000;
+
+type PersistedState = {
+  version: number;
+  messages: AgentMessage[];
+};
+
+const roleOf = (message: AgentMessage): string | undefined =>
+  (message as { role?: string }).role;
+
+/** Shrink a message for storage: elide long tool output and drop images. */
+const compactMessage = (message: AgentMessage): AgentMessage => {
+  if (roleOf(message) !== "toolResult" && roleOf(message) !== "user") {
+    return message;
+  }
+  const content = (message as { content: unknown }).content;
+  if (!Array.isArray(content)) {
+    return message;
+  }
+  const isToolResult = roleOf(message) === "toolResult";
+  return {
+    ...message,
+    content: content.map((part: { type: string; text?: string }) => {
+      if (part.type === "image") {
+        return { type: "text", text: "[image omitted from saved history]" };
+      }
+      if (
+        isToolResult &&
+        part.type === "text" &&
+        typeof part.text === "string" &&
+        part.text.length > MAX_SAVED_TOOL_RESULT_CHARS
+      ) {
+        const elided = part.text.length - MAX_SAVED_TOOL_RESULT_CHARS;
+        return {
+          ...part,
+          text: `${part.text.slice(0, MAX_SAVED_TOOL_RESULT_CHARS)}\n[${elided} chars elided from saved history]`,
+        };
+      }
+      return part;
+    }),
+  } as AgentMessage;
+};
+
+/** Index of the next user message after `from`, i.e. the next turn boundary. */
+const nextTurnStart = (messages: AgentMessage[], from: number): number => {
+  for (let i = from + 1; i < messages.length; i += 1) {
+    if (roleOf(messages[i]!) === "user") {
+      return i;
+    }
+  }
+  return messages.length;
+};
+
+/**
+ * Serialize an agent's message history for the session store. Tool output is
+ * trimmed first; if the result is still over `maxBytes`, whole turns are
+ * dropped from the front so the history always starts at a user message.
+ */
+export const serializeSessionState = (
+  messages: AgentMessage[],
+  maxBytes: number = DEFAULT_MAX_STATE_BYTES,
+): { state: string; droppedMessages: number } => {
+  let kept = messages.map(compactMessage);
+  let droppedMessages = 0;
+  let state = JSON.stringify({ version: STATE_VERSION, messages: kept });
+
+  while (Buffer.byteLength(state, "utf8") > maxBytes && kept.length > 0) {
+    const cut = nextTurnStart(kept, 0);
+    droppedMessages += cut;
+    kept = kept.slice(cut);
+    state = JSON.stringify({ version: STATE_VERSION, messages: kept });
+  }
+
+  return { state, droppedMessages };
+};
+
+/** Parse stored state; null when it is missing, corrupt or from another version. */
+export const parseSessionState = (state: string): AgentMessage[] | null => {
+  try {
+    const parsed = JSON.parse(state) as Partial<PersistedState>;
+    if (parsed.version !== STATE_VERSION || !Array.isArray(parsed.messages)) {
+      return null;
+    }
+    return parsed.messages.every(
+      (message) => typeof roleOf(message) === "string",
+    )
+      ? parsed.messages
+      : null;
+  } catch {
+    return null;
+  }
+};
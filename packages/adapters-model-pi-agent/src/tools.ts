@@ -4,15 +4,28 @@ import {
   readdirSync,
   readFileSync,
   realpathSync,
+  statSync,
   writeFileSync,
 } from "node:fs";
 import { basename, dirname, isAbsolute, resolve } from "node:path";
+import type { OutboundFile, ToolProfile } from "@delegate/domain";
+import type {
+  ReminderPort,
+  ShellApprovalDecision,
+  ShellApprovalPort,
+} from "@delegate/ports";
 import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
 import type { KnownProvider } from "@mariozechner/pi-ai";
 import { completeSimple, getModel } from "@mariozechner/pi-ai";
 import { Type } from "@sinclair/typebox";
+import {
+  buildSandboxedCommand,
+  describeSandboxViolation,
+  type ShellSandboxConfig,
+} from "./sandbox";
 
 const MAX_FILE_SIZE = 256 * 1024; // 256 KB
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024; // Telegram bot upload limit
 
 /**
  * A denylist entry pairs a regex pattern with a human-readable label
@@ -64,6 +77,142 @@ export const matchesDenylist = (
   return null;
 };
 
+/**
+ * Command prefixes that run without approval when approval mode is on. They
+ * only read files, and their arguments must stay inside the workspace. A
+ * trailing `$` allows an entry only without arguments.
+ *
+ * Nothing here runs code the agent could have written: `bun run` and
+ * `bun test` execute package.json scripts and test files, and git reads
+ * pagers, diff drivers and hooks from the repo's own .git/config.
+ */
+export const DEFAULT_SHELL_ALLOWLIST: readonly string[] = [
+  "ls",
+  "pwd",
+  "cat",
+  "head",
+  "tail",
+  "wc",
+  "grep",
+  "rg",
+];
+
+/**
+ * Chaining, pipes, redirects and substitutions can hide a second command;
+ * `$VAR` expansion and backslash escapes can point a read anywhere.
+ */
+const SHELL_CONTROL_PATTERN = /[;&|<>`\n$\\]/;
+
+/** Unquoted, these expand to paths the check below cannot see (`~`, globs, braces). */
+const SHELL_EXPANSION_CHARS = new Set(["~", "*", "?", "[", "]", "{", "}"]);
+
+/**
+ * Split a command into the words bash would pass, or null when it leaves a
+ * quote open or uses an unquoted expansion.
+ */
+const shellWords = (command: string): string[] | null => {
+  const words: string[] = [];
+  let word: string | null = null;
+  let quote: string | null = null;
+  for (const char of command) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        word += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      word ??= "";
+    } else if (/\s/.test(char)) {
+      if (word !== null) {
+        words.push(word);
+        word = null;
+      }
+    } else if (SHELL_EXPANSION_CHARS.has(char)) {
+      return null;
+    } else {
+      word = (word ?? "") + char;
+    }
+  }
+  if (quote) {
+    return null;
+  }
+  if (word !== null) {
+    words.push(word);
+  }
+  return words;
+};
+
+/**
+ * Whether an argument names nothing outside the workspace. Options may carry
+ * a path after `=`; any other option with a `/` in it is refused.
+ */
+const argumentStaysInside = (
+  arg: string,
+  scope: ShellCommandScope,
+): boolean => {
+  let path = arg;
+  if (arg.startsWith("-")) {
+    const equals = arg.indexOf("=");
+    if (equals === -1) {
+      return !arg.includes("/");
+    }
+    path = arg.slice(equals + 1);
+  }
+  return (
+    path === "" ||
+    resolveSafePath(scope.workspacePath, resolve(scope.cwd, path)) !== null
+  );
+};
+
+/**
+ * Flags that turn a read-only command into one that writes files or runs
+ * programs: `git diff --output=<path>`, `rg --pre <cmd>`, `sort -o <path>`.
+ */
+const SHELL_UNSAFE_FLAG_PATTERN =
+  /(?:^|\s)(?:--output\b|--pre\b|--pre-glob\b|--ext-diff\b|--textconv\b|-o\S*)/;
+
+/** Where an allowlisted command runs, so its arguments can be checked. */
+export type ShellCommandScope = {
+  workspacePath: string;
+  cwd: string;
+};
+
+/**
+ * Whether a command is a single invocation of an allowlisted prefix whose
+ * arguments all stay inside the workspace. Prefixes match whole words, so
+ * `ls` allows `ls -la` but not `lsblk`; an entry ending in `$` matches only
+ * the bare command.
+ */
+export const isAllowlistedCommand = (
+  command: string,
+  allowlist: readonly string[],
+  scope: ShellCommandScope,
+): boolean => {
+  if (SHELL_CONTROL_PATTERN.test(command.trim())) {
+    return false;
+  }
+  const words = shellWords(command);
+  if (!words || words.length === 0) {
+    return false;
+  }
+  return allowlist.some((entry) => {
+    const entryWords = entry.replace(/\$$/, "").trim().split(/\s+/);
+    if (
+      entryWords.some((entryWord, i) => words[i] !== entryWord) ||
+      (entry.endsWith("$") && words.length !== entryWords.length)
+    ) {
+      return false;
+    }
+    const args = words.slice(entryWords.length);
+    return (
+      !SHELL_UNSAFE_FLAG_PATTERN.test(` ${args.join(" ")}`) &&
+      args.every((arg) => argumentStaysInside(arg, scope))
+    );
+  });
+};
+
 /**
  * Env vars that are safe to expose to AI-spawned shell commands.
  * Notably excludes TELEGRAM_BOT_TOKEN, PI_AGENT_API_KEY, and other secrets.
@@ -165,6 +314,29 @@ const errorResult = (text: string): AgentToolResult<void> => ({
   details: undefined,
 });
 
+const TOOL_SUMMARY_MAX_CHARS = 60;
+// The argument that best identifies what a call is doing, in priority order.
+const TOOL_SUMMARY_KEYS = ["command", "path", "query", "url", "pattern"];
+
+/**
+ * One-line description of a tool call's arguments for chat status updates,
+ * e.g. `bun test` for execute_shell or `src/index.ts` for read_file.
+ */
+export const summarizeToolArgs = (args: unknown): string => {
+  if (!args || typeof args !== "object") {
+    return "";
+  }
+  const record = args as Record<string, unknown>;
+  const key = TOOL_SUMMARY_KEYS.find((k) => typeof record[k] === "string");
+  if (!key) {
+    return "";
+  }
+  const value = (record[key] as string).replace(/\s+/g, " ").trim();
+  return value.length > TOOL_SUMMARY_MAX_CHARS
+    ? `${value.slice(0, TOOL_SUMMARY_MAX_CHARS - 1)}…`
+    : value;
+};
+
 export const createReadFileTool = (workspacePath: string): AgentTool<any> => ({
   name: "read_file",
   label: "Read File",
@@ -222,22 +394,27 @@ export const createWriteFileTool = (workspacePath: string): AgentTool<any> => ({
  * Security note: execute_shell gives the AI agent unrestricted command
  * execution via `bash -c`. While the env allowlist (SHELL_ENV_ALLOWLIST)
  * prevents secret leakage and the workdir is scoped to the workspace,
- * the command itself is NOT sandboxed -- the agent can read files outside
- * the workspace, access the network, or run arbitrary programs.
+ * the command itself is NOT sandboxed by default -- the agent can read files
+ * outside the workspace, access the network, or run arbitrary programs.
  *
  * This is an intentional design choice for a single-user, trusted
  * deployment (personal assistant on a private machine). If exposed to
  * untrusted users, disable this tool via `enableShellTool: false` in
- * the adapter config or `PI_AGENT_ENABLE_SHELL_TOOL=false` env var.
+ * the adapter config or `PI_AGENT_ENABLE_SHELL_TOOL=false` env var,
+ * pass `approval` so commands off the allowlist wait for the user, or
+ * pass `sandbox` to run commands under bubblewrap.
  */
 export const createExecuteShellTool = (
   workspacePath: string,
   timeoutMs = 30_000,
+  approval?: ShellApprovalConfig,
+  sandbox?: ShellSandboxConfig,
 ): AgentTool<any> => ({
   name: "execute_shell",
   label: "Execute Shell",
-  description:
-    "Execute a shell command in the workspace directory. Returns stdout and stderr.",
+  description: approval
+    ? "Execute a shell command in the workspace directory. Returns stdout and stderr. Commands other than simple reads inside the workspace (ls, cat, grep...) wait for the user to approve them in chat."
+    : "Execute a shell command in the workspace directory. Returns stdout and stderr.",
   parameters: Type.Object({
     command: Type.String({ description: "Shell command to execute" }),
     workdir: Type.Optional(
@@ -267,9 +444,46 @@ export const createExecuteShellTool = (
       }
       cwd = safeCwd;
     }
+    if (
+      approval &&
+      !isAllowlistedCommand(params.command, approval.allowlist, {
+        workspacePath,
+        cwd,
+      })
+    ) {
+      let decision: ShellApprovalDecision;
+      try {
+        decision = await approval.port.requestShellApproval({
+          chatId: approval.target.chatId,
+          threadId: approval.target.threadId,
+          command: params.command,
+        });
+      } catch (err) {
+        return errorResult(
+          `Could not ask the user for approval: ${String(err)}`,
+        );
+      }
+      if (decision === "denied") {
+        return errorResult(
+          "The user denied this command, so it was not run. Do not retry it; ask the user how to proceed instead.",
+        );
+      }
+      if (decision === "timed_out") {
+        return errorResult(
+          "Nobody approved this command in time, so it was not run.",
+        );
+      }
+    }
+    if (sandbox && !Bun.which("bwrap")) {
+      return errorResult(
+        "The shell sandbox is enabled but bubblewrap (bwrap) is not installed, so the command was not run.",
+      );
+    }
     try {
       const proc = Bun.spawn({
-        cmd: ["bash", "-c", params.command],
+        cmd: sandbox
+          ? buildSandboxedCommand(params.command, workspacePath, cwd, sandbox)
+          : ["bash", "-c", params.command],
         cwd,
         env: buildShellEnv(),
         stdout: "pipe",
@@ -302,6 +516,14 @@ export const createExecuteShellTool = (
       if (stdout.trim()) parts.push(`stdout:\n${stdout.trim()}`);
       if (stderr.trim()) parts.push(`stderr:\n${stderr.trim()}`);
       parts.push(`exit code: ${exitCode}`);
+      const violation = sandbox
+        ? describeSandboxViolation(exitCode, stderr, sandbox)
+        : null;
+      if (violation) {
+        return errorResult(
+          `The sandbox stopped this command: ${violation}.\n\n${parts.join("\n\n")}`,
+        );
+      }
       return textResult(parts.join("\n\n"));
     } catch (err) {
       return errorResult(`Shell execution failed: ${String(err)}`);
@@ -443,6 +665,8 @@ export type WebFetchToolConfig = {
   provider: string;
   model: string;
   getApiKey?: () => string | undefined;
+  /** Resolved on each call, overriding provider/model (follows failover). */
+  getProvider?: () => { provider: string; model: string };
   /** Session key for per-session rate limiting. Automatically set from chatId:threadId. */
   sessionKey?: string;
 };
@@ -813,8 +1037,9 @@ const summarize = async (
   config: WebFetchToolConfig,
   userMessage: string,
 ): Promise<string> => {
-  const provider = config.provider as KnownProvider;
-  const model = getModel(provider as any, config.model as any);
+  const resolved = config.getProvider?.() ?? config;
+  const provider = resolved.provider as KnownProvider;
+  const model = getModel(provider as any, resolved.model as any);
 
   const assistantMsg = await completeSimple(
     model,
@@ -975,6 +1200,142 @@ export const createWebSearchTool = (
   },
 });
 
+/** Files queued by send_file during a turn, drained into the turn response. */
+export type FileOutbox = OutboundFile[];
+
+export const createSendFileTool = (
+  workspacePath: string,
+  outbox: FileOutbox,
+): AgentTool<any> => ({
+  name: "send_file",
+  label: "Send File",
+  description:
+    "Send a workspace file to the user as a chat attachment, delivered after your text reply. Use it for generated reports, diffs, CSVs and other artifacts the user should receive.",
+  parameters: Type.Object({
+    path: Type.String({ description: "File path relative to workspace" }),
+    caption: Type.Optional(
+      Type.String({ description: "Short caption shown with the file" }),
+    ),
+  }),
+  execute: async (_toolCallId, params: { path: string; caption?: string }) => {
+    const safePath = resolveSafePath(workspacePath, params.path);
+    if (!safePath) {
+      return errorResult("Path is outside the workspace. Access denied.");
+    }
+    let size: number;
+    try {
+      const stats = statSync(safePath);
+      if (!stats.isFile()) {
+        return errorResult(`Not a file: ${params.path}`);
+      }
+      size = stats.size;
+    } catch (err) {
+      return errorResult(`Failed to read file: ${String(err)}`);
+    }
+    if (size > MAX_UPLOAD_SIZE) {
+      return errorResult(
+        `File is ${(size / (1024 * 1024)).toFixed(1)} MB; the upload limit is 50 MB.`,
+      );
+    }
+    if (outbox.some((entry) => entry.path === safePath)) {
+      return textResult(`${params.path} is already queued for delivery.`);
+    }
+    outbox.push({
+      path: safePath,
+      ...(params.caption ? { caption: params.caption } : {}),
+    });
+    return textResult(`Queued ${params.path} for delivery after your reply.`);
+  },
+});
+
+/**
+ * The current turn's chat and thread, where create_reminder delivers and
+ * execute_shell asks for approval; updated by the adapter before each turn.
+ */
+export type ReminderTarget = { chatId: string; threadId: string | null };
+
+export type ShellApprovalConfig = {
+  port: ShellApprovalPort;
+  target: ReminderTarget;
+  /** Command prefixes that run without asking. */
+  allowlist: readonly string[];
+};
+
+export type ReminderToolConfig = {
+  port: ReminderPort;
+  target: ReminderTarget;
+};
+
+export const createReminderTool = (
+  config: ReminderToolConfig,
+): AgentTool<any> => ({
+  name: "create_reminder",
+  label: "Create Reminder",
+  description:
+    "Remind the user later by posting a plain message in this chat at a set time. No model runs when it fires, so write the message exactly as it should be shown. Use it for reminders and follow-ups like 'ping me tomorrow at 9 about the deploy'.",
+  parameters: Type.Object({
+    text: Type.String({ description: "Message to deliver" }),
+    when: Type.String({
+      description:
+        "Delivery time in the user's local time: 'in 20 minutes', 'in 2 hours', 'at 17:30', 'tomorrow at 9am', 'friday 6pm', or an ISO timestamp",
+    }),
+  }),
+  execute: async (_toolCallId, params: { text: string; when: string }) => {
+    const text = params.text.trim();
+    if (!text) {
+      return errorResult("Reminder text is empty.");
+    }
+    try {
+      const reminder = await config.port.scheduleReminder({
+        chatId: config.target.chatId,
+        threadId: config.target.threadId,
+        text,
+        when: params.when,
+      });
+      return textResult(
+        `Reminder ${reminder.id} set for ${reminder.dueLabel} (${reminder.dueAt}).`,
+      );
+    } catch (err) {
+      return errorResult(err instanceof Error ? err.message : String(err));
+    }
+  },
+});
+
+/** The plan propose_plan recorded this turn, if any; drained by the adapter. */
+export type ProposalOutbox = { plan: string | null };
+
+export const createProposePlanTool = (
+  outbox: ProposalOutbox,
+): AgentTool<any> => ({
+  name: "propose_plan",
+  label: "Propose Plan",
+  description:
+    "Ask the user to approve a plan before changing anything. write_file and execute_shell are held back until they do. Describe the files you will write and the commands you will run, then stop: the user gets Approve and Deny buttons, and after approval you continue with every tool.",
+  parameters: Type.Object({
+    plan: Type.String({
+      description: "What you will do, step by step, in plain words",
+    }),
+  }),
+  execute: async (_toolCallId, params: { plan: string }) => {
+    const plan = params.plan.trim();
+    if (!plan) {
+      return errorResult("Plan is empty.");
+    }
+    outbox.plan = plan;
+    return textResult(
+      "Sent to the user for approval. Stop here and end your reply without calling more tools.",
+    );
+  },
+});
+
+/** Tools each narrowed profile keeps; `full` keeps everything enabled. */
+export const TOOL_PROFILE_TOOLS: Readonly<
+  Record<Exclude<ToolProfile, "full">, readonly string[]>
+> = {
+  research: ["web_fetch", "web_search"],
+  "readonly-code": ["read_file", "list_directory", "search_files"],
+};
+
 export type WorkspaceToolOptions = {
   /** Enable the execute_shell tool (default: true). */
   enableShellTool?: boolean;
@@ -984,6 +1345,20 @@ export type WorkspaceToolOptions = {
   enableWebSearchTool?: boolean;
   /** Config for the web_fetch/web_search summarizer model. Required when web tools are enabled. */
   webFetchConfig?: WebFetchToolConfig;
+  /** Queue for the send_file tool. The tool is only registered when provided. */
+  fileOutbox?: FileOutbox;
+  /** Backs the create_reminder tool. The tool is only registered when provided. */
+  reminders?: ReminderToolConfig;
+  /** Makes execute_shell ask before running commands off the allowlist. */
+  shellApproval?: ShellApprovalConfig;
+  /** Runs execute_shell commands inside a bubblewrap sandbox. */
+  shellSandbox?: ShellSandboxConfig;
+  /** Leave out write_file and execute_shell, so the agent can only look (default: false). */
+  readOnly?: boolean;
+  /** Registers propose_plan, which records here the plan the user must approve. */
+  proposals?: ProposalOutbox;
+  /** Keep only this profile's tools (default: full). */
+  profile?: ToolProfile;
 };
 
 export const createWorkspaceTools = (
@@ -1003,15 +1378,40 @@ export const createWorkspaceTools = (
     enableWebFetchTool = true,
     enableWebSearchTool = true,
     webFetchConfig,
+    fileOutbox,
+    reminders,
+    shellApproval,
+    shellSandbox,
+    readOnly = false,
+    proposals,
+    profile = "full",
   } = options;
   const tools: AgentTool<any>[] = [
     createReadFileTool(realWorkspacePath),
-    createWriteFileTool(realWorkspacePath),
+    ...(readOnly ? [] : [createWriteFileTool(realWorkspacePath)]),
     createListDirectoryTool(realWorkspacePath),
     createSearchFilesTool(realWorkspacePath),
   ];
-  if (enableShellTool) {
-    tools.splice(2, 0, createExecuteShellTool(realWorkspacePath));
+  if (enableShellTool && !readOnly) {
+    tools.splice(
+      2,
+      0,
+      createExecuteShellTool(
+        realWorkspacePath,
+        undefined,
+        shellApproval,
+        shellSandbox,
+      ),
+    );
+  }
+  if (fileOutbox) {
+    tools.push(createSendFileTool(realWorkspacePath, fileOutbox));
+  }
+  if (reminders) {
+    tools.push(createReminderTool(reminders));
+  }
+  if (proposals) {
+    tools.push(createProposePlanTool(proposals));
   }
   if (enableWebFetchTool && webFetchConfig) {
     tools.push(createWebFetchTool(webFetchConfig));
@@ -1019,5 +1419,9 @@ export const createWorkspaceTools = (
   if (enableWebSearchTool && webFetchConfig) {
     tools.push(createWebSearchTool(webFetchConfig));
   }
+  if (profile !== "full") {
+    const allowed = TOOL_PROFILE_TOOLS[profile];
+    return tools.filter((tool) => allowed.includes(tool.name));
+  }
   return tools;
 };
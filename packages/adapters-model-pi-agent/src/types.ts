@@ -1,4 +1,18 @@
-import type { TurnEventSink } from "@delegate/ports";
+import type {
+  ModelSessionStatePort,
+  ReminderPort,
+  ShellApprovalPort,
+  TurnEventSink,
+} from "@delegate/ports";
+import type { ShellSandboxConfig } from "./sandbox";
+
+/** A provider/model pair the adapter can run turns against. */
+export type PiAgentProviderEntry = {
+  provider: string;
+  model: string;
+  /** Falls back to the provider's env var (e.g. GROQ_API_KEY) when unset. */
+  apiKey?: string;
+};
 
 export type PiAgentAdapterConfig = {
   provider: string;
@@ -19,8 +33,29 @@ export type PiAgentAdapterConfig = {
   webFetchProvider?: string;
   /** Model for the web_fetch summarizer (default: same as `model`). */
   webFetchModel?: string;
+  /** Tried in order when a turn fails with a billing, capacity or rate-limit error. */
+  fallbacks?: PiAgentProviderEntry[];
   /** Evict cached agents after this many ms of inactivity (default: 45 min). */
   agentIdleTimeoutMs?: number;
+  /** Compact a session's history once it uses this fraction of the model's context window (default: 0.8). */
+  compactionThreshold?: number;
   /** Optional sink for emitting turn observability events. */
   turnEventSink?: TurnEventSink;
+  /** Persists agent message history so sessions survive worker restarts. */
+  sessionStateStore?: ModelSessionStatePort;
+  /** Enables the create_reminder tool. */
+  reminderPort?: ReminderPort;
+  /** Makes execute_shell ask in chat before running commands off the allowlist. */
+  shellApprovalPort?: ShellApprovalPort;
+  /** Command prefixes that run without approval (default: DEFAULT_SHELL_ALLOWLIST). */
+  shellAllowlist?: string[];
+  /** Run execute_shell commands in this sandbox (default: unsandboxed). */
+  shellSandbox?: ShellSandboxConfig;
+  /**
+   * Hold back write_file and execute_shell until the user approves a plan the
+   * agent sends with propose_plan (default: false).
+   */
+  requireApproval?: boolean;
+  /** Cap on a session's persisted history; oldest turns are dropped past it (default: 512 KB). */
+  maxPersistedStateBytes?: number;
 };
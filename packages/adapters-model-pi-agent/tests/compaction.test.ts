@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import {
+  compactMessages,
+  estimateMessageTokens,
+  isCompactionSummary,
+  withSummary,
+} from "../src/compaction";
+
+const user = (text: string) =>
+  ({ role: "user", content: text, timestamp: 0 }) as AgentMessage;
+const assistant = (text: string, toolName?: string) =>
+  ({
+    role: "assistant",
+    content: [
+      { type: "text", text },
+      ...(toolName
+        ? [{ type: "toolCall", id: "call-1", name: toolName, arguments: {} }]
+        : []),
+    ],
+  }) as AgentMessage;
+const toolResult = (text: string) =>
+  ({
+    role: "toolResult",
+    toolCallId: "call-1",
+    toolName: "read_file",
+    content: [{ type: "text", text }],
+    isError: false,
+    timestamp: 0,
+  }) as AgentMessage;
+
+const turn = (n: number, output = "x".repeat(2000)): AgentMessage[] => [
+  user(`question ${n}`),
+  assistant(`looking into ${n}`, "read_file"),
+  toolResult(output),
+  assistant(`answer ${n}`),
+];
+
+describe("compactMessages", () => {
+  test("elides older tool results before dropping any turns", () => {
+    const messages = [...turn(1), ...turn(2), ...turn(3)];
+    const result = compactMessages(messages, 1500);
+
+    expect(result.droppedTurns).toBe(0);
+    expect(result.elidedToolResults).toBe(1);
+    expect((result.messages[2] as any).content[0].text).toBe(
+      "[tool output elided (2000 chars)]",
+    );
+    // The two most recent turns are untouched
+    expect(result.messages.slice(4)).toEqual(messages.slice(4));
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
+
+  test("folds the oldest turns into a summary message when still too large", () => {
+    const messages = [...turn(1), ...turn(2), ...turn(3), ...turn(4)];
+    const result = compactMessages(messages, 1000);
+
+    expect(result.droppedTurns).toBe(2);
+    expect(result.droppedMessages).toBe(8);
+    const [summary, ...rest] = result.messages;
+    expect(isCompactionSummary(summary!)).toBe(true);
+    const text = (summary as any).content as string;
+    expect(text).toContain("User: question 1");
+    expect(text).toContain("Assistant: answer 2");
+    expect(text).toContain("(tools used: read_file)");
+    expect(rest).toEqual(messages.slice(8));
+  });
+
+  test("carries an earlier summary forward into the next one", () => {
+    const first = compactMessages(
+      [...turn(1), ...turn(2), ...turn(3), ...turn(4)],
+      1000,
+    );
+    const second = compactMessages(
+      [...first.messages, ...turn(5), ...turn(6)],
+      1000,
+    );
+
+    const text = (second.messages[0] as any).content as string;
+    expect(text).toContain("User: question 1");
+    expect(text).toContain("User: question 4");
+    expect(second.messages.filter(isCompactionSummary)).toHaveLength(1);
+  });
+
+  test("hands the dropped turns over less clipped for a written summary", () => {
+    const long = `please ${"really ".repeat(100)}help`;
+    const messages = [
+      user(long),
+      assistant("answer 1"),
+      ...turn(2),
+      ...turn(3),
+      ...turn(4),
+    ];
+    const result = compactMessages(messages, 1000);
+
+    expect((result.messages[0] as any).content).not.toContain(long);
+    expect(result.summarySource).toContain(`User: ${long}`);
+
+    const written = withSummary(result, "The user asked for help.");
+    expect(isCompactionSummary(written.messages[0]!)).toBe(true);
+    expect((written.messages[0] as any).content).toEndWith(
+      "\nThe user asked for help.",
+    );
+    expect(written.messages.slice(1)).toEqual(result.messages.slice(1));
+    expect(written.tokensAfter).toBeLessThan(result.tokensAfter);
+    expect(compactMessages([...turn(1), ...turn(2)], 10).summarySource).toBe(
+      null,
+    );
+  });
+
+  test("never touches the most recent turns", () => {
+    const messages = [...turn(1), ...turn(2)];
+    const result = compactMessages(messages, 10);
+
+    expect(result.messages).toEqual(messages);
+    expect(result.elidedToolResults).toBe(0);
+    expect(result.droppedTurns).toBe(0);
+    expect(result.tokensAfter).toBe(estimateMessageTokens(messages));
+  });
+});
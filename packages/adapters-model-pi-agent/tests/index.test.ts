@@ -4,7 +4,11 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import type { TurnEvent } from "@delegate/domain";
 import { ModelError } from "@delegate/domain";
-import type { RespondInput, TurnEventSink } from "@delegate/ports";
+import type {
+  ModelSessionStatePort,
+  RespondInput,
+  TurnEventSink,
+} from "@delegate/ports";
 import { Agent } from "@mariozechner/pi-agent-core";
 import { PiAgentModelAdapter } from "../src/index";
 
@@ -135,6 +139,101 @@ describe("PiAgentModelAdapter", () => {
     });
   });
 
+  describe("session persistence", () => {
+    const makeStateStore = () => {
+      const states = new Map<string, string>();
+      const store: ModelSessionStatePort = {
+        loadModelSessionState: async (key) => states.get(key) ?? null,
+        saveModelSessionState: async (key, state) => {
+          states.set(key, state);
+        },
+        deleteModelSessionState: async (key) => {
+          states.delete(key);
+        },
+      };
+      return { states, store };
+    };
+
+    const echoPrompt = (seen: number[]) =>
+      mock(async function (this: Agent, text: string) {
+        seen.push(this.state.messages.length);
+        (this.state as any).messages = [
+          ...this.state.messages,
+          { role: "user", content: text, timestamp: 0 },
+          {
+            role: "assistant",
+            content: [{ type: "text", text: `re: ${text}` }],
+          },
+        ];
+      }) as any;
+
+    test("rehydrates message history in a fresh adapter", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      const seen: number[] = [];
+      Agent.prototype.prompt = echoPrompt(seen);
+
+      try {
+        const { states, store } = makeStateStore();
+        await makeAdapter({ sessionStateStore: store }).respond(
+          makeInput({ chatId: "chat-1", text: "first" }),
+        );
+        expect(states.has("chat-1:root")).toBe(true);
+
+        // Simulates a worker restart: new adapter, same store
+        const restarted = makeAdapter({ sessionStateStore: store });
+        await restarted.respond(
+          makeInput({ chatId: "chat-1", text: "second" }),
+        );
+
+        expect(seen).toEqual([0, 2]);
+        const saved = JSON.parse(states.get("chat-1:root")!);
+        expect(saved.messages).toHaveLength(4);
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+
+    test("resetSession deletes persisted history", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      const seen: number[] = [];
+      Agent.prototype.prompt = echoPrompt(seen);
+
+      try {
+        const { states, store } = makeStateStore();
+        const adapter = makeAdapter({ sessionStateStore: store });
+        await adapter.respond(makeInput({ chatId: "chat-1" }));
+        await adapter.resetSession("chat-1:root");
+
+        expect(states.has("chat-1:root")).toBe(false);
+        await makeAdapter({ sessionStateStore: store }).respond(
+          makeInput({ chatId: "chat-1" }),
+        );
+        expect(seen).toEqual([0, 0]);
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+
+    test("ignores corrupt persisted state", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      const seen: number[] = [];
+      Agent.prototype.prompt = echoPrompt(seen);
+
+      try {
+        const { states, store } = makeStateStore();
+        states.set("chat-1:root", "{not json");
+        const result = await makeAdapter({ sessionStateStore: store }).respond(
+          makeInput({ chatId: "chat-1", text: "hi" }),
+        );
+
+        expect(result.replyText).toBe("re: hi");
+        expect(seen).toEqual([0]);
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+  });
+
   describe("response extraction", () => {
     test("returns '(no response)' when agent produces no assistant message", async () => {
       const originalPrompt = Agent.prototype.prompt;
@@ -170,6 +269,68 @@ describe("PiAgentModelAdapter", () => {
     });
   });
 
+  describe("approval gate", () => {
+    const toolNames = (agent: Agent) =>
+      agent.state.tools.map((tool) => tool.name);
+
+    test("holds back write tools and returns a proposed plan", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      let offered: string[] = [];
+      Agent.prototype.prompt = mock(async function (this: Agent) {
+        offered = toolNames(this);
+        const propose = this.state.tools.find(
+          (tool) => tool.name === "propose_plan",
+        );
+        await propose!.execute("call-1", { plan: "1. Write notes.md" });
+        (this.state as any).messages = [
+          { role: "assistant", content: [{ type: "text", text: "Sent." }] },
+        ];
+      }) as any;
+
+      try {
+        const adapter = makeAdapter({ requireApproval: true });
+        const result = await adapter.respond(makeInput());
+
+        expect(offered).toContain("propose_plan");
+        expect(offered).not.toContain("write_file");
+        expect(offered).not.toContain("execute_shell");
+        expect(result.mode).toBe("execution_proposal");
+        expect(result.replyText).toBe("1. Write notes.md");
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+
+    test("gives every tool to a turn running an approved proposal", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      let offered: string[] = [];
+      Agent.prototype.prompt = mock(async function (this: Agent) {
+        offered = toolNames(this);
+        (this.state as any).messages = [
+          { role: "assistant", content: [{ type: "text", text: "Done." }] },
+        ];
+      }) as any;
+
+      try {
+        const adapter = makeAdapter({ requireApproval: true });
+        const result = await adapter.respond(
+          makeInput({ pendingProposalWorkItemId: "wi-1" }),
+        );
+
+        expect(offered).toContain("write_file");
+        expect(offered).toContain("execute_shell");
+        expect(offered).not.toContain("propose_plan");
+        expect(result.mode).toBe("chat_reply");
+
+        await adapter.respond(makeInput({ toolAccess: "read_only" }));
+        expect(offered).not.toContain("propose_plan");
+        expect(offered).not.toContain("write_file");
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+  });
+
   describe("turn event emission", () => {
     const buildCapturingSink = (): {
       sink: TurnEventSink;
@@ -361,6 +522,459 @@ describe("PiAgentModelAdapter", () => {
     });
   });
 
+  describe("context compaction", () => {
+    const longHistory = () =>
+      Array.from({ length: 6 }, (_, n) => [
+        { role: "user", content: `question ${n}`, timestamp: 0 },
+        {
+          role: "toolResult",
+          toolCallId: `call-${n}`,
+          toolName: "read_file",
+          content: [{ type: "text", text: "x".repeat(2000) }],
+          isError: false,
+          timestamp: 0,
+        },
+        { role: "assistant", content: [{ type: "text", text: `answer ${n}` }] },
+      ]).flat();
+
+    const storeWith = (messages: unknown[]): ModelSessionStatePort => ({
+      loadModelSessionState: async () =>
+        JSON.stringify({ version: 1, messages }),
+      saveModelSessionState: async () => {},
+      deleteModelSessionState: async () => {},
+    });
+
+    test("compacts history past the threshold and emits context_compacted", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      let promptedWith = 0;
+      Agent.prototype.prompt = mock(async function (this: Agent) {
+        promptedWith = this.state.messages.length;
+        (this.state as any).messages = [
+          ...this.state.messages,
+          { role: "assistant", content: [{ type: "text", text: "ok" }] },
+        ];
+      }) as any;
+
+      try {
+        const events: TurnEvent[] = [];
+        const adapter = makeAdapter({
+          // openrouter/auto has a 2M window: trigger at 2k tokens
+          compactionThreshold: 0.001,
+          sessionStateStore: storeWith(longHistory()),
+          turnEventSink: {
+            emit: async (event: TurnEvent) => {
+              events.push(event);
+            },
+          },
+        });
+
+        await adapter.respond(makeInput());
+        await new Promise((r) => setTimeout(r, 10));
+
+        const compacted = events.find(
+          (e) => e.eventType === "context_compacted",
+        );
+        expect(compacted).toBeDefined();
+        expect(compacted!.data.droppedTurns).toBe(4);
+        expect(compacted!.data.contextWindow).toBe(2_000_000);
+        expect(
+          (compacted!.data.tokensAfter as number) <
+            (compacted!.data.tokensBefore as number),
+        ).toBe(true);
+        // Summary message plus the two most recent turns
+        expect(promptedWith).toBe(7);
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+
+    test("has the model summarize dropped turns, keeping the transcript if it fails", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      const proto = PiAgentModelAdapter.prototype as any;
+      const originalSummarize = proto.summarizeHistory;
+      let head = "";
+      Agent.prototype.prompt = mock(async function (this: Agent) {
+        head = (this.state.messages[0] as any).content;
+      }) as any;
+      const transcripts: string[] = [];
+      proto.summarizeHistory = mock(async (_cached: unknown, text: string) => {
+        transcripts.push(text);
+        return "The user asked six questions about files.";
+      });
+
+      try {
+        const options = {
+          compactionThreshold: 0.001,
+          sessionStateStore: storeWith(longHistory()),
+        };
+        await makeAdapter(options).respond(makeInput());
+        expect(transcripts[0]).toContain("User: question 0");
+        expect(head).toEndWith("\nThe user asked six questions about files.");
+
+        proto.summarizeHistory = mock(async () => {
+          throw new Error("429 rate limit");
+        });
+        await makeAdapter(options).respond(makeInput());
+        expect(head).toContain("User: question 0");
+        expect(head).toContain("Assistant: answer 3");
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+        proto.summarizeHistory = originalSummarize;
+      }
+    });
+
+    test("drops the failed turn on overflow and compactSession shrinks history", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      const seen: number[] = [];
+      let calls = 0;
+      Agent.prototype.prompt = mock(async function (this: Agent, text: string) {
+        calls += 1;
+        seen.push(this.state.messages.length);
+        (this.state as any).messages = [
+          ...this.state.messages,
+          { role: "user", content: text, timestamp: 0 },
+          calls === 1
+            ? {
+                role: "assistant",
+                content: [],
+                stopReason: "error",
+                errorMessage: "maximum context length exceeded",
+              }
+            : { role: "assistant", content: [{ type: "text", text: "ok" }] },
+        ];
+      }) as any;
+
+      try {
+        const events: TurnEvent[] = [];
+        const adapter = makeAdapter({
+          sessionStateStore: storeWith(longHistory()),
+          turnEventSink: {
+            emit: async (event: TurnEvent) => {
+              events.push(event);
+            },
+          },
+        });
+
+        let caught: unknown;
+        try {
+          await adapter.respond(makeInput());
+        } catch (err) {
+          caught = err;
+        }
+        expect((caught as ModelError).classification).toBe("context_overflow");
+
+        expect(await adapter.compactSession("test-chat:root")).toBe(true);
+        await adapter.respond(makeInput());
+        await new Promise((r) => setTimeout(r, 10));
+
+        // 18 rehydrated messages; the failed turn was not kept
+        expect(seen).toEqual([18, 18]);
+        const compacted = events.find(
+          (e) => e.eventType === "context_compacted",
+        );
+        expect(compacted?.data.reason).toBe("overflow");
+        expect(compacted?.data.elidedToolResults).toBe(4);
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+
+    test("compactSession is a no-op for unknown sessions", async () => {
+      expect(await makeAdapter().compactSession("nobody:root")).toBe(false);
+    });
+
+    test("leaves history alone below the threshold", async () => {
+      const originalPrompt = Agent.prototype.prompt;
+      let promptedWith = 0;
+      Agent.prototype.prompt = mock(async function (this: Agent) {
+        promptedWith = this.state.messages.length;
+      }) as any;
+
+      try {
+        const events: TurnEvent[] = [];
+        const adapter = makeAdapter({
+          sessionStateStore: storeWith(longHistory()),
+          turnEventSink: {
+            emit: async (event: TurnEvent) => {
+              events.push(event);
+            },
+          },
+        });
+
+        await adapter.respond(makeInput());
+        await new Promise((r) => setTimeout(r, 10));
+
+        expect(promptedWith).toBe(18);
+        expect(events.map((e) => e.eventType)).not.toContain(
+          "context_compacted",
+        );
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+  });
+
+  describe("provider fallback", () => {
+    /** The reply each provider gives: an error, or a plain text answer. */
+    const replyFrom = (agent: Agent, error: string | undefined) => {
+      const provider = agent.state.model.provider;
+      (agent.state as any).error = error;
+      return error
+        ? {
+            role: "assistant",
+            content: [],
+            stopReason: "error",
+            errorMessage: error,
+          }
+        : {
+            role: "assistant",
+            content: [{ type: "text", text: `from ${provider}` }],
+          };
+    };
+
+    /**
+     * Stub prompt() and continue(): a fresh prompt appends the user message,
+     * a failover resumes from the existing history. Returns a restore fn.
+     */
+    const stubAgent = (
+      respond: (agent: Agent) => string | undefined,
+      hooks: {
+        onPrompt?: (agent: Agent) => void;
+        onContinue?: (agent: Agent) => void;
+      } = {},
+    ) => {
+      const originalPrompt = Agent.prototype.prompt;
+      const originalContinue = Agent.prototype.continue;
+      const prompt = mock(async function (this: Agent, text: string) {
+        const user = { role: "user", content: text, timestamp: 0 };
+        (this.state as any).messages = [...this.state.messages, user];
+        hooks.onPrompt?.(this);
+        (this.state as any).messages = [
+          ...this.state.messages,
+          replyFrom(this, respond(this)),
+        ];
+      });
+      const resume = mock(async function (this: Agent) {
+        hooks.onContinue?.(this);
+        (this.state as any).messages = [
+          ...this.state.messages,
+          replyFrom(this, respond(this)),
+        ];
+      });
+      Agent.prototype.prompt = prompt as any;
+      Agent.prototype.continue = resume as any;
+      return {
+        prompt,
+        resume,
+        restore: () => {
+          Agent.prototype.prompt = originalPrompt;
+          Agent.prototype.continue = originalContinue;
+        },
+      };
+    };
+
+    const failOn = (failing: Record<string, string>) =>
+      stubAgent((agent) => failing[agent.state.model.provider]);
+
+    test("fails over to the next provider on rate limits, keeping history", async () => {
+      const stub = failOn({ openrouter: "429 rate limit" });
+
+      try {
+        const events: TurnEvent[] = [];
+        const adapter = makeAdapter({
+          fallbacks: [{ provider: "groq", model: "qwen/qwen3-32b" }],
+          turnEventSink: {
+            emit: async (event: TurnEvent) => {
+              events.push(event);
+            },
+          },
+        });
+
+        const result = await adapter.respond(makeInput({ text: "hi" }));
+        await new Promise((r) => setTimeout(r, 10));
+
+        expect(result.replyText).toBe("from groq");
+        expect(result.provider).toBe("groq");
+        expect(result.model).toBe("qwen/qwen3-32b");
+        const completed = events.find((e) => e.eventType === "turn_completed");
+        expect(completed?.data.provider).toBe("groq");
+      } finally {
+        stub.restore();
+      }
+    });
+
+    test("resumes after completed tool calls instead of replaying the turn", async () => {
+      let seenOnResume: any[] = [];
+      const stub = stubAgent(
+        (agent) =>
+          agent.state.model.provider === "openrouter"
+            ? "429 rate limit"
+            : undefined,
+        {
+          // The primary runs one tool to completion before it is rate limited.
+          onPrompt: (agent) => {
+            (agent.state as any).messages = [
+              ...agent.state.messages,
+              {
+                role: "assistant",
+                content: [
+                  {
+                    type: "toolCall",
+                    id: "t1",
+                    name: "write_file",
+                    arguments: {},
+                  },
+                ],
+                stopReason: "toolUse",
+              },
+              {
+                role: "toolResult",
+                toolCallId: "t1",
+                toolName: "write_file",
+                content: [{ type: "text", text: "written" }],
+              },
+            ];
+          },
+          onContinue: (agent) => {
+            seenOnResume = [...agent.state.messages];
+          },
+        },
+      );
+
+      try {
+        const adapter = makeAdapter({
+          fallbacks: [{ provider: "groq", model: "qwen/qwen3-32b" }],
+        });
+
+        const result = await adapter.respond(makeInput({ text: "write it" }));
+
+        expect(result.replyText).toBe("from groq");
+        expect(stub.prompt).toHaveBeenCalledTimes(1);
+        expect(stub.resume).toHaveBeenCalledTimes(1);
+        expect(seenOnResume.map((message) => message.role)).toEqual([
+          "user",
+          "assistant",
+          "toolResult",
+        ]);
+      } finally {
+        stub.restore();
+      }
+    });
+
+    test("starts each turn on the primary provider again", async () => {
+      let failures = 1;
+      const stub = stubAgent((agent) =>
+        agent.state.model.provider === "openrouter" && failures-- > 0
+          ? "503 overloaded"
+          : undefined,
+      );
+
+      try {
+        const adapter = makeAdapter({
+          fallbacks: [{ provider: "groq", model: "qwen/qwen3-32b" }],
+        });
+
+        expect((await adapter.respond(makeInput())).provider).toBe("groq");
+        expect((await adapter.respond(makeInput())).provider).toBe(
+          "openrouter",
+        );
+      } finally {
+        stub.restore();
+      }
+    });
+
+    test("fails over when the provider call itself throws", async () => {
+      // The primary is refused mid-turn, after the user message went in
+      const stub = stubAgent(() => undefined, {
+        onPrompt: (agent) => {
+          if (agent.state.model.provider === "openrouter") {
+            throw new Error("503 Service Unavailable");
+          }
+        },
+      });
+
+      try {
+        const adapter = makeAdapter({
+          fallbacks: [{ provider: "groq", model: "qwen/qwen3-32b" }],
+        });
+        const result = await adapter.respond(makeInput({ text: "hi" }));
+
+        expect(result.replyText).toBe("from groq");
+        expect(stub.prompt).toHaveBeenCalledTimes(1);
+        expect(stub.resume).toHaveBeenCalledTimes(1);
+      } finally {
+        stub.restore();
+      }
+
+      // Refused before the turn started: the fallback gets a fresh prompt
+      const originalPrompt = Agent.prototype.prompt;
+      const providers: string[] = [];
+      Agent.prototype.prompt = mock(async function (this: Agent) {
+        providers.push(this.state.model.provider);
+        if (this.state.model.provider === "openrouter") {
+          throw new Error("connect ECONNREFUSED 10.0.0.1:443");
+        }
+        (this.state as any).messages = [
+          ...this.state.messages,
+          { role: "user", content: "hi", timestamp: 0 },
+          { role: "assistant", content: [{ type: "text", text: "from groq" }] },
+        ];
+      }) as any;
+
+      try {
+        const adapter = makeAdapter({
+          fallbacks: [{ provider: "groq", model: "qwen/qwen3-32b" }],
+        });
+        const result = await adapter.respond(makeInput({ text: "hi" }));
+
+        expect(result.replyText).toBe("from groq");
+        expect(providers).toEqual(["openrouter", "groq"]);
+      } finally {
+        Agent.prototype.prompt = originalPrompt;
+      }
+    });
+
+    test("surfaces the error once every provider has failed", async () => {
+      const stub = failOn({
+        openrouter: "Insufficient credits",
+        groq: "429 rate limit",
+      });
+
+      try {
+        const adapter = makeAdapter({
+          fallbacks: [{ provider: "groq", model: "qwen/qwen3-32b" }],
+        });
+
+        let caught: unknown;
+        try {
+          await adapter.respond(makeInput());
+        } catch (err) {
+          caught = err;
+        }
+        expect((caught as ModelError).classification).toBe("rate_limit");
+      } finally {
+        stub.restore();
+      }
+    });
+
+    test("does not fail over on auth errors", async () => {
+      const stub = failOn({ openrouter: "401 Unauthorized" });
+
+      try {
+        const adapter = makeAdapter({
+          fallbacks: [{ provider: "groq", model: "qwen/qwen3-32b" }],
+        });
+
+        await expect(adapter.respond(makeInput())).rejects.toThrow(
+          /Unauthorized/,
+        );
+        expect(stub.resume).not.toHaveBeenCalled();
+      } finally {
+        stub.restore();
+      }
+    });
+  });
+
   describe("LLM error detection (silent errors from pi-agent-core)", () => {
     test("throws ModelError when agent.state.error is set", async () => {
       const originalPrompt = Agent.prototype.prompt;
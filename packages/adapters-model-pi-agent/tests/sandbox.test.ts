@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, realpathSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildSandboxedCommand,
+  describeSandboxViolation,
+  type ShellSandboxConfig,
+} from "../src/sandbox";
+import { createExecuteShellTool } from "../src/tools";
+
+const sandbox: ShellSandboxConfig = { backend: "bubblewrap" };
+const hasBwrap = Bun.which("bwrap") !== null;
+
+const textOf = (result: { content: unknown[] }) =>
+  (result.content[0] as { type: "text"; text: string }).text;
+
+describe("buildSandboxedCommand", () => {
+  test("binds only the workspace read-write and cuts the network", () => {
+    const cmd = buildSandboxedCommand("ls -la", "/ws", "/ws/src", sandbox);
+    const joined = cmd.join(" ");
+
+    expect(cmd[0]).toBe("bwrap");
+    expect(joined).toContain("--ro-bind / /");
+    expect(joined).toContain("--bind /ws /ws");
+    expect(joined).toContain("--unshare-all");
+    expect(cmd).not.toContain("--share-net");
+    expect(joined).toContain("--chdir /ws/src");
+    expect(joined).toContain("ulimit -t 60 -v 1048576");
+    // The command is passed as an argument, never spliced into the script
+    expect(cmd.at(-1)).toBe("ls -la");
+  });
+
+  test("shares the network and applies custom limits when configured", () => {
+    const cmd = buildSandboxedCommand("curl example.com", "/ws", "/ws", {
+      backend: "bubblewrap",
+      allowNetwork: true,
+      memoryMb: 256,
+      cpuSeconds: 5,
+    });
+
+    expect(cmd).toContain("--share-net");
+    expect(cmd.join(" ")).toContain("ulimit -t 5 -v 262144");
+  });
+});
+
+describe("describeSandboxViolation", () => {
+  test("names the limit a failed command ran into", () => {
+    expect(
+      describeSandboxViolation(
+        1,
+        "touch: cannot touch '/etc/x': Read-only file system",
+        sandbox,
+      ),
+    ).toBe("only the workspace is writable");
+    expect(
+      describeSandboxViolation(
+        6,
+        "curl: (6) Could not resolve host: example.com",
+        sandbox,
+      ),
+    ).toBe("network access is blocked");
+    expect(describeSandboxViolation(152, "", sandbox)).toBe(
+      "it used more than 60s of CPU time",
+    );
+    expect(
+      describeSandboxViolation(1, "fatal: Cannot allocate memory", {
+        backend: "bubblewrap",
+        memoryMb: 128,
+      }),
+    ).toBe("it needed more than 128 MB of memory");
+  });
+
+  test("leaves ordinary failures and allowed network errors alone", () => {
+    expect(describeSandboxViolation(0, "Read-only file system", sandbox)).toBe(
+      null,
+    );
+    expect(describeSandboxViolation(1, "No such file", sandbox)).toBe(null);
+    expect(
+      describeSandboxViolation(6, "Could not resolve host: example.com", {
+        backend: "bubblewrap",
+        allowNetwork: true,
+      }),
+    ).toBe(null);
+  });
+});
+
+describe("sandboxed execute_shell", () => {
+  let workspace: string;
+
+  beforeEach(() => {
+    workspace = realpathSync(mkdtempSync(join(tmpdir(), "pi-agent-sandbox-")));
+  });
+
+  afterEach(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  test.skipIf(hasBwrap)("refuses to run without bubblewrap", async () => {
+    const tool = createExecuteShellTool(workspace, 30_000, undefined, sandbox);
+    const result = await tool.execute("tc-sb1", { command: "echo hi" });
+
+    expect(textOf(result)).toStartWith("Error:");
+    expect(textOf(result)).toContain("bubblewrap (bwrap) is not installed");
+  });
+
+  test.skipIf(!hasBwrap)("writes the workspace but not the rest", async () => {
+    const tool = createExecuteShellTool(workspace, 30_000, undefined, sandbox);
+
+    const inside = await tool.execute("tc-sb2", {
+      command: "echo ok > out.txt",
+    });
+    expect(textOf(inside)).toContain("exit code: 0");
+    expect(readFileSync(join(workspace, "out.txt"), "utf8")).toBe("ok\n");
+
+    const outside = await tool.execute("tc-sb3", {
+      command: "touch /usr/sandbox-escape",
+    });
+    expect(textOf(outside)).toStartWith("Error:");
+    expect(textOf(outside)).toContain("only the workspace is writable");
+  });
+});
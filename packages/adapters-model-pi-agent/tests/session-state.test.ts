@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import type { AgentMessage } from "@mariozechner/pi-agent-core";
+import { parseSessionState, serializeSessionState } from "../src/session-state";
+
+const user = (text: string) =>
+  ({ role: "user", content: text, timestamp: 0 }) as AgentMessage;
+const assistant = (text: string) =>
+  ({ role: "assistant", content: [{ type: "text", text }] }) as AgentMessage;
+const toolResult = (text: string) =>
+  ({
+    role: "toolResult",
+    toolCallId: "call-1",
+    toolName: "read_file",
+    content: [{ type: "text", text }],
+    isError: false,
+    timestamp: 0,
+  }) as AgentMessage;
+
+describe("serializeSessionState", () => {
+  test("round-trips messages through parseSessionState", () => {
+    const messages = [user("hi"), assistant("hello")];
+    const { state, droppedMessages } = serializeSessionState(messages);
+
+    expect(droppedMessages).toBe(0);
+    expect(parseSessionState(state)).toEqual(messages);
+  });
+
+  test("elides long tool output and replaces images", () => {
+    const messages = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "what is this?" },
+          { type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+        ],
+        timestamp: 0,
+      } as AgentMessage,
+      toolResult("x".repeat(10_000)),
+    ];
+    const restored = parseSessionState(serializeSessionState(messages).state)!;
+
+    const userParts = (restored[0] as any).content;
+    expect(userParts[1]).toEqual({
+      type: "text",
+      text: "[image omitted from saved history]",
+    });
+    const toolText = (restored[1] as any).content[0].text as string;
+    expect(toolText.length).toBeLessThan(5000);
+    expect(toolText).toContain("6000 chars elided");
+  });
+
+  test("drops the oldest whole turns to fit the size cap", () => {
+    const messages = [
+      user("one"),
+      assistant("a".repeat(400)),
+      user("two"),
+      assistant("b".repeat(400)),
+      user("three"),
+      assistant("done"),
+    ];
+    const { state, droppedMessages } = serializeSessionState(messages, 800);
+    const restored = parseSessionState(state)!;
+
+    expect(Buffer.byteLength(state)).toBeLessThanOrEqual(800);
+    expect(droppedMessages).toBe(2);
+    expect(restored[0]).toEqual(user("two"));
+  });
+});
+
+describe("parseSessionState", () => {
+  test("rejects corrupt or foreign payloads", () => {
+    expect(parseSessionState("{not json")).toBeNull();
+    expect(parseSessionState('{"version":99,"messages":[]}')).toBeNull();
+    expect(parseSessionState('{"version":1,"messages":[{}]}')).toBeNull();
+  });
+});
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import {
+  existsSync,
   mkdirSync,
   mkdtempSync,
   readFileSync,
@@ -10,6 +11,11 @@ import {
 import { rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import type {
+  ReminderRequest,
+  ShellApprovalDecision,
+  ShellApprovalRequest,
+} from "@delegate/ports";
 import {
   buildShellEnv,
   checkRateLimit,
@@ -17,9 +23,14 @@ import {
   createListDirectoryTool,
   createReadFileTool,
   createSearchFilesTool,
+  createReminderTool,
+  createSendFileTool,
   createWebFetchTool,
   createWebSearchTool,
   createWriteFileTool,
+  DEFAULT_SHELL_ALLOWLIST,
+  type FileOutbox,
+  isAllowlistedCommand,
   isPrivateIP,
   matchesDenylist,
   parseDuckDuckGoResults,
@@ -27,6 +38,7 @@ import {
   resolveAndValidateHost,
   SHELL_COMMAND_DENYLIST,
   stripHtml,
+  summarizeToolArgs,
   validateUrl,
 } from "../src/tools";
 
@@ -195,6 +207,140 @@ describe("execute_shell", () => {
   });
 });
 
+describe("execute_shell approval", () => {
+  const withApproval = (decision: ShellApprovalDecision) => {
+    const requests: ShellApprovalRequest[] = [];
+    const tool = createExecuteShellTool(workspace, 30_000, {
+      port: {
+        requestShellApproval: async (request) => {
+          requests.push(request);
+          return decision;
+        },
+      },
+      target: { chatId: "chat-1", threadId: "7" },
+      allowlist: ["echo", "git status"],
+    });
+    return { tool, requests };
+  };
+  const textOf = (result: { content: unknown[] }) =>
+    (result.content[0] as { type: "text"; text: string }).text;
+
+  test("runs allowlisted commands without asking", async () => {
+    const { tool, requests } = withApproval("denied");
+    const result = await tool.execute("tc-ap1", { command: "echo fine" });
+
+    expect(textOf(result)).toContain("fine");
+    expect(requests).toHaveLength(0);
+  });
+
+  test("asks in the turn's chat and runs the command once approved", async () => {
+    const { tool, requests } = withApproval("approved");
+    const result = await tool.execute("tc-ap2", {
+      command: "printf approved",
+    });
+
+    expect(requests).toEqual([
+      { chatId: "chat-1", threadId: "7", command: "printf approved" },
+    ]);
+    expect(textOf(result)).toContain("approved");
+    expect(textOf(result)).toContain("exit code: 0");
+  });
+
+  test("does not run denied or unanswered commands", async () => {
+    const marker = join(workspace, "ran.txt");
+    for (const decision of ["denied", "timed_out"] as const) {
+      const { tool } = withApproval(decision);
+      const result = await tool.execute("tc-ap3", {
+        command: `touch ${marker}`,
+      });
+      expect(textOf(result)).toStartWith("Error:");
+      expect(textOf(result)).toContain("not run");
+    }
+    expect(existsSync(marker)).toBe(false);
+  });
+});
+
+describe("isAllowlistedCommand", () => {
+  const allowed = (command: string, allowlist = DEFAULT_SHELL_ALLOWLIST) =>
+    isAllowlistedCommand(command, allowlist, {
+      workspacePath: workspace,
+      cwd: join(workspace, "subdir"),
+    });
+
+  test("matches whole-word prefixes", () => {
+    expect(allowed("ls")).toBe(true);
+    expect(allowed("  ls  -la nested.txt")).toBe(true);
+    expect(allowed('grep -rn "foo.*bar" ../hello.txt')).toBe(true);
+    expect(allowed("lsblk")).toBe(false);
+    expect(allowed("git status", ["git status"])).toBe(true);
+    expect(allowed("git push", ["git status"])).toBe(false);
+  });
+
+  test("runs nothing the agent could have written", () => {
+    for (const command of [
+      "bun test",
+      "bun run lint",
+      "bun run typecheck",
+      "git status",
+      "git diff",
+      "git log -1",
+    ]) {
+      expect(allowed(command)).toBe(false);
+    }
+  });
+
+  test("rejects flags that write files or run programs", () => {
+    for (const command of [
+      "rg --pre ./evil.sh pattern",
+      "rg --pre=./evil.sh pattern",
+      "grep -o pattern nested.txt",
+      'grep "-o" pattern nested.txt',
+    ]) {
+      expect(allowed(command)).toBe(false);
+    }
+    expect(allowed("git diff --ext-diff", ["git diff"])).toBe(false);
+  });
+
+  test("keeps reads inside the workspace", () => {
+    for (const command of [
+      "cat /etc/passwd",
+      "cat ../../etc/passwd",
+      'cat "/etc/passwd"',
+      "cat ''/etc/passwd",
+      "cat ~/.config/delegate/secrets.env",
+      "cat $HOME/.ssh/id_rsa",
+      "cat ${HOME}/.ssh/id_rsa",
+      "cat \\/etc/passwd",
+      "grep -r token ..*",
+      "grep -r token {..,.}",
+      "grep --file=/etc/passwd nested.txt",
+      "grep -f/etc/passwd nested.txt",
+      'cat "nested.txt',
+    ]) {
+      expect(allowed(command)).toBe(false);
+    }
+  });
+
+  test("entries ending in $ allow only the bare command", () => {
+    expect(allowed("make check", ["make check$"])).toBe(true);
+    expect(allowed("make check FOO=1", ["make check$"])).toBe(false);
+  });
+
+  test("rejects chained, piped, redirected and substituted commands", () => {
+    for (const command of [
+      "ls; rm -rf build",
+      "ls && rm -rf build",
+      "cat hello.txt | sh",
+      "ls > out.txt",
+      "cat $(echo secret)",
+      "ls `whoami`",
+      "ls\nrm -rf build",
+    ]) {
+      expect(allowed(command)).toBe(false);
+    }
+  });
+});
+
 describe("list_directory", () => {
   test("lists workspace contents", async () => {
     const tool = createListDirectoryTool(workspace);
@@ -214,6 +360,137 @@ describe("search_files", () => {
   });
 });
 
+describe("send_file", () => {
+  test("queues a workspace file with its caption", async () => {
+    const outbox: FileOutbox = [];
+    const tool = createSendFileTool(workspace, outbox);
+    const result = await tool.execute("tc-send-1", {
+      path: "subdir/nested.txt",
+      caption: "nested",
+    });
+    const text = (result.content[0] as { type: "text"; text: string }).text;
+    expect(text).toContain("Queued subdir/nested.txt");
+    expect(outbox).toEqual([
+      { path: join(workspace, "subdir", "nested.txt"), caption: "nested" },
+    ]);
+  });
+
+  test("queues each file only once", async () => {
+    const outbox: FileOutbox = [];
+    const tool = createSendFileTool(workspace, outbox);
+    await tool.execute("tc-send-2", { path: "hello.txt" });
+    const result = await tool.execute("tc-send-3", { path: "./hello.txt" });
+    const text = (result.content[0] as { type: "text"; text: string }).text;
+    expect(text).toContain("already queued");
+    expect(outbox).toHaveLength(1);
+  });
+
+  test("rejects paths outside the workspace", async () => {
+    const outbox: FileOutbox = [];
+    const tool = createSendFileTool(workspace, outbox);
+    const result = await tool.execute("tc-send-4", { path: "/etc/hosts" });
+    const text = (result.content[0] as { type: "text"; text: string }).text;
+    expect(text).toContain("outside the workspace");
+    expect(outbox).toHaveLength(0);
+  });
+
+  test("rejects directories and missing files", async () => {
+    const outbox: FileOutbox = [];
+    const tool = createSendFileTool(workspace, outbox);
+    const dir = await tool.execute("tc-send-5", { path: "subdir" });
+    expect((dir.content[0] as { type: "text"; text: string }).text).toContain(
+      "Not a file",
+    );
+    const missing = await tool.execute("tc-send-6", { path: "nope.txt" });
+    expect(
+      (missing.content[0] as { type: "text"; text: string }).text,
+    ).toContain("Failed to read file");
+    expect(outbox).toHaveLength(0);
+  });
+});
+
+describe("create_reminder", () => {
+  const textOf = (result: { content: unknown[] }) =>
+    (result.content[0] as { type: "text"; text: string }).text;
+
+  test("schedules through the port for the current chat and thread", async () => {
+    const requests: ReminderRequest[] = [];
+    const target = { chatId: "chat-1", threadId: null as string | null };
+    const tool = createReminderTool({
+      port: {
+        scheduleReminder: async (request) => {
+          requests.push(request);
+          return {
+            id: "abc123",
+            dueAt: "2026-10-20T07:00:00.000Z",
+            dueLabel: "Tue 20 Oct 09:00",
+          };
+        },
+      },
+      target,
+    });
+
+    target.threadId = "42";
+    const result = await tool.execute("tc-rem-1", {
+      text: " check the deploy ",
+      when: "tomorrow at 9am",
+    });
+
+    expect(requests).toEqual([
+      {
+        chatId: "chat-1",
+        threadId: "42",
+        text: "check the deploy",
+        when: "tomorrow at 9am",
+      },
+    ]);
+    expect(textOf(result)).toBe(
+      "Reminder abc123 set for Tue 20 Oct 09:00 (2026-10-20T07:00:00.000Z).",
+    );
+  });
+
+  test("surfaces port errors and rejects empty text", async () => {
+    const tool = createReminderTool({
+      port: {
+        scheduleReminder: async () => {
+          throw new Error('Could not read "someday" as a time.');
+        },
+      },
+      target: { chatId: "chat-1", threadId: null },
+    });
+
+    expect(
+      textOf(await tool.execute("tc-rem-2", { text: "x", when: "someday" })),
+    ).toBe('Error: Could not read "someday" as a time.');
+    expect(
+      textOf(await tool.execute("tc-rem-3", { text: "  ", when: "in 1 hour" })),
+    ).toBe("Error: Reminder text is empty.");
+  });
+});
+
+describe("summarizeToolArgs", () => {
+  test("prefers the command, then the path", () => {
+    expect(summarizeToolArgs({ command: "bun test", timeout: 5 })).toBe(
+      "bun test",
+    );
+    expect(summarizeToolArgs({ path: "src/index.ts", content: "x" })).toBe(
+      "src/index.ts",
+    );
+  });
+
+  test("collapses whitespace and truncates long values", () => {
+    const summary = summarizeToolArgs({ command: `echo  ${"z".repeat(100)}` });
+    expect(summary).toHaveLength(60);
+    expect(summary).toStartWith("echo z");
+    expect(summary).toEndWith("…");
+  });
+
+  test("returns an empty string when nothing identifies the call", () => {
+    expect(summarizeToolArgs({})).toBe("");
+    expect(summarizeToolArgs(null)).toBe("");
+  });
+});
+
 describe("buildShellEnv", () => {
   test("includes safe system vars from process.env", () => {
     const env = buildShellEnv();
@@ -782,6 +1059,60 @@ describe("web_fetch tool", () => {
     const toolNames = tools.map((t: { name: string }) => t.name);
     expect(toolNames).not.toContain("web_fetch");
   });
+
+  test("readOnly leaves out tools that write or run commands", () => {
+    const { createWorkspaceTools } = require("../src/tools");
+    const tools = createWorkspaceTools(workspace, {
+      enableShellTool: true,
+      readOnly: true,
+    });
+    const toolNames = tools.map((t: { name: string }) => t.name);
+    expect(toolNames).toEqual(["read_file", "list_directory", "search_files"]);
+  });
+
+  test("proposals adds propose_plan, which records the plan", async () => {
+    const { createWorkspaceTools } = require("../src/tools");
+    const proposals = { plan: null };
+    const tools = createWorkspaceTools(workspace, {
+      enableShellTool: true,
+      readOnly: true,
+      proposals,
+    });
+    const propose = tools.find(
+      (t: { name: string }) => t.name === "propose_plan",
+    );
+
+    const empty = await propose.execute("call-1", { plan: "  " });
+    expect(empty.content[0].text).toContain("Plan is empty");
+    expect(proposals.plan).toBeNull();
+
+    await propose.execute("call-2", { plan: " Write notes.md " });
+    expect(proposals.plan).toBe("Write notes.md");
+  });
+
+  test("a profile keeps only its own tools", () => {
+    const { createWorkspaceTools } = require("../src/tools");
+    const options = {
+      enableShellTool: true,
+      fileOutbox: [],
+      webFetchConfig: {
+        provider: "openrouter",
+        model: "openrouter/auto",
+      },
+    };
+    const names = (profile: string) =>
+      createWorkspaceTools(workspace, { ...options, profile }).map(
+        (t: { name: string }) => t.name,
+      );
+
+    expect(names("research")).toEqual(["web_fetch", "web_search"]);
+    expect(names("readonly-code")).toEqual([
+      "read_file",
+      "list_directory",
+      "search_files",
+    ]);
+    expect(names("full")).toContain("execute_shell");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1,3 +1,5 @@
+import type { ConversationTurn } from "@delegate/domain";
+import { formatTranscript } from "./history";
 import { ollamaChat } from "./ollama-client";
 import type { ClassificationResult, ClassifierConfig } from "./types";
 
@@ -26,6 +28,12 @@ The following project context was recalled from memory and will be available to
 
 `;
 
+const CLASSIFIER_HISTORY_ADDENDUM = `
+
+Recent conversation in this topic (oldest first). Use it to understand follow-ups like "make it shorter" or "do the same for the other file"; route a follow-up to the tier its original request needed.
+
+`;
+
 /**
  * Extract a JSON object from a model response that may contain
  * markdown fences, leading/trailing text, or other noise.
@@ -95,7 +103,8 @@ function parseClassification(raw: string): ClassificationResult {
  *
  * When `memoryContext` is provided (formatted Engram recall output), it is
  * appended to the classifier system prompt so the model knows project-specific
- * context is available for T1.
+ * context is available for T1. Recent `history` turns are appended the same
+ * way so follow-ups are classified with their antecedent in view.
  *
  * Returns a ClassificationResult on success, or throws on failure
  * (network error, timeout, parse error).
@@ -104,12 +113,16 @@ export async function classify(
   config: ClassifierConfig,
   userText: string,
   memoryContext?: string,
+  history: ConversationTurn[] = [],
   signal?: AbortSignal,
 ): Promise<ClassificationResult> {
   let systemPrompt = CLASSIFIER_SYSTEM_PROMPT;
   if (memoryContext) {
     systemPrompt += CLASSIFIER_CONTEXT_ADDENDUM + memoryContext;
   }
+  if (history.length > 0) {
+    systemPrompt += CLASSIFIER_HISTORY_ADDENDUM + formatTranscript(history);
+  }
 
   const result = await ollamaChat({
     url: config.ollamaUrl,
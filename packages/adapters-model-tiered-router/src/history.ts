@@ -0,0 +1,40 @@
+import type { ConversationTurn } from "@delegate/domain";
+import type { OllamaMessage } from "./ollama-client";
+
+/** Rough token estimate (~4 chars per token), good enough for budgeting. */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+/**
+ * Keep the newest turns that fit within `maxTokens`, returned oldest first.
+ * A single turn larger than the whole budget is dropped rather than truncated.
+ */
+export function selectRecentTurns(
+  turns: ConversationTurn[],
+  maxTokens: number,
+): ConversationTurn[] {
+  const selected: ConversationTurn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i -= 1) {
+    const turn = turns[i]!;
+    const cost = estimateTokens(turn.text);
+    if (used + cost > maxTokens) {
+      break;
+    }
+    used += cost;
+    selected.push(turn);
+  }
+  return selected.reverse();
+}
+
+/** Turns as chat messages, for models that take a message list (T1). */
+export const toChatMessages = (turns: ConversationTurn[]): OllamaMessage[] =>
+  turns.map((turn) => ({ role: turn.role, content: turn.text }));
+
+/** Turns as a plain transcript, for prompts that must stay single-shot (T0). */
+export const formatTranscript = (turns: ConversationTurn[]): string =>
+  turns
+    .map(
+      (turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.text}`,
+    )
+    .join("\n");
@@ -1,7 +1,12 @@
-import type { ModelTurnResponse } from "@delegate/domain";
+import type {
+  ConversationTurn,
+  ModelTurnResponse,
+  TurnEvent,
+} from "@delegate/domain";
 import type { ModelPort, RespondInput } from "@delegate/ports";
 import { classify } from "./classifier";
 import { engramHealthCheck, engramRecall } from "./engram-client";
+import { selectRecentTurns, toChatMessages } from "./history";
 import { MemoryQueue } from "./memory-queue";
 import { ollamaChat, ollamaHealthCheck } from "./ollama-client";
 import { T1_SYSTEM_PROMPT } from "./system-prompt";
@@ -16,12 +21,17 @@ export type {
   ClassifierConfig,
   EngramConfig,
   HealthState,
+  HistoryConfig,
   T1Config,
   TieredRouterConfig,
 } from "./types";
 
 const HEALTH_CHECK_INTERVAL_MS = 30_000;
 const HEALTH_RECHECK_INTERVAL_MS = 10_000;
+/** Turns fetched from the history store before the token budget is applied. */
+const HISTORY_FETCH_LIMIT = 40;
+/** The classifier has a small window; it only needs the gist of recent turns. */
+const CLASSIFIER_HISTORY_MAX_TOKENS = 512;
 
 type T2Reason =
   | "classifier_unhealthy"
@@ -29,7 +39,8 @@ type T2Reason =
   | "classified_t2"
   | "low_confidence"
   | "t1_unhealthy"
-  | "t1_error";
+  | "t1_error"
+  | "user_requested";
 
 const log = (event: string, fields: Record<string, unknown>): void => {
   console.log(JSON.stringify({ level: "info", event, ...fields }));
@@ -90,7 +101,18 @@ export class TieredRouterAdapter implements ModelPort {
     const respondStart = performance.now();
     const sessionKey =
       input.sessionId ?? `${input.chatId}:${input.threadId ?? "root"}`;
-    const preview = promptPreview(input.text);
+
+    // The user explicitly asked for T2 (e.g. via a "switch to T2" button)
+    if (input.forceTier === "t2") {
+      return this.finalize(
+        await this.handleT2(input, sessionKey, "user_requested"),
+        sessionKey,
+        input.text,
+        respondStart,
+      );
+    }
+
+    const history = await this.loadHistory(sessionKey);
 
     // Step 1: Recall memories from Engram (skip if recently unhealthy)
     let memoryContext: string | undefined;
@@ -126,6 +148,28 @@ export class TieredRouterAdapter implements ModelPort {
       }
     }
 
+    // Forced onto T1 (e.g. the cloud budget is spent): no classifier, no T2 fallback
+    if (input.forceTier === "t1") {
+      const abortController = new AbortController();
+      this.activeRequests.set(sessionKey, abortController);
+      try {
+        return this.finalize(
+          await this.handleT1(
+            input,
+            sessionKey,
+            abortController.signal,
+            memoryContext,
+            history,
+          ),
+          sessionKey,
+          input.text,
+          respondStart,
+        );
+      } finally {
+        this.activeRequests.delete(sessionKey);
+      }
+    }
+
     // Step 2: Check if classifier is available
     const classifierAvailable = await this.isClassifierHealthy();
 
@@ -133,7 +177,7 @@ export class TieredRouterAdapter implements ModelPort {
       return this.finalize(
         await this.handleT2(input, sessionKey, "classifier_unhealthy"),
         sessionKey,
-        preview,
+        input.text,
         respondStart,
       );
     }
@@ -146,6 +190,7 @@ export class TieredRouterAdapter implements ModelPort {
         this.config.classifier,
         input.text,
         memoryContext,
+        selectRecentTurns(history, CLASSIFIER_HISTORY_MAX_TOKENS),
       );
       const classifyMs = Math.round(performance.now() - classifyStart);
 
@@ -173,7 +218,7 @@ export class TieredRouterAdapter implements ModelPort {
       return this.finalize(
         await this.handleT2(input, sessionKey, "classifier_error"),
         sessionKey,
-        preview,
+        input.text,
         respondStart,
       );
     }
@@ -183,7 +228,7 @@ export class TieredRouterAdapter implements ModelPort {
       return this.finalize(
         await this.handleT2(input, sessionKey, "classified_t2"),
         sessionKey,
-        preview,
+        input.text,
         respondStart,
         classification,
         "classified_t2",
@@ -202,7 +247,7 @@ export class TieredRouterAdapter implements ModelPort {
       return this.finalize(
         await this.handleT2(input, sessionKey, "low_confidence"),
         sessionKey,
-        preview,
+        input.text,
         respondStart,
         classification,
         "low_confidence",
@@ -216,7 +261,7 @@ export class TieredRouterAdapter implements ModelPort {
       return this.finalize(
         await this.handleT2(input, sessionKey, "t1_unhealthy"),
         sessionKey,
-        preview,
+        input.text,
         respondStart,
         classification,
         "t1_unhealthy",
@@ -232,11 +277,12 @@ export class TieredRouterAdapter implements ModelPort {
         sessionKey,
         abortController.signal,
         memoryContext,
+        history,
       );
       return this.finalize(
         response,
         sessionKey,
-        preview,
+        input.text,
         respondStart,
         classification,
       );
@@ -260,7 +306,7 @@ export class TieredRouterAdapter implements ModelPort {
       return this.finalize(
         await this.handleT2(input, sessionKey, "t1_error"),
         sessionKey,
-        preview,
+        input.text,
         respondStart,
         classification,
         "t1_error",
@@ -270,15 +316,24 @@ export class TieredRouterAdapter implements ModelPort {
     }
   }
 
-  /** Log the end-to-end routing summary and enqueue routing decision. */
-  private finalize(
+  /**
+   * Log the end-to-end routing summary, record the exchange in the shared
+   * history and enqueue the routing decision.
+   */
+  private async finalize(
     response: ModelTurnResponse,
     sessionKey: string,
-    preview: string,
+    userText: string,
     respondStart: number,
     classification?: ClassificationResult,
     t2Reason?: T2Reason,
-  ): ModelTurnResponse {
+  ): Promise<ModelTurnResponse> {
+    const preview = promptPreview(userText);
+    await this.recordHistory(sessionKey, userText, response);
+    if (response.tier === "t1") {
+      await this.recordLocalTurn(sessionKey, userText, response);
+    }
+
     const totalMs = Math.round(performance.now() - respondStart);
     log("tiered_router.respond.complete", {
       sessionKey,
@@ -314,11 +369,26 @@ export class TieredRouterAdapter implements ModelPort {
     await this.memoryQueue.dispose();
   }
 
-  /** Forward session reset to the T2 backend (which caches agents). */
+  /** Clear the session's history and forward the reset to the T2 backend. */
   async resetSession(sessionKey: string): Promise<void> {
+    if (this.config.history) {
+      try {
+        await this.config.history.store.clearConversationTurns(sessionKey);
+      } catch (error) {
+        logWarn("tiered_router.history.clear_failed", {
+          sessionKey,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
     await this.config.t2Backend.resetSession?.(sessionKey);
   }
 
+  /** Context overflows only happen on T2, so compaction is its concern. */
+  async compactSession(sessionKey: string): Promise<boolean> {
+    return (await this.config.t2Backend.compactSession?.(sessionKey)) ?? false;
+  }
+
   /**
    * Pre-load models on both Ollama instances so the first real request is fast.
    *
@@ -444,6 +514,111 @@ export class TieredRouterAdapter implements ModelPort {
     }
   }
 
+  // ---------------------------------------------------------------------------
+  // Conversation history (shared across tiers, best-effort)
+  // ---------------------------------------------------------------------------
+
+  /** Recent turns for the session within the T1 token budget. */
+  private async loadHistory(sessionKey: string): Promise<ConversationTurn[]> {
+    const { history } = this.config;
+    if (!history) {
+      return [];
+    }
+    try {
+      const turns = await history.store.listConversationTurns(
+        sessionKey,
+        HISTORY_FETCH_LIMIT,
+      );
+      return selectRecentTurns(turns, history.maxTokens);
+    } catch (error) {
+      logWarn("tiered_router.history.load_failed", {
+        sessionKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  private async recordHistory(
+    sessionKey: string,
+    userText: string,
+    response: ModelTurnResponse,
+  ): Promise<void> {
+    const { history } = this.config;
+    if (!history) {
+      return;
+    }
+    const createdAt = new Date().toISOString();
+    try {
+      await history.store.appendConversationTurns(sessionKey, [
+        { role: "user", text: userText, tier: null, createdAt },
+        {
+          role: "assistant",
+          text: response.replyText,
+          tier: response.tier ?? null,
+          createdAt,
+        },
+      ]);
+    } catch (error) {
+      logWarn("tiered_router.history.append_failed", {
+        sessionKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * T2 turns emit their own turn events from the pi-agent backend; emit the
+   * equivalent for turns answered locally so usage reports see both tiers.
+   */
+  private async recordLocalTurn(
+    sessionKey: string,
+    userText: string,
+    response: ModelTurnResponse,
+  ): Promise<void> {
+    const sink = this.config.turnEventSink;
+    if (!sink) {
+      return;
+    }
+    const turnId = crypto.randomUUID();
+    const timestamp = new Date().toISOString();
+    const events: TurnEvent[] = [
+      {
+        turnId,
+        sessionKey,
+        eventType: "turn_started",
+        timestamp,
+        data: { inputText: userText, tier: "t1" },
+      },
+      {
+        turnId,
+        sessionKey,
+        eventType: "turn_completed",
+        timestamp,
+        data: {
+          replyText: response.replyText,
+          tier: "t1",
+          provider: "ollama",
+          model: this.config.t1.model,
+          totalInputTokens: response.usage?.inputTokens ?? 0,
+          totalOutputTokens: response.usage?.outputTokens ?? 0,
+          totalCost: 0,
+          stepCount: 1,
+        },
+      },
+    ];
+    try {
+      for (const event of events) {
+        await sink.emit(event);
+      }
+    } catch (error) {
+      logWarn("tiered_router.turn_event.emit_failed", {
+        sessionKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Health checks (separate state per Ollama instance + Engram)
   // ---------------------------------------------------------------------------
@@ -539,6 +714,7 @@ export class TieredRouterAdapter implements ModelPort {
     sessionKey: string,
     signal: AbortSignal,
     memoryContext?: string,
+    history: ConversationTurn[] = [],
   ): Promise<ModelTurnResponse> {
     const { ollamaUrl, model, numCtx } = this.config.t1;
 
@@ -551,6 +727,7 @@ export class TieredRouterAdapter implements ModelPort {
       model,
       promptChars: input.text.length,
       hasMemories: !!memoryContext,
+      historyTurns: history.length,
     });
 
     const result = await ollamaChat({
@@ -558,6 +735,7 @@ export class TieredRouterAdapter implements ModelPort {
       model,
       messages: [
         { role: "system", content: systemPrompt },
+        ...toChatMessages(history),
         { role: "user", content: input.text },
       ],
       numCtx,
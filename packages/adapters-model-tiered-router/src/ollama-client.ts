@@ -1,7 +1,7 @@
 import type { OllamaChatResult } from "./types";
 
 /** Shape of an Ollama /api/chat message. */
-type OllamaMessage = {
+export type OllamaMessage = {
   role: "system" | "user" | "assistant";
   content: string;
 };
@@ -1,4 +1,8 @@
-import type { ModelPort, TurnEventSink } from "@delegate/ports";
+import type {
+  ConversationHistoryPort,
+  ModelPort,
+  TurnEventSink,
+} from "@delegate/ports";
 
 export type ClassifierConfig = {
   /** Ollama URL for the classifier model (T0). Default: http://127.0.0.1:11434 */
@@ -29,6 +33,13 @@ export type EngramConfig = {
   minStrength: number;
 };
 
+export type HistoryConfig = {
+  /** Shared transcript store (SQLite in production). */
+  store: ConversationHistoryPort;
+  /** Token budget for the transcript sent to T1. Default: 2000 */
+  maxTokens: number;
+};
+
 export type TieredRouterConfig = {
   classifier: ClassifierConfig;
   t1: T1Config;
@@ -37,6 +48,8 @@ export type TieredRouterConfig = {
   t2Backend: ModelPort;
   /** Optional sink for emitting turn observability events. */
   turnEventSink?: TurnEventSink;
+  /** Rolling per-session transcript for T0/T1. Omit to run stateless. */
+  history?: HistoryConfig;
 };
 
 /** Cached health check state for an Ollama instance. */
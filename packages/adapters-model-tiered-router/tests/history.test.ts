@@ -0,0 +1,177 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { ConversationTurn, ModelTurnResponse } from "@delegate/domain";
+import type { ConversationHistoryPort, ModelPort } from "@delegate/ports";
+import {
+  formatTranscript,
+  selectRecentTurns,
+  toChatMessages,
+} from "../src/history";
+import { TieredRouterAdapter } from "../src/index";
+
+type ChatMessage = { role: string; content: string };
+
+const classifierRequests: ChatMessage[][] = [];
+const t1Requests: ChatMessage[][] = [];
+let t1Reply = "autumn moonlight / a worm digs silently / into the chestnut";
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const path = new URL(request.url).pathname;
+    if (path === "/api/tags") {
+      return Response.json({
+        models: [{ name: "classifier" }, { name: "t1" }],
+      });
+    }
+    if (path === "/api/chat") {
+      const body = (await request.json()) as {
+        model: string;
+        messages: ChatMessage[];
+      };
+      const isClassifier = body.model === "classifier";
+      (isClassifier ? classifierRequests : t1Requests).push(body.messages);
+      return Response.json({
+        message: {
+          role: "assistant",
+          content: isClassifier
+            ? '{"tier":"t1","confidence":0.9,"reason":"drafting","category":"drafting"}'
+            : t1Reply,
+        },
+        total_duration: 1,
+        load_duration: 0,
+        prompt_eval_count: 10,
+        prompt_eval_duration: 1,
+        eval_count: 5,
+        eval_duration: 1,
+      });
+    }
+    // Engram is reported unhealthy so recall is skipped.
+    return new Response("unavailable", { status: 503 });
+  },
+});
+
+class InMemoryHistory implements ConversationHistoryPort {
+  readonly turns = new Map<string, ConversationTurn[]>();
+
+  async appendConversationTurns(
+    sessionKey: string,
+    turns: ConversationTurn[],
+  ): Promise<void> {
+    this.turns.set(sessionKey, [
+      ...(this.turns.get(sessionKey) ?? []),
+      ...turns,
+    ]);
+  }
+
+  async listConversationTurns(
+    sessionKey: string,
+    limit: number,
+  ): Promise<ConversationTurn[]> {
+    return (this.turns.get(sessionKey) ?? []).slice(-limit);
+  }
+
+  async clearConversationTurns(sessionKey: string): Promise<void> {
+    this.turns.delete(sessionKey);
+  }
+}
+
+const t2Backend: ModelPort = {
+  respond: async (): Promise<ModelTurnResponse> => ({
+    replyText: "from t2",
+    sessionId: "unused",
+  }),
+};
+
+const history = new InMemoryHistory();
+const url = `http://127.0.0.1:${server.port}`;
+const router = new TieredRouterAdapter({
+  classifier: {
+    ollamaUrl: url,
+    model: "classifier",
+    numCtx: 4096,
+    confidenceThreshold: 0.7,
+  },
+  t1: { ollamaUrl: url, model: "t1", numCtx: 16384 },
+  engram: { url, maxMemories: 3, minStrength: 0.3 },
+  t2Backend,
+  history: { store: history, maxTokens: 2000 },
+});
+
+afterAll(async () => {
+  await router.dispose();
+  server.stop(true);
+});
+
+const turn = (
+  role: ConversationTurn["role"],
+  text: string,
+): ConversationTurn => ({
+  role,
+  text,
+  tier: null,
+  createdAt: "2026-02-12T00:00:00.000Z",
+});
+
+describe("history helpers", () => {
+  test("selectRecentTurns keeps the newest turns within the budget", () => {
+    const turns = [
+      turn("user", "a".repeat(40)),
+      turn("assistant", "b".repeat(40)),
+      turn("user", "c".repeat(40)),
+    ];
+    expect(selectRecentTurns(turns, 20).map((t) => t.text[0])).toEqual([
+      "b",
+      "c",
+    ]);
+    expect(selectRecentTurns(turns, 5)).toEqual([]);
+  });
+
+  test("formats turns as a transcript and as chat messages", () => {
+    const turns = [turn("user", "hi"), turn("assistant", "hello")];
+    expect(formatTranscript(turns)).toBe("User: hi\nAssistant: hello");
+    expect(toChatMessages(turns)).toEqual([
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "hello" },
+    ]);
+  });
+});
+
+describe("TieredRouterAdapter conversation history", () => {
+  const input = (text: string) => ({
+    chatId: "chat-1",
+    threadId: null,
+    text,
+    context: [],
+    pendingProposalWorkItemId: null,
+  });
+
+  test("T1 and the classifier see the previous exchange on a follow-up", async () => {
+    const first = await router.respond(input("write a haiku about autumn"));
+    expect(first.tier).toBe("t1");
+
+    t1Reply = "autumn moonlight";
+    await router.respond(input("make it shorter"));
+
+    const followUp = t1Requests.at(-1) ?? [];
+    expect(followUp.slice(1)).toEqual([
+      { role: "user", content: "write a haiku about autumn" },
+      {
+        role: "assistant",
+        content: "autumn moonlight / a worm digs silently / into the chestnut",
+      },
+      { role: "user", content: "make it shorter" },
+    ]);
+    expect(classifierRequests.at(-1)?.[0]?.content).toContain(
+      "User: write a haiku about autumn",
+    );
+    expect(history.turns.get("chat-1:root")).toHaveLength(4);
+  });
+
+  test("resetSession clears the transcript", async () => {
+    await router.resetSession("chat-1:root");
+    await router.respond(input("hello again"));
+
+    expect(t1Requests.at(-1)).toHaveLength(2);
+    expect(history.turns.get("chat-1:root")).toHaveLength(2);
+  });
+});
@@ -1,7 +1,21 @@
 import { Database } from "bun:sqlite";
 import { mkdir } from "node:fs/promises";
 import { dirname } from "node:path";
-import type { TurnEvent, TurnEventType } from "@delegate/domain";
+import type {
+  AccessGrant,
+  ConversationTurn,
+  Reminder,
+  Schedule,
+  StoredChatUpdate,
+  ToolProfile,
+  TurnEvent,
+  TurnEventType,
+  UsageBucket,
+  UsageGrouping,
+  UsageTotals,
+  WorkItem,
+  WorkItemStatus,
+} from "@delegate/domain";
 
 export type SessionMapping = {
   sessionKey: string;
@@ -41,6 +55,8 @@ export type SessionListPage = {
 };
 
 const DEFAULT_PAGE_SIZE = 25;
+// Older turns are pruned on append; callers apply their own token budget.
+const MAX_CONVERSATION_TURNS = 50;
 const MAX_PAGE_SIZE = 100;
 
 type SessionKeyParts = {
@@ -48,6 +64,44 @@ type SessionKeyParts = {
   workspacePath: string;
 };
 
+// Pi-agent turns carry no tier; only the tiered router tags its local turns.
+const USAGE_GROUP_EXPRESSIONS: Record<UsageGrouping, string> = {
+  day: "date(timestamp, 'localtime')",
+  topic: "session_key",
+  tier: "COALESCE(json_extract(data, '$.tier'), 't2')",
+  model: "COALESCE(json_extract(data, '$.model'), 'unknown')",
+};
+
+const USAGE_COLUMNS = `
+  COUNT(*) as turns,
+  COALESCE(SUM(json_extract(data, '$.totalInputTokens')), 0) as input_tokens,
+  COALESCE(SUM(json_extract(data, '$.totalOutputTokens')), 0) as output_tokens,
+  COALESCE(SUM(json_extract(data, '$.totalCost')), 0) as cost
+`;
+
+const USAGE_FILTER = `
+  event_type IN ('turn_completed', 'turn_failed')
+  AND timestamp >= $since
+  AND (
+    $chat_prefix IS NULL
+    OR substr(session_key, 1, length($chat_prefix)) = $chat_prefix
+  )
+`;
+
+type UsageRow = {
+  turns: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+};
+
+const toUsageTotals = (row: UsageRow): UsageTotals => ({
+  turns: row.turns,
+  inputTokens: row.input_tokens,
+  outputTokens: row.output_tokens,
+  cost: row.cost,
+});
+
 const clampInt = (value: number | undefined, fallback: number): number => {
   if (!value || !Number.isInteger(value) || value <= 0) {
     return fallback;
@@ -108,6 +162,100 @@ export const parseSessionKey = (sessionKey: string): SessionKeyParts | null => {
   return null;
 };
 
+type WorkItemRow = {
+  id: string;
+  topic_key: string;
+  chat_id: string;
+  thread_id: string | null;
+  status: string;
+  request_text: string;
+  proposal_text: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const asWorkItem = (row: WorkItemRow): WorkItem => ({
+  id: row.id,
+  topicKey: row.topic_key,
+  chatId: row.chat_id,
+  threadId: row.thread_id,
+  status: row.status as WorkItemStatus,
+  requestText: row.request_text,
+  proposalText: row.proposal_text,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+type ScheduleRow = {
+  id: string;
+  topic_key: string;
+  chat_id: string;
+  thread_id: string | null;
+  recurrence: string;
+  task_text: string;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_at: string;
+  created_by: string | null;
+  creator_role: string;
+};
+
+const asSchedule = (row: ScheduleRow): Schedule => ({
+  id: row.id,
+  topicKey: row.topic_key,
+  chatId: row.chat_id,
+  threadId: row.thread_id,
+  recurrence: row.recurrence,
+  taskText: row.task_text,
+  nextRunAt: row.next_run_at,
+  lastRunAt: row.last_run_at,
+  createdAt: row.created_at,
+  createdBy: row.created_by,
+  creatorRole: row.creator_role as Schedule["creatorRole"],
+});
+
+type ReminderRow = {
+  id: string;
+  chat_id: string;
+  thread_id: string | null;
+  text: string;
+  due_at: string;
+  created_at: string;
+  delivered_at: string | null;
+  attempts: number;
+  last_error: string | null;
+  failed_at: string | null;
+};
+
+const asReminder = (row: ReminderRow): Reminder => ({
+  id: row.id,
+  chatId: row.chat_id,
+  threadId: row.thread_id,
+  text: row.text,
+  dueAt: row.due_at,
+  createdAt: row.created_at,
+  deliveredAt: row.delivered_at,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  failedAt: row.failed_at,
+});
+
+type AccessGrantRow = {
+  kind: string;
+  subject_id: string;
+  role: string;
+  label: string | null;
+  updated_at: string;
+};
+
+const asAccessGrant = (row: AccessGrantRow): AccessGrant => ({
+  kind: row.kind as AccessGrant["kind"],
+  subjectId: row.subject_id,
+  role: row.role as AccessGrant["role"],
+  label: row.label,
+  updatedAt: row.updated_at,
+});
+
 const asSessionListItem = (row: {
   session_key: string;
   session_id: string;
@@ -164,6 +312,13 @@ export class SqliteSessionStore {
         updated_at TEXT NOT NULL
       );
     `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS topic_tool_profiles (
+        topic_key TEXT PRIMARY KEY,
+        profile TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
     db.exec(`
       CREATE TABLE IF NOT EXISTS topic_workspace_history (
         topic_key TEXT NOT NULL,
@@ -198,6 +353,98 @@ export class SqliteSessionStore {
       CREATE INDEX IF NOT EXISTS turn_events_turn_id_idx
       ON turn_events(turn_id);
     `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS work_items (
+        id TEXT PRIMARY KEY,
+        topic_key TEXT NOT NULL,
+        chat_id TEXT NOT NULL,
+        thread_id TEXT,
+        status TEXT NOT NULL,
+        request_text TEXT NOT NULL,
+        proposal_text TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS work_items_status_idx
+      ON work_items(status, updated_at);
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conversation_turns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_key TEXT NOT NULL,
+        role TEXT NOT NULL,
+        text TEXT NOT NULL,
+        tier TEXT,
+        created_at TEXT NOT NULL
+      );
+    `);
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS conversation_turns_session_idx
+      ON conversation_turns(session_key, id);
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS model_session_state (
+        session_key TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        topic_key TEXT NOT NULL,
+        chat_id TEXT NOT NULL,
+        thread_id TEXT,
+        recurrence TEXT NOT NULL,
+        task_text TEXT NOT NULL,
+        next_run_at TEXT NOT NULL,
+        last_run_at TEXT,
+        created_at TEXT NOT NULL,
+        created_by TEXT,
+        creator_role TEXT NOT NULL
+      );
+    `);
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS schedules_next_run_idx
+      ON schedules(next_run_at);
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS reminders (
+        id TEXT PRIMARY KEY,
+        chat_id TEXT NOT NULL,
+        thread_id TEXT,
+        text TEXT NOT NULL,
+        due_at TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        delivered_at TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        failed_at TEXT
+      );
+    `);
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS reminders_pending_idx
+      ON reminders(delivered_at, due_at);
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS access_grants (
+        kind TEXT NOT NULL,
+        subject_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        label TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (kind, subject_id)
+      );
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS chat_update_inbox (
+        update_id INTEGER PRIMARY KEY,
+        payload TEXT NOT NULL,
+        received_at TEXT NOT NULL
+      );
+    `);
     this.db = db;
   }
 
@@ -474,6 +721,38 @@ export class SqliteSessionStore {
     return rows.map((row) => row.workspace_path);
   }
 
+  async getTopicToolProfile(topicKey: string): Promise<ToolProfile | null> {
+    const row = this.ensureDb()
+      .query(
+        `
+          SELECT profile
+          FROM topic_tool_profiles
+          WHERE topic_key = $topic_key
+        `,
+      )
+      .get({ topic_key: topicKey }) as { profile: ToolProfile } | null;
+
+    return row?.profile ?? null;
+  }
+
+  async setTopicToolProfile(
+    topicKey: string,
+    profile: ToolProfile,
+    updatedAt: string,
+  ): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          INSERT INTO topic_tool_profiles (topic_key, profile, updated_at)
+          VALUES ($topic_key, $profile, $updated_at)
+          ON CONFLICT(topic_key) DO UPDATE SET
+            profile = excluded.profile,
+            updated_at = excluded.updated_at
+        `,
+      )
+      .run({ topic_key: topicKey, profile, updated_at: updatedAt });
+  }
+
   async insertTurnEvent(event: TurnEvent): Promise<void> {
     this.ensureDb()
       .query(
@@ -602,6 +881,506 @@ export class SqliteSessionStore {
     }));
   }
 
+  /**
+   * Total model spend (USD) since `since`, from step_complete turn events.
+   * With `chatId`, only topics in that chat count.
+   */
+  async sumSpendSince(since: string, chatId?: string): Promise<number> {
+    const row = this.ensureDb()
+      .query(
+        `
+          SELECT COALESCE(SUM(json_extract(data, '$.cost')), 0) as spend
+          FROM turn_events
+          WHERE event_type = 'step_complete'
+            AND timestamp >= $since
+            AND (
+              $chat_prefix IS NULL
+              OR substr(session_key, 1, length($chat_prefix)) = $chat_prefix
+            )
+        `,
+      )
+      .get({
+        since,
+        chat_prefix: chatId === undefined ? null : `${chatId}:`,
+      }) as { spend: number };
+    return row.spend;
+  }
+
+  /**
+   * Usage over turns that finished since `since`, from the totals on
+   * turn_completed and turn_failed events. With `chatId`, only that chat.
+   */
+  async summarizeUsage(since: string, chatId?: string): Promise<UsageTotals> {
+    const row = this.ensureDb()
+      .query(`SELECT ${USAGE_COLUMNS} FROM turn_events WHERE ${USAGE_FILTER}`)
+      .get({
+        since,
+        chat_prefix: chatId === undefined ? null : `${chatId}:`,
+      }) as UsageRow;
+    return toUsageTotals(row);
+  }
+
+  /**
+   * The same usage split by day, topic, tier or model. Days come back in
+   * date order; everything else most expensive first.
+   */
+  async listUsageBreakdown(
+    groupBy: UsageGrouping,
+    since: string,
+    options: { chatId?: string; limit?: number } = {},
+  ): Promise<UsageBucket[]> {
+    const orderBy = groupBy === "day" ? "key ASC" : "cost DESC, turns DESC";
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT ${USAGE_GROUP_EXPRESSIONS[groupBy]} as key, ${USAGE_COLUMNS}
+          FROM turn_events
+          WHERE ${USAGE_FILTER}
+          GROUP BY key
+          ORDER BY ${orderBy}
+          LIMIT $limit
+        `,
+      )
+      .all({
+        since,
+        chat_prefix: options.chatId === undefined ? null : `${options.chatId}:`,
+        limit: options.limit ?? -1,
+      }) as Array<UsageRow & { key: string }>;
+    return rows.map((row) => ({ key: row.key, ...toUsageTotals(row) }));
+  }
+
+  async createWorkItem(item: WorkItem): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          INSERT INTO work_items (
+            id, topic_key, chat_id, thread_id, status,
+            request_text, proposal_text, created_at, updated_at
+          )
+          VALUES (
+            $id, $topic_key, $chat_id, $thread_id, $status,
+            $request_text, $proposal_text, $created_at, $updated_at
+          )
+        `,
+      )
+      .run({
+        id: item.id,
+        topic_key: item.topicKey,
+        chat_id: item.chatId,
+        thread_id: item.threadId,
+        status: item.status,
+        request_text: item.requestText,
+        proposal_text: item.proposalText,
+        created_at: item.createdAt,
+        updated_at: item.updatedAt,
+      });
+  }
+
+  async getWorkItem(id: string): Promise<WorkItem | null> {
+    const row = this.ensureDb()
+      .query(
+        `
+          SELECT id, topic_key, chat_id, thread_id, status,
+            request_text, proposal_text, created_at, updated_at
+          FROM work_items
+          WHERE id = $id
+        `,
+      )
+      .get({ id }) as WorkItemRow | null;
+
+    return row ? asWorkItem(row) : null;
+  }
+
+  /**
+   * Move a work item to `status`. When `fromStatus` is given the update only
+   * applies if the item is currently in that status, which makes transitions
+   * like pending_approval -> approved safe against double button presses.
+   * Returns whether a row was updated.
+   */
+  async updateWorkItemStatus(
+    id: string,
+    status: WorkItemStatus,
+    updatedAt: string,
+    fromStatus?: WorkItemStatus,
+  ): Promise<boolean> {
+    const result = this.ensureDb()
+      .query(
+        `
+          UPDATE work_items
+          SET status = $status, updated_at = $updated_at
+          WHERE id = $id
+            AND ($from_status IS NULL OR status = $from_status)
+        `,
+      )
+      .run({
+        id,
+        status,
+        updated_at: updatedAt,
+        from_status: fromStatus ?? null,
+      });
+
+    return result.changes > 0;
+  }
+
+  async listWorkItemsByStatus(status: WorkItemStatus): Promise<WorkItem[]> {
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT id, topic_key, chat_id, thread_id, status,
+            request_text, proposal_text, created_at, updated_at
+          FROM work_items
+          WHERE status = $status
+          ORDER BY updated_at ASC
+        `,
+      )
+      .all({ status }) as WorkItemRow[];
+
+    return rows.map(asWorkItem);
+  }
+
+  async createSchedule(schedule: Schedule): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          INSERT INTO schedules (
+            id, topic_key, chat_id, thread_id, recurrence,
+            task_text, next_run_at, last_run_at, created_at,
+            created_by, creator_role
+          )
+          VALUES (
+            $id, $topic_key, $chat_id, $thread_id, $recurrence,
+            $task_text, $next_run_at, $last_run_at, $created_at,
+            $created_by, $creator_role
+          )
+        `,
+      )
+      .run({
+        id: schedule.id,
+        topic_key: schedule.topicKey,
+        chat_id: schedule.chatId,
+        thread_id: schedule.threadId,
+        recurrence: schedule.recurrence,
+        task_text: schedule.taskText,
+        next_run_at: schedule.nextRunAt,
+        last_run_at: schedule.lastRunAt,
+        created_at: schedule.createdAt,
+        created_by: schedule.createdBy,
+        creator_role: schedule.creatorRole,
+      });
+  }
+
+  async listSchedules(chatId: string): Promise<Schedule[]> {
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT id, topic_key, chat_id, thread_id, recurrence,
+            task_text, next_run_at, last_run_at, created_at,
+            created_by, creator_role
+          FROM schedules
+          WHERE chat_id = $chat_id
+          ORDER BY next_run_at ASC
+        `,
+      )
+      .all({ chat_id: chatId }) as ScheduleRow[];
+
+    return rows.map(asSchedule);
+  }
+
+  /** Schedules whose next run is at or before `now`, oldest first. */
+  async listDueSchedules(now: string): Promise<Schedule[]> {
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT id, topic_key, chat_id, thread_id, recurrence,
+            task_text, next_run_at, last_run_at, created_at,
+            created_by, creator_role
+          FROM schedules
+          WHERE next_run_at <= $now
+          ORDER BY next_run_at ASC
+        `,
+      )
+      .all({ now }) as ScheduleRow[];
+
+    return rows.map(asSchedule);
+  }
+
+  /**
+   * Record a run and move the schedule to its next slot. Only applies while
+   * the schedule is still due at `fromNextRunAt`, so a run is claimed once.
+   */
+  async advanceSchedule(
+    id: string,
+    fromNextRunAt: string,
+    lastRunAt: string,
+    nextRunAt: string,
+  ): Promise<boolean> {
+    const result = this.ensureDb()
+      .query(
+        `
+          UPDATE schedules
+          SET last_run_at = $last_run_at, next_run_at = $next_run_at
+          WHERE id = $id AND next_run_at = $from_next_run_at
+        `,
+      )
+      .run({
+        id,
+        from_next_run_at: fromNextRunAt,
+        last_run_at: lastRunAt,
+        next_run_at: nextRunAt,
+      });
+
+    return result.changes > 0;
+  }
+
+  /** Delete a schedule belonging to `chatId`. Returns whether one was removed. */
+  async deleteSchedule(id: string, chatId: string): Promise<boolean> {
+    const result = this.ensureDb()
+      .query("DELETE FROM schedules WHERE id = $id AND chat_id = $chat_id")
+      .run({ id, chat_id: chatId });
+
+    return result.changes > 0;
+  }
+
+  async createReminder(reminder: Reminder): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          INSERT INTO reminders (
+            id, chat_id, thread_id, text, due_at, created_at, delivered_at,
+            attempts, last_error, failed_at
+          )
+          VALUES (
+            $id, $chat_id, $thread_id, $text, $due_at, $created_at, $delivered_at,
+            $attempts, $last_error, $failed_at
+          )
+        `,
+      )
+      .run({
+        id: reminder.id,
+        chat_id: reminder.chatId,
+        thread_id: reminder.threadId,
+        text: reminder.text,
+        due_at: reminder.dueAt,
+        created_at: reminder.createdAt,
+        delivered_at: reminder.deliveredAt,
+        attempts: reminder.attempts,
+        last_error: reminder.lastError,
+        failed_at: reminder.failedAt,
+      });
+  }
+
+  /** Undelivered reminders due at or before `now`, oldest first; given-up ones are skipped. */
+  async listDueReminders(now: string): Promise<Reminder[]> {
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT id, chat_id, thread_id, text, due_at, created_at, delivered_at,
+            attempts, last_error, failed_at
+          FROM reminders
+          WHERE delivered_at IS NULL AND failed_at IS NULL AND due_at <= $now
+          ORDER BY due_at ASC
+        `,
+      )
+      .all({ now }) as ReminderRow[];
+
+    return rows.map(asReminder);
+  }
+
+  async markReminderDelivered(id: string, deliveredAt: string): Promise<void> {
+    this.ensureDb()
+      .query("UPDATE reminders SET delivered_at = $delivered_at WHERE id = $id")
+      .run({ id, delivered_at: deliveredAt });
+  }
+
+  /** Count a failed send; a non-null `failedAt` stops further attempts. */
+  async recordReminderFailure(
+    id: string,
+    error: string,
+    failedAt: string | null,
+  ): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          UPDATE reminders
+          SET attempts = attempts + 1, last_error = $last_error, failed_at = $failed_at
+          WHERE id = $id
+        `,
+      )
+      .run({ id, last_error: error, failed_at: failedAt });
+  }
+
+  async getAccessGrant(
+    kind: AccessGrant["kind"],
+    subjectId: string,
+  ): Promise<AccessGrant | null> {
+    const row = this.ensureDb()
+      .query(
+        `
+          SELECT kind, subject_id, role, label, updated_at
+          FROM access_grants
+          WHERE kind = $kind AND subject_id = $subject_id
+        `,
+      )
+      .get({ kind, subject_id: subjectId }) as AccessGrantRow | null;
+
+    return row ? asAccessGrant(row) : null;
+  }
+
+  async upsertAccessGrant(grant: AccessGrant): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          INSERT INTO access_grants (kind, subject_id, role, label, updated_at)
+          VALUES ($kind, $subject_id, $role, $label, $updated_at)
+          ON CONFLICT(kind, subject_id) DO UPDATE SET
+            role = excluded.role,
+            label = COALESCE(excluded.label, access_grants.label),
+            updated_at = excluded.updated_at
+        `,
+      )
+      .run({
+        kind: grant.kind,
+        subject_id: grant.subjectId,
+        role: grant.role,
+        label: grant.label,
+        updated_at: grant.updatedAt,
+      });
+  }
+
+  async deleteAccessGrant(
+    kind: AccessGrant["kind"],
+    subjectId: string,
+  ): Promise<boolean> {
+    const result = this.ensureDb()
+      .query(
+        "DELETE FROM access_grants WHERE kind = $kind AND subject_id = $subject_id",
+      )
+      .run({ kind, subject_id: subjectId });
+
+    return result.changes > 0;
+  }
+
+  /** Every grant, chats first, then by subject id. */
+  async listAccessGrants(): Promise<AccessGrant[]> {
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT kind, subject_id, role, label, updated_at
+          FROM access_grants
+          ORDER BY kind ASC, subject_id ASC
+        `,
+      )
+      .all() as AccessGrantRow[];
+
+    return rows.map(asAccessGrant);
+  }
+
+  async appendConversationTurns(
+    sessionKey: string,
+    turns: ConversationTurn[],
+  ): Promise<void> {
+    const db = this.ensureDb();
+    const insert = db.query(
+      `
+        INSERT INTO conversation_turns (session_key, role, text, tier, created_at)
+        VALUES ($session_key, $role, $text, $tier, $created_at)
+      `,
+    );
+    const prune = db.query(
+      `
+        DELETE FROM conversation_turns
+        WHERE session_key = $session_key
+          AND id NOT IN (
+            SELECT id FROM conversation_turns
+            WHERE session_key = $session_key
+            ORDER BY id DESC
+            LIMIT $keep
+          )
+      `,
+    );
+    db.transaction(() => {
+      for (const turn of turns) {
+        insert.run({
+          session_key: sessionKey,
+          role: turn.role,
+          text: turn.text,
+          tier: turn.tier,
+          created_at: turn.createdAt,
+        });
+      }
+      prune.run({ session_key: sessionKey, keep: MAX_CONVERSATION_TURNS });
+    })();
+  }
+
+  /** Most recent turns for the session, returned oldest first. */
+  async listConversationTurns(
+    sessionKey: string,
+    limit: number,
+  ): Promise<ConversationTurn[]> {
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT role, text, tier, created_at
+          FROM conversation_turns
+          WHERE session_key = $session_key
+          ORDER BY id DESC
+          LIMIT $limit
+        `,
+      )
+      .all({ session_key: sessionKey, limit }) as Array<{
+      role: string;
+      text: string;
+      tier: string | null;
+      created_at: string;
+    }>;
+
+    return rows.reverse().map((row) => ({
+      role: row.role === "assistant" ? "assistant" : "user",
+      text: row.text,
+      tier: row.tier,
+      createdAt: row.created_at,
+    }));
+  }
+
+  async clearConversationTurns(sessionKey: string): Promise<void> {
+    this.ensureDb()
+      .query("DELETE FROM conversation_turns WHERE session_key = $session_key")
+      .run({ session_key: sessionKey });
+  }
+
+  async loadModelSessionState(sessionKey: string): Promise<string | null> {
+    const row = this.ensureDb()
+      .query(
+        "SELECT state FROM model_session_state WHERE session_key = $session_key",
+      )
+      .get({ session_key: sessionKey }) as { state: string } | null;
+    return row?.state ?? null;
+  }
+
+  async saveModelSessionState(
+    sessionKey: string,
+    state: string,
+    updatedAt: string,
+  ): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          INSERT INTO model_session_state (session_key, state, updated_at)
+          VALUES ($session_key, $state, $updated_at)
+          ON CONFLICT(session_key) DO UPDATE SET
+            state = excluded.state,
+            updated_at = excluded.updated_at
+        `,
+      )
+      .run({ session_key: sessionKey, state, updated_at: updatedAt });
+  }
+
+  async deleteModelSessionState(sessionKey: string): Promise<void> {
+    this.ensureDb()
+      .query("DELETE FROM model_session_state WHERE session_key = $session_key")
+      .run({ session_key: sessionKey });
+  }
+
   async setCursor(cursor: number): Promise<void> {
     this.ensureDb()
       .query(
@@ -638,6 +1417,51 @@ export class SqliteSessionStore {
     return Number.isInteger(parsed) ? parsed : null;
   }
 
+  async saveChatUpdate(
+    updateId: number,
+    payload: string,
+    receivedAt: string,
+  ): Promise<void> {
+    this.ensureDb()
+      .query(
+        `
+          INSERT INTO chat_update_inbox (update_id, payload, received_at)
+          VALUES ($update_id, $payload, $received_at)
+          ON CONFLICT(update_id) DO NOTHING
+        `,
+      )
+      .run({ update_id: updateId, payload, received_at: receivedAt });
+  }
+
+  async listChatUpdates(
+    fromUpdateId: number | null,
+  ): Promise<StoredChatUpdate[]> {
+    const rows = this.ensureDb()
+      .query(
+        `
+          SELECT update_id, payload
+          FROM chat_update_inbox
+          WHERE $from_update_id IS NULL OR update_id >= $from_update_id
+          ORDER BY update_id ASC
+        `,
+      )
+      .all({ from_update_id: fromUpdateId }) as Array<{
+      update_id: number;
+      payload: string;
+    }>;
+
+    return rows.map((row) => ({
+      updateId: row.update_id,
+      payload: row.payload,
+    }));
+  }
+
+  async deleteChatUpdatesBefore(updateId: number): Promise<void> {
+    this.ensureDb()
+      .query("DELETE FROM chat_update_inbox WHERE update_id < $update_id")
+      .run({ update_id: updateId });
+  }
+
   async getPendingStartupAck(): Promise<PendingStartupAck | null> {
     const row = this.ensureDb()
       .query(
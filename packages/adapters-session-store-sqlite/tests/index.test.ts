@@ -261,4 +261,555 @@ describe("SqliteSessionStore turn events", () => {
       await cleanup();
     }
   });
+
+  test("sums step costs since a timestamp, optionally for one chat", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      const step = (
+        turnId: string,
+        key: string,
+        timestamp: string,
+        cost: number,
+      ) =>
+        store.insertTurnEvent({
+          turnId,
+          sessionKey: key,
+          eventType: "step_complete",
+          timestamp,
+          data: { stepCount: 1, inputTokens: 10, outputTokens: 5, cost },
+        });
+      await step("turn-old", "chat-a:root", "2026-02-10T23:00:00.000Z", 5);
+      await step("turn-1", "chat-a:root", "2026-02-11T01:00:00.000Z", 0.25);
+      await step("turn-2", "chat-a:42", "2026-02-11T02:00:00.000Z", 0.5);
+      await step("turn-3", "chat-ab:root", "2026-02-11T03:00:00.000Z", 1);
+      await store.insertTurnEvent({
+        turnId: "turn-3",
+        sessionKey: "chat-ab:root",
+        eventType: "turn_completed",
+        timestamp: "2026-02-11T03:00:01.000Z",
+        data: { totalCost: 1, cost: 1 },
+      });
+
+      const since = "2026-02-11T00:00:00.000Z";
+      expect(await store.sumSpendSince(since)).toBeCloseTo(1.75);
+      expect(await store.sumSpendSince(since, "chat-a")).toBeCloseTo(0.75);
+      expect(await store.sumSpendSince(since, "chat-z")).toBe(0);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  test("aggregates finished turns by tier, model and topic", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      const finish = (
+        key: string,
+        timestamp: string,
+        data: Record<string, unknown>,
+        eventType: "turn_completed" | "turn_failed" = "turn_completed",
+      ) =>
+        store.insertTurnEvent({
+          turnId: crypto.randomUUID(),
+          sessionKey: key,
+          eventType,
+          timestamp,
+          data,
+        });
+      const t2 = (cost: number) => ({
+        model: "openrouter/auto",
+        totalInputTokens: 1000,
+        totalOutputTokens: 200,
+        totalCost: cost,
+      });
+      await finish("chat-u:root", "2026-02-10T12:00:00.000Z", t2(9));
+      await finish("chat-u:root", "2026-02-11T12:00:00.000Z", t2(0.4));
+      await finish(
+        "chat-u:7",
+        "2026-02-11T13:00:00.000Z",
+        t2(0.1),
+        "turn_failed",
+      );
+      await finish("chat-u:7", "2026-02-11T14:00:00.000Z", {
+        tier: "t1",
+        model: "qwen2.5:14b",
+        totalInputTokens: 300,
+        totalOutputTokens: 100,
+        totalCost: 0,
+      });
+      await finish("chat-other:root", "2026-02-11T15:00:00.000Z", t2(2));
+
+      const since = "2026-02-11T00:00:00.000Z";
+      expect(await store.summarizeUsage(since, "chat-u")).toEqual({
+        turns: 3,
+        inputTokens: 2300,
+        outputTokens: 500,
+        cost: 0.5,
+      });
+      expect((await store.summarizeUsage(since)).turns).toBe(4);
+
+      const tiers = await store.listUsageBreakdown("tier", since, {
+        chatId: "chat-u",
+      });
+      expect(tiers.map((b) => [b.key, b.turns])).toEqual([
+        ["t2", 2],
+        ["t1", 1],
+      ]);
+
+      const topics = await store.listUsageBreakdown("topic", since, {
+        limit: 2,
+      });
+      expect(topics.map((b) => b.key)).toEqual([
+        "chat-other:root",
+        "chat-u:root",
+      ]);
+
+      const models = await store.listUsageBreakdown("model", since);
+      expect(models[0]).toMatchObject({ key: "openrouter/auto", turns: 3 });
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore work items", () => {
+  test("creates, reads and transitions a work item", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.createWorkItem({
+        id: "wi-1",
+        topicKey: "chat-w:root",
+        chatId: "chat-w",
+        threadId: null,
+        status: "pending_approval",
+        requestText: "push the branch",
+        proposalText: "I will push feature/x",
+        createdAt: "2026-02-12T01:00:00.000Z",
+        updatedAt: "2026-02-12T01:00:00.000Z",
+      });
+
+      const created = await store.getWorkItem("wi-1");
+      expect(created?.status).toBe("pending_approval");
+      expect(created?.proposalText).toBe("I will push feature/x");
+      expect(created?.threadId).toBeNull();
+
+      const approved = await store.updateWorkItemStatus(
+        "wi-1",
+        "approved",
+        "2026-02-12T01:01:00.000Z",
+        "pending_approval",
+      );
+      expect(approved).toBe(true);
+
+      // Guarded transition from a status the item has already left is a no-op
+      const deniedLate = await store.updateWorkItemStatus(
+        "wi-1",
+        "denied",
+        "2026-02-12T01:02:00.000Z",
+        "pending_approval",
+      );
+      expect(deniedLate).toBe(false);
+
+      const current = await store.getWorkItem("wi-1");
+      expect(current?.status).toBe("approved");
+      expect(current?.updatedAt).toBe("2026-02-12T01:01:00.000Z");
+
+      expect(await store.getWorkItem("wi-missing")).toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+
+  test("lists work items by status, oldest first", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      for (const [id, status, updatedAt] of [
+        ["wi-b", "running", "2026-02-12T02:00:00.000Z"],
+        ["wi-a", "running", "2026-02-12T01:00:00.000Z"],
+        ["wi-c", "completed", "2026-02-12T00:30:00.000Z"],
+      ] as const) {
+        await store.createWorkItem({
+          id,
+          topicKey: "chat-1:root",
+          chatId: "chat-1",
+          threadId: null,
+          status,
+          requestText: `request ${id}`,
+          proposalText: null,
+          createdAt: updatedAt,
+          updatedAt,
+        });
+      }
+
+      const running = await store.listWorkItemsByStatus("running");
+      expect(running.map((item) => item.id)).toEqual(["wi-a", "wi-b"]);
+      expect(await store.listWorkItemsByStatus("interrupted")).toEqual([]);
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore conversation turns", () => {
+  test("lists the most recent turns oldest first and clears per session", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.appendConversationTurns("chat-1:root", [
+        {
+          role: "user",
+          text: "write a haiku",
+          tier: null,
+          createdAt: "2026-02-12T00:00:00.000Z",
+        },
+        {
+          role: "assistant",
+          text: "autumn moonlight",
+          tier: "t1",
+          createdAt: "2026-02-12T00:00:01.000Z",
+        },
+        {
+          role: "user",
+          text: "make it shorter",
+          tier: null,
+          createdAt: "2026-02-12T00:01:00.000Z",
+        },
+      ]);
+      await store.appendConversationTurns("chat-2:root", [
+        {
+          role: "user",
+          text: "other topic",
+          tier: null,
+          createdAt: "2026-02-12T00:00:00.000Z",
+        },
+      ]);
+
+      const recent = await store.listConversationTurns("chat-1:root", 2);
+      expect(recent.map((turn) => turn.text)).toEqual([
+        "autumn moonlight",
+        "make it shorter",
+      ]);
+      expect(recent[0]?.tier).toBe("t1");
+
+      await store.clearConversationTurns("chat-1:root");
+      expect(await store.listConversationTurns("chat-1:root", 10)).toEqual([]);
+      expect(await store.listConversationTurns("chat-2:root", 10)).toHaveLength(
+        1,
+      );
+    } finally {
+      await cleanup();
+    }
+  });
+
+  test("prunes turns beyond the per-session cap", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.appendConversationTurns(
+        "chat-1:root",
+        Array.from({ length: 60 }, (_, i) => ({
+          role: "user" as const,
+          text: `turn ${i}`,
+          tier: null,
+          createdAt: "2026-02-12T00:00:00.000Z",
+        })),
+      );
+
+      const turns = await store.listConversationTurns("chat-1:root", 100);
+      expect(turns).toHaveLength(50);
+      expect(turns[0]?.text).toBe("turn 10");
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore model session state", () => {
+  test("upserts, loads and deletes state per session", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      expect(await store.loadModelSessionState("chat-1:root")).toBeNull();
+
+      await store.saveModelSessionState(
+        "chat-1:root",
+        '{"version":1,"messages":[]}',
+        "2026-02-12T00:00:00.000Z",
+      );
+      await store.saveModelSessionState(
+        "chat-1:root",
+        '{"version":1,"messages":[{"role":"user"}]}',
+        "2026-02-12T00:01:00.000Z",
+      );
+      await store.saveModelSessionState(
+        "chat-2:root",
+        '{"version":1,"messages":[]}',
+        "2026-02-12T00:00:00.000Z",
+      );
+
+      expect(await store.loadModelSessionState("chat-1:root")).toBe(
+        '{"version":1,"messages":[{"role":"user"}]}',
+      );
+
+      await store.deleteModelSessionState("chat-1:root");
+      expect(await store.loadModelSessionState("chat-1:root")).toBeNull();
+      expect(await store.loadModelSessionState("chat-2:root")).not.toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore schedules", () => {
+  const schedule = (id: string, chatId: string, nextRunAt: string) => ({
+    id,
+    topicKey: `${chatId}:root`,
+    chatId,
+    threadId: null,
+    recurrence: "every day at 08:00",
+    taskText: `task ${id}`,
+    nextRunAt,
+    lastRunAt: null,
+    createdAt: "2026-02-10T00:00:00.000Z",
+    createdBy: "2002",
+    creatorRole: "member" as const,
+  });
+
+  test("lists by chat and finds due schedules", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.createSchedule(
+        schedule("s-late", "chat-s", "2026-02-12T08:00:00.000Z"),
+      );
+      await store.createSchedule(
+        schedule("s-due", "chat-s", "2026-02-11T08:00:00.000Z"),
+      );
+      await store.createSchedule(
+        schedule("s-other", "chat-o", "2026-02-11T07:00:00.000Z"),
+      );
+
+      expect((await store.listSchedules("chat-s")).map((s) => s.id)).toEqual([
+        "s-due",
+        "s-late",
+      ]);
+      const due = await store.listDueSchedules("2026-02-11T09:00:00.000Z");
+      expect(due.map((s) => s.id)).toEqual(["s-other", "s-due"]);
+      expect(due[1]).toEqual(
+        schedule("s-due", "chat-s", "2026-02-11T08:00:00.000Z"),
+      );
+    } finally {
+      await cleanup();
+    }
+  });
+
+  test("advances a run only once and deletes within the owning chat", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.createSchedule(
+        schedule("s-1", "chat-s", "2026-02-11T08:00:00.000Z"),
+      );
+      const advance = () =>
+        store.advanceSchedule(
+          "s-1",
+          "2026-02-11T08:00:00.000Z",
+          "2026-02-11T08:00:05.000Z",
+          "2026-02-12T08:00:00.000Z",
+        );
+      expect(await advance()).toBe(true);
+      expect(await advance()).toBe(false);
+      const [stored] = await store.listSchedules("chat-s");
+      expect(stored?.lastRunAt).toBe("2026-02-11T08:00:05.000Z");
+      expect(stored?.nextRunAt).toBe("2026-02-12T08:00:00.000Z");
+
+      expect(await store.deleteSchedule("s-1", "chat-other")).toBe(false);
+      expect(await store.deleteSchedule("s-1", "chat-s")).toBe(true);
+      expect(await store.listSchedules("chat-s")).toEqual([]);
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore reminders", () => {
+  const reminder = (id: string, dueAt: string) => ({
+    id,
+    chatId: "chat-r",
+    threadId: "5",
+    text: `reminder ${id}`,
+    dueAt,
+    createdAt: "2026-02-10T00:00:00.000Z",
+    deliveredAt: null,
+    attempts: 0,
+    lastError: null,
+    failedAt: null,
+  });
+
+  test("lists undelivered due reminders until they are delivered", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.createReminder(
+        reminder("r-late", "2026-02-11T10:00:00.000Z"),
+      );
+      await store.createReminder(reminder("r-due", "2026-02-11T08:00:00.000Z"));
+
+      const due = await store.listDueReminders("2026-02-11T09:00:00.000Z");
+      expect(due).toEqual([reminder("r-due", "2026-02-11T08:00:00.000Z")]);
+
+      await store.markReminderDelivered("r-due", "2026-02-11T09:00:01.000Z");
+      expect(await store.listDueReminders("2026-02-11T11:00:00.000Z")).toEqual([
+        reminder("r-late", "2026-02-11T10:00:00.000Z"),
+      ]);
+    } finally {
+      await cleanup();
+    }
+  });
+
+  test("counts failed sends and stops listing a reminder once it fails for good", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.createReminder(reminder("r-1", "2026-02-11T08:00:00.000Z"));
+
+      await store.recordReminderFailure("r-1", "timeout", null);
+      expect(await store.listDueReminders("2026-02-11T09:00:00.000Z")).toEqual([
+        {
+          ...reminder("r-1", "2026-02-11T08:00:00.000Z"),
+          attempts: 1,
+          lastError: "timeout",
+        },
+      ]);
+
+      await store.recordReminderFailure(
+        "r-1",
+        "chat not found",
+        "2026-02-11T09:00:00.000Z",
+      );
+      expect(await store.listDueReminders("2026-02-11T09:00:00.000Z")).toEqual(
+        [],
+      );
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore access grants", () => {
+  test("upserts, lists and deletes grants, keeping labels on role changes", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.upsertAccessGrant({
+        kind: "chat",
+        subjectId: "-100",
+        role: "pending",
+        label: "Team room",
+        updatedAt: "2026-02-11T08:00:00.000Z",
+      });
+      await store.upsertAccessGrant({
+        kind: "user",
+        subjectId: "42",
+        role: "blocked",
+        label: null,
+        updatedAt: "2026-02-11T08:05:00.000Z",
+      });
+      await store.upsertAccessGrant({
+        kind: "chat",
+        subjectId: "-100",
+        role: "member",
+        label: null,
+        updatedAt: "2026-02-11T09:00:00.000Z",
+      });
+
+      expect(await store.getAccessGrant("chat", "-100")).toEqual({
+        kind: "chat",
+        subjectId: "-100",
+        role: "member",
+        label: "Team room",
+        updatedAt: "2026-02-11T09:00:00.000Z",
+      });
+      expect(await store.getAccessGrant("user", "-100")).toBeNull();
+      expect(
+        (await store.listAccessGrants()).map((grant) => grant.subjectId),
+      ).toEqual(["-100", "42"]);
+
+      expect(await store.deleteAccessGrant("user", "42")).toBe(true);
+      expect(await store.deleteAccessGrant("user", "42")).toBe(false);
+      expect(await store.listAccessGrants()).toHaveLength(1);
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore topic tool profiles", () => {
+  test("stores one profile per topic and replaces it on change", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      expect(await store.getTopicToolProfile("chat-a:root")).toBeNull();
+
+      await store.setTopicToolProfile(
+        "chat-a:root",
+        "research",
+        "2026-02-12T08:00:00.000Z",
+      );
+      await store.setTopicToolProfile(
+        "chat-a:root",
+        "readonly-code",
+        "2026-02-12T09:00:00.000Z",
+      );
+
+      expect(await store.getTopicToolProfile("chat-a:root")).toBe(
+        "readonly-code",
+      );
+      expect(await store.getTopicToolProfile("chat-a:42")).toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe("SqliteSessionStore chat update inbox", () => {
+  test("keeps the first copy of an update until the cursor passes it", async () => {
+    const { store, cleanup } = await buildStore();
+
+    try {
+      await store.saveChatUpdate(
+        8,
+        '{"update_id":8}',
+        "2026-02-12T08:00:00.000Z",
+      );
+      await store.saveChatUpdate(
+        7,
+        '{"update_id":7}',
+        "2026-02-12T08:00:01.000Z",
+      );
+      await store.saveChatUpdate(
+        8,
+        '{"update_id":8,"retry":true}',
+        "2026-02-12T08:00:02.000Z",
+      );
+
+      expect(await store.listChatUpdates(null)).toEqual([
+        { updateId: 7, payload: '{"update_id":7}' },
+        { updateId: 8, payload: '{"update_id":8}' },
+      ]);
+      expect(await store.listChatUpdates(8)).toEqual([
+        { updateId: 8, payload: '{"update_id":8}' },
+      ]);
+
+      await store.deleteChatUpdatesBefore(8);
+      expect(await store.listChatUpdates(null)).toEqual([
+        { updateId: 8, payload: '{"update_id":8}' },
+      ]);
+    } finally {
+      await cleanup();
+    }
+  });
 });
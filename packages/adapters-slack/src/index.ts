@@ -0,0 +1,565 @@
+import { basename } from "node:path";
+import {
+  ChatDeliveryError,
+  type InboundAttachment,
+  type InboundCallback,
+  type InboundMessage,
+  type InlineButton,
+  type MessageEdit,
+  type OutboundDocument,
+  type OutboundMessage,
+} from "@delegate/domain";
+import type {
+  ChatPort,
+  ChatUpdate,
+  ChatUpdateInboxPort,
+  DownloadedFile,
+} from "@delegate/ports";
+
+export type SlackAdapterConfig = {
+  /** Bot token (xoxb-...) for the Web API. */
+  botToken: string;
+  /** App-level token (xapp-...) with `connections:write`, for Socket Mode. */
+  appToken: string;
+  /** Web API base URL. Default: https://slack.com/api */
+  apiBaseUrl?: string;
+  /** How long receiveUpdates waits for an event before returning none. Default: 20000 */
+  waitMs?: number;
+};
+
+/**
+ * Longest text sent in one message. Slack accepts more in `text`, but a
+ * section block (used whenever a message carries buttons) caps at 3000.
+ */
+export const SLACK_MAX_MESSAGE_LENGTH = 3000;
+
+const DEFAULT_API_BASE_URL = "https://slack.com/api";
+const DEFAULT_WAIT_MS = 20_000;
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+// Slack redelivers envelopes it thinks went unacknowledged
+const SEEN_EVENT_LIMIT = 500;
+
+type SlackFile = {
+  id: string;
+  name?: string;
+  mimetype?: string;
+  size?: number;
+  url_private_download?: string;
+};
+
+type SlackMessageEvent = {
+  type: string;
+  subtype?: string;
+  channel?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+  files?: SlackFile[];
+};
+
+type SlackBlockActionsPayload = {
+  type: "block_actions";
+  channel?: { id: string };
+  user?: { id: string };
+  message?: { ts: string; thread_ts?: string };
+  actions?: Array<{ action_id: string; value?: string; action_ts?: string }>;
+};
+
+type SocketEnvelope = {
+  type: string;
+  envelope_id?: string;
+  payload?: {
+    event_id?: string;
+    event?: SlackMessageEvent;
+  } & Partial<SlackBlockActionsPayload>;
+};
+
+type SlackApiResponse = {
+  ok: boolean;
+  error?: string;
+  [key: string]: unknown;
+};
+
+/** Slack errors that a later call may not get; every other failure is permanent. */
+const TRANSIENT_ERRORS = new Set([
+  "ratelimited",
+  "internal_error",
+  "fatal_error",
+  "service_unavailable",
+  "request_timeout",
+  "429",
+]);
+
+/** Message subtypes that still carry a user's request. */
+const USER_MESSAGE_SUBTYPES = new Set([
+  undefined,
+  "file_share",
+  "thread_broadcast",
+]);
+
+/**
+ * Structured error for Slack Web API failures. Slack answers most failures
+ * with HTTP 200 and `ok: false`, so `code` is Slack's error string, or the
+ * HTTP status when the request itself failed.
+ */
+export class SlackApiError extends ChatDeliveryError {
+  readonly code: string;
+
+  constructor(method: string, code: string) {
+    super(
+      `Slack ${method} failed: ${code}`,
+      method,
+      code === "thread_not_found",
+      { permanent: !TRANSIENT_ERRORS.has(code) && !/^5\d\d$/.test(code) },
+    );
+    this.name = "SlackApiError";
+    this.code = code;
+  }
+}
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+
+/** Slack `ts` values are epoch seconds with microseconds, e.g. "1760000000.000100". */
+const tsToIso = (ts: string | undefined): string =>
+  ts ? new Date(Number(ts) * 1000).toISOString() : new Date().toISOString();
+
+const toBlocks = (text: string, buttons: InlineButton[][]): unknown[] => [
+  { type: "section", text: { type: "mrkdwn", text } },
+  ...buttons.map((row, rowIndex) => ({
+    type: "actions",
+    elements: row.map((button, index) => ({
+      type: "button",
+      action_id: `button_${rowIndex}_${index}`,
+      text: { type: "plain_text", text: button.label },
+      value: button.data,
+    })),
+  })),
+];
+
+/**
+ * Slack over Socket Mode: events arrive on a WebSocket opened with the app
+ * token, so no public URL is needed. Each event is stored in the inbox before
+ * it is acknowledged, and the worker drains the inbox through
+ * `receiveUpdates`. Channels map to `chatId` and thread timestamps to
+ * `threadId`; messages sent with a `threadId` reply in that thread.
+ */
+export class SlackSocketModeAdapter implements ChatPort {
+  readonly maxMessageLength = SLACK_MAX_MESSAGE_LENGTH;
+  private readonly apiBaseUrl: string;
+  private readonly seenEvents = new Set<string>();
+  private lastUpdateId = 0;
+  /** Bumped on every stored event, so a receive never sleeps past one. */
+  private arrivals = 0;
+  private wakeReceiver: (() => void) | null = null;
+  private botUserId: string | null = null;
+  private socket: WebSocket | null = null;
+  private stopped = false;
+  private reconnectAttempts = 0;
+
+  constructor(
+    private readonly config: SlackAdapterConfig,
+    private readonly inbox: ChatUpdateInboxPort,
+  ) {
+    this.apiBaseUrl = (config.apiBaseUrl ?? DEFAULT_API_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+  }
+
+  /**
+   * Look up the bot's own user id, then open the Socket Mode connection. A
+   * failure is retried with backoff like a dropped connection, so a Slack
+   * outage at startup never stops the worker.
+   */
+  async connect(): Promise<void> {
+    this.stopped = false;
+    try {
+      await this.establish();
+    } catch (error) {
+      this.logConnectFailed(error);
+      this.scheduleReconnect();
+    }
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Handle one Socket Mode frame. Returns the acknowledgement to send back,
+   * or null when the frame needs none. Slack redelivers an unacknowledged
+   * event, so one that fails to store gets no acknowledgement.
+   */
+  async handleEnvelope(raw: string): Promise<string | null> {
+    let envelope: SocketEnvelope;
+    try {
+      envelope = JSON.parse(raw) as SocketEnvelope;
+    } catch {
+      return null;
+    }
+
+    if (envelope.type === "disconnect") {
+      // Slack is rotating the connection; the close handler reconnects
+      this.socket?.close();
+      return null;
+    }
+    if (!envelope.envelope_id) {
+      return null;
+    }
+    const ack = JSON.stringify({ envelope_id: envelope.envelope_id });
+
+    const eventId = envelope.payload?.event_id;
+    if (eventId && this.seenEvents.has(eventId)) {
+      return ack;
+    }
+
+    const inbound =
+      envelope.type === "events_api" && envelope.payload?.event
+        ? this.mapMessage(envelope.payload.event)
+        : envelope.type === "interactive" &&
+            envelope.payload?.type === "block_actions"
+          ? this.mapBlockAction(envelope.payload as SlackBlockActionsPayload)
+          : null;
+    if (inbound) {
+      // Slack events carry no sequence number; numbering them from the clock
+      // keeps ids rising across restarts without knowing the worker's cursor
+      const updateId = Math.max(Date.now(), this.lastUpdateId + 1);
+      this.lastUpdateId = updateId;
+      try {
+        await this.inbox.saveChatUpdate(
+          updateId,
+          JSON.stringify(inbound),
+          new Date().toISOString(),
+        );
+      } catch (error) {
+        console.warn(
+          JSON.stringify({
+            level: "warn",
+            event: "slack.event.store_failed",
+            error: String(error),
+          }),
+        );
+        return null;
+      }
+      this.arrivals += 1;
+      this.wakeReceiver?.();
+    }
+    if (eventId) {
+      this.rememberEvent(eventId);
+    }
+    return ack;
+  }
+
+  /**
+   * The cursor is the first id not yet processed. Events below it are
+   * dropped from the inbox; the rest are returned oldest first.
+   */
+  async receiveUpdates(cursor: number | null): Promise<ChatUpdate[]> {
+    if (cursor !== null) {
+      await this.inbox.deleteChatUpdatesBefore(cursor);
+    }
+    const arrivals = this.arrivals;
+    let stored = await this.inbox.listChatUpdates(cursor);
+    if (stored.length === 0 && arrivals === this.arrivals) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(
+          resolve,
+          this.config.waitMs ?? DEFAULT_WAIT_MS,
+        );
+        this.wakeReceiver = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wakeReceiver = null;
+    }
+    if (stored.length === 0) {
+      stored = await this.inbox.listChatUpdates(cursor);
+    }
+    return stored.map(({ updateId, payload }): ChatUpdate => {
+      const inbound = JSON.parse(payload) as InboundMessage | InboundCallback;
+      return "callbackId" in inbound
+        ? { updateId, callback: inbound }
+        : { updateId, message: inbound };
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<void> {
+    await this.postMessage(message);
+  }
+
+  async sendEditable(message: OutboundMessage): Promise<string> {
+    return this.postMessage(message);
+  }
+
+  async editMessage(edit: MessageEdit): Promise<void> {
+    await this.call("chat.update", {
+      channel: edit.chatId,
+      ts: edit.messageId,
+      text: edit.text,
+    });
+  }
+
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    await this.call("chat.delete", { channel: chatId, ts: messageId });
+  }
+
+  async sendDocument(document: OutboundDocument): Promise<void> {
+    const file = Bun.file(document.path);
+    const data = await file.arrayBuffer();
+    const fileName = basename(document.path);
+
+    const target = await this.call("files.getUploadURLExternal", {
+      filename: fileName,
+      length: String(data.byteLength),
+    });
+    const uploadUrl = target.upload_url;
+    const fileId = target.file_id;
+    if (typeof uploadUrl !== "string" || typeof fileId !== "string") {
+      throw new SlackApiError(
+        "files.getUploadURLExternal",
+        "missing_upload_url",
+      );
+    }
+
+    const upload = await fetch(uploadUrl, {
+      method: "POST",
+      body: new Blob([data], { type: file.type }),
+    });
+    if (!upload.ok) {
+      throw new SlackApiError("files.upload", String(upload.status));
+    }
+
+    await this.call("files.completeUploadExternal", {
+      files: JSON.stringify([{ id: fileId, title: fileName }]),
+      channel_id: document.chatId,
+      ...(document.threadId ? { thread_ts: document.threadId } : {}),
+      ...(document.caption ? { initial_comment: document.caption } : {}),
+    });
+  }
+
+  async downloadFile(fileId: string): Promise<DownloadedFile> {
+    const info = await this.call("files.info", { file: fileId });
+    const file = info.file as SlackFile | undefined;
+    if (!file?.url_private_download) {
+      throw new SlackApiError("files.info", "missing_download_url");
+    }
+
+    const download = await fetch(file.url_private_download, {
+      headers: { authorization: `Bearer ${this.config.botToken}` },
+    });
+    if (!download.ok) {
+      throw new SlackApiError("downloadFile", String(download.status));
+    }
+
+    return {
+      data: new Uint8Array(await download.arrayBuffer()),
+      fileName: file.name ?? fileId,
+    };
+  }
+
+  private async postMessage(message: OutboundMessage): Promise<string> {
+    const result = await this.call("chat.postMessage", {
+      channel: message.chatId,
+      text: message.text,
+      ...(message.threadId ? { thread_ts: message.threadId } : {}),
+      ...(message.buttons && message.buttons.length > 0
+        ? { blocks: JSON.stringify(toBlocks(message.text, message.buttons)) }
+        : {}),
+    });
+    if (typeof result.ts !== "string") {
+      throw new SlackApiError("chat.postMessage", "missing_ts");
+    }
+    return result.ts;
+  }
+
+  /** Call a Web API method with form-encoded arguments, as every method accepts. */
+  private async call(
+    method: string,
+    args: Record<string, string>,
+    token: string = this.config.botToken,
+  ): Promise<SlackApiResponse> {
+    const response = await fetch(`${this.apiBaseUrl}/${method}`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}` },
+      body: new URLSearchParams(args),
+    });
+
+    if (!response.ok) {
+      throw new SlackApiError(method, String(response.status));
+    }
+
+    const decoded = (await response.json()) as SlackApiResponse;
+    if (!decoded.ok) {
+      throw new SlackApiError(method, decoded.error ?? "unknown_error");
+    }
+    return decoded;
+  }
+
+  private async establish(): Promise<void> {
+    if (this.botUserId === null) {
+      const auth = await this.call("auth.test", {});
+      this.botUserId = typeof auth.user_id === "string" ? auth.user_id : null;
+    }
+    await this.openSocket();
+  }
+
+  private async openSocket(): Promise<void> {
+    const opened = await this.call(
+      "apps.connections.open",
+      {},
+      this.config.appToken,
+    );
+    if (typeof opened.url !== "string") {
+      throw new SlackApiError("apps.connections.open", "missing_url");
+    }
+
+    const socket = new WebSocket(opened.url);
+    socket.addEventListener("open", () => {
+      this.reconnectAttempts = 0;
+      console.log(
+        JSON.stringify({ level: "info", event: "slack.socket.connected" }),
+      );
+    });
+    socket.addEventListener("message", (event) => {
+      void this.handleEnvelope(String(event.data)).then((ack) => {
+        if (ack && socket.readyState === WebSocket.OPEN) {
+          socket.send(ack);
+        }
+      });
+    });
+    socket.addEventListener("close", () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    });
+    this.socket = socket;
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS,
+    );
+    this.reconnectAttempts += 1;
+    console.warn(
+      JSON.stringify({
+        level: "warn",
+        event: "slack.socket.reconnecting",
+        delayMs: delay,
+      }),
+    );
+    setTimeout(() => {
+      if (this.stopped) {
+        return;
+      }
+      this.establish().catch((error) => {
+        this.logConnectFailed(error);
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+
+  private rememberEvent(eventId: string): void {
+    this.seenEvents.add(eventId);
+    if (this.seenEvents.size > SEEN_EVENT_LIMIT) {
+      const oldest = this.seenEvents.values().next().value;
+      if (oldest !== undefined) {
+        this.seenEvents.delete(oldest);
+      }
+    }
+  }
+
+  private logConnectFailed(error: unknown): void {
+    console.warn(
+      JSON.stringify({
+        level: "warn",
+        event: "slack.socket.connect_failed",
+        error: String(error),
+      }),
+    );
+  }
+
+  private mapMessage(event: SlackMessageEvent): InboundMessage | null {
+    if (
+      event.type !== "message" ||
+      !USER_MESSAGE_SUBTYPES.has(event.subtype) ||
+      event.bot_id ||
+      !event.channel ||
+      !event.ts ||
+      (this.botUserId !== null && event.user === this.botUserId)
+    ) {
+      return null;
+    }
+    // Outside direct messages the bot answers only when mentioned, not to every line
+    if (
+      !event.channel.startsWith("D") &&
+      (this.botUserId === null ||
+        !(event.text ?? "").includes(`<@${this.botUserId}>`))
+    ) {
+      return null;
+    }
+    const attachments = this.mapAttachments(event.files ?? []);
+    // Mentioning the bot is how channels address it; the mention is noise to the model
+    const text = decodeEntities(event.text ?? "")
+      .replace(/<@[A-Z0-9]+>/g, (mention) =>
+        this.botUserId && mention === `<@${this.botUserId}>` ? "" : mention,
+      )
+      .trim();
+    if (!text && attachments.length === 0) {
+      return null;
+    }
+
+    return {
+      chatId: event.channel,
+      threadId: event.thread_ts ?? null,
+      text,
+      receivedAt: tsToIso(event.ts),
+      sourceMessageId: event.ts,
+      // A mention renders as the user's name wherever the label is shown
+      ...(event.user
+        ? { userId: event.user, userName: `<@${event.user}>` }
+        : {}),
+      ...(attachments.length > 0 ? { attachments } : {}),
+    };
+  }
+
+  private mapBlockAction(
+    payload: SlackBlockActionsPayload,
+  ): InboundCallback | null {
+    const action = payload.actions?.[0];
+    if (!action?.value || !payload.channel || !payload.message) {
+      return null;
+    }
+
+    return {
+      callbackId:
+        action.action_ts ?? `${payload.message.ts}:${action.action_id}`,
+      chatId: payload.channel.id,
+      threadId: payload.message.thread_ts ?? null,
+      data: action.value,
+      receivedAt: tsToIso(action.action_ts),
+      sourceMessageId: payload.message.ts,
+      ...(payload.user ? { userId: payload.user.id } : {}),
+    };
+  }
+
+  private mapAttachments(files: SlackFile[]): InboundAttachment[] {
+    return files.map((file) => ({
+      kind: file.mimetype?.startsWith("image/") ? "photo" : "document",
+      fileId: file.id,
+      fileName: file.name ?? null,
+      mimeType: file.mimetype ?? null,
+      sizeBytes: file.size ?? null,
+    }));
+  }
+}
@@ -0,0 +1,395 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import type { StoredChatUpdate } from "@delegate/domain";
+import type { ChatUpdateInboxPort } from "@delegate/ports";
+import type { ServerWebSocket } from "bun";
+import { SlackApiError, SlackSocketModeAdapter } from "../src/index";
+
+type CapturedCall = {
+  method: string;
+  authorization: string | null;
+  fields: Record<string, string>;
+};
+
+const calls: CapturedCall[] = [];
+const acks: string[] = [];
+let apiResponses: Record<string, unknown> = {};
+let sockets: ServerWebSocket<unknown>[] = [];
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(request, srv) {
+    const path = new URL(request.url).pathname;
+    if (path === "/socket") {
+      return srv.upgrade(request)
+        ? undefined
+        : new Response("upgrade failed", { status: 400 });
+    }
+    const method = path.replace(/^\/api\//, "");
+    calls.push({
+      method,
+      authorization: request.headers.get("authorization"),
+      fields: Object.fromEntries(new URLSearchParams(await request.text())),
+    });
+    if (method === "apps.connections.open") {
+      return Response.json({
+        ok: true,
+        url: `ws://127.0.0.1:${srv.port}/socket`,
+      });
+    }
+    return Response.json(apiResponses[method] ?? { ok: true, ts: "1.0001" });
+  },
+  websocket: {
+    open(ws) {
+      sockets.push(ws);
+    },
+    message(_ws, message) {
+      acks.push(String(message));
+    },
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+class MemoryInbox implements ChatUpdateInboxPort {
+  readonly updates = new Map<number, string>();
+
+  async saveChatUpdate(updateId: number, payload: string): Promise<void> {
+    if (!this.updates.has(updateId)) {
+      this.updates.set(updateId, payload);
+    }
+  }
+
+  async listChatUpdates(
+    fromUpdateId: number | null,
+  ): Promise<StoredChatUpdate[]> {
+    return [...this.updates]
+      .filter(([updateId]) => fromUpdateId === null || updateId >= fromUpdateId)
+      .sort(([a], [b]) => a - b)
+      .map(([updateId, payload]) => ({ updateId, payload }));
+  }
+
+  async deleteChatUpdatesBefore(updateId: number): Promise<void> {
+    for (const id of this.updates.keys()) {
+      if (id < updateId) {
+        this.updates.delete(id);
+      }
+    }
+  }
+}
+
+const buildAdapter = (inbox: ChatUpdateInboxPort = new MemoryInbox()) =>
+  new SlackSocketModeAdapter(
+    {
+      botToken: "xoxb-test",
+      appToken: "xapp-test",
+      apiBaseUrl: `http://127.0.0.1:${server.port}/api`,
+      waitMs: 20,
+    },
+    inbox,
+  );
+
+const reset = () => {
+  calls.length = 0;
+  acks.length = 0;
+  apiResponses = {};
+  sockets = [];
+};
+
+const messageEnvelope = (
+  envelopeId: string,
+  event: Record<string, unknown>,
+  eventId = `Ev${envelopeId}`,
+) =>
+  JSON.stringify({
+    type: "events_api",
+    envelope_id: envelopeId,
+    payload: { event_id: eventId, event: { type: "message", ...event } },
+  });
+
+const waitFor = async (check: () => boolean): Promise<void> => {
+  const deadline = Date.now() + 2_000;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error("timed out");
+    }
+    await Bun.sleep(10);
+  }
+};
+
+describe("SlackSocketModeAdapter", () => {
+  test("acknowledges socket events and maps channel thread messages", async () => {
+    reset();
+    apiResponses["auth.test"] = { ok: true, user_id: "UBOT" };
+    const adapter = buildAdapter();
+    await adapter.connect();
+    await waitFor(() => sockets.length === 1);
+
+    expect(calls.map((call) => [call.method, call.authorization])).toEqual([
+      ["auth.test", "Bearer xoxb-test"],
+      ["apps.connections.open", "Bearer xapp-test"],
+    ]);
+
+    const receiving = adapter.receiveUpdates(null);
+    sockets[0]!.send(
+      messageEnvelope("env-1", {
+        channel: "C123",
+        user: "U1",
+        text: "<@UBOT> summarize &lt;this&gt; for <@U2>",
+        ts: "1760000000.000200",
+        thread_ts: "1760000000.000100",
+      }),
+    );
+    const updates = await receiving;
+    await waitFor(() => acks.length === 1);
+    adapter.disconnect();
+
+    expect(acks).toEqual([JSON.stringify({ envelope_id: "env-1" })]);
+    expect(updates).toEqual([
+      {
+        updateId: expect.any(Number),
+        message: {
+          chatId: "C123",
+          threadId: "1760000000.000100",
+          text: "summarize <this> for <@U2>",
+          receivedAt: new Date(1760000000000.2).toISOString(),
+          sourceMessageId: "1760000000.000200",
+          userId: "U1",
+          userName: "<@U1>",
+        },
+      },
+    ]);
+  });
+
+  test("keeps retrying when Slack is unreachable at startup", async () => {
+    reset();
+    apiResponses["auth.test"] = { ok: false, error: "service_unavailable" };
+    const adapter = buildAdapter();
+
+    await adapter.connect();
+    expect(sockets).toHaveLength(0);
+    apiResponses["auth.test"] = { ok: true, user_id: "UBOT" };
+    await waitFor(() => sockets.length === 1);
+    adapter.disconnect();
+
+    expect(calls.map((call) => call.method)).toEqual([
+      "auth.test",
+      "auth.test",
+      "apps.connections.open",
+    ]);
+  });
+
+  test("skips bot messages and redelivered events", async () => {
+    const adapter = buildAdapter();
+
+    expect(
+      await adapter.handleEnvelope(
+        messageEnvelope("env-2", {
+          channel: "C1",
+          bot_id: "B1",
+          text: "my own reply",
+          ts: "1.1",
+        }),
+      ),
+    ).toBe(JSON.stringify({ envelope_id: "env-2" }));
+    await adapter.handleEnvelope(
+      messageEnvelope("env-3", { channel: "D1", text: "hi", ts: "1.2" }, "Ev9"),
+    );
+    await adapter.handleEnvelope(
+      messageEnvelope("env-4", { channel: "D1", text: "hi", ts: "1.2" }, "Ev9"),
+    );
+    await adapter.handleEnvelope(
+      messageEnvelope("env-5", {
+        channel: "C1",
+        subtype: "message_changed",
+        text: "edit",
+        ts: "1.3",
+      }),
+    );
+
+    const updates = await adapter.receiveUpdates(null);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ message: { text: "hi" } });
+  });
+
+  test("answers channel messages only when the bot is mentioned", async () => {
+    reset();
+    apiResponses["auth.test"] = { ok: true, user_id: "UBOT" };
+    const adapter = buildAdapter();
+    await adapter.connect();
+    adapter.disconnect();
+
+    await adapter.handleEnvelope(
+      messageEnvelope("env-10", { channel: "C1", text: "lunch?", ts: "2.1" }),
+    );
+    await adapter.handleEnvelope(
+      messageEnvelope("env-11", {
+        channel: "C1",
+        text: "<@UBOT> status?",
+        ts: "2.2",
+      }),
+    );
+    await adapter.handleEnvelope(
+      messageEnvelope("env-12", { channel: "D1", text: "status?", ts: "2.3" }),
+    );
+
+    const updates = await adapter.receiveUpdates(null);
+    expect(updates.map((update) => update.message?.text)).toEqual([
+      "status?",
+      "status?",
+    ]);
+    expect(updates.map((update) => update.message?.chatId)).toEqual([
+      "C1",
+      "D1",
+    ]);
+  });
+
+  test("maps button presses and file shares", async () => {
+    const adapter = buildAdapter();
+
+    await adapter.handleEnvelope(
+      JSON.stringify({
+        type: "interactive",
+        envelope_id: "env-6",
+        payload: {
+          type: "block_actions",
+          channel: { id: "C1" },
+          user: { id: "U7" },
+          message: { ts: "5.0", thread_ts: "4.0" },
+          actions: [
+            { action_id: "button_0_0", value: "approve:w1", action_ts: "6.0" },
+          ],
+        },
+      }),
+    );
+    await adapter.handleEnvelope(
+      messageEnvelope("env-7", {
+        channel: "D1",
+        subtype: "file_share",
+        text: "",
+        ts: "7.0",
+        files: [
+          { id: "F1", name: "shot.png", mimetype: "image/png", size: 10 },
+        ],
+      }),
+    );
+
+    const updates = await adapter.receiveUpdates(null);
+    expect(updates).toHaveLength(2);
+    expect(updates[1]!.updateId).toBeGreaterThan(updates[0]!.updateId);
+    expect(updates[0]).toMatchObject({
+      callback: {
+        callbackId: "6.0",
+        chatId: "C1",
+        threadId: "4.0",
+        data: "approve:w1",
+        sourceMessageId: "5.0",
+        userId: "U7",
+      },
+    });
+    expect(updates[1]).toMatchObject({
+      message: {
+        chatId: "D1",
+        threadId: null,
+        attachments: [
+          {
+            kind: "photo",
+            fileId: "F1",
+            fileName: "shot.png",
+            mimeType: "image/png",
+            sizeBytes: 10,
+          },
+        ],
+      },
+    });
+  });
+
+  test("stores events before acknowledging them and keeps them across restarts", async () => {
+    const inbox = new MemoryInbox();
+    const saveChatUpdate = inbox.saveChatUpdate.bind(inbox);
+    inbox.saveChatUpdate = async () => {
+      throw new Error("disk full");
+    };
+    const event = { channel: "D1", user: "U1", text: "hi", ts: "1.2" };
+
+    const adapter = buildAdapter(inbox);
+    expect(
+      await adapter.handleEnvelope(messageEnvelope("env-8", event, "Ev8")),
+    ).toBeNull();
+    inbox.saveChatUpdate = saveChatUpdate;
+    // Slack redelivers the unacknowledged event
+    expect(
+      await adapter.handleEnvelope(messageEnvelope("env-9", event, "Ev8")),
+    ).toBe(JSON.stringify({ envelope_id: "env-9" }));
+    expect(inbox.updates.size).toBe(1);
+
+    const restarted = buildAdapter(inbox);
+    const [update] = await restarted.receiveUpdates(null);
+    expect(update).toMatchObject({ message: { chatId: "D1", text: "hi" } });
+
+    expect(await restarted.receiveUpdates(update!.updateId + 1)).toEqual([]);
+    expect(inbox.updates.size).toBe(0);
+  });
+
+  test("posts thread replies with buttons as blocks", async () => {
+    reset();
+    apiResponses["chat.postMessage"] = { ok: true, ts: "9.0001" };
+    const adapter = buildAdapter();
+
+    const ts = await adapter.sendEditable({
+      chatId: "C1",
+      threadId: "4.0",
+      text: "Approve?",
+      buttons: [[{ label: "Approve", data: "approve:w1" }]],
+    });
+
+    expect(ts).toBe("9.0001");
+    expect(calls).toHaveLength(1);
+    const { fields } = calls[0]!;
+    expect(fields.channel).toBe("C1");
+    expect(fields.thread_ts).toBe("4.0");
+    expect(fields.text).toBe("Approve?");
+    expect(JSON.parse(fields.blocks!)).toEqual([
+      { type: "section", text: { type: "mrkdwn", text: "Approve?" } },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            action_id: "button_0_0",
+            text: { type: "plain_text", text: "Approve" },
+            value: "approve:w1",
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("raises Slack errors, flagging missing threads for a top-level retry", async () => {
+    reset();
+    apiResponses["chat.postMessage"] = { ok: false, error: "thread_not_found" };
+    const adapter = buildAdapter();
+
+    const error = await adapter
+      .send({ chatId: "C1", threadId: "4.0", text: "hi" })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SlackApiError);
+    expect((error as SlackApiError).code).toBe("thread_not_found");
+    expect((error as SlackApiError).threadRejected).toBeTrue();
+
+    apiResponses["chat.update"] = { ok: false, error: "message_not_found" };
+    const editError = await adapter
+      .editMessage({ chatId: "C1", messageId: "9.0", text: "x" })
+      .catch((caught: unknown) => caught);
+    expect((editError as SlackApiError).threadRejected).toBeFalse();
+    expect((editError as SlackApiError).permanent).toBeTrue();
+
+    apiResponses["chat.update"] = { ok: false, error: "ratelimited" };
+    const limited = await adapter
+      .editMessage({ chatId: "C1", messageId: "9.0", text: "x" })
+      .catch((caught: unknown) => caught);
+    expect((limited as SlackApiError).permanent).toBeFalse();
+  });
+});
@@ -1,88 +1,286 @@
-import type { InboundMessage, OutboundMessage } from "@delegate/domain";
-import type { ChatPort, ChatUpdate } from "@delegate/ports";
+import { timingSafeEqual } from "node:crypto";
+import { basename } from "node:path";
+import {
+  ChatDeliveryError,
+  type InboundAttachment,
+  type InboundCallback,
+  type InboundMessage,
+  type MessageEdit,
+  type OutboundDocument,
+  type OutboundMessage,
+} from "@delegate/domain";
+import type {
+  ChatPort,
+  ChatUpdate,
+  ChatUpdateInboxPort,
+  DownloadedFile,
+} from "@delegate/ports";
+
+type TelegramUser = {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+};
+
+type TelegramMessage = {
+  message_id: number;
+  date: number;
+  from?: TelegramUser;
+  text?: string;
+  caption?: string;
+  voice?: {
+    file_id: string;
+    duration: number;
+    mime_type?: string;
+  };
+  document?: {
+    file_id: string;
+    file_name?: string;
+    mime_type?: string;
+    file_size?: number;
+  };
+  /** Available sizes of one photo, smallest first. */
+  photo?: Array<{
+    file_id: string;
+    width: number;
+    height: number;
+    file_size?: number;
+  }>;
+  message_thread_id?: number;
+  chat: {
+    id: number;
+  };
+};
+
+type TelegramCallbackQuery = {
+  id: string;
+  from?: TelegramUser;
+  data?: string;
+  message?: TelegramMessage;
+};
+
+type TelegramUpdate = {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+};
 
 type TelegramGetUpdatesResponse = {
   ok: boolean;
-  result: Array<{
-    update_id: number;
-    message?: {
-      message_id: number;
-      date: number;
-      text?: string;
-      message_thread_id?: number;
-      chat: {
-        id: number;
-      };
-    };
-  }>;
+  result: TelegramUpdate[];
 };
 
 type TelegramSendMessageResponse = {
   ok: boolean;
+  result?: {
+    message_id: number;
+  };
+};
+
+type TelegramGetFileResponse = {
+  ok: boolean;
+  result?: {
+    file_id: string;
+    file_path?: string;
+  };
 };
 
 /**
  * Structured error for Telegram API HTTP failures.
  * Enables reliable error handling via `instanceof` instead of fragile string matching.
+ * A 400 on a threaded send usually means the forum topic is gone.
  */
-export class TelegramApiError extends Error {
+export class TelegramApiError extends ChatDeliveryError {
   readonly statusCode: number;
-  readonly method: string;
 
-  constructor(statusCode: number, method: string) {
-    super(`Telegram ${method} failed: ${statusCode}`);
+  constructor(statusCode: number, method: string, retryAfterSec?: number) {
+    super(
+      `Telegram ${method} failed: ${statusCode}`,
+      method,
+      statusCode === 400,
+      {
+        // Bad request or blocked by the user: resending will not help
+        permanent: statusCode === 400 || statusCode === 403,
+        ...(retryAfterSec === undefined
+          ? {}
+          : { retryAfterMs: retryAfterSec * 1000 }),
+      },
+    );
     this.name = "TelegramApiError";
     this.statusCode = statusCode;
-    this.method = method;
   }
 }
 
-export class TelegramLongPollingAdapter implements ChatPort {
-  private readonly baseUrl: string;
+/** The error for a failed call, with the wait Telegram asks for after a 429. */
+const apiError = async (
+  response: Response,
+  method: string,
+): Promise<TelegramApiError> => {
+  if (response.status !== 429) {
+    return new TelegramApiError(response.status, method);
+  }
+  try {
+    const body = (await response.json()) as {
+      parameters?: { retry_after?: number };
+    };
+    return new TelegramApiError(
+      response.status,
+      method,
+      body.parameters?.retry_after,
+    );
+  } catch {
+    return new TelegramApiError(response.status, method);
+  }
+};
+
+const ALLOWED_UPDATES = ["message", "callback_query"];
+
+/** `@handle` when the user has one, otherwise their full name. */
+const displayName = (user: TelegramUser): string | null =>
+  user.username
+    ? `@${user.username}`
+    : [user.first_name, user.last_name].filter(Boolean).join(" ") || null;
+
+/** Sending, file access and update mapping shared by polling and webhook delivery. */
+abstract class TelegramBotAdapter implements ChatPort {
+  readonly maxMessageLength = 4096;
+  protected readonly baseUrl: string;
+  private readonly fileBaseUrl: string;
 
-  constructor(private readonly botToken: string) {
+  constructor(botToken: string) {
     this.baseUrl = `https://api.telegram.org/bot${botToken}`;
+    this.fileBaseUrl = `https://api.telegram.org/file/bot${botToken}`;
   }
 
-  async receiveUpdates(cursor: number | null): Promise<ChatUpdate[]> {
-    const payload = {
-      timeout: 20,
-      allowed_updates: ["message"],
-      ...(cursor === null ? {} : { offset: cursor }),
-    };
+  abstract receiveUpdates(cursor: number | null): Promise<ChatUpdate[]>;
 
-    const response = await fetch(`${this.baseUrl}/getUpdates`, {
+  async send(message: OutboundMessage): Promise<void> {
+    await this.postMessage(message);
+  }
+
+  async sendEditable(message: OutboundMessage): Promise<string> {
+    const messageId = await this.postMessage(message);
+    if (messageId === null) {
+      throw new Error("Telegram sendMessage returned no message_id");
+    }
+    return String(messageId);
+  }
+
+  async editMessage(edit: MessageEdit): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/editMessageText`, {
       method: "POST",
       headers: {
         "content-type": "application/json",
       },
-      body: JSON.stringify(payload),
+      body: JSON.stringify({
+        chat_id: edit.chatId,
+        message_id: Number(edit.messageId),
+        text: edit.text,
+      }),
     });
 
     if (!response.ok) {
-      throw new TelegramApiError(response.status, "getUpdates");
+      throw await apiError(response, "editMessageText");
     }
+  }
 
-    const decoded = (await response.json()) as TelegramGetUpdatesResponse;
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/deleteMessage`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        chat_id: chatId,
+        message_id: Number(messageId),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "deleteMessage");
+    }
+  }
+
+  async sendDocument(document: OutboundDocument): Promise<void> {
+    const file = Bun.file(document.path);
+    const form = new FormData();
+    form.append("chat_id", document.chatId);
+    if (document.threadId) {
+      form.append("message_thread_id", document.threadId);
+    }
+    if (document.caption) {
+      form.append("caption", document.caption);
+    }
+    form.append(
+      "document",
+      new Blob([await file.arrayBuffer()], { type: file.type }),
+      basename(document.path),
+    );
+
+    const response = await fetch(`${this.baseUrl}/sendDocument`, {
+      method: "POST",
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "sendDocument");
+    }
+
+    const decoded = (await response.json()) as TelegramSendMessageResponse;
     if (!decoded.ok) {
-      throw new Error("Telegram getUpdates returned ok=false");
+      throw new Error("Telegram sendDocument returned ok=false");
     }
+  }
 
-    return decoded.result
-      .map((update) => {
-        const mapped = this.mapInbound(update.update_id, update.message);
-        if (!mapped) {
-          return null;
-        }
-        return {
-          updateId: update.update_id,
-          message: mapped,
-        } satisfies ChatUpdate;
-      })
-      .filter((entry): entry is ChatUpdate => entry !== null);
+  async answerCallback(callbackId: string, text?: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/answerCallbackQuery`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        callback_query_id: callbackId,
+        ...(text ? { text } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "answerCallbackQuery");
+    }
   }
 
-  async send(message: OutboundMessage): Promise<void> {
+  async downloadFile(fileId: string): Promise<DownloadedFile> {
+    const response = await fetch(`${this.baseUrl}/getFile`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({ file_id: fileId }),
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "getFile");
+    }
+
+    const decoded = (await response.json()) as TelegramGetFileResponse;
+    const filePath = decoded.result?.file_path;
+    if (!decoded.ok || !filePath) {
+      throw new Error("Telegram getFile returned no file_path");
+    }
+
+    const download = await fetch(`${this.fileBaseUrl}/${filePath}`);
+    if (!download.ok) {
+      throw await apiError(download, "downloadFile");
+    }
+
+    return {
+      data: new Uint8Array(await download.arrayBuffer()),
+      fileName: filePath.split("/").pop() ?? filePath,
+    };
+  }
+
+  private async postMessage(message: OutboundMessage): Promise<number | null> {
     const response = await fetch(`${this.baseUrl}/sendMessage`, {
       method: "POST",
       headers: {
@@ -94,34 +292,80 @@ export class TelegramLongPollingAdapter implements ChatPort {
         ...(message.threadId
           ? { message_thread_id: Number(message.threadId) }
           : {}),
+        ...(message.buttons && message.buttons.length > 0
+          ? {
+              reply_markup: {
+                inline_keyboard: message.buttons.map((row) =>
+                  row.map((button) => ({
+                    text: button.label,
+                    callback_data: button.data,
+                  })),
+                ),
+              },
+            }
+          : {}),
       }),
     });
 
     if (!response.ok) {
-      throw new TelegramApiError(response.status, "sendMessage");
+      throw await apiError(response, "sendMessage");
     }
 
     const decoded = (await response.json()) as TelegramSendMessageResponse;
     if (!decoded.ok) {
       throw new Error("Telegram sendMessage returned ok=false");
     }
+    return decoded.result?.message_id ?? null;
+  }
+
+  protected mapUpdates(updates: TelegramUpdate[]): ChatUpdate[] {
+    return updates
+      .map((update): ChatUpdate | null => {
+        if (update.callback_query) {
+          const callback = this.mapCallback(update.callback_query);
+          return callback ? { updateId: update.update_id, callback } : null;
+        }
+        const mapped = this.mapInbound(update.update_id, update.message);
+        if (!mapped) {
+          return null;
+        }
+        return {
+          updateId: update.update_id,
+          message: mapped,
+        };
+      })
+      .filter((entry): entry is ChatUpdate => entry !== null);
+  }
+
+  private mapCallback(raw: TelegramCallbackQuery): InboundCallback | null {
+    // Callbacks on messages too old for Telegram to return carry no chat context.
+    if (!raw.data || !raw.message) {
+      return null;
+    }
+
+    return {
+      callbackId: raw.id,
+      chatId: String(raw.message.chat.id),
+      threadId:
+        typeof raw.message.message_thread_id === "number"
+          ? String(raw.message.message_thread_id)
+          : null,
+      data: raw.data,
+      receivedAt: new Date().toISOString(),
+      sourceMessageId: String(raw.message.message_id),
+      ...(raw.from ? { userId: String(raw.from.id) } : {}),
+    };
   }
 
   private mapInbound(
     updateId: number,
-    rawMessage:
-      | {
-          message_id: number;
-          date: number;
-          text?: string;
-          message_thread_id?: number;
-          chat: {
-            id: number;
-          };
-        }
-      | undefined,
+    rawMessage: TelegramMessage | undefined,
   ): InboundMessage | null {
-    if (!rawMessage?.text) {
+    if (!rawMessage) {
+      return null;
+    }
+    const attachments = this.mapAttachments(rawMessage);
+    if (!rawMessage.text && !rawMessage.voice && attachments.length === 0) {
       return null;
     }
 
@@ -131,9 +375,237 @@ export class TelegramLongPollingAdapter implements ChatPort {
         typeof rawMessage.message_thread_id === "number"
           ? String(rawMessage.message_thread_id)
           : null,
-      text: rawMessage.text.trim(),
+      text: (rawMessage.text ?? rawMessage.caption ?? "").trim(),
       receivedAt: new Date(rawMessage.date * 1000).toISOString(),
       sourceMessageId: `${updateId}:${rawMessage.message_id}`,
+      ...(rawMessage.from
+        ? {
+            userId: String(rawMessage.from.id),
+            userName: displayName(rawMessage.from),
+          }
+        : {}),
+      ...(rawMessage.voice
+        ? {
+            voice: {
+              fileId: rawMessage.voice.file_id,
+              durationSec: rawMessage.voice.duration,
+              mimeType: rawMessage.voice.mime_type ?? null,
+            },
+          }
+        : {}),
+      ...(attachments.length > 0 ? { attachments } : {}),
     };
   }
+
+  private mapAttachments(rawMessage: TelegramMessage): InboundAttachment[] {
+    const attachments: InboundAttachment[] = [];
+    if (rawMessage.document) {
+      attachments.push({
+        kind: "document",
+        fileId: rawMessage.document.file_id,
+        fileName: rawMessage.document.file_name ?? null,
+        mimeType: rawMessage.document.mime_type ?? null,
+        sizeBytes: rawMessage.document.file_size ?? null,
+      });
+    }
+    // Telegram sends every resolution of a photo; keep only the largest.
+    const largestPhoto = rawMessage.photo?.at(-1);
+    if (largestPhoto) {
+      attachments.push({
+        kind: "photo",
+        fileId: largestPhoto.file_id,
+        fileName: null,
+        mimeType: "image/jpeg",
+        sizeBytes: largestPhoto.file_size ?? null,
+      });
+    }
+    return attachments;
+  }
+}
+
+export class TelegramLongPollingAdapter extends TelegramBotAdapter {
+  /**
+   * Remove any webhook left from an earlier webhook setup; Telegram answers
+   * getUpdates with a 409 while one is set.
+   */
+  async deleteWebhook(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/deleteWebhook`, {
+      method: "POST",
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "deleteWebhook");
+    }
+  }
+
+  async receiveUpdates(cursor: number | null): Promise<ChatUpdate[]> {
+    const payload = {
+      timeout: 20,
+      allowed_updates: ALLOWED_UPDATES,
+      ...(cursor === null ? {} : { offset: cursor }),
+    };
+
+    const response = await fetch(`${this.baseUrl}/getUpdates`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "getUpdates");
+    }
+
+    const decoded = (await response.json()) as TelegramGetUpdatesResponse;
+    if (!decoded.ok) {
+      throw new Error("Telegram getUpdates returned ok=false");
+    }
+
+    return this.mapUpdates(decoded.result);
+  }
+}
+
+export const TELEGRAM_SECRET_HEADER = "x-telegram-bot-api-secret-token";
+
+export type TelegramWebhookConfig = {
+  /** Public HTTPS URL Telegram posts updates to. */
+  url: string;
+  /** Sent back by Telegram in the X-Telegram-Bot-Api-Secret-Token header. */
+  secretToken: string;
+  /** How long receiveUpdates waits for an update before returning none (default: 20s, as with long polling). */
+  waitMs?: number;
+};
+
+const DEFAULT_WEBHOOK_WAIT_MS = 20_000;
+
+/**
+ * Receives updates pushed by Telegram instead of polling for them. The HTTP
+ * server hands each webhook request to `handleRequest`, which stores the
+ * update in the inbox before acknowledging it; the worker drains the inbox
+ * through `receiveUpdates` exactly as it would with long polling.
+ */
+export class TelegramWebhookAdapter extends TelegramBotAdapter {
+  private readonly webhook: TelegramWebhookConfig;
+  private readonly inbox: ChatUpdateInboxPort;
+  /** Bumped on every stored update, so a receive never sleeps past one. */
+  private arrivals = 0;
+  private wakeReceiver: (() => void) | null = null;
+
+  constructor(
+    botToken: string,
+    webhook: TelegramWebhookConfig,
+    inbox: ChatUpdateInboxPort,
+  ) {
+    super(botToken);
+    this.webhook = webhook;
+    this.inbox = inbox;
+  }
+
+  /** Point the bot at `url`. Telegram stops answering getUpdates once this is set. */
+  async register(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/setWebhook`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+      },
+      body: JSON.stringify({
+        url: this.webhook.url,
+        secret_token: this.webhook.secretToken,
+        allowed_updates: ALLOWED_UPDATES,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "setWebhook");
+    }
+  }
+
+  /**
+   * Accept one webhook POST. Anything but a 2xx makes Telegram retry it, so
+   * the update is stored first and a failed write is answered with a 500.
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    if (!this.hasValidSecret(request.headers.get(TELEGRAM_SECRET_HEADER))) {
+      return Response.json(
+        { ok: false, error: "unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    let update: TelegramUpdate;
+    try {
+      update = (await request.json()) as TelegramUpdate;
+    } catch {
+      return Response.json(
+        { ok: false, error: "invalid_json" },
+        { status: 400 },
+      );
+    }
+    if (typeof update?.update_id !== "number") {
+      return Response.json(
+        { ok: false, error: "missing_update_id" },
+        { status: 400 },
+      );
+    }
+
+    try {
+      await this.inbox.saveChatUpdate(
+        update.update_id,
+        JSON.stringify(update),
+        new Date().toISOString(),
+      );
+    } catch {
+      return Response.json(
+        { ok: false, error: "store_failed" },
+        { status: 500 },
+      );
+    }
+    this.arrivals += 1;
+    this.wakeReceiver?.();
+    return Response.json({ ok: true });
+  }
+
+  /**
+   * Same contract as getUpdates: the cursor is the first id not yet
+   * processed. Updates below it are dropped from the inbox, which also
+   * discards Telegram redeliveries of updates the worker already took.
+   */
+  async receiveUpdates(cursor: number | null): Promise<ChatUpdate[]> {
+    if (cursor !== null) {
+      await this.inbox.deleteChatUpdatesBefore(cursor);
+    }
+    const arrivals = this.arrivals;
+    let stored = await this.inbox.listChatUpdates(cursor);
+    if (stored.length === 0 && arrivals === this.arrivals) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(
+          resolve,
+          this.webhook.waitMs ?? DEFAULT_WEBHOOK_WAIT_MS,
+        );
+        this.wakeReceiver = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wakeReceiver = null;
+    }
+    if (stored.length === 0) {
+      stored = await this.inbox.listChatUpdates(cursor);
+    }
+    return this.mapUpdates(
+      stored.map((entry) => JSON.parse(entry.payload) as TelegramUpdate),
+    );
+  }
+
+  private hasValidSecret(received: string | null): boolean {
+    if (received === null) {
+      return false;
+    }
+    const expected = Buffer.from(this.webhook.secretToken);
+    const actual = Buffer.from(received);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
 }
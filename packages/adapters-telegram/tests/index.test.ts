@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { TelegramLongPollingAdapter } from "../src/index";
+
+type CapturedCall = { method: string; body: Record<string, unknown> };
+
+/** Answer every Bot API call with `result`, recording what was sent. */
+const stubBotApi = (result: unknown) => {
+  const calls: CapturedCall[] = [];
+  const fetchSpy = spyOn(globalThis, "fetch").mockImplementation((async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ) => {
+    calls.push({
+      method: String(input).split("/").pop() ?? "",
+      body: JSON.parse(String(init?.body ?? "{}")) as Record<string, unknown>,
+    });
+    return Response.json({ ok: true, result });
+  }) as typeof fetch);
+  return { calls, fetchSpy };
+};
+
+let restore: (() => void) | null = null;
+
+afterEach(() => {
+  restore?.();
+  restore = null;
+});
+
+describe("TelegramLongPollingAdapter button presses", () => {
+  test("asks for callback queries and maps them with their chat and topic", async () => {
+    const { calls, fetchSpy } = stubBotApi([
+      {
+        update_id: 7,
+        callback_query: {
+          id: "cb-7",
+          from: { id: 778 },
+          data: "retry:w1",
+          message: {
+            message_id: 70,
+            message_thread_id: 5,
+            date: 1_760_000_000,
+            chat: { id: -100 },
+          },
+        },
+      },
+      {
+        update_id: 8,
+        // Too old for Telegram to include the message it came from
+        callback_query: { id: "cb-8", from: { id: 778 }, data: "retry:w2" },
+      },
+    ]);
+    restore = () => fetchSpy.mockRestore();
+
+    const updates = await new TelegramLongPollingAdapter(
+      "123:abc",
+    ).receiveUpdates(7);
+
+    expect(calls[0]?.method).toBe("getUpdates");
+    expect(calls[0]?.body.allowed_updates).toEqual([
+      "message",
+      "callback_query",
+    ]);
+    expect(updates).toEqual([
+      {
+        updateId: 7,
+        callback: {
+          callbackId: "cb-7",
+          chatId: "-100",
+          threadId: "5",
+          data: "retry:w1",
+          receivedAt: expect.any(String),
+          sourceMessageId: "70",
+          userId: "778",
+        },
+      },
+    ]);
+  });
+
+  test("sends buttons as an inline keyboard and answers presses", async () => {
+    const { calls, fetchSpy } = stubBotApi({ message_id: 71 });
+    restore = () => fetchSpy.mockRestore();
+    const adapter = new TelegramLongPollingAdapter("123:abc");
+
+    await adapter.send({
+      chatId: "42",
+      text: "Approve?",
+      buttons: [
+        [
+          { label: "Approve", data: "approve:w1" },
+          { label: "Deny", data: "deny:w1" },
+        ],
+      ],
+    });
+    await adapter.answerCallback("cb-7", "Approved");
+    await adapter.answerCallback("cb-8");
+
+    expect(calls.map((call) => call.method)).toEqual([
+      "sendMessage",
+      "answerCallbackQuery",
+      "answerCallbackQuery",
+    ]);
+    expect(calls[0]?.body.reply_markup).toEqual({
+      inline_keyboard: [
+        [
+          { text: "Approve", callback_data: "approve:w1" },
+          { text: "Deny", callback_data: "deny:w1" },
+        ],
+      ],
+    });
+    expect(calls[1]?.body).toEqual({
+      callback_query_id: "cb-7",
+      text: "Approved",
+    });
+    expect(calls[2]?.body).toEqual({ callback_query_id: "cb-8" });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, test } from "bun:test";
+import type { StoredChatUpdate } from "@delegate/domain";
+import type { ChatUpdateInboxPort } from "@delegate/ports";
+import { TELEGRAM_SECRET_HEADER, TelegramWebhookAdapter } from "../src/index";
+
+const SECRET = "test-secret_1";
+
+class MemoryInbox implements ChatUpdateInboxPort {
+  readonly updates = new Map<number, string>();
+
+  async saveChatUpdate(updateId: number, payload: string): Promise<void> {
+    if (!this.updates.has(updateId)) {
+      this.updates.set(updateId, payload);
+    }
+  }
+
+  async listChatUpdates(
+    fromUpdateId: number | null,
+  ): Promise<StoredChatUpdate[]> {
+    return [...this.updates]
+      .filter(([updateId]) => fromUpdateId === null || updateId >= fromUpdateId)
+      .sort(([a], [b]) => a - b)
+      .map(([updateId, payload]) => ({ updateId, payload }));
+  }
+
+  async deleteChatUpdatesBefore(updateId: number): Promise<void> {
+    for (const id of this.updates.keys()) {
+      if (id < updateId) {
+        this.updates.delete(id);
+      }
+    }
+  }
+}
+
+const buildAdapter = (
+  waitMs = 20,
+  inbox: ChatUpdateInboxPort = new MemoryInbox(),
+) =>
+  new TelegramWebhookAdapter(
+    "123:abc",
+    {
+      url: "https://bot.example.ts.net/telegram",
+      secretToken: SECRET,
+      waitMs,
+    },
+    inbox,
+  );
+
+const textUpdate = (updateId: number, text: string) => ({
+  update_id: updateId,
+  message: {
+    message_id: updateId * 10,
+    date: 1_760_000_000,
+    text,
+    chat: { id: 42 },
+  },
+});
+
+const post = (body: unknown, secret: string | null = SECRET): Request =>
+  new Request("http://127.0.0.1/telegram", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      ...(secret === null ? {} : { [TELEGRAM_SECRET_HEADER]: secret }),
+    },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+describe("TelegramWebhookAdapter", () => {
+  test("rejects requests without the secret token", async () => {
+    const adapter = buildAdapter();
+
+    expect(
+      (await adapter.handleRequest(post(textUpdate(1, "hi"), null))).status,
+    ).toBe(401);
+    expect(
+      (await adapter.handleRequest(post(textUpdate(1, "hi"), "wrong"))).status,
+    ).toBe(401);
+    expect(await adapter.receiveUpdates(null)).toEqual([]);
+  });
+
+  test("rejects bodies that are not updates", async () => {
+    const adapter = buildAdapter();
+
+    expect((await adapter.handleRequest(post("{not json"))).status).toBe(400);
+    expect((await adapter.handleRequest(post({ message: {} }))).status).toBe(
+      400,
+    );
+  });
+
+  test("maps queued updates in update id order", async () => {
+    const adapter = buildAdapter();
+
+    expect(
+      (await adapter.handleRequest(post(textUpdate(8, "second")))).status,
+    ).toBe(200);
+    await adapter.handleRequest(post(textUpdate(7, "first")));
+
+    const updates = await adapter.receiveUpdates(null);
+    expect(updates.map((update) => update.updateId)).toEqual([7, 8]);
+    expect(updates[0]).toMatchObject({
+      updateId: 7,
+      message: {
+        chatId: "42",
+        threadId: null,
+        text: "first",
+        sourceMessageId: "7:70",
+      },
+    });
+  });
+
+  test("keeps the sender of messages and button presses", async () => {
+    const adapter = buildAdapter();
+
+    await adapter.handleRequest(
+      post({
+        update_id: 3,
+        message: {
+          ...textUpdate(3, "hello").message,
+          from: { id: 777, first_name: "Ada", last_name: "L" },
+        },
+      }),
+    );
+    await adapter.handleRequest(
+      post({
+        update_id: 4,
+        callback_query: {
+          id: "cb-1",
+          from: { id: 778, username: "grace" },
+          data: "approve:w1",
+          message: textUpdate(2, "Approve?").message,
+        },
+      }),
+    );
+
+    const updates = await adapter.receiveUpdates(null);
+    expect(updates[0]).toMatchObject({
+      message: { userId: "777", userName: "Ada L" },
+    });
+    expect(updates[1]).toMatchObject({
+      callback: { userId: "778", data: "approve:w1" },
+    });
+  });
+
+  test("drops redeliveries and updates before the cursor", async () => {
+    const adapter = buildAdapter();
+
+    await adapter.handleRequest(post(textUpdate(5, "old")));
+    await adapter.handleRequest(post(textUpdate(6, "new")));
+    await adapter.handleRequest(post(textUpdate(6, "new")));
+    const first = await adapter.receiveUpdates(6);
+    expect(first.map((update) => update.updateId)).toEqual([6]);
+
+    // Telegram retrying an update the worker already has
+    await adapter.handleRequest(post(textUpdate(6, "new")));
+    expect(await adapter.receiveUpdates(7)).toEqual([]);
+  });
+
+  test("wakes a waiting receive as soon as an update arrives", async () => {
+    const adapter = buildAdapter(5_000);
+    const started = Date.now();
+
+    const receiving = adapter.receiveUpdates(null);
+    await adapter.handleRequest(post(textUpdate(1, "ping")));
+    const updates = await receiving;
+
+    expect(updates).toHaveLength(1);
+    expect(Date.now() - started).toBeLessThan(1_000);
+  });
+
+  test("keeps stored updates across a restart until the cursor passes them", async () => {
+    const inbox = new MemoryInbox();
+    await buildAdapter(20, inbox).handleRequest(post(textUpdate(9, "queued")));
+
+    const restarted = buildAdapter(20, inbox);
+    expect(
+      (await restarted.receiveUpdates(9)).map((update) => update.updateId),
+    ).toEqual([9]);
+    // Not yet confirmed by a later cursor, so it is offered again
+    expect(
+      (await restarted.receiveUpdates(9)).map((update) => update.updateId),
+    ).toEqual([9]);
+    expect(await restarted.receiveUpdates(10)).toEqual([]);
+    expect(inbox.updates.size).toBe(0);
+  });
+
+  test("answers with an error when the update cannot be stored", async () => {
+    const inbox = new MemoryInbox();
+    inbox.saveChatUpdate = async () => {
+      throw new Error("disk full");
+    };
+    const adapter = buildAdapter(20, inbox);
+
+    expect(
+      (await adapter.handleRequest(post(textUpdate(1, "hi")))).status,
+    ).toBe(500);
+    expect(await adapter.receiveUpdates(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { TranscriptionInput, TranscriptionPort } from "@delegate/ports";
+
+export type WhisperTranscriberConfig = {
+  /** Base URL of the transcription server, e.g. http://127.0.0.1:8080 */
+  url: string;
+  /**
+   * Request shape to use:
+   * - `whisper_cpp`: whisper.cpp `server` (POST /inference)
+   * - `openai`: OpenAI-compatible servers (POST /v1/audio/transcriptions)
+   */
+  api: "whisper_cpp" | "openai";
+  /** Model name, sent only for the `openai` API. */
+  model?: string | null;
+  /** Request timeout. Default: 60000 */
+  timeoutMs?: number;
+};
+
+/** Response body for both supported APIs with `response_format=json`. */
+type TranscriptionResponse = {
+  text?: string;
+};
+
+/**
+ * Transcribes audio through a local whisper-style HTTP endpoint.
+ *
+ * Telegram voice notes are OGG/Opus; whisper.cpp's server needs to be started
+ * with `--convert` (ffmpeg) to accept them.
+ */
+export class WhisperHttpTranscriber implements TranscriptionPort {
+  constructor(private readonly config: WhisperTranscriberConfig) {}
+
+  async transcribe(input: TranscriptionInput): Promise<{ text: string }> {
+    const form = new FormData();
+    form.append(
+      "file",
+      new Blob([new Uint8Array(input.audio)], { type: input.mimeType }),
+      input.fileName,
+    );
+    form.append("response_format", "json");
+
+    let endpoint: string;
+    if (this.config.api === "openai") {
+      endpoint = "/v1/audio/transcriptions";
+      form.append("model", this.config.model ?? "whisper-1");
+    } else {
+      endpoint = "/inference";
+    }
+
+    const response = await fetch(
+      `${this.config.url.replace(/\/+$/, "")}${endpoint}`,
+      {
+        method: "POST",
+        body: form,
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? 60_000),
+      },
+    );
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(
+        `Transcription error ${String(response.status)}: ${body.slice(0, 200)}`,
+      );
+    }
+
+    const data = (await response.json()) as TranscriptionResponse;
+    if (typeof data.text !== "string") {
+      throw new Error("Transcription response missing text");
+    }
+    return { text: data.text.trim() };
+  }
+}
@@ -0,0 +1,94 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { WhisperHttpTranscriber } from "../src/index";
+
+type CapturedRequest = {
+  path: string;
+  fields: Record<string, string>;
+  fileName: string | null;
+  fileSize: number;
+};
+
+const captured: CapturedRequest[] = [];
+let nextResponse: Response | null = null;
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const form = await request.formData();
+    const fields: Record<string, string> = {};
+    let fileName: string | null = null;
+    let fileSize = 0;
+    for (const [key, value] of form.entries()) {
+      if (typeof value === "string") {
+        fields[key] = value;
+      } else {
+        fileName = value.name;
+        fileSize = value.size;
+      }
+    }
+    captured.push({
+      path: new URL(request.url).pathname,
+      fields,
+      fileName,
+      fileSize,
+    });
+    const response = nextResponse ?? Response.json({ text: " hello there " });
+    nextResponse = null;
+    return response;
+  },
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+const audio = {
+  audio: new Uint8Array([1, 2, 3, 4]),
+  fileName: "file_7.oga",
+  mimeType: "audio/ogg",
+};
+
+describe("WhisperHttpTranscriber", () => {
+  test("posts to whisper.cpp /inference and trims the transcript", async () => {
+    const transcriber = new WhisperHttpTranscriber({
+      url: `http://127.0.0.1:${server.port}/`,
+      api: "whisper_cpp",
+    });
+
+    const result = await transcriber.transcribe(audio);
+
+    expect(result.text).toBe("hello there");
+    const request = captured.at(-1);
+    expect(request?.path).toBe("/inference");
+    expect(request?.fileName).toBe("file_7.oga");
+    expect(request?.fileSize).toBe(4);
+    expect(request?.fields.response_format).toBe("json");
+    expect(request?.fields.model).toBeUndefined();
+  });
+
+  test("posts to the OpenAI-compatible endpoint with a model", async () => {
+    const transcriber = new WhisperHttpTranscriber({
+      url: `http://127.0.0.1:${server.port}`,
+      api: "openai",
+      model: "large-v3",
+    });
+
+    await transcriber.transcribe(audio);
+
+    const request = captured.at(-1);
+    expect(request?.path).toBe("/v1/audio/transcriptions");
+    expect(request?.fields.model).toBe("large-v3");
+  });
+
+  test("throws on HTTP errors", async () => {
+    const transcriber = new WhisperHttpTranscriber({
+      url: `http://127.0.0.1:${server.port}`,
+      api: "whisper_cpp",
+    });
+    nextResponse = new Response("unsupported format", { status: 400 });
+
+    await expect(transcriber.transcribe(audio)).rejects.toThrow(
+      "Transcription error 400: unsupported format",
+    );
+  });
+});
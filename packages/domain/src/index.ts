@@ -1,17 +1,173 @@
+/** A voice note attached to an inbound message, fetched via ChatPort.downloadFile. */
+export type InboundVoice = {
+  fileId: string;
+  durationSec: number;
+  mimeType: string | null;
+};
+
+/** A document or photo attached to an inbound message. */
+export type InboundAttachment = {
+  kind: "document" | "photo";
+  fileId: string;
+  /** Original file name; photos carry none. */
+  fileName: string | null;
+  mimeType: string | null;
+  sizeBytes: number | null;
+};
+
 export type InboundMessage = {
   chatId: string;
   threadId?: string | null;
+  /** Message text, or the caption (possibly empty) when media is attached. */
   text: string;
   receivedAt: string;
   sourceMessageId?: string;
+  /** Platform id of the sender; absent for messages the assistant makes itself. */
+  userId?: string | null;
+  /** Display name or handle of the sender, for access requests. */
+  userName?: string | null;
+  /** Set on turns a schedule starts; `userId` is then the schedule's creator. */
+  source?: "schedule";
+  /** On scheduled turns, the creator's role when they set the schedule up. */
+  creatorRole?: AccessRole;
+  voice?: InboundVoice;
+  attachments?: InboundAttachment[];
+};
+
+/** A tappable inline button. `data` is echoed back in the resulting callback. */
+export type InlineButton = {
+  label: string;
+  data: string;
 };
 
 export type OutboundMessage = {
   chatId: string;
   threadId?: string | null;
   text: string;
+  /** Optional inline keyboard, one inner array per row. */
+  buttons?: InlineButton[][];
+};
+
+/** New text for a message previously sent with ChatPort.sendEditable. */
+export type MessageEdit = {
+  chatId: string;
+  messageId: string;
+  text: string;
+};
+
+/** A local file the model asked to deliver to the user. */
+export type OutboundFile = {
+  /** Absolute path, already validated against the workspace. */
+  path: string;
+  caption?: string;
+};
+
+/** A file upload to a chat, sent as a document so it keeps its name and bytes. */
+export type OutboundDocument = OutboundFile & {
+  chatId: string;
+  threadId?: string | null;
 };
 
+/** A button press on a previously sent message. */
+export type InboundCallback = {
+  callbackId: string;
+  chatId: string;
+  threadId?: string | null;
+  data: string;
+  receivedAt: string;
+  sourceMessageId?: string;
+  /** Platform id of whoever pressed the button. */
+  userId?: string | null;
+};
+
+export type WorkItemStatus =
+  | "received"
+  | "running"
+  | "pending_approval"
+  | "approved"
+  | "denied"
+  | "expired"
+  | "interrupted"
+  | "completed"
+  | "failed";
+
+/** A unit of delegated work tracked durably across turns. */
+export type WorkItem = {
+  id: string;
+  topicKey: string;
+  chatId: string;
+  threadId: string | null;
+  status: WorkItemStatus;
+  /** The user request that produced this work item. */
+  requestText: string;
+  /** The model's proposal awaiting approval, if any. */
+  proposalText: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A recurring task that runs as an agent turn in its topic. */
+export type Schedule = {
+  id: string;
+  topicKey: string;
+  chatId: string;
+  threadId: string | null;
+  /** Recurrence as written by the user, e.g. "every weekday at 8:00". */
+  recurrence: string;
+  /** The request sent to the assistant each time the schedule fires. */
+  taskText: string;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  createdAt: string;
+  /** Who set the schedule up; null when the platform gave no sender. */
+  createdBy: string | null;
+  /** Their role then. A run never gets more, and is refused once they lose access. */
+  creatorRole: AccessRole;
+};
+
+/** A one-shot message delivered to a chat at a set time, without a model turn. */
+export type Reminder = {
+  id: string;
+  chatId: string;
+  threadId: string | null;
+  text: string;
+  dueAt: string;
+  createdAt: string;
+  deliveredAt: string | null;
+  /** Failed sends so far; delivery stops once `failedAt` is set. */
+  attempts: number;
+  lastError: string | null;
+  failedAt: string | null;
+};
+
+export type AccessRole = "owner" | "member" | "blocked";
+
+/**
+ * A role granted to a chat or a user. `pending` marks a chat that asked for
+ * access and is waiting on an owner's decision.
+ */
+export type AccessGrant = {
+  kind: "chat" | "user";
+  subjectId: string;
+  role: AccessRole | "pending";
+  /** Who the grant is for, as shown in `/access`. */
+  label: string | null;
+  updatedAt: string;
+};
+
+/**
+ * A named set of agent tools a topic is limited to, chosen with `/profile`:
+ * `full` is every enabled tool, `research` the web tools only, and
+ * `readonly-code` reading, listing and searching workspace files.
+ */
+export type ToolProfile = "full" | "research" | "readonly-code";
+
+export const TOOL_PROFILES: readonly ToolProfile[] = [
+  "full",
+  "research",
+  "readonly-code",
+];
+
 export type ModelTurnResponse = {
   replyText: string;
   sessionId?: string;
@@ -19,13 +175,42 @@ export type ModelTurnResponse = {
   confidence?: number;
   /** Which model tier handled the request (e.g. "t1", "t2"). */
   tier?: string;
+  /** Provider and model that produced the reply (e.g. "groq", "qwen/qwen3-32b"). */
+  provider?: string;
+  model?: string;
   usage?: {
     inputTokens: number;
     outputTokens: number;
     cost: number;
   };
+  /** Files queued during the turn, delivered after the reply text. */
+  files?: OutboundFile[];
+};
+
+/** One side of an exchange in a topic's rolling conversation transcript. */
+/** An update as the chat platform sent it, kept until the worker has taken it. */
+export type StoredChatUpdate = {
+  updateId: number;
+  payload: string;
+};
+
+export type ConversationTurn = {
+  role: "user" | "assistant";
+  text: string;
+  /** Tier that produced an assistant turn (e.g. "t1", "t2"). */
+  tier: string | null;
+  createdAt: string;
 };
 
+/**
+ * Incremental output from a running model turn, for live delivery before the
+ * final reply is ready.
+ */
+export type ModelStreamEvent =
+  | { type: "step_started"; step: number }
+  | { type: "text_delta"; delta: string }
+  | { type: "tool_call"; toolName: string; summary: string };
+
 export type TurnEventType =
   | "turn_started"
   | "tool_call"
@@ -33,7 +218,8 @@ export type TurnEventType =
   | "step_complete"
   | "step_error"
   | "turn_completed"
-  | "turn_failed";
+  | "turn_failed"
+  | "context_compacted";
 
 // ---------------------------------------------------------------------------
 // Model error classification
@@ -46,13 +232,23 @@ export type ModelErrorClassification =
   | "capacity"
   | "internal"
   | "max_steps"
-  | "aborted";
+  | "aborted"
+  | "context_overflow";
 
 const CLASSIFICATION_PATTERNS: readonly [RegExp, ModelErrorClassification][] = [
+  // First: overflow messages quote token counts that can contain "402" etc.
+  [
+    /context.?length|maximum context|context.?window|prompt is too long|too many tokens/i,
+    "context_overflow",
+  ],
   [/insufficient.?credits|402/i, "billing"],
   [/unauthorized|invalid.{0,6}key|401/i, "auth"],
   [/rate.?limit|429/i, "rate_limit"],
-  [/capacity|overloaded|503/i, "capacity"],
+  // Server errors and unreachable hosts: another provider may still answer
+  [
+    /capacity|overloaded|\b50[0-4]\b|connection refused|econnrefused|econnreset|fetch failed/i,
+    "capacity",
+  ],
 ];
 
 /** Classify a raw upstream error message into a known category. */
@@ -86,6 +282,35 @@ export class ModelError extends Error {
   }
 }
 
+/**
+ * Structured error thrown by chat adapters when the platform rejects a call.
+ * `threadRejected` marks sends that may still succeed at the top level of
+ * the chat, e.g. when the thread or topic no longer exists.
+ * `retryAfterMs` is set when the platform rate-limited the call and said how
+ * long to wait before the next one. `permanent` marks rejections that the
+ * same call will keep getting, e.g. a deleted chat or a bot that was removed.
+ */
+export class ChatDeliveryError extends Error {
+  readonly method: string;
+  readonly threadRejected: boolean;
+  readonly retryAfterMs: number | null;
+  readonly permanent: boolean;
+
+  constructor(
+    message: string,
+    method: string,
+    threadRejected: boolean,
+    options?: ErrorOptions & { retryAfterMs?: number; permanent?: boolean },
+  ) {
+    super(message, options);
+    this.name = "ChatDeliveryError";
+    this.method = method;
+    this.threadRejected = threadRejected;
+    this.retryAfterMs = options?.retryAfterMs ?? null;
+    this.permanent = options?.permanent ?? false;
+  }
+}
+
 export type TurnEvent = {
   turnId: string;
   sessionKey: string;
@@ -93,3 +318,16 @@ export type TurnEvent = {
   timestamp: string;
   data: Record<string, unknown>;
 };
+
+/** Model usage summed over finished (completed or failed) turns. */
+export type UsageTotals = {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+};
+
+export type UsageGrouping = "day" | "topic" | "tier" | "model";
+
+/** Usage for one day, topic, tier or model. */
+export type UsageBucket = UsageTotals & { key: string };
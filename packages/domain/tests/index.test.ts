@@ -38,10 +38,32 @@ describe("classifyModelError", () => {
     expect(classifyModelError("Server overloaded")).toBe("capacity");
   });
 
+  test("classifies server errors and refused connections as capacity", () => {
+    expect(classifyModelError("HTTP 502 Bad Gateway")).toBe("capacity");
+    expect(classifyModelError("connect ECONNREFUSED 127.0.0.1:443")).toBe(
+      "capacity",
+    );
+    expect(classifyModelError("request used 5003 tokens")).toBe("internal");
+  });
+
   test("classifies '503' as capacity", () => {
     expect(classifyModelError("HTTP 503 Service Unavailable")).toBe("capacity");
   });
 
+  test("classifies context-length errors as context_overflow", () => {
+    expect(
+      classifyModelError(
+        "This model's maximum context length is 128000 tokens. However, you requested 140200 tokens.",
+      ),
+    ).toBe("context_overflow");
+    expect(
+      classifyModelError("prompt is too long: 204021 tokens > 200000 maximum"),
+    ).toBe("context_overflow");
+    expect(classifyModelError("context_length_exceeded")).toBe(
+      "context_overflow",
+    );
+  });
+
   test("classifies unknown errors as internal", () => {
     expect(classifyModelError("something completely unexpected")).toBe(
       "internal",
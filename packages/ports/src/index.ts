@@ -1,18 +1,76 @@
 import type {
+  ConversationTurn,
+  InboundCallback,
   InboundMessage,
+  MessageEdit,
+  ModelStreamEvent,
   ModelTurnResponse,
+  OutboundDocument,
   OutboundMessage,
+  StoredChatUpdate,
+  ToolProfile,
   TurnEvent,
 } from "@delegate/domain";
 
-export type ChatUpdate = {
-  updateId: number;
-  message: InboundMessage;
+export type ChatUpdate =
+  | {
+      updateId: number;
+      message: InboundMessage;
+    }
+  | {
+      updateId: number;
+      callback: InboundCallback;
+    };
+
+export type DownloadedFile = {
+  data: Uint8Array;
+  fileName: string;
 };
 
 export interface ChatPort {
+  /** Longest text one message may carry; longer replies are chunked (default: 4096). */
+  readonly maxMessageLength?: number;
   receiveUpdates(cursor: number | null): Promise<ChatUpdate[]>;
   send(message: OutboundMessage): Promise<void>;
+  /** Send a message and return its id so it can be edited in place later. */
+  sendEditable?(message: OutboundMessage): Promise<string>;
+  /** Replace the text of a message sent with sendEditable. */
+  editMessage?(edit: MessageEdit): Promise<void>;
+  /** Remove a message sent with sendEditable. */
+  deleteMessage?(chatId: string, messageId: string): Promise<void>;
+  /** Acknowledge a button press, optionally showing a short notice. */
+  answerCallback?(callbackId: string, text?: string): Promise<void>;
+  /** Fetch the contents of a file referenced by an inbound message. */
+  downloadFile?(fileId: string): Promise<DownloadedFile>;
+  /** Upload a local file to the chat. */
+  sendDocument?(document: OutboundDocument): Promise<void>;
+}
+
+/**
+ * Durable inbox for updates the platform pushes (e.g. a Telegram webhook), so
+ * an update is acknowledged only once it survives a restart.
+ */
+export interface ChatUpdateInboxPort {
+  /** Store an update; one already stored under the same id is kept. */
+  saveChatUpdate(
+    updateId: number,
+    payload: string,
+    receivedAt: string,
+  ): Promise<void>;
+  /** Stored updates from `fromUpdateId` on (all when null), oldest first. */
+  listChatUpdates(fromUpdateId: number | null): Promise<StoredChatUpdate[]>;
+  /** Drop updates below `updateId`, which the worker's cursor has passed. */
+  deleteChatUpdatesBefore(updateId: number): Promise<void>;
+}
+
+export type TranscriptionInput = {
+  audio: Uint8Array;
+  fileName: string;
+  mimeType: string;
+};
+
+export interface TranscriptionPort {
+  transcribe(input: TranscriptionInput): Promise<{ text: string }>;
 }
 
 export type RespondInput = {
@@ -23,6 +81,14 @@ export type RespondInput = {
   pendingProposalWorkItemId: string | null;
   sessionId?: string | null;
   workspacePath?: string;
+  /** Skip tier routing: T2 sends the turn to the cloud, T1 keeps it local. */
+  forceTier?: "t1" | "t2";
+  /** `read_only` withholds tools that write files or run commands (default: full). */
+  toolAccess?: "full" | "read_only";
+  /** Narrows the tools to the topic's profile (default: full). */
+  toolProfile?: ToolProfile;
+  /** Receives text deltas and tool calls while the turn is running. */
+  onStream?: (event: ModelStreamEvent) => void;
 };
 
 export interface ModelPort {
@@ -30,8 +96,70 @@ export interface ModelPort {
   ping?(): Promise<void>;
   /** Clear cached session state (agent, messages) for the given key. */
   resetSession?(sessionKey: string): Promise<void>;
+  /**
+   * Shrink the session's history after it overflowed the model's context
+   * window. Returns true if anything was removed.
+   */
+  compactSession?(sessionKey: string): Promise<boolean>;
 }
 
 export interface TurnEventSink {
   emit(event: TurnEvent): Promise<void>;
 }
+
+/** Rolling per-session transcript shared by every model tier. */
+export interface ConversationHistoryPort {
+  appendConversationTurns(
+    sessionKey: string,
+    turns: ConversationTurn[],
+  ): Promise<void>;
+  /** Most recent turns for the session, oldest first. */
+  listConversationTurns(
+    sessionKey: string,
+    limit: number,
+  ): Promise<ConversationTurn[]>;
+  clearConversationTurns(sessionKey: string): Promise<void>;
+}
+
+/** Opaque, serialized model-side session state (e.g. an agent's messages). */
+export interface ModelSessionStatePort {
+  loadModelSessionState(sessionKey: string): Promise<string | null>;
+  saveModelSessionState(
+    sessionKey: string,
+    state: string,
+    updatedAt: string,
+  ): Promise<void>;
+  deleteModelSessionState(sessionKey: string): Promise<void>;
+}
+
+export type ReminderRequest = {
+  chatId: string;
+  threadId: string | null;
+  text: string;
+  /** When to deliver, e.g. "in 20 minutes", "tomorrow at 9am", an ISO time. */
+  when: string;
+};
+
+/** One-shot reminders delivered to a chat at a set time, without a model turn. */
+export interface ReminderPort {
+  /** Store a reminder. Throws when `when` is unreadable or already past. */
+  scheduleReminder(
+    request: ReminderRequest,
+  ): Promise<{ id: string; dueAt: string; dueLabel: string }>;
+}
+
+export type ShellApprovalRequest = {
+  chatId: string;
+  threadId: string | null;
+  command: string;
+};
+
+/** `timed_out` means nobody answered before the approval window closed. */
+export type ShellApprovalDecision = "approved" | "denied" | "timed_out";
+
+/** Asks the user in chat before execute_shell runs a command off the allowlist. */
+export interface ShellApprovalPort {
+  requestShellApproval(
+    request: ShellApprovalRequest,
+  ): Promise<ShellApprovalDecision>;
+}